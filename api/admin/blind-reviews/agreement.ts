@@ -0,0 +1,135 @@
+/**
+ * GET /api/admin/blind-reviews/agreement
+ *
+ * Inter-rater agreement for blind reviews: for every pair of curators who
+ * labelled the same songs, and for the AI against each curator, the share of
+ * songs they agree on and Cohen's kappa, per tag field (see
+ * api/lib/agreement.ts). The AI is compared using its tags as they were when
+ * the curator labelled the song. Admin only.
+ *
+ * Query Parameters:
+ *   - queueId: Only labels given in this queue (optional)
+ *   - from: Only labels given on or after this date (ISO 8601, optional)
+ *   - to: Only labels given before this date (ISO 8601, optional)
+ *
+ * Response:
+ *   {
+ *     curators: {                  // All curator pairs pooled
+ *       songs: number,
+ *       fields: Record<field, { n, agreement, kappa }>
+ *     },
+ *     ai: { songs, fields },       // The AI against every curator label, pooled
+ *     pairs: Array<{ raters: Array<{ id, name }>, songs, fields }>,
+ *     aiByCurator: Array<{ rater: { id, name }, songs, fields }>
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { compareRaters } from '../../lib/agreement.js';
+import { requireAdmin } from '../../lib/auth.js';
+import { labelValues, type LabelValues } from '../../lib/blind-review.js';
+
+const prisma = new PrismaClient();
+
+interface Rater {
+  id: string;
+  name: string;
+}
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const queueId = typeof req.query.queueId === 'string' && req.query.queueId ? req.query.queueId : undefined;
+  const from = parseDate(req.query.from);
+  const to = parseDate(req.query.to);
+  if (from === null || to === null) {
+    return res.status(400).json({ error: 'from and to must be ISO 8601 dates' });
+  }
+
+  try {
+    const labels = await prisma.blindLabel.findMany({
+      where: {
+        ...(queueId && { queueId }),
+        ...((from || to) && {
+          createdAt: {
+            ...(from && { gte: from }),
+            ...(to && { lt: to }),
+          },
+        }),
+      },
+      orderBy: [{ songIsrc: 'asc' }, { rater: 'asc' }],
+    });
+
+    const bySong = new Map<string, typeof labels>();
+    for (const label of labels) {
+      bySong.set(label.songIsrc, [...(bySong.get(label.songIsrc) || []), label]);
+    }
+
+    // Curator pairs, keyed by their user ids in a fixed order
+    const allPairs: Array<[LabelValues, LabelValues]> = [];
+    const pairs = new Map<string, { raters: Rater[]; songs: Array<[LabelValues, LabelValues]> }>();
+    for (const songLabels of bySong.values()) {
+      if (songLabels.length < 2) continue;
+      const [a, b] = [...songLabels].sort((x, y) => x.userId.localeCompare(y.userId));
+      const key = `${a.userId}:${b.userId}`;
+      let pair = pairs.get(key);
+      if (!pair) {
+        pair = { raters: [{ id: a.userId, name: a.userName }, { id: b.userId, name: b.userName }], songs: [] };
+        pairs.set(key, pair);
+      }
+      const values: [LabelValues, LabelValues] = [labelValues(a), labelValues(b)];
+      pair.songs.push(values);
+      allPairs.push(values);
+    }
+
+    // The AI against each curator label
+    const allAi: Array<[LabelValues, LabelValues]> = [];
+    const aiByCurator = new Map<string, { rater: Rater; songs: Array<[LabelValues, LabelValues]> }>();
+    for (const label of labels) {
+      let entry = aiByCurator.get(label.userId);
+      if (!entry) {
+        entry = { rater: { id: label.userId, name: label.userName }, songs: [] };
+        aiByCurator.set(label.userId, entry);
+      }
+      const values: [LabelValues, LabelValues] = [label.aiValues as LabelValues, labelValues(label)];
+      entry.songs.push(values);
+      allAi.push(values);
+    }
+
+    return res.status(200).json({
+      curators: compareRaters(allPairs),
+      ai: compareRaters(allAi),
+      pairs: [...pairs.values()]
+        .map(pair => ({ raters: pair.raters, ...compareRaters(pair.songs) }))
+        .sort((a, b) => b.songs - a.songs),
+      aiByCurator: [...aiByCurator.values()]
+        .map(entry => ({ rater: entry.rater, ...compareRaters(entry.songs) }))
+        .sort((a, b) => b.songs - a.songs),
+    });
+
+  } catch (error: any) {
+    console.error('Error computing blind review agreement:', error);
+    return res.status(500).json({
+      error: 'Failed to compute agreement',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * GET /api/admin/blind-reviews
+ *
+ * Lists songs whose two blind labels disagree and that are waiting to be
+ * reconciled (POST /api/songs/:isrc/reconcile). Songs whose raters agreed
+ * were already applied when the second label came in. Admin only.
+ *
+ * Query Parameters:
+ *   - queueId: Only songs labelled in this queue (optional)
+ *   - limit: Max songs to return (default: 50, max: 200)
+ *
+ * Response:
+ *   {
+ *     data: Array<{
+ *       isrc, title, artist, artwork,
+ *       labels: Array<{ rater, userId, userName, values, createdAt }>,  // values in API field names
+ *       ai: Record<field, string | null>,  // The AI's tags when the first label came in
+ *       differs: string[]                  // Fields the labels disagree on
+ *     }>,
+ *     total: number
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { BLIND_RATERS, disagreements, labelValues } from '../../lib/blind-review.js';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const queueId = typeof req.query.queueId === 'string' && req.query.queueId ? req.query.queueId : undefined;
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+  try {
+    const where = {
+      reviewed: false,
+      blindLabels: { some: { rater: BLIND_RATERS, ...(queueId && { queueId }) } },
+    };
+
+    const [songs, total] = await Promise.all([
+      prisma.song.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: limit,
+        select: {
+          isrc: true,
+          title: true,
+          artist: true,
+          artwork: true,
+          artworkUrl: true,
+          blindLabels: { orderBy: { rater: 'asc' } },
+        },
+      }),
+      prisma.song.count({ where }),
+    ]);
+
+    const data = songs.map(song => {
+      const [first, second] = song.blindLabels.map(labelValues);
+      return {
+        isrc: song.isrc,
+        title: song.title,
+        artist: song.artist,
+        artwork: song.artworkUrl || song.artwork,
+        labels: song.blindLabels.map(label => ({
+          rater: label.rater,
+          userId: label.userId,
+          userName: label.userName,
+          values: labelValues(label),
+          createdAt: label.createdAt,
+        })),
+        ai: song.blindLabels[0].aiValues,
+        differs: disagreements(first, second),
+      };
+    });
+
+    return res.status(200).json({ data, total });
+
+  } catch (error: any) {
+    console.error('Error fetching blind reviews:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch blind reviews',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * POST /api/admin/cache/invalidate
+ *
+ * Deletes cached classifications so the next upload of a track calls the model
+ * again. Admin only. Filters are combined with AND.
+ *
+ * Body Parameters (at least one required):
+ *   - isrc: Entries for this song's normalized artist/title (and entries it produced)
+ *   - artist: Entries for this artist (normalized the same way as cache keys)
+ *   - promptId: Entries produced with this prompt registry version
+ *
+ * Response:
+ *   { success: true, deleted: number }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { invalidateClassificationCache } from '../../../src/classifiers/classification-cache.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { isrc, artist, promptId } = req.body || {};
+
+  if (!isrc && !artist && !promptId) {
+    return res.status(400).json({
+      error: 'At least one of isrc, artist or promptId is required',
+    });
+  }
+
+  try {
+    const deleted = await invalidateClassificationCache(prisma, { isrc, artist, promptId });
+
+    console.log(`[Cache] ${user.email} invalidated ${deleted} entries (isrc=${isrc || '-'}, artist=${artist || '-'}, promptId=${promptId || '-'})`);
+
+    return res.status(200).json({ success: true, deleted });
+
+  } catch (error: any) {
+    if (error.message?.startsWith('Song not found')) {
+      return res.status(404).json({ error: 'Song not found' });
+    }
+
+    console.error('Error invalidating classification cache:', error);
+    return res.status(500).json({
+      error: 'Failed to invalidate classification cache',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
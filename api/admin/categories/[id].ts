@@ -0,0 +1,112 @@
+/**
+ * PATCH /api/admin/categories/:id
+ *
+ * Renames, describes or reorders a subgenre category. Songs store subgenre
+ * names only, so no song changes. Admin only.
+ *
+ * Body Parameters (all optional):
+ *   - name: New name (unique, case-insensitive)
+ *   - description: New description; empty string clears it
+ *   - position: Display and prompt order
+ *
+ * Response:
+ *   { success: true, category: { id, name, description, position } }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { cleanDescription, cleanTaxonomyName } from '../../lib/taxonomy.js';
+import { loadTaxonomy } from '../../../src/utils/subgenre-loader.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow PATCH requests
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const id = parseInt(req.query.id as string);
+  if (Number.isNaN(id)) {
+    return res.status(400).json({ error: 'Category id is required' });
+  }
+
+  const payload = req.body || {};
+  const data: Record<string, any> = {};
+
+  if (payload.name !== undefined) {
+    const cleaned = cleanTaxonomyName(payload.name);
+    if ('error' in cleaned) {
+      return res.status(400).json({ error: cleaned.error });
+    }
+    data.name = cleaned.name;
+  }
+
+  if (payload.description !== undefined) {
+    data.description = cleanDescription(payload.description);
+  }
+
+  if (payload.position !== undefined) {
+    if (!Number.isInteger(payload.position) || payload.position < 0) {
+      return res.status(400).json({ error: 'position must be a non-negative integer' });
+    }
+    data.position = payload.position;
+  }
+
+  if (Object.keys(data).length === 0) {
+    return res.status(400).json({
+      error: 'No valid fields to update',
+      message: 'Provide name, description or position',
+    });
+  }
+
+  try {
+    const existing = await prisma.category.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    if (data.name !== undefined && data.name !== existing.name) {
+      const conflict = await prisma.category.findFirst({
+        where: { name: { equals: data.name, mode: 'insensitive' }, NOT: { id } },
+      });
+      if (conflict) {
+        return res.status(400).json({
+          error: 'Category already exists',
+          message: `"${conflict.name}" is already a category`,
+        });
+      }
+    }
+
+    const category = await prisma.category.update({ where: { id }, data });
+
+    await loadTaxonomy(prisma, { refresh: true });
+    console.log(`[Subgenres] ${user.email} updated category "${existing.name}" (${Object.keys(data).join(', ')})`);
+
+    return res.status(200).json({
+      success: true,
+      category: {
+        id: category.id,
+        name: category.name,
+        description: category.description,
+        position: category.position,
+      },
+    });
+
+  } catch (error: any) {
+    console.error(`Error updating category ${id}:`, error);
+    return res.status(500).json({
+      error: 'Failed to update category',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * POST /api/admin/categories/create
+ *
+ * Adds a subgenre category (at the end). Admin only.
+ *
+ * Body Parameters:
+ *   - name: Category name (unique, case-insensitive)
+ *   - description: Shown under the category header in the classifier prompt (optional)
+ *
+ * Response:
+ *   { success: true, category: { id, name, description, position } }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { cleanDescription, cleanTaxonomyName } from '../../lib/taxonomy.js';
+import { loadTaxonomy } from '../../../src/utils/subgenre-loader.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { name: rawName, description } = req.body || {};
+
+  const cleaned = cleanTaxonomyName(rawName);
+  if ('error' in cleaned) {
+    return res.status(400).json({ error: cleaned.error });
+  }
+
+  try {
+    const existing = await prisma.category.findFirst({
+      where: { name: { equals: cleaned.name, mode: 'insensitive' } },
+    });
+    if (existing) {
+      return res.status(400).json({
+        error: 'Category already exists',
+        message: `"${existing.name}" is already a category`,
+      });
+    }
+
+    const last = await prisma.category.findFirst({
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    const category = await prisma.category.create({
+      data: {
+        name: cleaned.name,
+        description: cleanDescription(description),
+        position: last ? last.position + 1 : 0,
+      },
+    });
+
+    await loadTaxonomy(prisma, { refresh: true });
+    console.log(`[Subgenres] ${user.email} added category "${category.name}"`);
+
+    return res.status(200).json({
+      success: true,
+      category: {
+        id: category.id,
+        name: category.name,
+        description: category.description,
+        position: category.position,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Error creating category:', error);
+    return res.status(500).json({
+      error: 'Failed to create category',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * GET /api/admin/explicit-jobs
+ *
+ * Lists explicit detection jobs that need attention: FAILED jobs and jobs
+ * SUBMITTED for more than 5 minutes without a result. Admin only.
+ *
+ * Query Parameters:
+ *   - status: Only 'FAILED' or only 'SUBMITTED' (stuck) jobs (optional)
+ *   - limit: Max jobs to return (default: 100, max: 500)
+ *
+ * Response:
+ *   {
+ *     jobs: Array<{ id, isrc, artist, title, source, provider, runId, status, attempts, error, submittedAt, lastCheckedAt, createdAt }>,
+ *     counts: { failed: number, stuck: number }
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { stuckOrFailedWhere } from '../../../src/classifiers/explicit-jobs.cjs';
+
+const prisma = new PrismaClient();
+
+const LISTED_STATUSES = ['FAILED', 'SUBMITTED'];
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+  if (status && !LISTED_STATUSES.includes(status)) {
+    return res.status(400).json({
+      error: 'Invalid status',
+      message: `status must be one of: ${LISTED_STATUSES.join(', ')}`,
+    });
+  }
+
+  const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+  try {
+    const attention = stuckOrFailedWhere();
+    const where = status ? { AND: [attention, { status }] } : attention;
+
+    const [jobs, counts] = await Promise.all([
+      prisma.explicitJob.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        take: limit,
+        select: {
+          id: true,
+          isrc: true,
+          artist: true,
+          title: true,
+          source: true,
+          provider: true,
+          runId: true,
+          status: true,
+          attempts: true,
+          error: true,
+          submittedAt: true,
+          lastCheckedAt: true,
+          createdAt: true,
+        },
+      }),
+      prisma.explicitJob.groupBy({
+        by: ['status'],
+        where: attention,
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countFor = (s: string) => counts.find(c => c.status === s)?._count._all || 0;
+
+    return res.status(200).json({
+      jobs: jobs.map(job => ({
+        ...job,
+        submittedAt: job.submittedAt?.toISOString() || null,
+        lastCheckedAt: job.lastCheckedAt?.toISOString() || null,
+        createdAt: job.createdAt.toISOString(),
+      })),
+      counts: {
+        failed: countFor('FAILED'),
+        stuck: countFor('SUBMITTED'),
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching explicit jobs:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch explicit jobs',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * POST /api/admin/explicit-jobs/resubmit
+ *
+ * Submits explicit detection jobs to Parallel AI again with a new run. The
+ * upload worker cron stores their results as usual. Admin only.
+ *
+ * Body Parameters:
+ *   - ids: ExplicitJob ids to resubmit (max 100)
+ *   - all: true to resubmit every failed or stuck job instead (max 100 per call)
+ *
+ * Response:
+ *   {
+ *     success: true,
+ *     resubmitted: number,
+ *     results: Array<{ id, status, runId, error? }>
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { resubmitExplicitJob, stuckOrFailedWhere } from '../../../src/classifiers/explicit-jobs.cjs';
+
+const prisma = new PrismaClient();
+
+const MAX_RESUBMIT = 100;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { ids, all } = req.body || {};
+
+  if (all !== true && (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string'))) {
+    return res.status(400).json({ error: 'Provide ids (array of job ids) or all: true' });
+  }
+
+  if (all !== true && ids.length > MAX_RESUBMIT) {
+    return res.status(400).json({
+      error: 'Too many jobs',
+      message: `At most ${MAX_RESUBMIT} jobs can be resubmitted per request`,
+    });
+  }
+
+  try {
+    const jobIds: string[] = all === true
+      ? (await prisma.explicitJob.findMany({
+          where: stuckOrFailedWhere(),
+          orderBy: { updatedAt: 'asc' },
+          take: MAX_RESUBMIT,
+          select: { id: true },
+        })).map(job => job.id)
+      : ids;
+
+    const results = await Promise.all(jobIds.map(async id => {
+      try {
+        const job = await resubmitExplicitJob(prisma, id);
+        return { id, status: job.status, runId: job.runId, ...(job.error && { error: job.error }) };
+      } catch (error: any) {
+        return { id, status: 'NOT_FOUND', runId: null, error: error.message };
+      }
+    }));
+
+    const resubmitted = results.filter(r => r.status === 'SUBMITTED').length;
+    console.log(`[ExplicitJobs] ${user.email} resubmitted ${resubmitted}/${jobIds.length} jobs`);
+
+    return res.status(200).json({
+      success: true,
+      resubmitted,
+      results,
+    });
+
+  } catch (error: any) {
+    console.error('Error resubmitting explicit jobs:', error);
+    return res.status(500).json({
+      error: 'Failed to resubmit explicit jobs',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * POST /api/admin/prompts/activate
+ *
+ * Makes a prompt version the active one for new classifications. Admin only.
+ * Activating the current candidate promotes it and ends the rollout.
+ *
+ * Body Parameters:
+ *   - promptId: Registered prompt version id (see prompts/registry.json)
+ *
+ * Response:
+ *   { success: true, rollout: { activePromptId, candidatePromptId, candidatePercent, updatedBy, updatedAt } }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { getPromptRollout } from '../../lib/prompt-rollout.js';
+import { getSystemInstruction } from '../../../src/utils/prompt-registry.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { promptId } = req.body || {};
+
+  if (!promptId || typeof promptId !== 'string') {
+    return res.status(400).json({ error: 'promptId is required' });
+  }
+
+  try {
+    // Fails for unknown ids and for templates edited after registration
+    getSystemInstruction(promptId);
+  } catch (error: any) {
+    return res.status(400).json({
+      error: 'Invalid prompt version',
+      message: error.message,
+    });
+  }
+
+  try {
+    const current = await getPromptRollout(prisma);
+    const promotesCandidate = current.candidatePromptId === promptId;
+
+    const rollout = await prisma.promptRollout.upsert({
+      where: { id: 1 },
+      update: {
+        activePromptId: promptId,
+        ...(promotesCandidate && { candidatePromptId: null, candidatePercent: 0 }),
+        updatedBy: user.name,
+      },
+      create: {
+        id: 1,
+        activePromptId: promptId,
+        updatedBy: user.name,
+      },
+    });
+
+    console.log(`[Prompts] ${user.email} activated prompt ${promptId}${promotesCandidate ? ' (candidate promoted)' : ''}`);
+
+    return res.status(200).json({
+      success: true,
+      rollout: {
+        activePromptId: rollout.activePromptId,
+        candidatePromptId: rollout.candidatePromptId,
+        candidatePercent: rollout.candidatePercent,
+        updatedBy: rollout.updatedBy,
+        updatedAt: rollout.updatedAt.toISOString(),
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Error activating prompt version:', error);
+    return res.status(500).json({
+      error: 'Failed to activate prompt version',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * GET /api/admin/prompts
+ *
+ * Lists registered prompt versions (prompts/registry.json) with the current
+ * rollout and how many songs each version has classified. Admin only.
+ *
+ * Response:
+ *   {
+ *     rollout: { activePromptId, candidatePromptId, candidatePercent, updatedBy, updatedAt },
+ *     versions: Array<{ id, description, createdAt, sha256, songCount, isActive, isCandidate }>
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { getPromptRollout } from '../../lib/prompt-rollout.js';
+import { listPromptVersions } from '../../../src/utils/prompt-registry.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  try {
+    const rollout = await getPromptRollout(prisma);
+
+    const counts = await prisma.song.groupBy({
+      by: ['aiPromptId'],
+      _count: { _all: true },
+    });
+    const countByPrompt = new Map(counts.map(c => [c.aiPromptId, c._count._all]));
+
+    const versions = listPromptVersions().map(version => ({
+      id: version.id,
+      description: version.description,
+      createdAt: version.createdAt,
+      sha256: version.sha256,
+      songCount: countByPrompt.get(version.id) || 0,
+      isActive: version.id === rollout.activePromptId,
+      isCandidate: version.id === rollout.candidatePromptId,
+    }));
+
+    return res.status(200).json({
+      rollout: {
+        ...rollout,
+        updatedAt: rollout.updatedAt?.toISOString() || null,
+      },
+      versions,
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching prompt versions:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch prompt versions',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
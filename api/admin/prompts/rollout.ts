@@ -0,0 +1,101 @@
+/**
+ * POST /api/admin/prompts/rollout
+ *
+ * Sends a percentage of new classifications to a candidate prompt version while
+ * the rest keep using the active version. Admin only.
+ *
+ * Body Parameters:
+ *   - candidatePromptId: Registered prompt version id, or null to stop the rollout
+ *   - percent: Share of classifications for the candidate (0-100)
+ *
+ * Response:
+ *   { success: true, rollout: { activePromptId, candidatePromptId, candidatePercent, updatedBy, updatedAt } }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { getPromptRollout } from '../../lib/prompt-rollout.js';
+import { getSystemInstruction } from '../../../src/utils/prompt-registry.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { candidatePromptId = null, percent = 0 } = req.body || {};
+  const candidatePercent = Number(percent);
+
+  if (!Number.isInteger(candidatePercent) || candidatePercent < 0 || candidatePercent > 100) {
+    return res.status(400).json({ error: 'percent must be an integer between 0 and 100' });
+  }
+
+  if (candidatePromptId !== null) {
+    try {
+      // Fails for unknown ids and for templates edited after registration
+      getSystemInstruction(candidatePromptId);
+    } catch (error: any) {
+      return res.status(400).json({
+        error: 'Invalid prompt version',
+        message: error.message,
+      });
+    }
+  }
+
+  try {
+    const current = await getPromptRollout(prisma);
+
+    if (candidatePromptId !== null && candidatePromptId === current.activePromptId) {
+      return res.status(400).json({
+        error: `${candidatePromptId} is already the active prompt version`,
+      });
+    }
+
+    // Stopping the rollout clears both fields
+    const data = candidatePromptId === null || candidatePercent === 0
+      ? { candidatePromptId: null, candidatePercent: 0 }
+      : { candidatePromptId, candidatePercent };
+
+    const rollout = await prisma.promptRollout.upsert({
+      where: { id: 1 },
+      update: { ...data, updatedBy: user.name },
+      create: {
+        id: 1,
+        activePromptId: current.activePromptId,
+        ...data,
+        updatedBy: user.name,
+      },
+    });
+
+    console.log(`[Prompts] ${user.email} set rollout: ${rollout.candidatePromptId || 'none'} at ${rollout.candidatePercent}%`);
+
+    return res.status(200).json({
+      success: true,
+      rollout: {
+        activePromptId: rollout.activePromptId,
+        candidatePromptId: rollout.candidatePromptId,
+        candidatePercent: rollout.candidatePercent,
+        updatedBy: rollout.updatedBy,
+        updatedAt: rollout.updatedAt.toISOString(),
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Error updating prompt rollout:', error);
+    return res.status(500).json({
+      error: 'Failed to update prompt rollout',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * GET /api/admin/rejections
+ *
+ * Breaks currently rejected songs down by rejection reason, playlist and
+ * curator (who rejected them). Admin only. Songs rejected before reasons were
+ * recorded are counted under UNSPECIFIED.
+ *
+ * Query Parameters:
+ *   - from: Only rejections on or after this date (ISO 8601, optional)
+ *   - to: Only rejections before this date (ISO 8601, optional)
+ *
+ * Response:
+ *   {
+ *     total: number,
+ *     byReason: Array<{ code, label, count }>,
+ *     byPlaylist: Array<{ id, name, count, reasons: Record<code, number> }>,  // Top 50
+ *     byCurator: Array<{ id, name, count, reasons: Record<code, number> }>
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { getRejectionReasons } from '../../../src/utils/rejection-reasons.cjs';
+
+const prisma = new PrismaClient();
+
+const UNSPECIFIED = 'UNSPECIFIED';
+const MAX_PLAYLISTS = 50;
+
+interface Breakdown {
+  id: string | null;
+  name: string;
+  count: number;
+  reasons: Record<string, number>;
+}
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Adds a rejection to the row for `id`, creating it on first use
+function tally(rows: Map<string, Breakdown>, id: string | null, name: string, reason: string) {
+  const key = id ?? name;
+  let row = rows.get(key);
+  if (!row) {
+    row = { id, name, count: 0, reasons: {} };
+    rows.set(key, row);
+  }
+  row.count++;
+  row.reasons[reason] = (row.reasons[reason] || 0) + 1;
+}
+
+const byCount = (a: { count: number }, b: { count: number }) => b.count - a.count;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const from = parseDate(req.query.from);
+  const to = parseDate(req.query.to);
+  if (from === null || to === null) {
+    return res.status(400).json({ error: 'from and to must be ISO 8601 dates' });
+  }
+
+  try {
+    const songs = await prisma.song.findMany({
+      where: {
+        approvalStatus: 'REJECTED',
+        ...((from || to) && {
+          approvedAt: {
+            ...(from && { gte: from }),
+            ...(to && { lt: to }),
+          },
+        }),
+      },
+      select: {
+        rejectionReason: true,
+        approvedBy: true,
+        approvedById: true,
+        playlists: {
+          select: { playlist: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    const labels = new Map(getRejectionReasons().map((reason: { code: string; label: string }) => [reason.code, reason.label]));
+    labels.set(UNSPECIFIED, 'No reason recorded');
+
+    const reasonCounts = new Map<string, number>();
+    const playlists = new Map<string, Breakdown>();
+    const curators = new Map<string, Breakdown>();
+
+    for (const song of songs) {
+      const reason = song.rejectionReason || UNSPECIFIED;
+      reasonCounts.set(reason, (reasonCounts.get(reason) || 0) + 1);
+
+      for (const { playlist } of song.playlists) {
+        tally(playlists, playlist.id, playlist.name, reason);
+      }
+      tally(curators, song.approvedById, song.approvedBy || 'Unknown', reason);
+    }
+
+    return res.status(200).json({
+      total: songs.length,
+      byReason: [...reasonCounts.entries()]
+        // Reasons no longer in the config show their bare code
+        .map(([code, count]) => ({ code, label: labels.get(code) || code, count }))
+        .sort(byCount),
+      byPlaylist: [...playlists.values()].sort(byCount).slice(0, MAX_PLAYLISTS),
+      byCurator: [...curators.values()].sort(byCount),
+    });
+
+  } catch (error: any) {
+    console.error('Error building rejection report:', error);
+    return res.status(500).json({
+      error: 'Failed to build rejection report',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
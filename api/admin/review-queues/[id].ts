@@ -0,0 +1,135 @@
+/**
+ * PATCH /api/admin/review-queues/:id
+ *
+ * Renames a review queue, replaces its assignees, or archives it. Archiving
+ * releases the queue's claims; an archived queue hands out no more songs.
+ * Admin only.
+ *
+ * Body Parameters (all optional):
+ *   - name: New name
+ *   - assignees: Emails of the curators to hand songs to (replaces the list).
+ *     Claims held by removed curators are released.
+ *   - status: 'ACTIVE' | 'ARCHIVED'
+ *
+ * Response:
+ *   { success: true, queue: { id, name, filters, mode, status, assignees: Array<{ id, name, email }> } }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { BLIND_RATERS } from '../../lib/blind-review.js';
+import { VALID_QUEUE_STATUS, cleanQueueName, resolveAssignees } from '../../lib/review-queues.js';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow PATCH requests
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const id = req.query.id as string;
+  if (!id) {
+    return res.status(400).json({ error: 'Queue id is required' });
+  }
+
+  const payload = req.body || {};
+  const data: Record<string, any> = {};
+
+  if (payload.name !== undefined) {
+    const cleaned = cleanQueueName(payload.name);
+    if ('error' in cleaned) {
+      return res.status(400).json({ error: cleaned.error });
+    }
+    data.name = cleaned.name;
+  }
+
+  if (payload.status !== undefined) {
+    if (!VALID_QUEUE_STATUS.includes(payload.status)) {
+      return res.status(400).json({
+        error: 'Invalid queue status',
+        message: `Must be one of: ${VALID_QUEUE_STATUS.join(', ')}`,
+      });
+    }
+    data.status = payload.status;
+  }
+
+  if (Object.keys(data).length === 0 && payload.assignees === undefined) {
+    return res.status(400).json({
+      error: 'No valid fields to update',
+      message: 'Provide name, assignees or status',
+    });
+  }
+
+  try {
+    const existing = await prisma.reviewQueue.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Queue not found' });
+    }
+
+    let userIds: string[] | undefined;
+    if (payload.assignees !== undefined) {
+      const resolved = await resolveAssignees(prisma, payload.assignees);
+      if ('error' in resolved) {
+        return res.status(400).json(resolved);
+      }
+      if (existing.mode === 'BLIND' && resolved.userIds.length < BLIND_RATERS) {
+        return res.status(400).json({ error: `A blind queue needs at least ${BLIND_RATERS} assignees` });
+      }
+      userIds = resolved.userIds;
+    }
+
+    const queue = await prisma.$transaction(async tx => {
+      if (userIds) {
+        await tx.reviewQueueAssignee.deleteMany({ where: { queueId: id, userId: { notIn: userIds } } });
+        await tx.reviewQueueAssignee.createMany({
+          data: userIds.map(userId => ({ queueId: id, userId })),
+          skipDuplicates: true,
+        });
+        await tx.reviewClaim.deleteMany({ where: { queueId: id, userId: { notIn: userIds } } });
+      }
+
+      if (data.status === 'ARCHIVED') {
+        await tx.reviewClaim.deleteMany({ where: { queueId: id } });
+      }
+
+      return tx.reviewQueue.update({
+        where: { id },
+        data,
+        include: {
+          assignees: { include: { user: { select: { id: true, name: true, email: true } } } },
+        },
+      });
+    });
+
+    console.log(`[ReviewQueues] ${user.email} updated "${queue.name}" (${[...Object.keys(data), ...(userIds ? ['assignees'] : [])].join(', ')})`);
+
+    return res.status(200).json({
+      success: true,
+      queue: {
+        id: queue.id,
+        name: queue.name,
+        filters: queue.filters,
+        mode: queue.mode,
+        status: queue.status,
+        assignees: queue.assignees.map(assignee => assignee.user),
+      },
+    });
+
+  } catch (error: any) {
+    console.error(`Error updating review queue ${id}:`, error);
+    return res.status(500).json({
+      error: 'Failed to update review queue',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * POST /api/admin/review-queues/create
+ *
+ * Creates a review queue from a saved song filter or an upload batch. The
+ * queue hands its unreviewed songs to the assigned curators one at a time
+ * (POST /api/review-queues/:id/next). Admin only.
+ *
+ * A BLIND queue has each song labelled independently by two of its curators
+ * (see api/lib/blind-review.ts), so it needs at least two assignees.
+ *
+ * Body Parameters:
+ *   - name: Queue name
+ *   - filters: GET /api/songs filter parameters (reviewStatus is ignored)
+ *   - uploadBatchId: Upload batch to review (instead of filters)
+ *   - assignees: Emails of the curators to hand songs to
+ *   - mode: 'STANDARD' | 'BLIND' (default: STANDARD)
+ *
+ * Response:
+ *   { success: true, queue: { id, name, filters, mode, status, assignees: Array<{ id, name, email }> } }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { BLIND_RATERS } from '../../lib/blind-review.js';
+import { VALID_QUEUE_MODES, cleanQueueFilters, cleanQueueName, resolveAssignees } from '../../lib/review-queues.js';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { name: rawName, filters: rawFilters, uploadBatchId, assignees, mode = 'STANDARD' } = req.body || {};
+
+  const cleaned = cleanQueueName(rawName);
+  if ('error' in cleaned) {
+    return res.status(400).json({ error: cleaned.error });
+  }
+
+  if (!VALID_QUEUE_MODES.includes(mode)) {
+    return res.status(400).json({
+      error: 'Invalid queue mode',
+      message: `Must be one of: ${VALID_QUEUE_MODES.join(', ')}`,
+    });
+  }
+
+  const filters = typeof uploadBatchId === 'string' && uploadBatchId.trim()
+    ? { uploadBatchId: uploadBatchId.trim() }
+    : cleanQueueFilters(rawFilters);
+
+  if (Object.keys(filters).length === 0) {
+    return res.status(400).json({
+      error: 'Either filters or uploadBatchId is required',
+      message: 'A queue over the whole catalog is not allowed',
+    });
+  }
+
+  try {
+    const resolved = await resolveAssignees(prisma, assignees ?? []);
+    if ('error' in resolved) {
+      return res.status(400).json(resolved);
+    }
+    if (mode === 'BLIND' && resolved.userIds.length < BLIND_RATERS) {
+      return res.status(400).json({ error: `A blind queue needs at least ${BLIND_RATERS} assignees` });
+    }
+
+    const queue = await prisma.reviewQueue.create({
+      data: {
+        name: cleaned.name,
+        filters: filters as Record<string, string>,
+        mode,
+        createdBy: user.name,
+        createdById: user.id,
+        assignees: {
+          create: resolved.userIds.map(userId => ({ userId })),
+        },
+      },
+      include: {
+        assignees: { include: { user: { select: { id: true, name: true, email: true } } } },
+      },
+    });
+
+    console.log(`[ReviewQueues] ${user.email} created ${mode === 'BLIND' ? 'blind ' : ''}"${queue.name}" for ${resolved.userIds.length} curators`);
+
+    return res.status(200).json({
+      success: true,
+      queue: {
+        id: queue.id,
+        name: queue.name,
+        filters: queue.filters,
+        mode: queue.mode,
+        status: queue.status,
+        assignees: queue.assignees.map(assignee => assignee.user),
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Error creating review queue:', error);
+    return res.status(500).json({
+      error: 'Failed to create review queue',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * GET /api/admin/review-queues
+ *
+ * Lists review queues with their progress, overall and per assignee. A song
+ * counts toward an assignee once they have reviewed it (since the queue was
+ * created), whether it was handed out by the queue or opened from the list.
+ * In a BLIND queue, a song counts as reviewed once it has both labels, and
+ * toward each curator who labelled it. Admin only.
+ *
+ * Query Parameters:
+ *   - status: 'ACTIVE' | 'ARCHIVED' | 'all' (default: ACTIVE)
+ *
+ * Response:
+ *   {
+ *     data: Array<{
+ *       id, name, filters, mode, status, createdBy, createdAt,
+ *       total: number,       // Songs matching the queue's filter
+ *       reviewed: number,
+ *       remaining: number,
+ *       claimed: number,     // Songs currently held by a curator
+ *       assignees: Array<{ id, name, email, reviewed, claimed, lastReviewedAt }>
+ *     }>
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { BLIND_RATERS } from '../../lib/blind-review.js';
+import { VALID_QUEUE_STATUS, queueSongWhere } from '../../lib/review-queues.js';
+import { getTaxonomyEntries } from '../../lib/taxonomy.js';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const status = (req.query.status as string) || 'ACTIVE';
+  if (status !== 'all' && !VALID_QUEUE_STATUS.includes(status)) {
+    return res.status(400).json({
+      error: 'Invalid queue status',
+      message: `Must be one of: ${VALID_QUEUE_STATUS.join(', ')}, all`,
+    });
+  }
+
+  try {
+    const categories = await getTaxonomyEntries(prisma);
+    const now = new Date();
+
+    const queues = await prisma.reviewQueue.findMany({
+      where: status === 'all' ? {} : { status },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        assignees: {
+          include: { user: { select: { id: true, name: true, email: true } } },
+          orderBy: { assignedAt: 'asc' },
+        },
+      },
+    });
+
+    const data = [];
+    for (const queue of queues) {
+      const where = queueSongWhere(queue.filters, categories);
+      const assigneeIds = queue.assignees.map(assignee => assignee.userId);
+
+      const blind = queue.mode === 'BLIND';
+      const done = blind
+        ? { OR: [{ reviewed: true }, { blindLabels: { some: { rater: BLIND_RATERS } } }] }
+        : { reviewed: true };
+
+      const [total, reviewed, reviewedBy, labelledBy, claims] = await Promise.all([
+        prisma.song.count({ where }),
+        prisma.song.count({ where: { AND: [where, done] } }),
+        blind ? [] : prisma.song.groupBy({
+          by: ['reviewedById'],
+          where: {
+            AND: [where, {
+              reviewed: true,
+              reviewedAt: { gte: queue.createdAt },
+              reviewedById: { in: assigneeIds },
+            }],
+          },
+          _count: { _all: true },
+          _max: { reviewedAt: true },
+        }),
+        blind ? prisma.blindLabel.groupBy({
+          by: ['userId'],
+          where: { queueId: queue.id },
+          _count: { _all: true },
+          _max: { createdAt: true },
+        }) : [],
+        prisma.reviewClaim.groupBy({
+          by: ['userId'],
+          where: { queueId: queue.id, expiresAt: { gt: now } },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const reviewedCounts = new Map(blind
+        ? labelledBy.map(group => [group.userId, { count: group._count._all, last: group._max.createdAt }])
+        : reviewedBy.map(group => [group.reviewedById, { count: group._count._all, last: group._max.reviewedAt }]));
+      const claimCounts = new Map(claims.map(group => [group.userId, group._count._all]));
+
+      data.push({
+        id: queue.id,
+        name: queue.name,
+        filters: queue.filters,
+        mode: queue.mode,
+        status: queue.status,
+        createdBy: queue.createdBy,
+        createdAt: queue.createdAt,
+        total,
+        reviewed,
+        remaining: total - reviewed,
+        claimed: claims.reduce((sum, group) => sum + group._count._all, 0),
+        assignees: queue.assignees.map(({ user: assignee }) => ({
+          ...assignee,
+          reviewed: reviewedCounts.get(assignee.id)?.count ?? 0,
+          claimed: claimCounts.get(assignee.id) ?? 0,
+          lastReviewedAt: reviewedCounts.get(assignee.id)?.last ?? null,
+        })),
+      });
+    }
+
+    return res.status(200).json({ data });
+
+  } catch (error: any) {
+    console.error('Error fetching review queues:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch review queues',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * PATCH /api/admin/subgenres/:id
+ *
+ * Renames, describes, deprecates or moves a subgenre. Admin only.
+ *
+ * Renaming rewrites the name on every song that carries it (ai_subgenre_1..3)
+ * in the same transaction, so no song is left with the old name. Pending AI
+ * proposals of the old name are renamed too (or dropped where the song's slot
+ * already holds the new name). Deprecating
+ * keeps the subgenre on existing songs but removes it from the classifier
+ * prompt and from the values curators can pick.
+ *
+ * Body Parameters (all optional):
+ *   - name: New name (unique, case-insensitive)
+ *   - description: New description; empty string clears it
+ *   - deprecated: true to deprecate, false to restore
+ *   - categoryId: Move to another category (appended at the end)
+ *   - position: Order within the category
+ *
+ * Response:
+ *   {
+ *     success: true,
+ *     subgenre: { id, name, categoryId, description, deprecated, position },
+ *     songsUpdated: number,     // Song slots rewritten by a rename
+ *     proposalsUpdated: number  // Songs whose pending proposals a rename rewrote
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { SUBGENRE_SLOTS, cleanDescription, cleanTaxonomyName } from '../../lib/taxonomy.js';
+import { mapProposedSubgenres } from '../../lib/subgenre-migration.js';
+import { loadTaxonomy } from '../../../src/utils/subgenre-loader.cjs';
+import { buildSongChanges } from '../../../src/utils/song-changes.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow PATCH requests
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const id = parseInt(req.query.id as string);
+  if (Number.isNaN(id)) {
+    return res.status(400).json({ error: 'Subgenre id is required' });
+  }
+
+  const payload = req.body || {};
+  const data: Record<string, any> = {};
+
+  if (payload.name !== undefined) {
+    const cleaned = cleanTaxonomyName(payload.name);
+    if ('error' in cleaned) {
+      return res.status(400).json({ error: cleaned.error });
+    }
+    data.name = cleaned.name;
+  }
+
+  if (payload.description !== undefined) {
+    data.description = cleanDescription(payload.description);
+  }
+
+  if (payload.deprecated !== undefined) {
+    if (typeof payload.deprecated !== 'boolean') {
+      return res.status(400).json({ error: 'deprecated must be true or false' });
+    }
+    data.deprecated = payload.deprecated;
+  }
+
+  if (payload.position !== undefined) {
+    if (!Number.isInteger(payload.position) || payload.position < 0) {
+      return res.status(400).json({ error: 'position must be a non-negative integer' });
+    }
+    data.position = payload.position;
+  }
+
+  if (payload.categoryId !== undefined && !Number.isInteger(payload.categoryId)) {
+    return res.status(400).json({ error: 'categoryId must be a category id' });
+  }
+
+  try {
+    const existing = await prisma.subgenre.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Subgenre not found' });
+    }
+
+    if (payload.categoryId !== undefined && payload.categoryId !== existing.categoryId) {
+      const category = await prisma.category.findUnique({ where: { id: payload.categoryId } });
+      if (!category) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+
+      data.categoryId = category.id;
+      if (data.position === undefined) {
+        const last = await prisma.subgenre.findFirst({
+          where: { categoryId: category.id },
+          orderBy: { position: 'desc' },
+          select: { position: true },
+        });
+        data.position = last ? last.position + 1 : 0;
+      }
+    }
+
+    const renamed = data.name !== undefined && data.name !== existing.name;
+    if (renamed) {
+      const conflict = await prisma.subgenre.findFirst({
+        where: { name: { equals: data.name, mode: 'insensitive' }, NOT: { id } },
+      });
+      if (conflict) {
+        return res.status(400).json({
+          error: 'Subgenre already exists',
+          message: `"${conflict.name}" is already in the taxonomy`,
+        });
+      }
+    }
+
+    if (Object.keys(data).length === 0) {
+      return res.status(400).json({
+        error: 'No valid fields to update',
+        message: 'Provide name, description, deprecated, categoryId or position',
+      });
+    }
+
+    const { subgenre, songsUpdated, proposalsUpdated } = await prisma.$transaction(async tx => {
+      const subgenre = await tx.subgenre.update({
+        where: { id },
+        data: { ...data, updatedBy: user.name },
+      });
+
+      // Songs store names, so a rename moves them along with the taxonomy
+      let songsUpdated = 0;
+      let proposalsUpdated = 0;
+      if (renamed) {
+        const songs = await tx.song.findMany({
+          where: { OR: SUBGENRE_SLOTS.map(slot => ({ [slot]: existing.name })) },
+          select: { isrc: true, aiSubgenre1: true, aiSubgenre2: true, aiSubgenre3: true },
+        });
+
+        // Pending proposals of the old name follow it, whether or not the song carries it
+        const mapping = new Map([[existing.name, data.name as string]]);
+        const proposing = await tx.song.findMany({
+          where: {
+            OR: ['ai_subgenre_1', 'ai_subgenre_2', 'ai_subgenre_3'].map(field => ({
+              aiProposed: { path: [field, 'value'], equals: existing.name },
+            })),
+          },
+          select: { isrc: true, aiSubgenre1: true, aiSubgenre2: true, aiSubgenre3: true, aiProposed: true },
+        });
+        for (const song of proposing) {
+          const aiProposed = mapProposedSubgenres(song, mapping);
+          if (aiProposed !== undefined) {
+            await tx.song.update({ where: { isrc: song.isrc }, data: { aiProposed } });
+            proposalsUpdated++;
+          }
+        }
+
+        for (const slot of SUBGENRE_SLOTS) {
+          const { count } = await tx.song.updateMany({
+            where: { [slot]: existing.name },
+            data: { [slot]: data.name, modifiedAt: new Date() },
+          });
+          songsUpdated += count;
+        }
+
+        const history = songs.flatMap(song => buildSongChanges(
+          song.isrc,
+          song,
+          Object.fromEntries(SUBGENRE_SLOTS.filter(slot => song[slot] === existing.name).map(slot => [slot, data.name])),
+          { source: 'BULK', actor: { id: user.id, name: user.name }, context: `Subgenre renamed: "${existing.name}" -> "${data.name}"` }
+        ));
+        if (history.length > 0) {
+          await tx.songChange.createMany({ data: history });
+        }
+      }
+
+      return { subgenre, songsUpdated, proposalsUpdated };
+    });
+
+    await loadTaxonomy(prisma, { refresh: true });
+
+    const changes = Object.keys(data).join(', ');
+    console.log(`[Subgenres] ${user.email} updated "${existing.name}" (${changes})${renamed ? `, ${songsUpdated} song slots and ${proposalsUpdated} songs' proposals renamed` : ''}`);
+
+    return res.status(200).json({
+      success: true,
+      subgenre: {
+        id: subgenre.id,
+        name: subgenre.name,
+        categoryId: subgenre.categoryId,
+        description: subgenre.description,
+        deprecated: subgenre.deprecated,
+        position: subgenre.position,
+      },
+      songsUpdated,
+      proposalsUpdated,
+    });
+
+  } catch (error: any) {
+    console.error(`Error updating subgenre ${id}:`, error);
+    return res.status(500).json({
+      error: 'Failed to update subgenre',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
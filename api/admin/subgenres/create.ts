@@ -0,0 +1,103 @@
+/**
+ * POST /api/admin/subgenres/create
+ *
+ * Adds a subgenre to a category (at the end). It is offered to curators and
+ * the classifier right away. Admin only.
+ *
+ * Body Parameters:
+ *   - name: Subgenre name (unique, case-insensitive)
+ *   - categoryId: Category id
+ *   - description: What belongs in the subgenre (optional, shown in the classifier prompt)
+ *
+ * Response:
+ *   { success: true, subgenre: { id, name, categoryId, description, deprecated, position } }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { cleanDescription, cleanTaxonomyName } from '../../lib/taxonomy.js';
+import { loadTaxonomy } from '../../../src/utils/subgenre-loader.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { name: rawName, categoryId, description } = req.body || {};
+
+  const cleaned = cleanTaxonomyName(rawName);
+  if ('error' in cleaned) {
+    return res.status(400).json({ error: cleaned.error });
+  }
+
+  if (!Number.isInteger(categoryId)) {
+    return res.status(400).json({ error: 'categoryId must be a category id' });
+  }
+
+  try {
+    const category = await prisma.category.findUnique({ where: { id: categoryId } });
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    const existing = await prisma.subgenre.findFirst({
+      where: { name: { equals: cleaned.name, mode: 'insensitive' } },
+    });
+    if (existing) {
+      return res.status(400).json({
+        error: 'Subgenre already exists',
+        message: `"${existing.name}" is already in the taxonomy`,
+      });
+    }
+
+    const last = await prisma.subgenre.findFirst({
+      where: { categoryId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    const subgenre = await prisma.subgenre.create({
+      data: {
+        name: cleaned.name,
+        categoryId,
+        description: cleanDescription(description),
+        position: last ? last.position + 1 : 0,
+        updatedBy: user.name,
+      },
+    });
+
+    await loadTaxonomy(prisma, { refresh: true });
+    console.log(`[Subgenres] ${user.email} added "${subgenre.name}" to ${category.name}`);
+
+    return res.status(200).json({
+      success: true,
+      subgenre: {
+        id: subgenre.id,
+        name: subgenre.name,
+        categoryId: subgenre.categoryId,
+        description: subgenre.description,
+        deprecated: subgenre.deprecated,
+        position: subgenre.position,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Error creating subgenre:', error);
+    return res.status(500).json({
+      error: 'Failed to create subgenre',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * GET /api/admin/subgenres
+ *
+ * Lists the subgenre taxonomy with how many songs carry each subgenre (in any
+ * of the three subgenre slots), plus song values that aren't in the taxonomy.
+ * Admin only.
+ *
+ * Response:
+ *   {
+ *     categories: Array<{
+ *       id, name, description,
+ *       subgenres: Array<{ id, name, description, deprecated, songCount }>
+ *     }>,
+ *     unknown: Array<{ name, songCount }>  // Song subgenres missing from the taxonomy
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { countSongsBySubgenre, getTaxonomyEntries } from '../../lib/taxonomy.js';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  try {
+    const categories = await getTaxonomyEntries(prisma, { refresh: true });
+    const counts = await countSongsBySubgenre(prisma);
+
+    const known = new Set(categories.flatMap(category => category.subgenres.map(subgenre => subgenre.name)));
+    const withCounts = categories.map(category => ({
+      ...category,
+      subgenres: category.subgenres.map(subgenre => ({
+        ...subgenre,
+        songCount: counts.get(subgenre.name) || 0,
+      })),
+    }));
+
+    const unknown = [...counts.entries()]
+      .filter(([name]) => !known.has(name))
+      .map(([name, songCount]) => ({ name, songCount }))
+      .sort((a, b) => b.songCount - a.songCount);
+
+    return res.status(200).json({ categories: withCounts, unknown });
+
+  } catch (error: any) {
+    console.error('Error fetching subgenre taxonomy:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch subgenre taxonomy',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * POST /api/admin/subgenres/migrate
+ *
+ * Maps old subgenres onto new ones on every song (ai_subgenre_1..3), e.g. to
+ * merge two near-identical subgenres or retire one. Slots that repeat a value
+ * after mapping are deduplicated and the rest compacted. Admin only.
+ *
+ * With preview: true nothing changes and the response describes the impact.
+ * Otherwise the songs are rewritten in one transaction together with a
+ * SubgenreMigration audit entry and per-song history, and source subgenres
+ * that are in the taxonomy are deprecated (unless deprecate: false).
+ *
+ * Body Parameters:
+ *   - mappings: Array<{ from, to }> (max 50). `to` must be an active subgenre;
+ *     `from` may also be a song value missing from the taxonomy
+ *   - preview: true to only report the impact
+ *   - deprecate: Deprecate source subgenres (default true)
+ *
+ * Response (preview):
+ *   {
+ *     preview: true,
+ *     impact: { songs, slotsRewritten, slotsDeduplicated, exportedSongs, playlists,
+ *               topPlaylists: Array<{ id, name, songCount }>,
+ *               byMapping: Array<{ from, to, songCount }> },
+ *     samples: Array<{ isrc, artist, title, before, after }>  // First 20 songs
+ *   }
+ *
+ * Response (applied):
+ *   { success: true, migrationId: string, impact, deprecated: string[] }
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { getTaxonomyEntries } from '../../lib/taxonomy.js';
+import { groupRewrites, planSubgenreMigration, validateMappings } from '../../lib/subgenre-migration.js';
+import { loadTaxonomy } from '../../../src/utils/subgenre-loader.cjs';
+import { buildSongChanges } from '../../../src/utils/song-changes.cjs';
+
+const prisma = new PrismaClient();
+
+const PREVIEW_SAMPLES = 20;
+// Large merges touch thousands of songs; the default 5s transaction limit is too short
+// (vercel.json gives the function as long)
+const TRANSACTION_TIMEOUT_MS = 120 * 1000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { mappings: rawMappings, preview = false, deprecate = true } = req.body || {};
+
+  try {
+    const categories = await getTaxonomyEntries(prisma, { refresh: true });
+    const subgenres = categories.flatMap(category => category.subgenres);
+    const active = new Set(subgenres.filter(s => !s.deprecated).map(s => s.name));
+
+    const validated = validateMappings(rawMappings, active);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+    const { mappings } = validated;
+
+    if (preview === true) {
+      const plan = await planSubgenreMigration(prisma, mappings);
+      return res.status(200).json({
+        preview: true,
+        impact: plan.impact,
+        samples: plan.rewrites.slice(0, PREVIEW_SAMPLES).map(({ isrc, artist, title, before, after }) => ({
+          isrc, artist, title, before, after,
+        })),
+      });
+    }
+
+    const toDeprecate = deprecate === false
+      ? []
+      : subgenres.filter(s => !s.deprecated && mappings.some(m => m.from === s.name)).map(s => s.name);
+
+    const summary = mappings.map(m => `"${m.from}" -> "${m.to}"`).join(', ');
+
+    const { migrationId, impact } = await prisma.$transaction(async tx => {
+      // Planned inside the transaction so the audit entry matches what was written
+      const plan = await planSubgenreMigration(tx, mappings);
+
+      // One update per distinct rewrite and one insert for all the history
+      for (const group of groupRewrites(plan.rewrites)) {
+        await tx.song.updateMany({ where: { isrc: { in: group.isrcs } }, data: group.data });
+      }
+
+      const changes = plan.rewrites.flatMap(rewrite => {
+        const [aiSubgenre1, aiSubgenre2, aiSubgenre3] = rewrite.before;
+        return buildSongChanges(rewrite.isrc, { aiSubgenre1, aiSubgenre2, aiSubgenre3 }, rewrite.data, {
+          source: 'BULK',
+          actor: { id: user.id, name: user.name },
+          context: `Subgenre migration: ${summary}`,
+        });
+      });
+      if (changes.length > 0) {
+        await tx.songChange.createMany({ data: changes });
+      }
+
+      if (toDeprecate.length > 0) {
+        await tx.subgenre.updateMany({
+          where: { name: { in: toDeprecate } },
+          data: { deprecated: true, updatedBy: user.name },
+        });
+      }
+
+      const migration = await tx.subgenreMigration.create({
+        data: {
+          mappings: mappings as unknown as Prisma.InputJsonValue,
+          deprecated: toDeprecate,
+          songsUpdated: plan.impact.songs,
+          slotsRewritten: plan.impact.slotsRewritten,
+          slotsDeduplicated: plan.impact.slotsDeduplicated,
+          exportedSongs: plan.impact.exportedSongs,
+          playlists: plan.impact.playlists,
+          changes: plan.rewrites.map(({ isrc, before, after }) => ({ isrc, before, after })) as unknown as Prisma.InputJsonValue,
+          performedBy: user.name,
+          performedById: user.id,
+        },
+      });
+
+      return { migrationId: migration.id, impact: plan.impact };
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+
+    await loadTaxonomy(prisma, { refresh: true });
+
+    console.log(`[Subgenres] ${user.email} migrated ${summary}: ${impact.songs} songs, ${impact.slotsDeduplicated} duplicate slots dropped`);
+
+    return res.status(200).json({
+      success: true,
+      migrationId,
+      impact,
+      deprecated: toDeprecate,
+    });
+
+  } catch (error: any) {
+    console.error('Error migrating subgenres:', error);
+    return res.status(500).json({
+      error: 'Failed to migrate subgenres',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
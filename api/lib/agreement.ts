@@ -0,0 +1,78 @@
+/**
+ * Inter-rater Agreement
+ *
+ * Agreement statistics for the blind review report
+ * (GET /api/admin/blind-reviews/agreement). Two raters are compared on the
+ * songs both labelled, one tag field at a time.
+ */
+
+import type { LockableField } from './field-locks.js';
+import type { LabelValues } from './blind-review.js';
+
+// Fields the report compares. The primary subgenre stands for the subgenres;
+// secondary slots are often left empty and would inflate agreement.
+export const AGREEMENT_FIELDS: LockableField[] = ['ai_energy', 'ai_accessibility', 'ai_explicit', 'ai_subgenre_1'];
+
+export interface FieldAgreement {
+  n: number;                // Songs where both raters gave a value
+  agreement: number | null; // Share of those with the same value
+  kappa: number | null;     // Cohen's kappa; null when undefined (too few songs, or one value only)
+}
+
+export interface RaterComparison {
+  songs: number;
+  fields: Record<string, FieldAgreement>;
+}
+
+/**
+ * Cohen's kappa for two raters' categorical answers on the same items:
+ * (observed - expected agreement) / (1 - expected), where expected agreement
+ * comes from each rater's own value frequencies
+ */
+export function cohensKappa(pairs: Array<[string, string]>): number | null {
+  const n = pairs.length;
+  if (n === 0) return null;
+
+  const first = new Map<string, number>();
+  const second = new Map<string, number>();
+  let agreed = 0;
+
+  for (const [a, b] of pairs) {
+    if (a === b) agreed++;
+    first.set(a, (first.get(a) || 0) + 1);
+    second.set(b, (second.get(b) || 0) + 1);
+  }
+
+  const observed = agreed / n;
+  let expected = 0;
+  for (const [value, count] of first) {
+    expected += (count / n) * ((second.get(value) || 0) / n);
+  }
+
+  // Both raters gave one and the same value throughout: kappa is undefined
+  if (expected === 1) return null;
+  return (observed - expected) / (1 - expected);
+}
+
+/**
+ * Compares two raters field by field. A song only counts for a field when
+ * both gave a value for it.
+ */
+export function compareRaters(pairs: Array<[LabelValues, LabelValues]>): RaterComparison {
+  const fields: Record<string, FieldAgreement> = {};
+
+  for (const field of AGREEMENT_FIELDS) {
+    const values = pairs
+      .map(([a, b]) => [a[field], b[field]] as const)
+      .filter((pair): pair is readonly [string, string] => pair[0] !== null && pair[1] !== null)
+      .map(([a, b]) => [a, b] as [string, string]);
+
+    fields[field] = {
+      n: values.length,
+      agreement: values.length > 0 ? values.filter(([a, b]) => a === b).length / values.length : null,
+      kappa: cohensKappa(values),
+    };
+  }
+
+  return { songs: pairs.length, fields };
+}
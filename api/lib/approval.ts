@@ -0,0 +1,71 @@
+/**
+ * Approval
+ *
+ * Builds the song update for an approval decision. Shared by
+ * PATCH /api/songs/:isrc and POST /api/songs/approval so both enforce the same
+ * rules: a rejection needs a reason code from the configured list (see
+ * src/utils/rejection-reasons.cjs), and any other status clears the reason.
+ */
+
+import type { AuthUser } from './auth.js';
+import { getRejectionReasons } from '../../src/utils/rejection-reasons.cjs';
+
+export const VALID_APPROVAL_STATUS = ['PENDING', 'APPROVED', 'REJECTED'];
+
+const MAX_NOTE_LENGTH = 1000;
+
+export interface ApprovalInput {
+  status: unknown;
+  reason?: unknown;
+  note?: unknown;
+}
+
+/**
+ * Validates an approval decision and returns the song columns to write
+ * @returns The update, or an error (with a message for the response)
+ */
+export function buildApprovalUpdate(
+  input: ApprovalInput,
+  user: Pick<AuthUser, 'id' | 'name'>
+): { data: Record<string, any> } | { error: string; message: string } {
+  const status = typeof input.status === 'string' ? input.status.toUpperCase() : '';
+  if (!VALID_APPROVAL_STATUS.includes(status)) {
+    return {
+      error: 'Invalid approval status',
+      message: `Must be one of: ${VALID_APPROVAL_STATUS.join(', ')}`,
+    };
+  }
+
+  const data: Record<string, any> = {
+    approvalStatus: status,
+    approvedBy: user.name,
+    approvedById: user.id,
+    approvedAt: new Date(),
+    rejectionReason: null,
+    rejectionNote: null,
+  };
+
+  if (status !== 'REJECTED') {
+    return { data };
+  }
+
+  const reasons = getRejectionReasons();
+  if (typeof input.reason !== 'string' || !reasons.some((reason: { code: string }) => reason.code === input.reason)) {
+    return {
+      error: 'A rejection reason is required',
+      message: `Must be one of: ${reasons.map((reason: { code: string }) => reason.code).join(', ')}`,
+    };
+  }
+
+  if (input.note !== undefined && input.note !== null && typeof input.note !== 'string') {
+    return { error: 'Invalid rejection note', message: 'Must be a string' };
+  }
+  const note = typeof input.note === 'string' ? input.note.trim() : '';
+  if (note.length > MAX_NOTE_LENGTH) {
+    return { error: 'Invalid rejection note', message: `Must be at most ${MAX_NOTE_LENGTH} characters` };
+  }
+
+  data.rejectionReason = input.reason;
+  data.rejectionNote = note || null;
+  return { data };
+}
@@ -0,0 +1,132 @@
+/**
+ * Song Audio Analysis
+ *
+ * Measures a song's audio with src/audio/audio-features.cjs before it is
+ * classified, so the prompt gets tempo, loudness, brightness and onset density
+ * alongside the web context. The Spotify preview (short MP3) is tried before
+ * the source file.
+ *
+ * Analysis is best-effort: a missing, unreachable or undecodable file only
+ * means the song is classified without audio context.
+ */
+
+import type { Song } from '@prisma/client';
+import { analyzeAudio, isAudioAnalysisEnabled } from '../../src/audio/audio-features.cjs';
+
+export interface SongAudioFeatures {
+  tempo: number | null;
+  tempoConfidence: number;
+  loudnessLufs: number | null;
+  rmsDb: number | null;
+  brightness: number;
+  onsetRate: number;
+  energyScore: number;
+  source: 'preview' | 'source';
+  analyzedAt: string;
+}
+
+type StoredAudioColumns = Pick<Song,
+  | 'audioTempo'
+  | 'audioTempoConfidence'
+  | 'audioLoudnessLufs'
+  | 'audioRmsDb'
+  | 'audioBrightness'
+  | 'audioOnsetRate'
+  | 'audioEnergyScore'
+  | 'audioSource'
+  | 'audioAnalyzedAt'
+>;
+
+/**
+ * Prisma select for the audio columns (e.g. to reuse stored features)
+ */
+export const AUDIO_FEATURE_SELECT = {
+  audioTempo: true,
+  audioTempoConfidence: true,
+  audioLoudnessLufs: true,
+  audioRmsDb: true,
+  audioBrightness: true,
+  audioOnsetRate: true,
+  audioEnergyScore: true,
+  audioSource: true,
+  audioAnalyzedAt: true,
+} as const;
+
+/**
+ * Analyzes the song's preview, falling back to its source file
+ * @returns null when analysis is disabled, the song has no audio URL or every file failed
+ */
+export async function analyzeSongAudio(
+  song: { artist: string; title: string; spotifyPreviewUrl?: string; s3Url?: string }
+): Promise<SongAudioFeatures | null> {
+  if (!isAudioAnalysisEnabled()) {
+    return null;
+  }
+
+  const candidates: Array<[SongAudioFeatures['source'], string | undefined]> = [
+    ['preview', song.spotifyPreviewUrl],
+    ['source', song.s3Url],
+  ];
+
+  for (const [source, url] of candidates) {
+    if (!url) continue;
+
+    try {
+      const features = await analyzeAudio(url);
+      return {
+        tempo: features.tempo,
+        tempoConfidence: features.tempoConfidence,
+        loudnessLufs: features.loudnessLufs,
+        rmsDb: features.rmsDb,
+        brightness: features.brightness,
+        onsetRate: features.onsetRate,
+        energyScore: features.energyScore,
+        source,
+        analyzedAt: new Date().toISOString(),
+      };
+    } catch (error: any) {
+      console.warn(`[AudioAnalysis] ${source} failed for ${song.artist} - ${song.title}:`, error.message);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Maps measured features to the song's audio columns
+ */
+export function audioFeatureFields(features: SongAudioFeatures) {
+  return {
+    audioTempo: features.tempo,
+    audioTempoConfidence: features.tempoConfidence,
+    audioLoudnessLufs: features.loudnessLufs,
+    audioRmsDb: features.rmsDb,
+    audioBrightness: features.brightness,
+    audioOnsetRate: features.onsetRate,
+    audioEnergyScore: features.energyScore,
+    audioSource: features.source,
+    audioAnalyzedAt: new Date(features.analyzedAt),
+  };
+}
+
+/**
+ * Reads previously stored features back from a song row
+ * @returns null if the song was never analyzed
+ */
+export function storedAudioFeatures(song: StoredAudioColumns): SongAudioFeatures | null {
+  if (!song.audioAnalyzedAt) {
+    return null;
+  }
+
+  return {
+    tempo: song.audioTempo,
+    tempoConfidence: song.audioTempoConfidence ?? 0,
+    loudnessLufs: song.audioLoudnessLufs,
+    rmsDb: song.audioRmsDb,
+    brightness: song.audioBrightness ?? 0,
+    onsetRate: song.audioOnsetRate ?? 0,
+    energyScore: song.audioEnergyScore ?? 0,
+    source: song.audioSource === 'source' ? 'source' : 'preview',
+    analyzedAt: song.audioAnalyzedAt.toISOString(),
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Blind Review
+ *
+ * Shared by the blind review endpoints. A BLIND review queue hands each song to
+ * two curators who label it without seeing the AI's tags or each other's
+ * labels (POST /api/songs/:isrc/blind-label). Labels stay in blind_labels.
+ * When the second label matches the first on every field, the values are
+ * applied to the song. Otherwise the song waits for an admin to reconcile it
+ * (POST /api/songs/:isrc/reconcile).
+ */
+
+import type { BlindLabel, Song } from '@prisma/client';
+import type { AuthUser } from './auth.js';
+import { LOCKABLE_FIELDS, editedFields, getProposals, proposalsValue, type LockableField } from './field-locks.js';
+import type { formatSong } from './song-format.js';
+import { VALID_ENERGY, VALID_ACCESSIBILITY } from '../../src/classifiers/classification-validator.cjs';
+
+export const BLIND_RATERS = 2;
+
+const VALID_EXPLICIT = ['Explicit', 'Suggestive', 'Family Friendly'];
+
+// Labels use the API field names; each maps to its blind_labels column
+export const LABEL_COLUMNS: Record<LockableField, keyof BlindLabel> = {
+  ai_energy: 'energy',
+  ai_accessibility: 'accessibility',
+  ai_explicit: 'explicit',
+  ai_subgenre_1: 'subgenre1',
+  ai_subgenre_2: 'subgenre2',
+  ai_subgenre_3: 'subgenre3',
+};
+
+export const LABEL_FIELDS = Object.keys(LABEL_COLUMNS) as LockableField[];
+
+export type LabelValues = Record<LockableField, string | null>;
+
+const optional = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Validates a curator's labels. Energy, accessibility and the primary subgenre
+ * are required; subgenre names are checked against the taxonomy by the caller.
+ */
+export function validateLabel(raw: unknown): { values: LabelValues } | { error: string; message?: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Labels are required' };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const values = Object.fromEntries(LABEL_FIELDS.map(field => [field, optional(input[field])])) as LabelValues;
+
+  if (!values.ai_energy || !values.ai_accessibility || !values.ai_subgenre_1) {
+    return { error: 'ai_energy, ai_accessibility and ai_subgenre_1 are required' };
+  }
+  if (!VALID_ENERGY.includes(values.ai_energy)) {
+    return { error: 'Invalid energy value', message: `Must be one of: ${VALID_ENERGY.join(', ')}` };
+  }
+  if (!VALID_ACCESSIBILITY.includes(values.ai_accessibility)) {
+    return { error: 'Invalid accessibility value', message: `Must be one of: ${VALID_ACCESSIBILITY.join(', ')}` };
+  }
+  if (values.ai_explicit && !VALID_EXPLICIT.includes(values.ai_explicit)) {
+    return { error: 'Invalid explicit value', message: `Must be one of: ${VALID_EXPLICIT.join(', ')}` };
+  }
+
+  const subgenres = [values.ai_subgenre_1, values.ai_subgenre_2, values.ai_subgenre_3].filter(Boolean);
+  if (new Set(subgenres).size !== subgenres.length) {
+    return { error: 'Subgenres must be different' };
+  }
+
+  return { values };
+}
+
+/**
+ * Reads a stored label in API field names
+ */
+export function labelValues(label: BlindLabel): LabelValues {
+  return Object.fromEntries(
+    LABEL_FIELDS.map(field => [field, label[LABEL_COLUMNS[field]] as string | null])
+  ) as LabelValues;
+}
+
+/**
+ * blind_labels columns for a label
+ */
+export function labelColumns(values: LabelValues): Record<string, string | null> {
+  return Object.fromEntries(LABEL_FIELDS.map(field => [LABEL_COLUMNS[field], values[field]]));
+}
+
+/**
+ * The song's AI tags, to store with a label. Curator-locked fields hold a
+ * curator's value rather than the AI's, so they are left out (null).
+ */
+export function aiSnapshot(song: Song): LabelValues {
+  return Object.fromEntries(LABEL_FIELDS.map(field => [
+    field,
+    song.lockedFields.includes(field) ? null : (song as Record<string, any>)[LOCKABLE_FIELDS[field].column] ?? null,
+  ])) as LabelValues;
+}
+
+/**
+ * Fields on which two labels differ
+ */
+export function disagreements(a: LabelValues, b: LabelValues): LockableField[] {
+  return LABEL_FIELDS.filter(field => (a[field] ?? null) !== (b[field] ?? null));
+}
+
+/**
+ * Song update that applies reviewed labels, the same way a curator's PATCH
+ * does: changed tag fields are locked (superseding any proposal for them) and
+ * the song is marked reviewed by `user`.
+ */
+export function buildReviewUpdate(song: Song, values: LabelValues, user: Pick<AuthUser, 'id' | 'name'>): Record<string, any> {
+  const data: Record<string, any> = { modifiedAt: new Date() };
+  for (const field of LABEL_FIELDS) {
+    data[LOCKABLE_FIELDS[field].column] = values[field];
+  }
+
+  const edited = editedFields(song, data);
+  if (edited.length > 0) {
+    data.lockedFields = [...new Set([...song.lockedFields, ...edited])];
+
+    const proposals = getProposals(song);
+    if (edited.some(field => proposals[field])) {
+      edited.forEach(field => delete proposals[field]);
+      data.aiProposed = proposalsValue(proposals);
+    }
+  }
+
+  data.reviewed = true;
+  data.reviewedBy = user.name;
+  data.reviewedById = user.id;
+  data.reviewedAt = new Date();
+  return data;
+}
+
+/**
+ * A song as shown to a blind rater: everything the AI or other curators said
+ * about it is blanked
+ */
+export function blindSong(song: ReturnType<typeof formatSong>) {
+  const blinded: Record<string, any> = { ...song };
+  for (const key of Object.keys(blinded)) {
+    if (key.startsWith('ai_')) blinded[key] = null;
+  }
+  return {
+    ...blinded,
+    locked_fields: [],
+    curator_notes: null,
+    reviewed_by: null,
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Bulk Edit
+ *
+ * Validates a PATCH /api/songs/bulk update and works out what it does to each
+ * song. Per-song edits follow PATCH /api/songs/:isrc: changed tags are locked
+ * and pending proposals for them dropped.
+ */
+
+import { Prisma } from '@prisma/client';
+import { editedFields, getProposals, proposalsValue, type ProposedValues } from './field-locks.js';
+import { rewriteSong } from './subgenre-migration.js';
+import { diffSongFields } from '../../src/utils/song-changes.cjs';
+import { VALID_ENERGY, VALID_ACCESSIBILITY } from '../../src/classifiers/classification-validator.cjs';
+
+export const MAX_BULK_SONGS = 1000;
+
+const VALID_EXPLICIT = ['Explicit', 'Suggestive', 'Family Friendly'];
+const MAX_NOTE_LENGTH = 1000;
+
+const SUBGENRE_COLUMNS = ['aiSubgenre1', 'aiSubgenre2', 'aiSubgenre3'] as const;
+
+export type SubgenreEdit =
+  | { action: 'add'; value: string }
+  | { action: 'replace'; from: string; to: string };
+
+/**
+ * A bulk update (API field names). Only the given fields change.
+ */
+export interface BulkUpdate {
+  ai_energy?: string;
+  ai_accessibility?: string;
+  ai_explicit?: string | null; // null clears it
+  subgenre?: SubgenreEdit;
+  append_notes?: string;
+}
+
+export interface BulkSongPlan {
+  isrc: string;
+  artist: string | null;
+  title: string | null;
+  status: 'updated' | 'unchanged' | 'skipped';
+  reason?: string;
+  changes: Array<{ field: string; old_value: string | null; new_value: string | null }>;
+  data: Record<string, any>;
+}
+
+/**
+ * Validates a bulk update. New subgenre values must be active subgenres; the
+ * subgenre being replaced may be any value songs carry.
+ * @returns The cleaned update, or an error message
+ */
+export function validateBulkUpdate(
+  raw: unknown,
+  activeSubgenres: Set<string>
+): { update: BulkUpdate } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'update must be an object' };
+  }
+  const input = raw as Record<string, any>;
+  const update: BulkUpdate = {};
+
+  if (input.ai_energy !== undefined) {
+    if (!VALID_ENERGY.includes(input.ai_energy)) {
+      return { error: `Invalid energy value. Must be one of: ${VALID_ENERGY.join(', ')}` };
+    }
+    update.ai_energy = input.ai_energy;
+  }
+
+  if (input.ai_accessibility !== undefined) {
+    if (!VALID_ACCESSIBILITY.includes(input.ai_accessibility)) {
+      return { error: `Invalid accessibility value. Must be one of: ${VALID_ACCESSIBILITY.join(', ')}` };
+    }
+    update.ai_accessibility = input.ai_accessibility;
+  }
+
+  if (input.ai_explicit !== undefined) {
+    if (input.ai_explicit !== null && !VALID_EXPLICIT.includes(input.ai_explicit)) {
+      return { error: `Invalid explicit value. Must be one of: ${VALID_EXPLICIT.join(', ')}` };
+    }
+    update.ai_explicit = input.ai_explicit;
+  }
+
+  if (input.subgenre !== undefined) {
+    const edit = input.subgenre;
+    const trim = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+    if (edit?.action === 'add') {
+      const value = trim(edit.value);
+      if (!activeSubgenres.has(value)) {
+        return { error: `"${value}" is not an active subgenre` };
+      }
+      update.subgenre = { action: 'add', value };
+    } else if (edit?.action === 'replace') {
+      const from = trim(edit.from);
+      const to = trim(edit.to);
+      if (!from) {
+        return { error: 'subgenre.from is required' };
+      }
+      if (!activeSubgenres.has(to)) {
+        return { error: `"${to}" is not an active subgenre` };
+      }
+      if (from === to) {
+        return { error: `"${from}" is replaced with itself` };
+      }
+      update.subgenre = { action: 'replace', from, to };
+    } else {
+      return { error: "subgenre.action must be 'add' or 'replace'" };
+    }
+  }
+
+  if (input.append_notes !== undefined) {
+    const note = typeof input.append_notes === 'string' ? input.append_notes.trim() : '';
+    if (!note) {
+      return { error: 'append_notes must be a non-empty string' };
+    }
+    if (note.length > MAX_NOTE_LENGTH) {
+      return { error: `append_notes must be at most ${MAX_NOTE_LENGTH} characters` };
+    }
+    update.append_notes = note;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { error: 'No valid fields to update' };
+  }
+
+  return { update };
+}
+
+/**
+ * Short description of an update, for change history context and logs
+ */
+export function describeBulkUpdate(update: BulkUpdate): string {
+  const parts: string[] = [];
+  if (update.ai_energy !== undefined) parts.push(`energy = ${update.ai_energy}`);
+  if (update.ai_accessibility !== undefined) parts.push(`accessibility = ${update.ai_accessibility}`);
+  if (update.ai_explicit !== undefined) parts.push(`explicit = ${update.ai_explicit ?? 'none'}`);
+  if (update.subgenre?.action === 'add') parts.push(`add subgenre "${update.subgenre.value}"`);
+  if (update.subgenre?.action === 'replace') parts.push(`subgenre "${update.subgenre.from}" -> "${update.subgenre.to}"`);
+  if (update.append_notes !== undefined) parts.push('append notes');
+  return parts.join(', ');
+}
+
+/**
+ * Works out the update for one song
+ */
+export function planBulkEdit(song: Record<string, any>, update: BulkUpdate): BulkSongPlan {
+  const plan: BulkSongPlan = {
+    isrc: song.isrc,
+    artist: song.artist,
+    title: song.title,
+    status: 'unchanged',
+    changes: [],
+    data: {},
+  };
+  let data: Record<string, any> = {};
+
+  if (update.ai_energy !== undefined) data.aiEnergy = update.ai_energy;
+  if (update.ai_accessibility !== undefined) data.aiAccessibility = update.ai_accessibility;
+  if (update.ai_explicit !== undefined) data.aiExplicit = update.ai_explicit;
+
+  if (update.subgenre?.action === 'add') {
+    const { value } = update.subgenre;
+    const slots = SUBGENRE_COLUMNS.map(column => song[column] ?? null);
+    if (!slots.includes(value)) {
+      const free = slots.indexOf(null);
+      if (free === -1) {
+        return { ...plan, status: 'skipped', reason: 'All three subgenre slots are taken' };
+      }
+      data[SUBGENRE_COLUMNS[free]] = value;
+    }
+  } else if (update.subgenre?.action === 'replace') {
+    // Same slot handling as a subgenre migration: repeats are dropped, the rest move up
+    const rewrite = rewriteSong(song, new Map([[update.subgenre.from, update.subgenre.to]]));
+    if (rewrite) {
+      data = { ...data, ...rewrite.data };
+    }
+  }
+
+  if (update.append_notes !== undefined) {
+    data.curatorNotes = song.curatorNotes ? `${song.curatorNotes}\n${update.append_notes}` : update.append_notes;
+  }
+
+  const changes = diffSongFields(song, data);
+  if (changes.length === 0) {
+    return plan;
+  }
+
+  // Lock what changed, as a curator edit does (the replace rewrite has already moved existing locks)
+  const edited = editedFields(song, data);
+  if (edited.length > 0) {
+    data.lockedFields = [...new Set([...(data.lockedFields ?? song.lockedFields), ...edited])];
+
+    const aiProposed = 'aiProposed' in data ? data.aiProposed : song.aiProposed ?? null;
+    const proposals: ProposedValues = aiProposed === Prisma.DbNull ? {} : getProposals({ aiProposed });
+    if (edited.some(field => proposals[field])) {
+      edited.forEach(field => delete proposals[field]);
+      data.aiProposed = proposalsValue(proposals);
+    }
+  }
+
+  return {
+    ...plan,
+    status: 'updated',
+    changes: changes.map((change: { field: string; oldValue: string | null; newValue: string | null }) => ({
+      field: change.field,
+      old_value: change.oldValue,
+      new_value: change.newValue,
+    })),
+    data: { ...data, modifiedAt: new Date() },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Classification Run Recording
+ *
+ * Every classification attempt is stored as a ClassificationRun so curators can
+ * compare the current AI values with earlier runs (GET /api/songs/:isrc/runs).
+ */
+
+import { PrismaClient, Prisma, type ClassificationRun } from '@prisma/client';
+
+export interface ClassificationInput {
+  artist: string;
+  title: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Records one classification attempt from a classifyWithProvider() result
+ */
+export async function recordClassificationRun(
+  prisma: PrismaClient,
+  isrc: string,
+  input: ClassificationInput,
+  result: any
+) {
+  const succeeded = result?.status === 'SUCCESS';
+
+  return prisma.classificationRun.create({
+    data: {
+      songIsrc: isrc,
+      provider: result?.provider || 'unknown',
+      model: result?.model || 'unknown',
+      promptId: result?.promptId || null,
+      promptHash: result?.promptHash || null,
+      input: input as unknown as Prisma.InputJsonValue,
+      rawResponse: result?.rawResponse || null,
+      output: succeeded
+        ? {
+            energy: result.energy,
+            accessibility: result.accessibility,
+            subgenre1: result.subgenre1,
+            subgenre2: result.subgenre2,
+            subgenre3: result.subgenre3,
+            reasoning: result.reasoning,
+            context: result.context,
+            confidence: result.confidence || null,
+          }
+        : Prisma.DbNull,
+      repairs: result?.repairs?.length ? result.repairs : Prisma.DbNull,
+      examples: result?.examples?.length ? result.examples : Prisma.DbNull,
+      grounding: result?.grounding ?? Prisma.DbNull,
+      status: succeeded ? 'SUCCESS' : 'ERROR',
+      errorMessage: result?.error_message || null,
+      cached: result?.cached === true,
+      latencyMs: result?.latencyMs ?? null,
+      inputTokens: result?.usage?.inputTokens ?? null,
+      outputTokens: result?.usage?.outputTokens ?? null,
+      totalTokens: result?.usage?.totalTokens ?? null,
+    },
+  });
+}
+
+/**
+ * Maps a ClassificationRun row to the API response shape (snake_case)
+ */
+export function formatClassificationRun(run: ClassificationRun) {
+  return {
+    id: run.id,
+    isrc: run.songIsrc,
+    provider: run.provider,
+    model: run.model,
+    prompt_id: run.promptId,
+    prompt_hash: run.promptHash,
+    input: run.input,
+    raw_response: run.rawResponse,
+    output: run.output,
+    repairs: run.repairs,
+    examples: run.examples,
+    grounding: run.grounding,
+    status: run.status,
+    error_message: run.errorMessage,
+    cached: run.cached,
+    latency_ms: run.latencyMs,
+    input_tokens: run.inputTokens,
+    output_tokens: run.outputTokens,
+    total_tokens: run.totalTokens,
+    created_at: run.createdAt.toISOString(),
+  };
+}
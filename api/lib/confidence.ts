@@ -0,0 +1,28 @@
+/**
+ * AI Confidence Helpers
+ *
+ * Songs store a confidence (0-1) per AI field plus an overall `aiConfidence`,
+ * which is the lowest field confidence. Filtering and sorting use the overall
+ * value so a song surfaces as soon as any one field is uncertain.
+ */
+
+import { overallConfidence as lowestConfidence } from '../../src/utils/field-locks.cjs';
+
+/**
+ * Returns the lowest non-null confidence, or null if none are set (shared with
+ * the scripts through src/utils/field-locks.cjs)
+ */
+export function overallConfidence(values: Array<number | null | undefined>): number | null {
+  return lowestConfidence(values);
+}
+
+/**
+ * Parses a confidence query parameter (accepts 0-1 or 0-100)
+ */
+export function parseConfidenceParam(param: string | undefined): number | null {
+  if (!param) return null;
+  const value = parseFloat(param);
+  if (Number.isNaN(value)) return null;
+  const fraction = value > 1 ? value / 100 : value;
+  return Math.min(1, Math.max(0, fraction));
+}
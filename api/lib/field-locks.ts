@@ -0,0 +1,130 @@
+/**
+ * Field Locks
+ *
+ * A tag field a curator changes through PATCH /api/songs/:isrc is locked
+ * (songs.locked_fields). Classification writes (re-upload, reclassify, explicit
+ * results) never overwrite a locked field: a differing AI value is stored in
+ * songs.ai_proposed instead, where a curator can accept or dismiss it.
+ *
+ * The lock logic itself lives in src/utils/field-locks.cjs so the scripts
+ * apply the same rules; this module adds the types.
+ */
+
+import { Prisma, type Song } from '@prisma/client';
+import * as sharedLocks from '../../src/utils/field-locks.cjs';
+
+// Lock names are the API field names
+export type LockableField =
+  | 'ai_energy'
+  | 'ai_accessibility'
+  | 'ai_explicit'
+  | 'ai_subgenre_1'
+  | 'ai_subgenre_2'
+  | 'ai_subgenre_3';
+
+// Each lockable field's song column and confidence column
+export const LOCKABLE_FIELDS: Record<LockableField, { column: string; confidence: string }> = sharedLocks.LOCKABLE_FIELDS;
+
+export interface ProposedValue {
+  value: string | null;
+  confidence: number | null;
+  promptId: string | null;
+  proposedAt: string;
+}
+
+export type ProposedValues = Partial<Record<LockableField, ProposedValue>>;
+
+type SongLockState = Pick<Song, 'lockedFields' | 'aiProposed'> & Record<string, any>;
+
+export function isLockableField(field: string): field is LockableField {
+  return sharedLocks.isLockableField(field);
+}
+
+/**
+ * Returns the lockable fields whose value in `data` (song columns) differs
+ * from the song's current value
+ */
+export function editedFields(song: Record<string, any>, data: Record<string, any>): LockableField[] {
+  return (Object.keys(LOCKABLE_FIELDS) as LockableField[]).filter(field => {
+    const { column } = LOCKABLE_FIELDS[field];
+    return column in data && (data[column] ?? null) !== (song[column] ?? null);
+  });
+}
+
+/**
+ * Reads a song's stored proposals
+ */
+export function getProposals(song: Pick<Song, 'aiProposed'>): ProposedValues {
+  return sharedLocks.getProposals(song) as ProposedValues;
+}
+
+/**
+ * Value for the ai_proposed column (DbNull once nothing is left to review)
+ */
+export function proposalsValue(proposals: ProposedValues): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return sharedLocks.proposalsValue(proposals);
+}
+
+/**
+ * Filters a classification write (song columns) through the song's locks.
+ * Locked fields are removed from the write; where the AI now disagrees with the
+ * curator the AI value becomes a proposal, and where it agrees any older
+ * proposal for that field is dropped. aiConfidence is recomputed from the
+ * confidences the song will actually hold.
+ *
+ * @param song - Existing song, or null for a new one (nothing is locked)
+ * @param options.propose - false for a failed classification: locked fields are
+ *   skipped without touching their proposals
+ */
+export function applyFieldLocks(
+  song: SongLockState | null,
+  data: Record<string, any>,
+  options: { propose?: boolean } = {}
+): Record<string, any> {
+  return sharedLocks.applyFieldLocks(song, data, options);
+}
+
+/**
+ * Builds the update that accepts or dismisses a song's proposals. Accepting
+ * copies the proposed value and confidence into the field, which stays locked
+ * as a curator decision. Dismissing just drops the proposal.
+ *
+ * @param fields - Fields to resolve (default: every pending proposal)
+ * @returns The song update and the fields that had a proposal
+ */
+export function resolveProposals(
+  song: SongLockState,
+  action: 'accept' | 'dismiss',
+  fields?: LockableField[]
+): { data: Record<string, any>; resolved: LockableField[] } {
+  const proposals = { ...getProposals(song) };
+  const resolved = (fields || (Object.keys(proposals) as LockableField[]))
+    .filter(field => isLockableField(field) && proposals[field]);
+
+  const data: Record<string, any> = {};
+
+  for (const field of resolved) {
+    if (action === 'accept') {
+      const { column, confidence } = LOCKABLE_FIELDS[field];
+      data[column] = proposals[field]!.value;
+      data[confidence] = proposals[field]!.confidence;
+    }
+    delete proposals[field];
+  }
+
+  if (resolved.length === 0) {
+    return { data, resolved };
+  }
+
+  data.aiProposed = proposalsValue(proposals);
+
+  if (action === 'accept') {
+    data.aiConfidence = sharedLocks.overallConfidence(
+      Object.values(LOCKABLE_FIELDS).map(({ confidence }) =>
+        confidence in data ? data[confidence] : song[confidence] ?? null
+      )
+    );
+  }
+
+  return { data, resolved };
+}
@@ -0,0 +1,50 @@
+/**
+ * Prompt Rollout
+ *
+ * Reads the admin-managed prompt rollout (active version + optional candidate
+ * share) and picks a prompt registry version for each classification.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { getDefaultPromptId, selectPromptId } from '../../src/utils/prompt-registry.cjs';
+
+export interface PromptRolloutState {
+  activePromptId: string;
+  candidatePromptId: string | null;
+  candidatePercent: number;
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Gets the current rollout, falling back to the registry default when no admin
+ * has configured one yet
+ */
+export async function getPromptRollout(prisma: PrismaClient): Promise<PromptRolloutState> {
+  const rollout = await prisma.promptRollout.findUnique({ where: { id: 1 } });
+
+  if (!rollout) {
+    return {
+      activePromptId: getDefaultPromptId(),
+      candidatePromptId: null,
+      candidatePercent: 0,
+      updatedBy: null,
+      updatedAt: null,
+    };
+  }
+
+  return {
+    activePromptId: rollout.activePromptId,
+    candidatePromptId: rollout.candidatePromptId,
+    candidatePercent: rollout.candidatePercent,
+    updatedBy: rollout.updatedBy,
+    updatedAt: rollout.updatedAt,
+  };
+}
+
+/**
+ * Picks the prompt version for one classification from a rollout
+ */
+export function choosePromptId(rollout: PromptRolloutState): string {
+  return selectPromptId(rollout);
+}
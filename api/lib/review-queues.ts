@@ -0,0 +1,135 @@
+/**
+ * Review Queues
+ *
+ * Shared by the review queue endpoints. A queue is a saved song filter (see
+ * song-filters.ts) plus the curators it hands songs to. Its open songs are the
+ * unreviewed ones matching the filter; each is handed to one curator at a time
+ * under a claim that expires after CLAIM_TTL_MINUTES, so an abandoned song goes
+ * back to the queue.
+ *
+ * A BLIND queue (see blind-review.ts) hands each song to two curators in turn
+ * and keeps it open until both have labelled it.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { AuthUser } from './auth.js';
+import { BLIND_RATERS } from './blind-review.js';
+import { buildSongWhere, type SongFilterParams } from './song-filters.js';
+import type { CategoryEntry } from './taxonomy.js';
+
+export const CLAIM_TTL_MINUTES = 15;
+
+export const VALID_QUEUE_STATUS = ['ACTIVE', 'ARCHIVED'];
+
+export const VALID_QUEUE_MODES = ['STANDARD', 'BLIND'];
+
+const MAX_NAME_LENGTH = 255;
+
+// Filter parameters a queue keeps. reviewStatus is dropped: queues always hand
+// out unreviewed songs, and progress counts the reviewed ones.
+const QUEUE_FILTER_KEYS: Array<keyof SongFilterParams> = [
+  'subgenres',
+  'categories',
+  'energies',
+  'accessibilities',
+  'explicits',
+  'status',
+  'approvalStatus',
+  'uploadBatchId',
+  'playlistId',
+  'search',
+  'minConfidence',
+  'maxConfidence',
+];
+
+/**
+ * Keeps the known filter parameters with non-empty string values
+ */
+export function cleanQueueFilters(raw: unknown): SongFilterParams {
+  const filters: SongFilterParams = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return filters;
+
+  for (const key of QUEUE_FILTER_KEYS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === 'string' && value.trim() && value !== 'all') {
+      filters[key] = value.trim();
+    }
+  }
+  return filters;
+}
+
+/**
+ * Validates a queue name
+ */
+export function cleanQueueName(raw: unknown): { name: string } | { error: string } {
+  const name = typeof raw === 'string' ? raw.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  return { name };
+}
+
+/**
+ * Looks up assignees by email. Only active users can be assigned.
+ * @returns The user ids, or an error naming the emails that didn't match
+ */
+export async function resolveAssignees(
+  prisma: PrismaClient,
+  raw: unknown
+): Promise<{ userIds: string[] } | { error: string }> {
+  if (!Array.isArray(raw) || raw.some(email => typeof email !== 'string')) {
+    return { error: 'assignees must be a list of user emails' };
+  }
+
+  const emails = [...new Set((raw as string[]).map(email => email.trim().toLowerCase()).filter(Boolean))];
+  const users = await prisma.user.findMany({
+    where: { email: { in: emails }, active: true },
+    select: { id: true, email: true },
+  });
+
+  const found = new Set(users.map(user => user.email));
+  const unknown = emails.filter(email => !found.has(email));
+  if (unknown.length > 0) {
+    return { error: `No active user with email: ${unknown.join(', ')}` };
+  }
+
+  return { userIds: users.map(user => user.id) };
+}
+
+/**
+ * Prisma where clause for all songs in a queue, reviewed or not
+ */
+export function queueSongWhere(filters: unknown, categories: CategoryEntry[]) {
+  return buildSongWhere(cleanQueueFilters(filters), categories);
+}
+
+/**
+ * Prisma where clause for a queue's open songs: unreviewed, and in a BLIND
+ * queue, still short of their second label
+ */
+export function openSongWhere(queue: { filters: unknown; mode: string }, categories: CategoryEntry[]) {
+  return {
+    AND: [
+      queueSongWhere(queue.filters, categories),
+      { reviewed: false },
+      ...(queue.mode === 'BLIND' ? [{ blindLabels: { none: { rater: BLIND_RATERS } } }] : []),
+    ],
+  };
+}
+
+/**
+ * Whether the user may take songs from the queue: its assignees, and admins
+ */
+export function canWorkQueue(
+  queue: { assignees: Array<{ userId: string }> },
+  user: Pick<AuthUser, 'id' | 'role'>
+): boolean {
+  return user.role === 'ADMIN' || queue.assignees.some(assignee => assignee.userId === user.id);
+}
+
+export function claimExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + CLAIM_TTL_MINUTES * 60 * 1000);
+}
@@ -0,0 +1,171 @@
+/**
+ * Song Filters
+ *
+ * Builds the Prisma where clause for the GET /api/songs filter parameters.
+ * Shared with POST /api/songs/reclassify so a saved filter selects the same songs.
+ */
+
+import { parseConfidenceParam } from './confidence.js';
+import type { CategoryEntry } from './taxonomy.js';
+
+/**
+ * Filter parameters as sent in the GET /api/songs query string. Multi-select
+ * values are comma-separated.
+ */
+export interface SongFilterParams {
+  subgenres?: string;
+  categories?: string; // Category ids; each expands to all of its subgenres
+  energies?: string;
+  accessibilities?: string;
+  explicits?: string;
+  status?: string;
+  reviewStatus?: string;
+  approvalStatus?: string;
+  uploadBatchId?: string;
+  playlistId?: string;
+  search?: string;
+  minConfidence?: string;
+  maxConfidence?: string;
+}
+
+// Parse comma-separated values into arrays with sanitization
+const MAX_FILTER_VALUES = 50;
+const parseFilterArray = (param: string | undefined): string[] => {
+  if (!param) return [];
+  return param.split(',').map(v => v.trim()).filter(Boolean).slice(0, MAX_FILTER_VALUES);
+};
+
+/**
+ * Expands a comma-separated list of category ids to the names of their
+ * subgenres. Deprecated subgenres are included since songs may still carry
+ * them; unknown ids expand to nothing.
+ */
+export function expandCategoryFilter(param: string | undefined, categories: CategoryEntry[]): string[] {
+  const ids = new Set(parseFilterArray(param).map(Number));
+  return categories
+    .filter(category => category.id !== null && ids.has(category.id))
+    .flatMap(category => category.subgenres.map(subgenre => subgenre.name));
+}
+
+/**
+ * Builds a Prisma where clause from filter parameters
+ * @param categories - The subgenre taxonomy, used to expand the categories filter
+ */
+export function buildSongWhere(params: SongFilterParams, categories: CategoryEntry[] = []) {
+  // Multi-select filters (comma-separated values)
+  // Selected subgenres and the members of selected categories are combined
+  const hasSubgenreFilter = parseFilterArray(params.subgenres).length > 0
+    || parseFilterArray(params.categories).length > 0;
+  const subgenres = [...new Set([
+    ...parseFilterArray(params.subgenres),
+    ...expandCategoryFilter(params.categories, categories),
+  ])];
+  const energies = parseFilterArray(params.energies);
+  const accessibilities = parseFilterArray(params.accessibilities);
+  const explicits = parseFilterArray(params.explicits);
+
+  // Single-select filters
+  const { status, reviewStatus, approvalStatus, uploadBatchId, playlistId, search } = params;
+  const minConfidence = parseConfidenceParam(params.minConfidence);
+  const maxConfidence = parseConfidenceParam(params.maxConfidence);
+
+  const where: any = {};
+  const andConditions: any[] = [];
+
+  // Subgenre filter (multi-select: searches across all 3 subgenre columns)
+  // A song matches if ANY of its subgenres match ANY of the selected subgenres
+  // Note: Database values are Title Case per CLAUDE.md, so we match exactly
+  if (hasSubgenreFilter) {
+    andConditions.push({
+      OR: [
+        { aiSubgenre1: { in: subgenres } },
+        { aiSubgenre2: { in: subgenres } },
+        { aiSubgenre3: { in: subgenres } },
+      ]
+    });
+  }
+
+  // Search filter (searches artist, title, and ISRC with AND logic)
+  if (search && search.trim()) {
+    const searchTerms = search.trim().split(/\s+/); // Split by whitespace
+
+    // Each search term must match in at least one field (artist, title, or ISRC)
+    searchTerms.forEach(term => {
+      andConditions.push({
+        OR: [
+          { artist: { contains: term, mode: 'insensitive' } },
+          { title: { contains: term, mode: 'insensitive' } },
+          { isrc: { contains: term, mode: 'insensitive' } },
+        ]
+      });
+    });
+  }
+
+  // Status filter
+  if (status && status !== 'all') {
+    where.aiStatus = status;
+  }
+
+  // Review status filter
+  if (reviewStatus && reviewStatus !== 'all') {
+    if (reviewStatus === 'reviewed') {
+      where.reviewed = true;
+    } else if (reviewStatus === 'unreviewed') {
+      where.reviewed = false;
+    }
+  }
+
+  // Approval status filter (PENDING, APPROVED, REJECTED, or 'active' for non-rejected)
+  if (approvalStatus && approvalStatus !== 'all') {
+    if (approvalStatus === 'active') {
+      // Active = all non-rejected songs (soft approve model)
+      where.approvalStatus = { not: 'REJECTED' };
+    } else {
+      where.approvalStatus = approvalStatus.toUpperCase();
+    }
+  }
+
+  // Energy filter (multi-select)
+  if (energies.length > 0) {
+    where.aiEnergy = { in: energies };
+  }
+
+  // Accessibility filter (multi-select)
+  if (accessibilities.length > 0) {
+    where.aiAccessibility = { in: accessibilities };
+  }
+
+  // Explicit content filter (multi-select)
+  if (explicits.length > 0) {
+    where.aiExplicit = { in: explicits };
+  }
+
+  // Confidence filter (overall = lowest field confidence)
+  if (minConfidence !== null || maxConfidence !== null) {
+    where.aiConfidence = {
+      ...(minConfidence !== null && { gte: minConfidence }),
+      ...(maxConfidence !== null && { lt: maxConfidence }),
+    };
+  }
+
+  // Upload batch filter
+  if (uploadBatchId && uploadBatchId !== 'all') {
+    where.uploadBatchId = uploadBatchId;
+  }
+
+  // Playlist filter (filter by songs that belong to a specific playlist)
+  if (playlistId && playlistId !== 'all') {
+    where.playlists = {
+      some: {
+        playlistId: playlistId
+      }
+    };
+  }
+
+  // Combine AND conditions if any exist
+  if (andConditions.length > 0) {
+    where.AND = andConditions;
+  }
+
+  return where;
+}
@@ -0,0 +1,74 @@
+/**
+ * Song Response Format
+ *
+ * Prisma uses camelCase, the API uses snake_case. Every endpoint that returns
+ * songs goes through formatSong() so the client always gets the same shape.
+ */
+
+import type { Song } from '@prisma/client';
+
+/**
+ * Maps a Song row to the API's Song interface
+ */
+export function formatSong(song: Song) {
+  return {
+    id: song.id,
+    isrc: song.isrc,
+    title: song.title,
+    artist: song.artist,
+    energy: song.energy,
+    bpm: song.bpm,
+    subgenre: song.subgenre,
+    artwork: song.artworkUrl || song.artwork,
+    source_file: song.s3Url || song.sourceFile,
+    spotify_track_id: song.spotifyTrackId,
+    spotify_preview_url: song.spotifyPreviewUrl,
+    spotify_artwork_url: song.spotifyArtworkUrl,
+    ai_status: song.aiStatus,
+    ai_error_message: song.aiErrorMessage,
+    ai_reasoning: song.aiReasoning,
+    ai_context_used: song.aiContextUsed,
+    ai_grounding: song.aiGrounding,
+    ai_energy: song.aiEnergy,
+    ai_accessibility: song.aiAccessibility,
+    ai_explicit: song.aiExplicit,
+    ai_explicit_evidence: song.aiExplicitEvidence,
+    ai_subgenre_1: song.aiSubgenre1,
+    ai_subgenre_2: song.aiSubgenre2,
+    ai_subgenre_3: song.aiSubgenre3,
+    ai_repairs: song.aiRepairs,
+    ai_prompt_id: song.aiPromptId,
+    ai_confidence: song.aiConfidence,
+    ai_energy_confidence: song.aiEnergyConfidence,
+    ai_accessibility_confidence: song.aiAccessibilityConfidence,
+    ai_explicit_confidence: song.aiExplicitConfidence,
+    ai_subgenre_1_confidence: song.aiSubgenre1Confidence,
+    ai_subgenre_2_confidence: song.aiSubgenre2Confidence,
+    ai_subgenre_3_confidence: song.aiSubgenre3Confidence,
+    // Measured from the preview/source audio
+    audio_tempo: song.audioTempo,
+    audio_tempo_confidence: song.audioTempoConfidence,
+    audio_loudness_lufs: song.audioLoudnessLufs,
+    audio_rms_db: song.audioRmsDb,
+    audio_brightness: song.audioBrightness,
+    audio_onset_rate: song.audioOnsetRate,
+    audio_energy_score: song.audioEnergyScore,
+    audio_source: song.audioSource,
+    audio_analyzed_at: song.audioAnalyzedAt?.toISOString() || null,
+    // Curator locks and the AI values waiting on them
+    locked_fields: song.lockedFields,
+    ai_proposed: song.aiProposed,
+    reviewed: song.reviewed,
+    reviewed_by: song.reviewedBy,
+    reviewed_at: song.reviewedAt?.toISOString() || null,
+    curator_notes: song.curatorNotes,
+    // Approval workflow fields
+    approval_status: song.approvalStatus || 'PENDING',
+    approved_by: song.approvedBy || null,
+    approved_at: song.approvedAt?.toISOString() || null,
+    rejection_reason: song.rejectionReason,
+    rejection_note: song.rejectionNote,
+    created_at: song.createdAt.toISOString(),
+    modified_at: song.modifiedAt.toISOString(),
+  };
+}
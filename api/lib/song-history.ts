@@ -0,0 +1,100 @@
+/**
+ * Song History
+ *
+ * Reads the field-level change log written by src/utils/song-changes.cjs
+ * (GET /api/songs/:isrc/history) and builds admin reverts
+ * (POST /api/songs/:isrc/revert).
+ */
+
+import type { Song, SongChange } from '@prisma/client';
+import { TRACKED_FIELDS } from '../../src/utils/song-changes.cjs';
+
+const TRACKED: Record<string, string> = TRACKED_FIELDS;
+
+/**
+ * One write to a song: the fields it changed plus who/what made it
+ */
+export interface ChangeSet {
+  change_set_id: string;
+  source: string;
+  context: string | null;
+  changed_by: string | null;
+  created_at: Date;
+  changes: Array<{ id: string; field: string; old_value: string | null; new_value: string | null }>;
+}
+
+/**
+ * Groups change rows (newest first) into change sets, keeping that order
+ */
+export function groupChangeSets(changes: SongChange[]): ChangeSet[] {
+  const sets = new Map<string, ChangeSet>();
+
+  for (const change of changes) {
+    let set = sets.get(change.changeSetId);
+    if (!set) {
+      set = {
+        change_set_id: change.changeSetId,
+        source: change.source,
+        context: change.context,
+        changed_by: change.changedBy,
+        created_at: change.createdAt,
+        changes: [],
+      };
+      sets.set(change.changeSetId, set);
+    }
+    set.changes.push({
+      id: change.id,
+      field: change.field,
+      old_value: change.oldValue,
+      new_value: change.newValue,
+    });
+  }
+
+  return [...sets.values()];
+}
+
+// Stored text back to the column's type
+function fromText(field: string, value: string | null) {
+  if (field === 'reviewed') {
+    return value === 'true';
+  }
+  return value;
+}
+
+/**
+ * Works out the song update that restores every tracked field to its value
+ * right after the given change set. A field changed later gets back the old
+ * value of its first later change; fields not changed since are left alone.
+ *
+ * @param changes - All of the song's changes, oldest first
+ * @returns The song columns to write (empty if the song already matches), or
+ *   null if the change set isn't in the song's history
+ */
+export function buildRevert(
+  song: Song,
+  changes: SongChange[],
+  changeSetId: string
+): { data: Record<string, any>; fields: string[] } | null {
+  const lastIndex = changes.map(change => change.changeSetId).lastIndexOf(changeSetId);
+  if (lastIndex === -1) {
+    return null;
+  }
+
+  const data: Record<string, any> = {};
+  const fields: string[] = [];
+  const later = changes.slice(lastIndex + 1).filter(change => change.changeSetId !== changeSetId);
+
+  for (const [field, column] of Object.entries(TRACKED)) {
+    const next = later.find(change => change.field === field);
+    if (!next) continue;
+
+    const value = fromText(field, next.oldValue);
+    if (value !== ((song as Record<string, any>)[column] ?? null)) {
+      data[column] = value;
+      fields.push(field);
+    }
+  }
+
+  return { data, fields };
+}
+
@@ -0,0 +1,254 @@
+/**
+ * Song Import
+ *
+ * Saves classified upload rows as songs. Shared by the upload worker and
+ * POST /api/songs/process-batch so both write the same columns; reclassified
+ * songs get the same AI columns via updateSongClassification(). Every write
+ * goes through applyFieldLocks(), so curator-locked fields only receive
+ * proposals, and is recorded in the song's change history (song-changes.cjs).
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { overallConfidence } from './confidence.js';
+import { recordClassificationRun } from './classification-runs.js';
+import { applyFieldLocks } from './field-locks.js';
+import { audioFeatureFields, type SongAudioFeatures } from './audio-analysis.js';
+import { createSongWithHistory, updateSongWithHistory } from '../../src/utils/song-changes.cjs';
+import { saveExplicitResult as saveSongExplicitResult } from '../../src/classifiers/explicit-jobs.cjs';
+
+export interface SongToProcess {
+  artist: string;
+  title: string;
+  isrc?: string;
+  bpm?: number;
+  // Current tags of a reclassified song, used to find few-shot examples
+  subgenres?: string[];
+  spotifyTrackId?: string;
+  s3Url?: string;
+  artworkUrl?: string;
+  spotifyPreviewUrl?: string;
+  spotifyArtworkUrl?: string;
+  // Checked by the lyrics explicit provider
+  lyrics?: string;
+  // Measured audio features (analyzeSongAudio(), or stored ones for a reclassified song)
+  audio?: SongAudioFeatures | null;
+}
+
+export interface ImportTarget {
+  batchId: string;
+  uploadBatchName: string;
+  playlistId: string;
+}
+
+/**
+ * Why an explicit verdict was reached (built by explicit-jobs.cjs, stored in
+ * songs.ai_explicit_evidence)
+ */
+export interface ExplicitEvidence {
+  provider: 'parallel' | 'lyrics';
+  classification: string;
+  examples: Array<{ line: string; lineNumber?: number; terms?: string[] }>;
+  reasoning: string;
+  sources: Array<{ url: string; title: string | null }>;
+  checkedAt: string;
+  jobId: string;
+}
+
+export interface ExplicitResultInput {
+  classification: string | null;
+  confidence?: number | null;
+  evidence?: ExplicitEvidence;
+}
+
+// Helper to truncate strings to database column limits
+const truncate = (str: string | null | undefined, maxLen: number): string | null => {
+  if (!str) return null;
+  return str.length > maxLen ? str.substring(0, maxLen) : str;
+};
+
+/**
+ * Song metadata passed to the classifier and recorded with each run
+ */
+export function classificationMetadata(song: SongToProcess) {
+  return {
+    bpm: song.bpm,
+    ...(song.audio && { audio: song.audio }),
+  };
+}
+
+/**
+ * Maps a classifySongWithCache() result to the song's AI columns (everything
+ * except explicit, which comes from a separate task)
+ */
+function classificationFields(result: any) {
+  // Per-field confidence (null when the provider gave none)
+  const confidence = result?.confidence || {};
+  const fieldConfidence = {
+    aiEnergyConfidence: confidence.energy ?? null,
+    aiAccessibilityConfidence: confidence.accessibility ?? null,
+    aiSubgenre1Confidence: confidence.subgenre1 ?? null,
+    aiSubgenre2Confidence: confidence.subgenre2 ?? null,
+    aiSubgenre3Confidence: confidence.subgenre3 ?? null
+  };
+
+  return {
+    // Gemini results - truncate to match DB column limits
+    aiEnergy: truncate(result?.energy, 20),
+    aiAccessibility: truncate(result?.accessibility, 20),
+    aiSubgenre1: truncate(result?.subgenre1, 100),
+    aiSubgenre2: truncate(result?.subgenre2, 100),
+    aiSubgenre3: truncate(result?.subgenre3, 100),
+    aiReasoning: truncate(result?.reasoning, 5000),
+    aiContextUsed: truncate(result?.context, 2000),
+    // Search queries and sources the classification was grounded on
+    aiGrounding: result?.grounding ?? Prisma.DbNull,
+    // Fields repaired by taxonomy validation (fuzzy match / re-prompt)
+    aiRepairs: result?.repairs?.length ? result.repairs : Prisma.DbNull,
+    aiPromptId: result?.promptId || null,
+    ...fieldConfidence,
+    aiConfidence: overallConfidence(Object.values(fieldConfidence)),
+    // Status
+    aiStatus: result?.status === 'SUCCESS' ? 'SUCCESS' : 'ERROR',
+    aiErrorMessage: result?.error_message || null
+  };
+}
+
+/**
+ * Upserts a song from a classifySongWithCache() result, records the run and
+ * links the song to its playlist. aiExplicit is reset; it is filled in later
+ * from the explicit task. An existing song keeps its review state and its
+ * locked fields.
+ */
+export async function saveClassifiedSong(
+  prisma: PrismaClient,
+  song: SongToProcess,
+  isrc: string,
+  result: any,
+  target: ImportTarget
+) {
+  const metadata = classificationMetadata(song);
+
+  const enrichedSong = {
+    isrc,
+    title: truncate(song.title, 500),
+    artist: truncate(song.artist, 500),
+    bpm: song.bpm || null,
+    spotifyTrackId: truncate(song.spotifyTrackId, 50),
+    s3Url: song.s3Url || null,
+    artwork: song.spotifyArtworkUrl || song.artworkUrl || null,
+    artworkUrl: song.artworkUrl || null,
+    spotifyPreviewUrl: song.spotifyPreviewUrl || null,
+    spotifyArtworkUrl: song.spotifyArtworkUrl || null,
+    // A re-upload without lyrics keeps the stored ones
+    ...(song.lyrics && { lyrics: song.lyrics }),
+    ...(song.audio && audioFeatureFields(song.audio)),
+    ...classificationFields(result),
+    // Upload tracking
+    uploadBatchId: target.batchId,
+    uploadBatchName: target.uploadBatchName
+  };
+
+  // A re-uploaded song (e.g. a colliding ISRC) must not lose curator edits
+  const existing = await prisma.song.findUnique({ where: { isrc } });
+
+  // Explicit is updated once the explicit task finishes; a curator's value is kept meanwhile
+  const explicitReset = existing?.lockedFields.includes('ai_explicit')
+    ? {}
+    : { aiExplicit: null, aiExplicitConfidence: null, aiExplicitEvidence: Prisma.DbNull };
+
+  const context = `Upload: ${target.uploadBatchName}`;
+  const savedSong = existing
+    ? await updateSongWithHistory(prisma, existing, applyFieldLocks(existing, { ...enrichedSong, ...explicitReset }, {
+        propose: result?.status === 'SUCCESS'
+      }), { source: 'AI', context })
+    : await createSongWithHistory(prisma, { ...enrichedSong, ...explicitReset, reviewed: false }, {
+        source: 'IMPORT',
+        context
+      });
+
+  // Keep this attempt in the run history (the write above replaces the song's AI columns)
+  try {
+    await recordClassificationRun(prisma, savedSong.isrc, {
+      artist: song.artist,
+      title: song.title,
+      metadata
+    }, result);
+  } catch (runError: any) {
+    console.error(`[SongImport] Failed to record classification run for ${savedSong.isrc}:`, runError.message);
+    // Non-fatal - the song itself was saved
+  }
+
+  // Create playlist association
+  await prisma.playlistSong.upsert({
+    where: {
+      playlistId_songIsrc: {
+        playlistId: target.playlistId,
+        songIsrc: savedSong.isrc
+      }
+    },
+    update: { wasNew: true },
+    create: {
+      playlistId: target.playlistId,
+      songIsrc: savedSong.isrc,
+      wasNew: true
+    }
+  });
+
+  return savedSong;
+}
+
+/**
+ * Writes a reclassification to an existing song and records the run. Only a
+ * successful result replaces the AI columns, so a failed retry never wipes a
+ * good earlier classification. Audio features measured for this run are saved
+ * with it; other song metadata, explicit and review state are left alone, and
+ * locked fields get proposals instead.
+ * @returns true if the song was updated
+ */
+export async function updateSongClassification(
+  prisma: PrismaClient,
+  isrc: string,
+  song: SongToProcess,
+  result: any
+): Promise<boolean> {
+  try {
+    await recordClassificationRun(prisma, isrc, {
+      artist: song.artist,
+      title: song.title,
+      metadata: classificationMetadata(song)
+    }, result);
+  } catch (runError: any) {
+    console.error(`[SongImport] Failed to record classification run for ${isrc}:`, runError.message);
+    // Non-fatal - still update the song
+  }
+
+  if (result?.status !== 'SUCCESS') {
+    return false;
+  }
+
+  const existing = await prisma.song.findUnique({ where: { isrc } });
+  if (!existing) {
+    return false;
+  }
+
+  await updateSongWithHistory(prisma, existing, applyFieldLocks(existing, {
+    ...(song.audio && audioFeatureFields(song.audio)),
+    ...classificationFields(result)
+  }), { source: 'AI', context: `Reclassification${result.promptId ? ` (${result.promptId})` : ''}` });
+
+  return true;
+}
+
+/**
+ * Writes an explicit result to its song, honouring a lock on the explicit
+ * field. The write itself is shared with the scripts (saveExplicitResult in
+ * src/classifiers/explicit-jobs.cjs).
+ * @returns true if the song was updated
+ */
+export async function saveExplicitResult(
+  prisma: PrismaClient,
+  isrc: string,
+  result: ExplicitResultInput
+): Promise<boolean> {
+  return (await saveSongExplicitResult(prisma, isrc, result)) !== null;
+}
@@ -0,0 +1,329 @@
+/**
+ * Subgenre Migration
+ *
+ * Maps retired or merged subgenres onto their replacements on every song
+ * (ai_subgenre_1..3). After mapping, a song whose slots now repeat a value
+ * keeps the first one (with the higher confidence) and the remaining slots are
+ * compacted, so "A, B, C" with B -> A becomes "A, C, -".
+ *
+ * Field locks and pending AI proposals follow their value when slots move, and
+ * proposed subgenres are mapped too.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { overallConfidence } from './confidence.js';
+import { LOCKABLE_FIELDS, getProposals, proposalsValue, type ProposedValues } from './field-locks.js';
+
+export const MAX_MAPPINGS = 50;
+
+const SLOTS = [
+  { field: 'ai_subgenre_1', column: 'aiSubgenre1', confidence: 'aiSubgenre1Confidence' },
+  { field: 'ai_subgenre_2', column: 'aiSubgenre2', confidence: 'aiSubgenre2Confidence' },
+  { field: 'ai_subgenre_3', column: 'aiSubgenre3', confidence: 'aiSubgenre3Confidence' },
+] as const;
+
+const SONG_SELECT = {
+  isrc: true,
+  artist: true,
+  title: true,
+  approvalStatus: true,
+  aiSubgenre1: true,
+  aiSubgenre2: true,
+  aiSubgenre3: true,
+  aiEnergyConfidence: true,
+  aiAccessibilityConfidence: true,
+  aiExplicitConfidence: true,
+  aiSubgenre1Confidence: true,
+  aiSubgenre2Confidence: true,
+  aiSubgenre3Confidence: true,
+  lockedFields: true,
+  aiProposed: true,
+} as const;
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface SubgenreMapping {
+  from: string;
+  to: string;
+}
+
+export interface SongRewrite {
+  isrc: string;
+  artist: string | null;
+  title: string | null;
+  before: Array<string | null>;
+  after: Array<string | null>;
+  deduplicated: number;
+  exported: boolean; // Not rejected, so it appears in default exports
+  data: Record<string, any>;
+}
+
+export interface MigrationImpact {
+  songs: number;
+  slotsRewritten: number;
+  slotsDeduplicated: number;
+  exportedSongs: number;
+  playlists: number;
+  topPlaylists: Array<{ id: string; name: string; songCount: number }>;
+  byMapping: Array<SubgenreMapping & { songCount: number }>;
+}
+
+export interface MigrationPlan {
+  rewrites: SongRewrite[];
+  impact: MigrationImpact;
+}
+
+/**
+ * Validates a mapping list: distinct sources, no chains (a target that is
+ * also a source), and targets that are active subgenres
+ * @returns The cleaned mappings, or an error message
+ */
+export function validateMappings(
+  raw: unknown,
+  activeSubgenres: Set<string>
+): { mappings: SubgenreMapping[] } | { error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'mappings must be a non-empty array of { from, to }' };
+  }
+  if (raw.length > MAX_MAPPINGS) {
+    return { error: `At most ${MAX_MAPPINGS} mappings per migration` };
+  }
+
+  const mappings: SubgenreMapping[] = [];
+  for (const entry of raw) {
+    const from = typeof entry?.from === 'string' ? entry.from.trim() : '';
+    const to = typeof entry?.to === 'string' ? entry.to.trim() : '';
+    if (!from || !to) {
+      return { error: 'Each mapping needs a from and a to subgenre' };
+    }
+    if (from === to) {
+      return { error: `"${from}" is mapped onto itself` };
+    }
+    if (!activeSubgenres.has(to)) {
+      return { error: `Target "${to}" is not an active subgenre` };
+    }
+    mappings.push({ from, to });
+  }
+
+  const sources = new Set(mappings.map(m => m.from));
+  if (sources.size !== mappings.length) {
+    return { error: 'Each source subgenre can only be mapped once' };
+  }
+  const chained = mappings.find(m => sources.has(m.to));
+  if (chained) {
+    return { error: `"${chained.to}" is both a source and a target; map its sources straight to the final subgenre` };
+  }
+
+  return { mappings };
+}
+
+/**
+ * Computes the update for one song, or null if none of its subgenres are mapped
+ */
+export function rewriteSong(song: Record<string, any>, mapping: Map<string, string>): SongRewrite | null {
+  const locked: string[] = song.lockedFields || [];
+  const before = SLOTS.map(slot => song[slot.column] ?? null);
+
+  if (!before.some(value => value && mapping.has(value))) {
+    return null;
+  }
+
+  // Map, then drop repeats (first slot wins, keeping the higher confidence)
+  const kept: Array<{ value: string; confidence: number | null }> = [];
+  const moves: Array<number | null> = []; // Index in `kept` of each slot's value
+  let deduplicated = 0;
+
+  for (const slot of SLOTS) {
+    const current = song[slot.column];
+    if (!current) {
+      moves.push(null);
+      continue;
+    }
+
+    const value = mapping.get(current) ?? current;
+    const confidence = song[slot.confidence] ?? null;
+    const duplicate = kept.findIndex(entry => entry.value === value);
+
+    if (duplicate !== -1) {
+      deduplicated++;
+      const entry = kept[duplicate];
+      if (confidence !== null && (entry.confidence === null || confidence > entry.confidence)) {
+        entry.confidence = confidence;
+      }
+      moves.push(duplicate);
+    } else {
+      kept.push({ value, confidence });
+      moves.push(kept.length - 1);
+    }
+  }
+
+  // Slot each old slot moves to: its value's new slot, or for an empty slot the next trailing one
+  let trailing = kept.length;
+  const targets = moves.map(index => index ?? trailing++);
+
+  // Compact into the leading slots
+  const data: Record<string, any> = { modifiedAt: new Date() };
+  SLOTS.forEach((slot, index) => {
+    data[slot.column] = kept[index]?.value ?? null;
+    data[slot.confidence] = kept[index]?.confidence ?? null;
+  });
+
+  // Locks move with their slot (a merged slot's lock goes to the slot that kept its value)
+  const slotFields: string[] = SLOTS.map(slot => slot.field);
+  const lockedSlots = new Set(SLOTS.flatMap((slot, index) => locked.includes(slot.field) ? [targets[index]] : []));
+  data.lockedFields = [
+    ...locked.filter(field => !slotFields.includes(field)),
+    ...SLOTS.filter((_, index) => lockedSlots.has(index)).map(slot => slot.field),
+  ];
+
+  // Proposals move with their slot too and follow the mapping. One that now
+  // matches its slot is moot; where two land on one slot the first is kept.
+  const proposals = getProposals({ aiProposed: song.aiProposed ?? null });
+  const moved: ProposedValues = {};
+  SLOTS.forEach((slot, index) => {
+    const proposal = proposals[slot.field];
+    if (!proposal) return;
+
+    const target = SLOTS[targets[index]].field;
+    const value = proposal.value && mapping.has(proposal.value) ? mapping.get(proposal.value)! : proposal.value;
+    if (value === (kept[targets[index]]?.value ?? null) || moved[target]) return;
+
+    moved[target] = value === proposal.value ? proposal : { ...proposal, value };
+  });
+  if (SLOTS.some(slot => moved[slot.field] !== proposals[slot.field])) {
+    const remaining: ProposedValues = { ...proposals };
+    SLOTS.forEach(slot => delete remaining[slot.field]);
+    data.aiProposed = proposalsValue({ ...remaining, ...moved });
+  }
+
+  data.aiConfidence = overallConfidence(
+    Object.values(LOCKABLE_FIELDS).map(({ confidence }) =>
+      confidence in data ? data[confidence] : song[confidence] ?? null
+    )
+  );
+
+  return {
+    isrc: song.isrc,
+    artist: song.artist,
+    title: song.title,
+    before,
+    after: SLOTS.map(slot => data[slot.column]),
+    deduplicated,
+    exported: song.approvalStatus !== 'REJECTED',
+    data,
+  };
+}
+
+/**
+ * Maps a song's proposed subgenres where they stand, for a rename (no slot
+ * moves). A proposal that now matches its slot's mapped value is dropped.
+ * @returns The ai_proposed write, or undefined if no proposal was mapped
+ */
+export function mapProposedSubgenres(
+  song: Record<string, any>,
+  mapping: Map<string, string>
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  const proposals = getProposals({ aiProposed: song.aiProposed ?? null });
+  const mapped: ProposedValues = { ...proposals };
+  let changed = false;
+
+  for (const slot of SLOTS) {
+    const proposal = proposals[slot.field];
+    if (!proposal?.value || !mapping.has(proposal.value)) continue;
+
+    const value = mapping.get(proposal.value)!;
+    const current = song[slot.column] ?? null;
+    if (value === (current && mapping.has(current) ? mapping.get(current) : current)) {
+      delete mapped[slot.field];
+    } else {
+      mapped[slot.field] = { ...proposal, value };
+    }
+    changed = true;
+  }
+
+  return changed ? proposalsValue(mapped) : undefined;
+}
+
+/**
+ * Groups rewrites that write the same values (same slots, confidences, locks
+ * and proposals), so each group can be applied with one updateMany
+ */
+export function groupRewrites(rewrites: SongRewrite[]): Array<{ isrcs: string[]; data: Record<string, any> }> {
+  const groups = new Map<string, { isrcs: string[]; data: Record<string, any> }>();
+
+  for (const rewrite of rewrites) {
+    // modifiedAt differs by milliseconds between songs; the group takes its first song's
+    const key = JSON.stringify(rewrite.data, (field, value) =>
+      field === 'modifiedAt' ? undefined : value === Prisma.DbNull ? 'DbNull' : value
+    );
+    const group = groups.get(key);
+    if (group) {
+      group.isrcs.push(rewrite.isrc);
+    } else {
+      groups.set(key, { isrcs: [rewrite.isrc], data: rewrite.data });
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Finds every song a migration would change and what it would do to them
+ */
+export async function planSubgenreMigration(db: Db, mappings: SubgenreMapping[]): Promise<MigrationPlan> {
+  const mapping = new Map(mappings.map(m => [m.from, m.to]));
+  const sources = [...mapping.keys()];
+
+  const songs = await db.song.findMany({
+    where: {
+      OR: SLOTS.map(slot => ({ [slot.column]: { in: sources } })),
+    },
+    select: SONG_SELECT,
+    orderBy: { isrc: 'asc' },
+  });
+
+  const rewrites = songs
+    .map(song => rewriteSong(song, mapping))
+    .filter((rewrite): rewrite is SongRewrite => rewrite !== null);
+
+  const isrcs = rewrites.map(rewrite => rewrite.isrc);
+  const playlistCounts = isrcs.length > 0
+    ? await db.playlistSong.groupBy({
+        by: ['playlistId'],
+        where: { songIsrc: { in: isrcs } },
+        _count: { _all: true },
+      })
+    : [];
+
+  const topCounts = [...playlistCounts]
+    .sort((a, b) => b._count._all - a._count._all)
+    .slice(0, 10);
+  const playlistNames = await db.playlist.findMany({
+    where: { id: { in: topCounts.map(p => p.playlistId) } },
+    select: { id: true, name: true },
+  });
+  const nameById = new Map(playlistNames.map(p => [p.id, p.name]));
+
+  return {
+    rewrites,
+    impact: {
+      songs: rewrites.length,
+      slotsRewritten: rewrites.reduce(
+        (sum, rewrite) => sum + rewrite.before.filter(value => value && mapping.has(value)).length,
+        0
+      ),
+      slotsDeduplicated: rewrites.reduce((sum, rewrite) => sum + rewrite.deduplicated, 0),
+      exportedSongs: rewrites.filter(rewrite => rewrite.exported).length,
+      playlists: playlistCounts.length,
+      topPlaylists: topCounts.map(p => ({
+        id: p.playlistId,
+        name: nameById.get(p.playlistId) || p.playlistId,
+        songCount: p._count._all,
+      })),
+      byMapping: mappings.map(m => ({
+        ...m,
+        songCount: rewrites.filter(rewrite => rewrite.before.includes(m.from)).length,
+      })),
+    },
+  };
+}
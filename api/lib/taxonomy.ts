@@ -0,0 +1,136 @@
+/**
+ * Subgenre Taxonomy
+ *
+ * Shared by the taxonomy endpoints and song validation. The categories and
+ * subgenres tables are the single source of subgenre names; songs store the
+ * names in ai_subgenre_1..3.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { loadTaxonomy } from '../../src/utils/subgenre-loader.cjs';
+
+export const MAX_NAME_LENGTH = 100;
+
+export const SUBGENRE_SLOTS = ['aiSubgenre1', 'aiSubgenre2', 'aiSubgenre3'] as const;
+
+export interface SubgenreEntry {
+  id: number | null;
+  name: string;
+  description: string | null;
+  deprecated: boolean;
+  songCount?: number;
+}
+
+export interface CategoryEntry {
+  id: number | null;
+  name: string;
+  description: string | null;
+  subgenres: SubgenreEntry[];
+}
+
+/**
+ * Gets the taxonomy in display order
+ * @param refresh - Skip the loader's one-minute cache (admin views, after an edit)
+ */
+export async function getTaxonomyEntries(
+  prisma: PrismaClient,
+  options: { refresh?: boolean } = {}
+): Promise<CategoryEntry[]> {
+  const taxonomy = await loadTaxonomy(prisma, { refresh: options.refresh });
+  return taxonomy.categories;
+}
+
+/**
+ * Counts songs per subgenre across the three subgenre slots
+ */
+export async function countSongsBySubgenre(prisma: PrismaClient): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+
+  for (const slot of SUBGENRE_SLOTS) {
+    const groups = await prisma.song.groupBy({
+      by: [slot],
+      where: { [slot]: { not: null } },
+      _count: { _all: true },
+    });
+    for (const group of groups) {
+      const name = (group as Record<string, any>)[slot] as string;
+      counts.set(name, (counts.get(name) || 0) + group._count._all);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Counts songs per category: songs with at least one of the category's
+ * subgenres in any slot. A song with two subgenres from one category counts once.
+ */
+export async function countSongsByCategory(
+  prisma: PrismaClient,
+  categories: CategoryEntry[]
+): Promise<Map<number, number>> {
+  const counts = new Map<number, number>();
+
+  for (const category of categories) {
+    if (category.id === null) continue;
+    const names = category.subgenres.map(subgenre => subgenre.name);
+    counts.set(category.id, names.length > 0
+      ? await prisma.song.count({ where: { OR: SUBGENRE_SLOTS.map(slot => ({ [slot]: { in: names } })) } })
+      : 0);
+  }
+
+  return counts;
+}
+
+/**
+ * Trims and collapses whitespace in a category or subgenre name
+ * @returns The cleaned name, or an error message
+ */
+export function cleanTaxonomyName(value: unknown): { name: string } | { error: string } {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { error: 'name must be a non-empty string' };
+  }
+  const name = value.trim().replace(/\s+/g, ' ');
+  if (name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  return { name };
+}
+
+/**
+ * Trims an optional description; empty clears it
+ */
+export function cleanDescription(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Checks subgenre values a curator is setting on a song. New values must be
+ * active subgenres; a deprecated value the song already has may be kept.
+ * @param current - The song's current subgenres
+ * @returns An error message, or null when every value is acceptable
+ */
+export async function checkSubgenreValues(
+  prisma: PrismaClient,
+  values: Array<string | null | undefined>,
+  current: Array<string | null>
+): Promise<string | null> {
+  const categories: CategoryEntry[] = (await loadTaxonomy(prisma)).categories;
+  const byName = new Map(
+    categories.flatMap(category => category.subgenres.map(subgenre => [subgenre.name, subgenre] as const))
+  );
+
+  for (const value of values) {
+    if (!value) continue;
+
+    const subgenre = byName.get(value);
+    if (!subgenre) {
+      return `Unknown subgenre "${value}"`;
+    }
+    if (subgenre.deprecated && !current.includes(value)) {
+      return `Subgenre "${value}" is deprecated`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,341 @@
+/**
+ * Upload Worker
+ *
+ * Works through UploadTask rows queued by POST /api/songs/upload and
+ * POST /api/songs/reclassify:
+ * - Claims pending tasks, measures each song's audio, classifies and saves it,
+ *   then creates its ExplicitJob with the job's explicit provider (a Parallel
+ *   AI run, or a lyrics check that finishes on the spot; reclassify jobs can
+ *   ask for either step only)
+ * - Failed classifications are retried with exponential backoff up to
+ *   MAX_ATTEMPTS; the last attempt saves an uploaded song with aiStatus ERROR,
+ *   while a reclassified song keeps its previous values
+ * - Open ExplicitJobs (uploads, API and script submissions alike) are advanced
+ *   once per run until they finish
+ * - A job is COMPLETE once no task is pending, processing or awaiting explicit
+ *
+ * Each run stops claiming new tasks after its time budget, so a serverless
+ * invocation can pick up where the previous one left off.
+ */
+
+import { PrismaClient, type UploadJob, type UploadTask } from '@prisma/client';
+import { classifySongWithCache } from '../../src/classifiers/classification-cache.cjs';
+import { createExplicitJob, pollExplicitJobs, OPEN_STATUSES } from '../../src/classifiers/explicit-jobs.cjs';
+import { getPromptRollout, choosePromptId, type PromptRolloutState } from './prompt-rollout.js';
+import { analyzeSongAudio } from './audio-analysis.js';
+import {
+  classificationMetadata,
+  saveClassifiedSong,
+  saveExplicitResult,
+  updateSongClassification,
+  type ExplicitResultInput,
+  type SongToProcess,
+} from './song-import.js';
+
+// Tasks classified in parallel per claim (paced further by the shared gemini rate limiter)
+const CONCURRENCY = 5;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// A PROCESSING task untouched this long belongs to a worker that died
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+const EXPLICIT_POLL_LIMIT = 50;
+const DEFAULT_TIME_BUDGET_MS = 45 * 1000;
+
+type ClaimedTask = UploadTask & { job: UploadJob };
+
+export type ExplicitProvider = 'parallel' | 'lyrics';
+
+/**
+ * Options of any job (stored in UploadJob.options)
+ */
+export interface UploadOptions {
+  // Unset: the configured default (EXPLICIT_PROVIDER / explicitProvider)
+  explicitProvider?: ExplicitProvider;
+}
+
+/**
+ * Steps a RECLASSIFY job runs (stored in UploadJob.options)
+ */
+export interface ReclassifyOptions extends UploadOptions {
+  classification: boolean;
+  explicit: boolean;
+  skipReviewed: boolean;
+}
+
+function jobSteps(job: UploadJob): { classification: boolean; explicit: boolean; explicitProvider?: ExplicitProvider } {
+  const options = (job.options || {}) as Partial<ReclassifyOptions>;
+  if (job.kind !== 'RECLASSIFY') {
+    return { classification: true, explicit: true, explicitProvider: options.explicitProvider };
+  }
+  return {
+    classification: options.classification !== false,
+    explicit: options.explicit !== false,
+    explicitProvider: options.explicitProvider,
+  };
+}
+
+export interface UploadWorkerSummary {
+  claimed: number;
+  completed: number;
+  retried: number;
+  failed: number;
+  explicitFinished: number;
+  jobsCompleted: number;
+}
+
+/**
+ * Runs one worker pass
+ */
+export async function runUploadWorker(
+  prisma: PrismaClient,
+  options: { timeBudgetMs?: number } = {}
+): Promise<UploadWorkerSummary> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+  const summary: UploadWorkerSummary = {
+    claimed: 0,
+    completed: 0,
+    retried: 0,
+    failed: 0,
+    explicitFinished: 0,
+    jobsCompleted: 0,
+  };
+
+  await releaseStaleTasks(prisma);
+
+  // Prompt version per song: active version, or the candidate for its rollout share
+  const promptRollout = await getPromptRollout(prisma);
+
+  while (Date.now() < deadline) {
+    const tasks = await claimTasks(prisma, CONCURRENCY);
+    if (tasks.length === 0) break;
+
+    summary.claimed += tasks.length;
+    const outcomes = await Promise.all(tasks.map(task => processTask(prisma, task, promptRollout)));
+
+    for (const outcome of outcomes) {
+      summary[outcome]++;
+    }
+  }
+
+  const explicit = await pollExplicitJobs(prisma, {
+    saveResult: (isrc: string, result: ExplicitResultInput) => saveExplicitResult(prisma, isrc, result),
+    limit: EXPLICIT_POLL_LIMIT,
+  });
+  summary.explicitFinished = explicit.completed + explicit.failed;
+  summary.jobsCompleted = await finalizeJobs(prisma);
+
+  return summary;
+}
+
+/**
+ * Returns tasks held by a crashed or timed-out worker to the queue. The attempt
+ * they used still counts.
+ */
+async function releaseStaleTasks(prisma: PrismaClient) {
+  const { count } = await prisma.uploadTask.updateMany({
+    where: {
+      status: 'PROCESSING',
+      lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) },
+    },
+    data: {
+      status: 'PENDING',
+      lockedAt: null,
+      lastError: 'Worker timed out',
+    },
+  });
+
+  if (count > 0) {
+    console.warn(`[UploadWorker] Released ${count} stale tasks`);
+  }
+}
+
+/**
+ * Claims up to `limit` due tasks. Each claim is a conditional update, so two
+ * overlapping workers never process the same task.
+ */
+async function claimTasks(prisma: PrismaClient, limit: number): Promise<ClaimedTask[]> {
+  const now = new Date();
+  const candidates = await prisma.uploadTask.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+    orderBy: [{ createdAt: 'asc' }, { position: 'asc' }],
+    take: limit,
+    include: { job: true },
+  });
+
+  const claimed: ClaimedTask[] = [];
+
+  for (const task of candidates) {
+    const { count } = await prisma.uploadTask.updateMany({
+      where: { id: task.id, status: 'PENDING' },
+      data: { status: 'PROCESSING', lockedAt: now, attempts: { increment: 1 } },
+    });
+
+    if (count === 1) {
+      claimed.push({ ...task, status: 'PROCESSING', attempts: task.attempts + 1 });
+    }
+  }
+
+  const jobIds = [...new Set(claimed.map(task => task.jobId))];
+  if (jobIds.length > 0) {
+    await prisma.uploadJob.updateMany({
+      where: { id: { in: jobIds }, status: 'PENDING' },
+      data: { status: 'PROCESSING' },
+    });
+  }
+
+  return claimed;
+}
+
+/**
+ * Classifies and saves one song, then submits its explicit job
+ */
+async function processTask(
+  prisma: PrismaClient,
+  task: ClaimedTask,
+  promptRollout: PromptRolloutState
+): Promise<'completed' | 'retried' | 'failed'> {
+  const song = task.song as unknown as SongToProcess;
+  const lastAttempt = task.attempts >= MAX_ATTEMPTS;
+  const steps = jobSteps(task.job);
+  const reclassify = task.job.kind === 'RECLASSIFY';
+
+  try {
+    let succeeded = true;
+    let errorMessage: string | null = null;
+
+    if (steps.classification) {
+      // Reclassified songs reuse their stored features; new uploads are measured here
+      const analyzed = { ...song, audio: song.audio ?? await analyzeSongAudio(song) };
+
+      const result = await classifySongWithCache(prisma, song.artist, song.title, classificationMetadata(analyzed), {
+        promptId: choosePromptId(promptRollout),
+        isrc: task.isrc,
+        subgenres: song.subgenres,
+        // Reclassification exists to get a fresh answer (e.g. after taxonomy changes)
+        refresh: reclassify,
+      });
+
+      succeeded = result?.status === 'SUCCESS';
+      errorMessage = succeeded ? null : result?.error_message || 'Classification failed';
+
+      if (!succeeded && !lastAttempt) {
+        await scheduleRetry(prisma, task, errorMessage!);
+        return 'retried';
+      }
+
+      if (reclassify) {
+        await updateSongClassification(prisma, task.isrc, analyzed, result);
+      } else {
+        // Last attempt keeps the song (aiStatus ERROR) so curators can see it
+        await saveClassifiedSong(prisma, analyzed, task.isrc, result, {
+          batchId: task.job.batchId,
+          uploadBatchName: task.job.playlistName || task.job.batchId,
+          playlistId: task.job.playlistId!,
+        });
+      }
+    }
+
+    if (steps.explicit) {
+      await createExplicitJob(prisma, {
+        isrc: task.isrc,
+        artist: song.artist,
+        title: song.title,
+        source: 'upload',
+        uploadTaskId: task.id,
+        provider: steps.explicitProvider,
+        lyrics: song.lyrics,
+      }, {
+        saveResult: (isrc: string, result: ExplicitResultInput) => saveExplicitResult(prisma, isrc, result),
+      });
+    }
+
+    await prisma.uploadTask.update({
+      where: { id: task.id },
+      data: {
+        status: succeeded ? 'COMPLETE' : 'FAILED',
+        lockedAt: null,
+        lastError: errorMessage,
+      },
+    });
+
+    return succeeded ? 'completed' : 'failed';
+
+  } catch (error: any) {
+    console.error(`[UploadWorker] Attempt ${task.attempts} failed for ${song.artist} - ${song.title}:`, error.message);
+
+    if (!lastAttempt) {
+      await scheduleRetry(prisma, task, error.message);
+      return 'retried';
+    }
+
+    await prisma.uploadTask.update({
+      where: { id: task.id },
+      data: { status: 'FAILED', lockedAt: null, lastError: error.message },
+    });
+    return 'failed';
+  }
+}
+
+/**
+ * Puts a task back in the queue with exponential backoff (30s, 60s, ...)
+ */
+async function scheduleRetry(prisma: PrismaClient, task: ClaimedTask, errorMessage: string) {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, task.attempts - 1);
+
+  await prisma.uploadTask.update({
+    where: { id: task.id },
+    data: {
+      status: 'PENDING',
+      lockedAt: null,
+      lastError: errorMessage,
+      nextAttemptAt: new Date(Date.now() + delay),
+    },
+  });
+}
+
+/**
+ * Marks jobs COMPLETE once all their tasks are settled and writes the final
+ * playlist stats (uploads only)
+ * @returns Number of jobs completed
+ */
+async function finalizeJobs(prisma: PrismaClient): Promise<number> {
+  const openJobs = await prisma.uploadJob.findMany({
+    where: {
+      status: 'PROCESSING',
+      tasks: {
+        none: {
+          OR: [
+            { status: { in: ['PENDING', 'PROCESSING'] } },
+            { explicitJob: { status: { in: OPEN_STATUSES } } },
+          ],
+        },
+      },
+    },
+  });
+
+  for (const job of openJobs) {
+    const imported = await prisma.uploadTask.count({
+      where: { jobId: job.id, status: 'COMPLETE' },
+    });
+
+    if (job.playlistId) {
+      await prisma.playlist.update({
+        where: { id: job.playlistId },
+        data: {
+          totalSongs: job.totalSongs,
+          newSongs: imported,
+          duplicateSongs: job.skippedSongs,
+        },
+      });
+    }
+
+    await prisma.uploadJob.update({
+      where: { id: job.id },
+      data: { status: 'COMPLETE', completedAt: new Date() },
+    });
+
+    console.log(`[UploadWorker] ${job.kind} job ${job.batchId} complete: ${imported}/${job.totalSongs - job.skippedSongs} succeeded`);
+  }
+
+  return openJobs.length;
+}
@@ -0,0 +1,28 @@
+/**
+ * GET /api/rejection-reasons
+ *
+ * Lists the reason codes a curator can pick when rejecting a song, from
+ * `rejectionReasons` in config/default.json.
+ *
+ * Response:
+ *   { reasons: Array<{ code, label }> }
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../lib/auth.js';
+import { getRejectionReasons } from '../../src/utils/rejection-reasons.cjs';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  return res.status(200).json({ reasons: getRejectionReasons() });
+}
@@ -0,0 +1,178 @@
+/**
+ * POST /api/review-queues/:id/next
+ *
+ * Hands the current user the next song from a review queue and claims it for
+ * them for CLAIM_TTL_MINUTES (see api/lib/review-queues.ts). Songs are handed
+ * out oldest first; songs claimed by another curator are passed over until
+ * their claim expires. Saving the song (PATCH /api/songs/:isrc) releases the
+ * claim. If the user already holds an unexpired claim on an unreviewed song in
+ * the queue, that song is handed back (and its claim renewed), so a reload
+ * doesn't lose their place.
+ *
+ * In a BLIND queue, a song stays open until two curators have labelled it,
+ * is never handed to the same curator twice, and comes back with the AI's tags
+ * and review details blanked (see api/lib/blind-review.ts).
+ *
+ * Only the queue's assignees (and admins) can take songs from it.
+ *
+ * Body Parameters:
+ *   - skip: ISRC of the song the user is moving past (optional). Its claim is
+ *     released and it isn't handed back by this request.
+ *
+ * Response:
+ *   {
+ *     data: Song | null,        // null when no unclaimed song is left
+ *     expiresAt: string | null, // When the claim lapses
+ *     remaining: number,        // Open songs in the queue, including claimed ones
+ *     blind: boolean            // Whether the song is to be labelled blind
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../../lib/auth.js';
+import { blindSong } from '../../lib/blind-review.js';
+import { canWorkQueue, claimExpiry, openSongWhere } from '../../lib/review-queues.js';
+import { formatSong } from '../../lib/song-format.js';
+import { getTaxonomyEntries } from '../../lib/taxonomy.js';
+
+const prisma = new PrismaClient();
+
+// Candidates fetched per round; a round only comes up short when other
+// curators claim the same songs at the same moment
+const CANDIDATE_BATCH = 10;
+const MAX_ROUNDS = 3;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  const id = req.query.id as string;
+  if (!id) {
+    return res.status(400).json({ error: 'Queue id is required' });
+  }
+
+  const { skip } = req.body || {};
+  if (skip !== undefined && typeof skip !== 'string') {
+    return res.status(400).json({ error: 'skip must be an ISRC' });
+  }
+
+  try {
+    const queue = await prisma.reviewQueue.findUnique({
+      where: { id },
+      include: { assignees: { select: { userId: true } } },
+    });
+
+    if (!queue) {
+      return res.status(404).json({ error: 'Queue not found' });
+    }
+    if (queue.status !== 'ACTIVE') {
+      return res.status(400).json({ error: 'This queue is archived' });
+    }
+    if (!canWorkQueue(queue, user)) {
+      return res.status(403).json({ error: 'You are not assigned to this queue' });
+    }
+
+    const blind = queue.mode === 'BLIND';
+    const open = openSongWhere(queue, await getTaxonomyEntries(prisma));
+    // Songs this user may be handed: in a blind queue, not ones they already labelled
+    const available = blind
+      ? { AND: [open, { blindLabels: { none: { userId: user.id } } }] }
+      : open;
+    const now = new Date();
+    const expiresAt = claimExpiry(now);
+
+    const respond = async (song: Parameters<typeof formatSong>[0] | null) => res.status(200).json({
+      data: song ? (blind ? blindSong(formatSong(song)) : formatSong(song)) : null,
+      expiresAt: song ? expiresAt : null,
+      remaining: await prisma.song.count({ where: open }),
+      blind,
+    });
+
+    if (skip) {
+      await prisma.reviewClaim.deleteMany({ where: { songIsrc: skip, userId: user.id } });
+    }
+
+    // Resume the song the user already holds
+    const held = await prisma.reviewClaim.findFirst({
+      where: { queueId: id, userId: user.id, expiresAt: { gt: now }, song: available },
+      include: { song: true },
+      orderBy: { claimedAt: 'desc' },
+    });
+    if (held) {
+      await prisma.reviewClaim.update({ where: { songIsrc: held.songIsrc }, data: { expiresAt } });
+      return await respond(held.song);
+    }
+
+    // One song at a time: anything else the user held here is done or abandoned
+    await prisma.reviewClaim.deleteMany({ where: { queueId: id, userId: user.id } });
+
+    const claim = { queueId: id, userId: user.id, userName: user.name, claimedAt: now, expiresAt };
+
+    // Takes over an expired claim or creates one. Either is a single
+    // conditional write, so when two curators race for a song only one wins.
+    const tryClaim = async (isrc: string): Promise<boolean> => {
+      const taken = await prisma.reviewClaim.updateMany({
+        where: { songIsrc: isrc, expiresAt: { lte: now } },
+        data: claim,
+      });
+      if (taken.count > 0) return true;
+
+      try {
+        await prisma.reviewClaim.create({ data: { songIsrc: isrc, ...claim } });
+        return true;
+      } catch (error: any) {
+        // Someone else holds it
+        if (error.code === 'P2002') return false;
+        throw error;
+      }
+    };
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      const candidates = await prisma.song.findMany({
+        where: {
+          AND: [
+            available,
+            ...(skip ? [{ isrc: { not: skip } }] : []),
+            {
+              OR: [
+                { reviewClaim: { is: null } },
+                { reviewClaim: { is: { expiresAt: { lte: now } } } },
+              ],
+            },
+          ],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: CANDIDATE_BATCH,
+      });
+
+      if (candidates.length === 0) break;
+
+      for (const song of candidates) {
+        if (await tryClaim(song.isrc)) {
+          console.log(`[ReviewQueues] ${user.email} claimed ${song.isrc} from "${queue.name}"`);
+          return await respond(song);
+        }
+      }
+    }
+
+    return await respond(null);
+
+  } catch (error: any) {
+    console.error(`Error claiming from review queue ${id}:`, error);
+    return res.status(500).json({
+      error: 'Failed to get the next song',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
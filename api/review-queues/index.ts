@@ -0,0 +1,61 @@
+/**
+ * GET /api/review-queues
+ *
+ * Lists the active review queues the current user can take songs from: those
+ * they are assigned to (admins see every active queue).
+ *
+ * Response:
+ *   { data: Array<{ id, name, filters, mode, remaining: number }> }  // remaining = open songs (see openSongWhere)
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../lib/auth.js';
+import { openSongWhere } from '../lib/review-queues.js';
+import { getTaxonomyEntries } from '../lib/taxonomy.js';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  try {
+    const categories = await getTaxonomyEntries(prisma);
+
+    const queues = await prisma.reviewQueue.findMany({
+      where: {
+        status: 'ACTIVE',
+        ...(user.role !== 'ADMIN' && { assignees: { some: { userId: user.id } } }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const data = await Promise.all(queues.map(async queue => ({
+      id: queue.id,
+      name: queue.name,
+      filters: queue.filters,
+      mode: queue.mode,
+      remaining: await prisma.song.count({ where: openSongWhere(queue, categories) }),
+    })));
+
+    return res.status(200).json({ data });
+
+  } catch (error: any) {
+    console.error('Error fetching review queues:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch review queues',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -4,32 +4,54 @@
  * Updates a song's classification and/or approval status using Prisma.
  *
  * Body Parameters:
+ *   - expected_modified_at: The song's modified_at as the client loaded it
+ *     (required). If the song has changed since, nothing is written and the
+ *     response is 409 with the current song, so the client can merge.
+ *
  *   Metadata fields (any user can update):
  *   - ai_energy: Energy level
  *   - ai_accessibility: Accessibility type
  *   - ai_subgenre_1: Primary subgenre
  *   - ai_subgenre_2: Secondary subgenre (optional)
  *   - ai_subgenre_3: Tertiary subgenre (optional)
+ *     Subgenres must be in the taxonomy (GET /api/subgenres); a deprecated
+ *     one is only accepted if the song already has it
  *   - curator_notes: Curator's notes (optional)
  *
  *   Approval fields (admin only):
  *   - approval_status: 'APPROVED' | 'REJECTED' | 'PENDING'
+ *   - rejection_reason: Reason code, required when rejecting
+ *     (GET /api/rejection-reasons); cleared by any other status
+ *   - rejection_note: Free text explaining the rejection (optional)
+ *
+ * Tag fields whose value changes are added to the song's locked_fields, so
+ * later classifications only propose new values for them (see
+ * POST /api/songs/:isrc/proposals). A pending proposal for an edited field is
+ * dropped.
+ *
+ * Every changed field is recorded in the song's history (GET /api/songs/:isrc/history).
+ * A review queue claim the user holds on the song is released
+ * (see POST /api/review-queues/:id/next).
  *
  * Response:
  *   { success: true, data: Song }
+ *   409: { error: string, data: Song }  // The current version of the song
  */
 
 import { PrismaClient } from '@prisma/client';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { buildApprovalUpdate } from '../lib/approval.js';
 import { requireAuth } from '../lib/auth.js';
+import { editedFields, getProposals, proposalsValue } from '../lib/field-locks.js';
+import { formatSong } from '../lib/song-format.js';
+import { checkSubgenreValues } from '../lib/taxonomy.js';
+import { recordSongChanges } from '../../src/utils/song-changes.cjs';
+import { VALID_ENERGY, VALID_ACCESSIBILITY } from '../../src/classifiers/classification-validator.cjs';
 
 const prisma = new PrismaClient();
 
-// Valid enum values
-const VALID_ENERGY = ['Very Low', 'Low', 'Medium', 'High', 'Very High'];
-const VALID_ACCESSIBILITY = ['Eclectic', 'Timeless', 'Commercial', 'Cheesy'];
+// Valid enum values (energy and accessibility shared with classification validation)
 const VALID_EXPLICIT = ['Explicit', 'Suggestive', 'Family Friendly'];
-const VALID_APPROVAL_STATUS = ['PENDING', 'APPROVED', 'REJECTED'];
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Only allow PATCH requests
@@ -52,6 +74,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     const payload = req.body;
 
+    const expectedModifiedAt = typeof payload?.expected_modified_at === 'string'
+      ? new Date(payload.expected_modified_at)
+      : null;
+    if (!expectedModifiedAt || Number.isNaN(expectedModifiedAt.getTime())) {
+      return res.status(400).json({
+        error: 'expected_modified_at is required',
+        message: "Send the song's modified_at as loaded, so a concurrent edit isn't overwritten",
+      });
+    }
+
+    // Someone saved the song after the client loaded it
+    const sendConflict = (current: Parameters<typeof formatSong>[0]) => res.status(409).json({
+      error: 'This song was changed by someone else since you opened it',
+      data: formatSong(current),
+    });
+
+    const existing = await prisma.song.findUnique({ where: { isrc } });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Song not found',
+        message: `No song found with ISRC: ${isrc}`,
+      });
+    }
+
+    if (existing.modifiedAt.getTime() !== expectedModifiedAt.getTime()) {
+      return sendConflict(existing);
+    }
+
     // Check if this is an approval action (approval_status provided)
     const isApprovalAction = payload.approval_status !== undefined;
 
@@ -75,20 +126,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         });
       }
 
-      // Validate approval status value
-      const approvalStatus = payload.approval_status.toUpperCase();
-      if (!VALID_APPROVAL_STATUS.includes(approvalStatus)) {
-        return res.status(400).json({
-          error: 'Invalid approval status',
-          message: `Must be one of: ${VALID_APPROVAL_STATUS.join(', ')}`,
-        });
+      // Validate the status (and the reason for a rejection), then set approval fields
+      const approval = buildApprovalUpdate({
+        status: payload.approval_status,
+        reason: payload.rejection_reason,
+        note: payload.rejection_note,
+      }, user);
+      if ('error' in approval) {
+        return res.status(400).json(approval);
       }
-
-      // Set approval fields
-      updateData.approvalStatus = approvalStatus;
-      updateData.approvedBy = user.name;
-      updateData.approvedById = user.id;
-      updateData.approvedAt = new Date();
+      Object.assign(updateData, approval.data);
     }
 
     // Handle metadata updates
@@ -119,6 +166,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           });
         }
 
+        // Validate subgenres against the taxonomy
+        const subgenreError = await checkSubgenreValues(
+          prisma,
+          [payload.ai_subgenre_1, payload.ai_subgenre_2, payload.ai_subgenre_3],
+          [existing.aiSubgenre1, existing.aiSubgenre2, existing.aiSubgenre3]
+        );
+        if (subgenreError) {
+          return res.status(400).json({
+            error: 'Invalid subgenre value',
+            message: subgenreError,
+          });
+        }
+
         // Set metadata fields
         updateData.aiEnergy = payload.ai_energy;
         updateData.aiAccessibility = payload.ai_accessibility;
@@ -127,6 +187,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         updateData.aiSubgenre2 = payload.ai_subgenre_2 || null;
         updateData.aiSubgenre3 = payload.ai_subgenre_3 || null;
 
+        // Lock what the curator changed; their value supersedes any pending proposal
+        const edited = editedFields(existing, updateData);
+        if (edited.length > 0) {
+          updateData.lockedFields = [...new Set([...existing.lockedFields, ...edited])];
+
+          const proposals = getProposals(existing);
+          if (edited.some(field => proposals[field])) {
+            edited.forEach(field => delete proposals[field]);
+            updateData.aiProposed = proposalsValue(proposals);
+          }
+        }
+
         // Mark as reviewed for metadata edits
         updateData.reviewed = true;
         updateData.reviewedBy = user.name;
@@ -148,58 +220,39 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    // Update song using Prisma
-    const updatedSong = await prisma.song.update({
-      where: { isrc },
-      data: updateData,
-      include: {
-        reviewer: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-      },
+    // Update song and record the changed fields. The update only matches the
+    // version checked above, so a save that lands in between still conflicts.
+    const updatedSong = await prisma.$transaction(async tx => {
+      const { count } = await tx.song.updateMany({
+        where: { isrc, modifiedAt: existing.modifiedAt },
+        data: updateData,
+      });
+      if (count === 0) return null;
+
+      await recordSongChanges(tx, isrc, existing, updateData, {
+        source: 'CURATOR',
+        actor: { id: user.id, name: user.name },
+      });
+      return tx.song.findUniqueOrThrow({ where: { isrc } });
     });
 
-    // Transform Prisma response to match API interface
-    const song = {
-      id: updatedSong.id,
-      isrc: updatedSong.isrc,
-      title: updatedSong.title,
-      artist: updatedSong.artist,
-      energy: updatedSong.energy,
-      bpm: updatedSong.bpm,
-      subgenre: updatedSong.subgenre,
-      artwork: updatedSong.artwork,
-      source_file: updatedSong.sourceFile,
-      ai_status: updatedSong.aiStatus,
-      ai_error_message: updatedSong.aiErrorMessage,
-      ai_reasoning: updatedSong.aiReasoning,
-      ai_context_used: updatedSong.aiContextUsed,
-      ai_energy: updatedSong.aiEnergy,
-      ai_accessibility: updatedSong.aiAccessibility,
-      ai_explicit: updatedSong.aiExplicit,
-      ai_subgenre_1: updatedSong.aiSubgenre1,
-      ai_subgenre_2: updatedSong.aiSubgenre2,
-      ai_subgenre_3: updatedSong.aiSubgenre3,
-      reviewed: updatedSong.reviewed,
-      reviewed_by: updatedSong.reviewedBy,
-      reviewed_at: updatedSong.reviewedAt?.toISOString() || null,
-      curator_notes: updatedSong.curatorNotes,
-      // Approval workflow fields
-      approval_status: (updatedSong as any).approvalStatus || 'PENDING',
-      approved_by: (updatedSong as any).approvedBy || null,
-      approved_at: (updatedSong as any).approvedAt?.toISOString() || null,
-      created_at: updatedSong.createdAt.toISOString(),
-      modified_at: updatedSong.modifiedAt.toISOString(),
-    };
+    if (!updatedSong) {
+      const current = await prisma.song.findUnique({ where: { isrc } });
+      if (current) {
+        return sendConflict(current);
+      }
+      return res.status(404).json({
+        error: 'Song not found',
+        message: `No song found with ISRC: ${isrc}`,
+      });
+    }
+
+    // Saving the song finishes the user's review of it
+    await prisma.reviewClaim.deleteMany({ where: { songIsrc: isrc, userId: user.id } });
 
     return res.status(200).json({
       success: true,
-      data: song,
+      data: formatSong(updatedSong),
     });
 
   } catch (error: any) {
@@ -0,0 +1,163 @@
+/**
+ * POST /api/songs/:isrc/blind-label
+ *
+ * Submits the current user's labels for a song they were handed by a BLIND
+ * review queue (POST /api/review-queues/:id/next). Labels are stored apart
+ * from the song; the song itself only changes once both raters have labelled
+ * it and agree on every field, in which case their values are applied as a
+ * review. Disagreements wait for an admin (GET /api/admin/blind-reviews).
+ * The user's claim on the song is released.
+ *
+ * Body Parameters:
+ *   - ai_energy, ai_accessibility, ai_subgenre_1: Required
+ *   - ai_explicit, ai_subgenre_2, ai_subgenre_3: Optional
+ *
+ * Response:
+ *   {
+ *     success: true,
+ *     rater: number,                                // 1 or 2
+ *     status: 'WAITING' | 'AGREED' | 'DISAGREED'    // WAITING until the second label is in
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../../lib/auth.js';
+import {
+  BLIND_RATERS,
+  aiSnapshot,
+  buildReviewUpdate,
+  disagreements,
+  labelColumns,
+  labelValues,
+  validateLabel,
+} from '../../lib/blind-review.js';
+import { checkSubgenreValues } from '../../lib/taxonomy.js';
+import { recordSongChanges } from '../../../src/utils/song-changes.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  const isrc = req.query.isrc as string;
+
+  if (!isrc) {
+    return res.status(400).json({ error: 'ISRC is required' });
+  }
+
+  const validated = validateLabel(req.body);
+  if ('error' in validated) {
+    return res.status(400).json(validated);
+  }
+  const { values } = validated;
+
+  try {
+    // Only songs handed out by a blind queue can be labelled
+    const claim = await prisma.reviewClaim.findFirst({
+      where: { songIsrc: isrc, userId: user.id, queue: { mode: 'BLIND' } },
+    });
+    if (!claim) {
+      return res.status(403).json({ error: 'This song is not assigned to you for blind review' });
+    }
+
+    const subgenreError = await checkSubgenreValues(
+      prisma,
+      [values.ai_subgenre_1, values.ai_subgenre_2, values.ai_subgenre_3],
+      []
+    );
+    if (subgenreError) {
+      return res.status(400).json({
+        error: 'Invalid subgenre value',
+        message: subgenreError,
+      });
+    }
+
+    const result = await prisma.$transaction(async tx => {
+      const song = await tx.song.findUnique({ where: { isrc } });
+      if (!song) return { status: 404 as const };
+      if (song.reviewed) return { status: 409 as const, error: 'This song was reviewed while you had it open' };
+
+      const existing = await tx.blindLabel.findMany({ where: { songIsrc: isrc }, orderBy: { rater: 'asc' } });
+      if (existing.some(label => label.userId === user.id)) {
+        return { status: 409 as const, error: 'You already labelled this song' };
+      }
+      if (existing.length >= BLIND_RATERS) {
+        return { status: 409 as const, error: 'This song already has both labels' };
+      }
+
+      const rater = existing.length + 1;
+      await tx.blindLabel.create({
+        data: {
+          songIsrc: isrc,
+          queueId: claim.queueId,
+          rater,
+          userId: user.id,
+          userName: user.name,
+          ...labelColumns(values),
+          aiValues: aiSnapshot(song),
+        },
+      });
+      await tx.reviewClaim.deleteMany({ where: { songIsrc: isrc, userId: user.id } });
+
+      if (rater < BLIND_RATERS) {
+        return { status: 200 as const, rater, outcome: 'WAITING' as const };
+      }
+
+      if (disagreements(labelValues(existing[0]), values).length > 0) {
+        return { status: 200 as const, rater, outcome: 'DISAGREED' as const };
+      }
+
+      // Both raters agree: their labels are the review
+      const data = buildReviewUpdate(song, values, user);
+      await tx.song.update({ where: { isrc }, data });
+      await recordSongChanges(tx, isrc, song, data, {
+        source: 'CURATOR',
+        actor: { id: user.id, name: user.name },
+        context: `Blind review: agreed with ${existing[0].userName}`,
+      });
+      return { status: 200 as const, rater, outcome: 'AGREED' as const };
+    });
+
+    if (result.status === 404) {
+      return res.status(404).json({
+        error: 'Song not found',
+        message: `No song found with ISRC: ${isrc}`,
+      });
+    }
+    if (result.status === 409) {
+      return res.status(409).json({ error: result.error });
+    }
+
+    console.log(`[BlindReview] ${user.email} labelled ${isrc} as rater ${result.rater} (${result.outcome})`);
+
+    return res.status(200).json({
+      success: true,
+      rater: result.rater,
+      status: result.outcome,
+    });
+
+  } catch (error: any) {
+    // Another rater's label landed at the same moment
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'Someone else labelled this song at the same time' });
+    }
+
+    console.error(`Error saving blind label for ${isrc}:`, error);
+    return res.status(500).json({
+      error: 'Failed to save label',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * GET /api/songs/:isrc/history
+ *
+ * Lists a song's field-level change history, newest first, grouped into change
+ * sets (the fields changed by one write). Covers curator edits, AI runs,
+ * imports, bulk actions and reverts.
+ *
+ * Query Parameters:
+ *   - limit: Max change sets to return (default: 50, max: 200)
+ *
+ * Response:
+ *   {
+ *     data: Array<{
+ *       change_set_id, source, context, changed_by, created_at,
+ *       changes: Array<{ id, field, old_value, new_value }>
+ *     }>
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../../lib/auth.js';
+import { groupChangeSets } from '../../lib/song-history.js';
+
+const prisma = new PrismaClient();
+
+// Upper bound on rows read per request (a change set has at most one row per tracked field)
+const MAX_ROWS = 2000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  const isrc = req.query.isrc as string;
+
+  if (!isrc) {
+    return res.status(400).json({ error: 'ISRC is required' });
+  }
+
+  try {
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+    const song = await prisma.song.findUnique({
+      where: { isrc },
+      select: { isrc: true },
+    });
+
+    if (!song) {
+      return res.status(404).json({ error: 'Song not found' });
+    }
+
+    const changes = await prisma.songChange.findMany({
+      where: { songIsrc: isrc },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: MAX_ROWS,
+    });
+
+    return res.status(200).json({
+      data: groupChangeSets(changes).slice(0, limit),
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching song history:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch song history',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
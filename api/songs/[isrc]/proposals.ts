@@ -0,0 +1,103 @@
+/**
+ * POST /api/songs/:isrc/proposals
+ *
+ * Accepts or dismisses AI values proposed for curator-locked fields (stored in
+ * ai_proposed when a re-upload or reclassification disagreed with a curator).
+ * Accepted fields stay locked; review and approval state are not changed.
+ *
+ * Body Parameters:
+ *   - action: 'accept' | 'dismiss'
+ *   - fields: Field names to resolve, e.g. ['ai_energy'] (default: all pending)
+ *
+ * Response:
+ *   { success: true, resolved: string[], data: Song }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../../lib/auth.js';
+import { isLockableField, resolveProposals, LOCKABLE_FIELDS } from '../../lib/field-locks.js';
+import { formatSong } from '../../lib/song-format.js';
+import { updateSongWithHistory } from '../../../src/utils/song-changes.cjs';
+
+const prisma = new PrismaClient();
+
+const VALID_ACTIONS = ['accept', 'dismiss'];
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  const isrc = req.query.isrc as string;
+
+  if (!isrc) {
+    return res.status(400).json({ error: 'ISRC is required' });
+  }
+
+  const { action, fields } = req.body || {};
+
+  if (!VALID_ACTIONS.includes(action)) {
+    return res.status(400).json({
+      error: 'Invalid action',
+      message: `Must be one of: ${VALID_ACTIONS.join(', ')}`,
+    });
+  }
+
+  if (fields !== undefined && (!Array.isArray(fields) || !fields.every(isLockableField))) {
+    return res.status(400).json({
+      error: 'Invalid fields',
+      message: `Must be an array of: ${Object.keys(LOCKABLE_FIELDS).join(', ')}`,
+    });
+  }
+
+  try {
+    const song = await prisma.song.findUnique({ where: { isrc } });
+
+    if (!song) {
+      return res.status(404).json({
+        error: 'Song not found',
+        message: `No song found with ISRC: ${isrc}`,
+      });
+    }
+
+    const { data, resolved } = resolveProposals(song, action, fields);
+
+    if (resolved.length === 0) {
+      return res.status(400).json({
+        error: 'No pending proposals',
+        message: 'The song has no proposed values for the given fields',
+      });
+    }
+
+    const updatedSong = await updateSongWithHistory(prisma, song, { ...data, modifiedAt: new Date() }, {
+      source: 'CURATOR',
+      actor: { id: user.id, name: user.name },
+      context: 'Accepted AI proposal',
+    });
+
+    console.log(`[Proposals] ${user.email} ${action}ed ${resolved.join(', ')} on ${isrc}`);
+
+    return res.status(200).json({
+      success: true,
+      resolved,
+      data: formatSong(updatedSong),
+    });
+
+  } catch (error: any) {
+    console.error(`Error resolving proposals for ${isrc}:`, error);
+    return res.status(500).json({
+      error: 'Failed to resolve proposals',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
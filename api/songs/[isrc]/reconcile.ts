@@ -0,0 +1,107 @@
+/**
+ * POST /api/songs/:isrc/reconcile
+ *
+ * Settles a blind review the two raters disagreed on (see
+ * GET /api/admin/blind-reviews): the final labels are applied to the song as a
+ * review, the same way a curator edit is (changed tag fields are locked and
+ * the song is marked reviewed). The raters' own labels are kept for the
+ * agreement report. Admin only.
+ *
+ * Body Parameters:
+ *   - ai_energy, ai_accessibility, ai_subgenre_1: Required
+ *   - ai_explicit, ai_subgenre_2, ai_subgenre_3: Optional
+ *
+ * Response:
+ *   { success: true, data: Song }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { BLIND_RATERS, buildReviewUpdate, validateLabel } from '../../lib/blind-review.js';
+import { formatSong } from '../../lib/song-format.js';
+import { checkSubgenreValues } from '../../lib/taxonomy.js';
+import { updateSongWithHistory } from '../../../src/utils/song-changes.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const isrc = req.query.isrc as string;
+
+  if (!isrc) {
+    return res.status(400).json({ error: 'ISRC is required' });
+  }
+
+  const validated = validateLabel(req.body);
+  if ('error' in validated) {
+    return res.status(400).json(validated);
+  }
+  const { values } = validated;
+
+  try {
+    const song = await prisma.song.findUnique({
+      where: { isrc },
+      include: { blindLabels: { select: { userName: true }, orderBy: { rater: 'asc' } } },
+    });
+
+    if (!song) {
+      return res.status(404).json({
+        error: 'Song not found',
+        message: `No song found with ISRC: ${isrc}`,
+      });
+    }
+    if (song.blindLabels.length < BLIND_RATERS) {
+      return res.status(400).json({ error: 'This song is still waiting for its blind labels' });
+    }
+    if (song.reviewed) {
+      return res.status(400).json({ error: 'This song has already been reviewed' });
+    }
+
+    // As in a curator edit, a deprecated subgenre is only accepted if the song already has it
+    const subgenreError = await checkSubgenreValues(
+      prisma,
+      [values.ai_subgenre_1, values.ai_subgenre_2, values.ai_subgenre_3],
+      [song.aiSubgenre1, song.aiSubgenre2, song.aiSubgenre3]
+    );
+    if (subgenreError) {
+      return res.status(400).json({
+        error: 'Invalid subgenre value',
+        message: subgenreError,
+      });
+    }
+
+    const raters = song.blindLabels.map(label => label.userName).join(' and ');
+    const updatedSong = await updateSongWithHistory(prisma, song, buildReviewUpdate(song, values, user), {
+      source: 'CURATOR',
+      actor: { id: user.id, name: user.name },
+      context: `Blind review: reconciled labels from ${raters}`,
+    });
+
+    console.log(`[BlindReview] ${user.email} reconciled ${isrc}`);
+
+    return res.status(200).json({
+      success: true,
+      data: formatSong(updatedSong),
+    });
+
+  } catch (error: any) {
+    console.error(`Error reconciling blind review for ${isrc}:`, error);
+    return res.status(500).json({
+      error: 'Failed to reconcile blind review',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
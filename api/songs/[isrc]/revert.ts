@@ -0,0 +1,134 @@
+/**
+ * POST /api/songs/:isrc/revert
+ *
+ * Restores a song's tags, approval status, review flag and notes to how they
+ * were right after a change set from GET /api/songs/:isrc/history. Admin only.
+ * The revert is itself recorded in the history (source REVERT). Reverted tag
+ * fields are locked like a curator edit, and pending proposals for them are
+ * dropped.
+ *
+ * Body Parameters:
+ *   - changeSetId: Change set to go back to
+ *
+ * Response:
+ *   { success: true, reverted: string[], data: Song }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/auth.js';
+import { editedFields, getProposals, proposalsValue } from '../../lib/field-locks.js';
+import { buildRevert } from '../../lib/song-history.js';
+import { formatSong } from '../../lib/song-format.js';
+import { checkSubgenreValues } from '../../lib/taxonomy.js';
+import { updateSongWithHistory } from '../../../src/utils/song-changes.cjs';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const isrc = req.query.isrc as string;
+
+  if (!isrc) {
+    return res.status(400).json({ error: 'ISRC is required' });
+  }
+
+  const { changeSetId } = req.body || {};
+
+  if (typeof changeSetId !== 'string' || !changeSetId) {
+    return res.status(400).json({ error: 'changeSetId is required' });
+  }
+
+  try {
+    const song = await prisma.song.findUnique({ where: { isrc } });
+
+    if (!song) {
+      return res.status(404).json({
+        error: 'Song not found',
+        message: `No song found with ISRC: ${isrc}`,
+      });
+    }
+
+    const changes = await prisma.songChange.findMany({
+      where: { songIsrc: isrc },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const revert = buildRevert(song, changes, changeSetId);
+
+    if (!revert) {
+      return res.status(404).json({
+        error: 'Change not found',
+        message: `No change set ${changeSetId} in the history of ${isrc}`,
+      });
+    }
+
+    if (revert.fields.length === 0) {
+      return res.status(400).json({
+        error: 'Song already matches this version',
+      });
+    }
+
+    // Old subgenres may have been renamed or merged away since; deprecated ones are fine
+    const subgenres = [revert.data.aiSubgenre1, revert.data.aiSubgenre2, revert.data.aiSubgenre3];
+    const subgenreError = await checkSubgenreValues(prisma, subgenres, subgenres);
+    if (subgenreError) {
+      return res.status(400).json({
+        error: `Cannot revert: ${subgenreError}`,
+      });
+    }
+
+    const data: Record<string, any> = { ...revert.data, modifiedAt: new Date() };
+
+    // Restored tags are a curator decision, like an edit
+    const edited = editedFields(song, data);
+    if (edited.length > 0) {
+      data.lockedFields = [...new Set([...song.lockedFields, ...edited])];
+
+      const proposals = getProposals(song);
+      if (edited.some(field => proposals[field])) {
+        edited.forEach(field => delete proposals[field]);
+        data.aiProposed = proposalsValue(proposals);
+      }
+    }
+
+    if ('approvalStatus' in data) {
+      data.approvedBy = user.name;
+      data.approvedById = user.id;
+      data.approvedAt = new Date();
+    }
+
+    const updatedSong = await updateSongWithHistory(prisma, song, data, {
+      source: 'REVERT',
+      actor: { id: user.id, name: user.name },
+      context: `Reverted to change set ${changeSetId}`,
+    });
+
+    console.log(`[History] ${user.email} reverted ${revert.fields.join(', ')} on ${isrc} to change set ${changeSetId}`);
+
+    return res.status(200).json({
+      success: true,
+      reverted: revert.fields,
+      data: formatSong(updatedSong),
+    });
+
+  } catch (error: any) {
+    console.error(`Error reverting song ${isrc}:`, error);
+    return res.status(500).json({
+      error: 'Failed to revert song',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * GET /api/songs/:isrc/runs
+ *
+ * Lists a song's classification attempts, newest first, so curators can compare
+ * the current AI values with earlier runs.
+ *
+ * Query Parameters:
+ *   - limit: Max runs to return (default: 20, max: 100)
+ *
+ * Response:
+ *   { data: ClassificationRun[] }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../../lib/auth.js';
+import { formatClassificationRun } from '../../lib/classification-runs.js';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  const isrc = req.query.isrc as string;
+
+  if (!isrc) {
+    return res.status(400).json({ error: 'ISRC is required' });
+  }
+
+  try {
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    const song = await prisma.song.findUnique({
+      where: { isrc },
+      select: { isrc: true },
+    });
+
+    if (!song) {
+      return res.status(404).json({ error: 'Song not found' });
+    }
+
+    const runs = await prisma.classificationRun.findMany({
+      where: { songIsrc: isrc },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return res.status(200).json({
+      data: runs.map(formatClassificationRun),
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching classification runs:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch classification runs',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
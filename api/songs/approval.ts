@@ -0,0 +1,121 @@
+/**
+ * POST /api/songs/approval
+ *
+ * Approves, rejects or resets many songs at once. Admin only. Uses the same
+ * rules as approval_status on PATCH /api/songs/:isrc: a rejection needs a
+ * reason code (GET /api/rejection-reasons), and any other status clears it.
+ * All songs are updated in one transaction, and each change is recorded in
+ * the song's history (source BULK) under a shared change set ID.
+ *
+ * Body Parameters:
+ *   - isrcs: ISRCs to update (max 1000)
+ *   - approval_status: 'APPROVED' | 'REJECTED' | 'PENDING'
+ *   - rejection_reason: Reason code (required when rejecting)
+ *   - rejection_note: Free text explaining the rejection (optional)
+ *
+ * Response:
+ *   {
+ *     success: true,
+ *     changeSetId: string,
+ *     updated: number,     // Songs whose status, reason or note changed
+ *     unchanged: number,   // Songs that already had this decision
+ *     notFound: string[]
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { v4 as uuidv4 } from 'uuid';
+import { buildApprovalUpdate } from '../lib/approval.js';
+import { requireAdmin } from '../lib/auth.js';
+import { MAX_BULK_SONGS } from '../lib/bulk-edit.js';
+import { diffSongFields, recordSongChanges } from '../../src/utils/song-changes.cjs';
+
+const prisma = new PrismaClient();
+
+// A thousand updates plus history rows outlast the default 5s transaction limit
+const TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { isrcs, approval_status, rejection_reason, rejection_note } = req.body || {};
+
+  if (!Array.isArray(isrcs) || isrcs.length === 0) {
+    return res.status(400).json({ error: 'isrcs is required' });
+  }
+
+  const requested = [...new Set((isrcs as unknown[]).map(String))];
+
+  if (requested.length > MAX_BULK_SONGS) {
+    return res.status(400).json({
+      error: `Too many songs. Maximum ${MAX_BULK_SONGS} songs per request.`,
+    });
+  }
+
+  const approval = buildApprovalUpdate({
+    status: approval_status,
+    reason: rejection_reason,
+    note: rejection_note,
+  }, user);
+  if ('error' in approval) {
+    return res.status(400).json(approval);
+  }
+
+  try {
+    const changeSetId = uuidv4();
+    const context = approval.data.approvalStatus === 'REJECTED'
+      ? `Bulk rejection: ${approval.data.rejectionReason}`
+      : `Bulk ${approval.data.approvalStatus.toLowerCase()}`;
+
+    const { updated, found } = await prisma.$transaction(async tx => {
+      const songs = await tx.song.findMany({ where: { isrc: { in: requested } } });
+      let updated = 0;
+
+      for (const song of songs) {
+        // Songs that already have this decision keep their approver and time
+        if (diffSongFields(song, approval.data).length === 0) continue;
+
+        const data = { ...approval.data, modifiedAt: new Date() };
+        await tx.song.update({ where: { isrc: song.isrc }, data });
+        await recordSongChanges(tx, song.isrc, song, data, {
+          source: 'BULK',
+          actor: { id: user.id, name: user.name },
+          context,
+          changeSetId,
+        });
+        updated++;
+      }
+
+      return { updated, found: new Set(songs.map(song => song.isrc)) };
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+
+    console.log(`[Approval] ${user.email} set ${approval.data.approvalStatus} on ${updated} of ${requested.length} songs${approval.data.rejectionReason ? ` (${approval.data.rejectionReason})` : ''}`);
+
+    return res.status(200).json({
+      success: true,
+      changeSetId,
+      updated,
+      unchanged: found.size - updated,
+      notFound: requested.filter(isrc => !found.has(isrc)),
+    });
+
+  } catch (error: any) {
+    console.error('Error updating approval status:', error);
+    return res.status(500).json({
+      error: 'Failed to update approval status',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * PATCH /api/songs/bulk
+ *
+ * Applies one partial update to many songs, selected by ISRC or by the
+ * GET /api/songs filters. Values are validated like PATCH /api/songs/:isrc, and
+ * changed tags are locked the same way. The reviewed flag is left alone.
+ *
+ * With preview: true nothing changes and the response lists what would happen
+ * to each song. Otherwise every song is updated in one transaction, and the
+ * changes are recorded in each song's history (source BULK) under a shared
+ * change set ID.
+ *
+ * Body Parameters (one of isrcs / filters required):
+ *   - isrcs: ISRCs to update
+ *   - filters: Same filter parameters as GET /api/songs
+ *   - update: Any of
+ *       - ai_energy: Energy level
+ *       - ai_accessibility: Accessibility type
+ *       - ai_explicit: Explicit value, or null to clear it
+ *       - subgenre: { action: 'add', value } adds a subgenre in the first free slot;
+ *                   { action: 'replace', from, to } swaps one for another
+ *       - append_notes: Text added as a new line of the curator notes
+ *   - preview: true to only report the changes
+ *
+ * Response:
+ *   {
+ *     preview: boolean,
+ *     changeSetId: string | null,  // null for a preview
+ *     matched, updated, unchanged, skipped,
+ *     results: Array<{ isrc, artist, title, status: 'updated' | 'unchanged' | 'skipped',
+ *                      reason?, changes: Array<{ field, old_value, new_value }> }>
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { v4 as uuidv4 } from 'uuid';
+import { requireAuth } from '../lib/auth.js';
+import {
+  MAX_BULK_SONGS,
+  describeBulkUpdate,
+  planBulkEdit,
+  validateBulkUpdate,
+  type BulkSongPlan,
+} from '../lib/bulk-edit.js';
+import { buildSongWhere, type SongFilterParams } from '../lib/song-filters.js';
+import { getTaxonomyEntries } from '../lib/taxonomy.js';
+import { recordSongChanges } from '../../src/utils/song-changes.cjs';
+
+const prisma = new PrismaClient();
+
+// A thousand updates plus history rows outlast the default 5s transaction limit
+const TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow PATCH requests
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  const { isrcs, filters, update: rawUpdate, preview = false } = req.body || {};
+
+  const hasIsrcs = Array.isArray(isrcs) && isrcs.length > 0;
+  const hasFilters = filters && typeof filters === 'object' && !Array.isArray(filters);
+
+  if (!hasIsrcs && !hasFilters) {
+    return res.status(400).json({
+      error: 'Either isrcs or filters is required',
+    });
+  }
+
+  try {
+    const categories = await getTaxonomyEntries(prisma);
+    const active = new Set(
+      categories.flatMap(category => category.subgenres).filter(s => !s.deprecated).map(s => s.name)
+    );
+
+    const validated = validateBulkUpdate(rawUpdate, active);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+    const { update } = validated;
+
+    const requested: string[] = hasIsrcs ? [...new Set((isrcs as unknown[]).map(String))] : [];
+    const where = hasIsrcs
+      ? { isrc: { in: requested } }
+      : buildSongWhere(filters as SongFilterParams, categories);
+
+    const matched = await prisma.song.count({ where });
+
+    if (matched > MAX_BULK_SONGS) {
+      return res.status(400).json({
+        error: `Too many songs. Maximum ${MAX_BULK_SONGS} songs per request. The selection matches ${matched} songs.`,
+      });
+    }
+
+    // ISRCs that aren't in the database are reported rather than failing the request
+    const withMissing = (plans: BulkSongPlan[]) => {
+      const found = new Set(plans.map(plan => plan.isrc));
+      const missing = requested.filter(isrc => !found.has(isrc)).map(isrc => ({
+        isrc,
+        artist: null,
+        title: null,
+        status: 'skipped' as const,
+        reason: 'Song not found',
+        changes: [],
+        data: {},
+      }));
+      return [...plans, ...missing];
+    };
+
+    const changeSetId = uuidv4();
+    const description = describeBulkUpdate(update);
+
+    const plans = preview === true
+      ? withMissing(
+          (await prisma.song.findMany({ where, orderBy: { isrc: 'asc' } })).map(song => planBulkEdit(song, update))
+        )
+      : await prisma.$transaction(async tx => {
+          // Planned inside the transaction so the history matches what was written
+          const songs = await tx.song.findMany({ where, orderBy: { isrc: 'asc' } });
+          const planned = songs.map(song => planBulkEdit(song, update));
+
+          for (const [index, plan] of planned.entries()) {
+            if (plan.status !== 'updated') continue;
+
+            await tx.song.update({ where: { isrc: plan.isrc }, data: plan.data });
+            await recordSongChanges(tx, plan.isrc, songs[index], plan.data, {
+              source: 'BULK',
+              actor: { id: user.id, name: user.name },
+              context: `Bulk edit: ${description}`,
+              changeSetId,
+            });
+          }
+
+          return withMissing(planned);
+        }, { timeout: TRANSACTION_TIMEOUT_MS });
+
+    const count = (status: BulkSongPlan['status']) => plans.filter(plan => plan.status === status).length;
+
+    if (preview !== true) {
+      console.log(`[BulkEdit] ${user.email} applied ${description} to ${count('updated')} of ${matched} songs`);
+    }
+
+    return res.status(200).json({
+      preview: preview === true,
+      changeSetId: preview === true ? null : changeSetId,
+      matched,
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      skipped: count('skipped'),
+      results: plans.map(({ data, ...result }) => result),
+    });
+
+  } catch (error: any) {
+    console.error('Error bulk editing songs:', error);
+    return res.status(500).json({
+      error: 'Failed to update songs',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
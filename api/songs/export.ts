@@ -5,7 +5,9 @@
  * By default, exports all non-REJECTED songs (soft approve model).
  *
  * Query Parameters:
- *   - subgenre: Filter by subgenre (searches aiSubgenre1/2/3)
+ *   - subgenres: Filter by subgenres, comma-separated (searches aiSubgenre1/2/3)
+ *   - categories: Filter by category ids, comma-separated; each matches every subgenre
+ *     in the category (combined with subgenres)
  *   - status: Filter by aiStatus (SUCCESS, ERROR, etc.)
  *   - reviewStatus: Filter by reviewed (all, reviewed, unreviewed)
  *   - approvalStatus: Filter by approval status (default: non-REJECTED songs)
@@ -26,6 +28,8 @@
 import { PrismaClient } from '@prisma/client';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { requireAuth } from '../lib/auth.js';
+import { expandCategoryFilter } from '../lib/song-filters.js';
+import { getTaxonomyEntries } from '../lib/taxonomy.js';
 import {
   exportSongsToCSV,
   generateExportFilename,
@@ -50,6 +54,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     // Parse multi-select filter parameters (comma-separated values)
     const subgenresParam = req.query.subgenres as string;
+    const categoriesParam = req.query.categories as string;
     const energiesParam = req.query.energies as string;
     const accessibilitiesParam = req.query.accessibilities as string;
     const explicitsParam = req.query.explicits as string;
@@ -62,6 +67,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     };
 
     const subgenres = parseFilterArray(subgenresParam);
+    const categoryIds = parseFilterArray(categoriesParam);
     const energies = parseFilterArray(energiesParam);
     const accessibilities = parseFilterArray(accessibilitiesParam);
     const explicits = parseFilterArray(explicitsParam);
@@ -148,13 +154,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const andConditions: any[] = [];
 
     // Subgenre filter (multi-select: searches across all 3 subgenre columns)
+    // Selected categories add all of their subgenres
     // Note: Database values are Title Case per CLAUDE.md, so we match exactly
-    if (subgenres.length > 0) {
+    if (subgenres.length > 0 || categoryIds.length > 0) {
+      const filterSubgenres = categoryIds.length > 0
+        ? [...new Set([...subgenres, ...expandCategoryFilter(categoriesParam, await getTaxonomyEntries(prisma))])]
+        : subgenres;
       andConditions.push({
         OR: [
-          { aiSubgenre1: { in: subgenres } },
-          { aiSubgenre2: { in: subgenres } },
-          { aiSubgenre3: { in: subgenres } },
+          { aiSubgenre1: { in: filterSubgenres } },
+          { aiSubgenre2: { in: filterSubgenres } },
+          { aiSubgenre3: { in: filterSubgenres } },
         ]
       });
     }
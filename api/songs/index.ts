@@ -6,7 +6,9 @@
  * Query Parameters:
  *   - page: Page number (default: 1)
  *   - limit: Songs per page (default: 50, max: 200)
- *   - subgenre: Filter by subgenre (searches aiSubgenre1/2/3)
+ *   - subgenres: Filter by subgenres, comma-separated (searches aiSubgenre1/2/3)
+ *   - categories: Filter by category ids, comma-separated; each matches every subgenre
+ *     in the category (combined with subgenres)
  *   - status: Filter by aiStatus (SUCCESS, ERROR, etc.)
  *   - reviewStatus: Filter by reviewed (all, reviewed, unreviewed)
  *   - approvalStatus: Filter by approvalStatus (all, active, pending, approved, rejected)
@@ -14,7 +16,8 @@
  *   - accessibility: Filter by aiAccessibility
  *   - playlistId: Filter by playlist ID
  *   - search: Search by artist, title, or ISRC (case-insensitive partial match)
- *   - sortBy: Field to sort by (createdAt, title, artist, etc.) (default: createdAt)
+ *   - minConfidence / maxConfidence: Filter by overall AI confidence, min <= c < max (0-1 or 0-100)
+ *   - sortBy: Field to sort by (createdAt, title, artist, confidence, etc.) (default: createdAt)
  *   - sortOrder: Sort direction (asc, desc) (default: desc)
  *
  * Response:
@@ -24,9 +27,12 @@
  *   }
  */
 
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { requireAuth } from '../lib/auth.js';
+import { buildSongWhere, type SongFilterParams } from '../lib/song-filters.js';
+import { getTaxonomyEntries } from '../lib/taxonomy.js';
+import { formatSong } from '../lib/song-format.js';
 
 const prisma = new PrismaClient();
 
@@ -47,125 +53,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const page = Math.max(1, parseInt(req.query.page as string) || 1);
     const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
     const offset = (page - 1) * limit;
-
-    // Multi-select filters (comma-separated values)
-    const subgenresParam = req.query.subgenres as string;
-    const energiesParam = req.query.energies as string;
-    const accessibilitiesParam = req.query.accessibilities as string;
-    const explicitsParam = req.query.explicits as string;
-
-    // Parse comma-separated values into arrays with sanitization
-    const MAX_FILTER_VALUES = 50;
-    const parseFilterArray = (param: string | undefined): string[] => {
-      if (!param) return [];
-      return param.split(',').map(v => v.trim()).filter(Boolean).slice(0, MAX_FILTER_VALUES);
-    };
-
-    const subgenres = parseFilterArray(subgenresParam);
-    const energies = parseFilterArray(energiesParam);
-    const accessibilities = parseFilterArray(accessibilitiesParam);
-    const explicits = parseFilterArray(explicitsParam);
-
-    // Single-select filters
-    const status = req.query.status as string;
-    const reviewStatus = req.query.reviewStatus as string;
-    const approvalStatus = req.query.approvalStatus as string;
-    const uploadBatchId = req.query.uploadBatchId as string;
-    const playlistId = req.query.playlistId as string;
-    const search = req.query.search as string;
     const sortBy = (req.query.sortBy as string) || 'createdAt';
     const sortOrder = (req.query.sortOrder as string) || 'desc';
 
     // Build Prisma where clause
-    const where: any = {};
-    const andConditions: any[] = [];
-
-    // Subgenre filter (multi-select: searches across all 3 subgenre columns)
-    // A song matches if ANY of its subgenres match ANY of the selected subgenres
-    // Note: Database values are Title Case per CLAUDE.md, so we match exactly
-    if (subgenres.length > 0) {
-      andConditions.push({
-        OR: [
-          { aiSubgenre1: { in: subgenres } },
-          { aiSubgenre2: { in: subgenres } },
-          { aiSubgenre3: { in: subgenres } },
-        ]
-      });
-    }
-
-    // Search filter (searches artist, title, and ISRC with AND logic)
-    if (search && search.trim()) {
-      const searchTerms = search.trim().split(/\s+/); // Split by whitespace
-
-      // Each search term must match in at least one field (artist, title, or ISRC)
-      searchTerms.forEach(term => {
-        andConditions.push({
-          OR: [
-            { artist: { contains: term, mode: 'insensitive' } },
-            { title: { contains: term, mode: 'insensitive' } },
-            { isrc: { contains: term, mode: 'insensitive' } },
-          ]
-        });
-      });
-    }
-
-    // Status filter
-    if (status && status !== 'all') {
-      where.aiStatus = status;
-    }
-
-    // Review status filter
-    if (reviewStatus && reviewStatus !== 'all') {
-      if (reviewStatus === 'reviewed') {
-        where.reviewed = true;
-      } else if (reviewStatus === 'unreviewed') {
-        where.reviewed = false;
-      }
-    }
-
-    // Approval status filter (PENDING, APPROVED, REJECTED, or 'active' for non-rejected)
-    if (approvalStatus && approvalStatus !== 'all') {
-      if (approvalStatus === 'active') {
-        // Active = all non-rejected songs (soft approve model)
-        where.approvalStatus = { not: 'REJECTED' };
-      } else {
-        where.approvalStatus = approvalStatus.toUpperCase();
-      }
-    }
-
-    // Energy filter (multi-select)
-    if (energies.length > 0) {
-      where.aiEnergy = { in: energies };
-    }
-
-    // Accessibility filter (multi-select)
-    if (accessibilities.length > 0) {
-      where.aiAccessibility = { in: accessibilities };
-    }
-
-    // Explicit content filter (multi-select)
-    if (explicits.length > 0) {
-      where.aiExplicit = { in: explicits };
-    }
-
-    // Upload batch filter
-    if (uploadBatchId && uploadBatchId !== 'all') {
-      where.uploadBatchId = uploadBatchId;
-    }
-
-    // Playlist filter (filter by songs that belong to a specific playlist)
-    if (playlistId && playlistId !== 'all') {
-      where.playlists = {
-        some: {
-          playlistId: playlistId
-        }
-      };
-    }
-
-    // Combine AND conditions if any exist
-    if (andConditions.length > 0) {
-      where.AND = andConditions;
-    }
+    const where = buildSongWhere(req.query as SongFilterParams, await getTaxonomyEntries(prisma));
 
     // Get total count for pagination
     const total = await prisma.song.count({ where });
@@ -178,55 +70,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       artist: 'artist',
       energy: 'aiEnergy',
       accessibility: 'aiAccessibility',
+      confidence: 'aiConfidence',
     };
 
     const prismaField = fieldMapping[sortBy] || 'createdAt';
-    const prismaOrder = sortOrder === 'asc' ? 'asc' : 'desc';
+    const prismaOrder: Prisma.SortOrder = sortOrder === 'asc' ? 'asc' : 'desc';
+
+    // Songs without a confidence score always sort last
+    const orderBy = prismaField === 'aiConfidence'
+      ? { aiConfidence: { sort: prismaOrder, nulls: 'last' as const } }
+      : { [prismaField]: prismaOrder };
 
     // Get paginated songs with dynamic sorting
     const songs = await prisma.song.findMany({
       where,
-      orderBy: { [prismaField]: prismaOrder },
+      orderBy,
       skip: offset,
       take: limit,
     });
 
-    // Transform Prisma response to match API interface
-    // (Prisma uses camelCase, API uses snake_case for some fields)
-    const data = songs.map(song => ({
-      id: song.id,
-      isrc: song.isrc,
-      title: song.title,
-      artist: song.artist,
-      energy: song.energy,
-      bpm: song.bpm,
-      subgenre: song.subgenre,
-      artwork: song.artworkUrl || song.artwork,
-      source_file: song.s3Url || song.sourceFile,
-      spotify_track_id: song.spotifyTrackId,
-      spotify_preview_url: song.spotifyPreviewUrl,
-      spotify_artwork_url: song.spotifyArtworkUrl,
-      ai_status: song.aiStatus,
-      ai_error_message: song.aiErrorMessage,
-      ai_reasoning: song.aiReasoning,
-      ai_context_used: song.aiContextUsed,
-      ai_energy: song.aiEnergy,
-      ai_accessibility: song.aiAccessibility,
-      ai_explicit: song.aiExplicit,
-      ai_subgenre_1: song.aiSubgenre1,
-      ai_subgenre_2: song.aiSubgenre2,
-      ai_subgenre_3: song.aiSubgenre3,
-      reviewed: song.reviewed,
-      reviewed_by: song.reviewedBy,
-      reviewed_at: song.reviewedAt?.toISOString() || null,
-      curator_notes: song.curatorNotes,
-      // Approval workflow fields
-      approval_status: (song as any).approvalStatus || 'PENDING',
-      approved_by: (song as any).approvedBy || null,
-      approved_at: (song as any).approvedAt?.toISOString() || null,
-      created_at: song.createdAt.toISOString(),
-      modified_at: song.modifiedAt.toISOString(),
-    }));
+    const data = songs.map(formatSong);
 
     // Return response
     return res.status(200).json({
@@ -1,11 +1,13 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import { PrismaClient } from '@prisma/client';
-import { pollExplicitResult } from '../../src/classifiers/explicit-classifier.cjs';
+import { PrismaClient, type ExplicitJob } from '@prisma/client';
+import { checkExplicitJobs } from '../../src/classifiers/explicit-jobs.cjs';
+import { saveExplicitResult, type ExplicitResultInput } from '../lib/song-import.js';
 
 const prisma = new PrismaClient();
 
 interface PollInput {
-  runId: string;
+  jobId?: string;
+  runId?: string;
   isrc: string;
   artist: string;
   title: string;
@@ -13,8 +15,9 @@ interface PollInput {
 
 interface ExplicitResult {
   isrc: string;
+  jobId: string | null;
   classification: string | null;
-  status: 'success' | 'error';
+  status: 'success' | 'pending' | 'error';
   error?: string;
 }
 
@@ -25,25 +28,31 @@ interface PollExplicitRequest {
 interface PollExplicitResponse {
   polled: number;
   successful: number;
+  pending: number;
   results: ExplicitResult[];
 }
 
 /**
  * POST /api/songs/poll-explicit
  *
- * Poll explicit content detection results and update database.
- * Called after all Gemini processing is complete.
+ * Checks explicit content detection jobs once and stores finished results.
+ * Jobs are persisted (ExplicitJob), so results that are still pending are also
+ * picked up by the upload worker cron; callers may poll again or stop.
+ *
+ * A runId without a job (submitted before jobs existed) gets a job created
+ * for it, so it is tracked from then on.
  *
  * Request body:
  * {
- *   submissions: Array<{ runId, isrc, artist, title }>
+ *   submissions: Array<{ jobId?, runId?, isrc, artist, title }>  // jobId or runId required
  * }
  *
  * Response:
  * {
  *   polled: number,
  *   successful: number,
- *   results: Array<{ isrc, classification, status, error? }>
+ *   pending: number,
+ *   results: Array<{ isrc, jobId, classification, status: 'success'|'pending'|'error', error? }>
  * }
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -60,78 +69,48 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    console.log(`[PollExplicit] Polling ${submissions.length} explicit results...`);
-
-    // Process poll requests in batches to avoid overwhelming DB connection pool
-    const POLL_BATCH_SIZE = 20;
-    const results: ExplicitResult[] = [];
-
-    for (let i = 0; i < submissions.length; i += POLL_BATCH_SIZE) {
-      const batch = submissions.slice(i, i + POLL_BATCH_SIZE);
-
-      const batchResults = await Promise.all(
-        batch.map(async (submission): Promise<ExplicitResult> => {
-          if (!submission.runId) {
-            return {
-              isrc: submission.isrc,
-              classification: null,
-              status: 'error',
-              error: 'No runId provided'
-            };
-          }
-
-          try {
-            const result = await pollExplicitResult(
-              submission.runId,
-              submission.artist,
-              submission.title
-            );
-
-            // Update DB with explicit classification
-            // Skip if classification is null (API returned no result) - preserves any existing value
-            if (result.classification && submission.isrc) {
-              try {
-                await prisma.song.update({
-                  where: { isrc: submission.isrc },
-                  data: { aiExplicit: result.classification }
-                });
-              } catch (dbError: any) {
-                console.error(`[PollExplicit] DB update failed for ${submission.isrc}:`, dbError.message);
-                return {
-                  isrc: submission.isrc,
-                  classification: result.classification,
-                  status: 'error',
-                  error: `DB update failed: ${dbError.message}`
-                };
-              }
-            }
-
-            return {
-              isrc: submission.isrc,
-              classification: result.classification,
-              status: 'success'
-            };
-          } catch (error: any) {
-            console.error(`[PollExplicit] Error for ${submission.artist} - ${submission.title}:`, error.message);
-            return {
-              isrc: submission.isrc,
-              classification: null,
-              status: 'error',
-              error: error.message
-            };
-          }
-        })
-      );
-
-      results.push(...batchResults);
-    }
+    console.log(`[PollExplicit] Checking ${submissions.length} explicit jobs...`);
+
+    // Resolve each submission to its job
+    const jobIds = await Promise.all(submissions.map(submission => findOrTrackJob(submission)));
+
+    const jobs: ExplicitJob[] = await checkExplicitJobs(prisma, jobIds.filter((id): id is string => !!id), {
+      saveResult: (isrc: string, result: ExplicitResultInput) => saveExplicitResult(prisma, isrc, result)
+    });
+    const jobsById = new Map(jobs.map(job => [job.id, job]));
+
+    const results: ExplicitResult[] = submissions.map((submission, index) => {
+      const job = jobIds[index] ? jobsById.get(jobIds[index]) : null;
+
+      if (!job) {
+        return {
+          isrc: submission.isrc,
+          jobId: null,
+          classification: null,
+          status: 'error',
+          error: 'No jobId or runId provided'
+        };
+      }
+
+      if (job.status === 'COMPLETE') {
+        return { isrc: job.isrc, jobId: job.id, classification: job.classification, status: 'success' };
+      }
+
+      if (job.status === 'FAILED') {
+        return { isrc: job.isrc, jobId: job.id, classification: null, status: 'error', error: job.error || 'Explicit detection failed' };
+      }
+
+      return { isrc: job.isrc, jobId: job.id, classification: null, status: 'pending' };
+    });
 
     const successCount = results.filter(r => r.status === 'success').length;
-    console.log(`[PollExplicit] Complete: ${successCount}/${submissions.length} successful`);
+    const pendingCount = results.filter(r => r.status === 'pending').length;
+    console.log(`[PollExplicit] Complete: ${successCount}/${submissions.length} successful, ${pendingCount} pending`);
 
     const response: PollExplicitResponse = {
       polled: submissions.length,
       successful: successCount,
+      pending: pendingCount,
       results
     };
 
@@ -147,3 +126,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     await prisma.$disconnect();
   }
 }
+
+/**
+ * Finds the job for a submission, creating a SUBMITTED job for an untracked runId
+ * @returns The job id, or null if the submission has neither jobId nor runId
+ */
+async function findOrTrackJob(submission: PollInput): Promise<string | null> {
+  if (submission.jobId) {
+    return submission.jobId;
+  }
+  if (!submission.runId || !submission.isrc) {
+    return null;
+  }
+
+  const existing = await prisma.explicitJob.findFirst({
+    where: { runId: submission.runId },
+    select: { id: true }
+  });
+  if (existing) {
+    return existing.id;
+  }
+
+  const job = await prisma.explicitJob.create({
+    data: {
+      isrc: submission.isrc,
+      artist: submission.artist,
+      title: submission.title,
+      source: 'api',
+      runId: submission.runId,
+      status: 'SUBMITTED',
+      attempts: 1,
+      submittedAt: new Date()
+    }
+  });
+  return job.id;
+}
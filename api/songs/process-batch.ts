@@ -1,22 +1,13 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { PrismaClient } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
-import { classifySong } from '../../src/classifiers/gemini-classifier.cjs';
+import { classifySongWithCache } from '../../src/classifiers/classification-cache.cjs';
+import { getPromptRollout, choosePromptId } from '../lib/prompt-rollout.js';
+import { analyzeSongAudio } from '../lib/audio-analysis.js';
+import { classificationMetadata, saveClassifiedSong, type SongToProcess } from '../lib/song-import.js';
 
 const prisma = new PrismaClient();
 
-interface SongToProcess {
-  artist: string;
-  title: string;
-  isrc?: string;
-  bpm?: number;
-  spotifyTrackId?: string;
-  s3Url?: string;
-  artworkUrl?: string;
-  spotifyPreviewUrl?: string;
-  spotifyArtworkUrl?: string;
-}
-
 interface ProcessedSong {
   isrc: string;
   title: string;
@@ -47,7 +38,9 @@ interface ProcessBatchResponse {
 /**
  * POST /api/songs/process-batch
  *
- * Process a batch of songs with Gemini classification only.
+ * Synchronous alternative to the upload worker (uploads now queue an UploadJob).
+ * Process a batch of songs with AI classification only (Gemini by default;
+ * set CLASSIFIER_PROVIDER=local for the offline provider).
  * Explicit detection is handled separately via submit-explicit and poll-explicit endpoints.
  *
  * Request body:
@@ -82,79 +75,33 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     console.log(`[ProcessBatch] Starting Gemini batch with ${songs.length} songs`);
 
+    // Prompt version per song: active version, or the candidate for its rollout share
+    const promptRollout = await getPromptRollout(prisma);
+
     const results: ProcessedSong[] = [];
     const errors: Array<{ artist: string; title: string; error: string }> = [];
 
-    // Run Gemini classification for all songs in parallel
+    // Run Gemini classification for all songs in parallel (paced by the shared gemini rate limiter)
     const geminiResults = await Promise.all(
       songs.map(async (song, index) => {
         try {
-          // Run Gemini classification
-          const geminiResult = await classifySong(song.artist, song.title, {
-            bpm: song.bpm
-          });
-
-          // Generate ISRC if missing
-          const isrc = song.isrc || `TEMP-${uuidv4().substring(0, 8).toUpperCase()}`;
+          // Generate ISRC if missing (12 chars to fit songs.isrc)
+          const isrc = song.isrc || `TEMP-${uuidv4().substring(0, 7).toUpperCase()}`;
 
-          // Helper to truncate strings to database column limits
-          const truncate = (str: string | null | undefined, maxLen: number): string | null => {
-            if (!str) return null;
-            return str.length > maxLen ? str.substring(0, maxLen) : str;
-          };
-
-          // Save to database with aiExplicit: null (updated later by poll-explicit)
-          const enrichedSong = {
-            isrc,
-            title: truncate(song.title, 500),
-            artist: truncate(song.artist, 500),
-            bpm: song.bpm || null,
-            spotifyTrackId: truncate(song.spotifyTrackId, 50),
-            s3Url: song.s3Url || null,
-            artwork: song.spotifyArtworkUrl || song.artworkUrl || null,
-            artworkUrl: song.artworkUrl || null,
-            spotifyPreviewUrl: song.spotifyPreviewUrl || null,
-            spotifyArtworkUrl: song.spotifyArtworkUrl || null,
-            // Gemini results - truncate to match DB column limits
-            aiEnergy: truncate(geminiResult?.energy, 20),
-            aiAccessibility: truncate(geminiResult?.accessibility, 20),
-            aiSubgenre1: truncate(geminiResult?.subgenre1, 100),
-            aiSubgenre2: truncate(geminiResult?.subgenre2, 100),
-            aiSubgenre3: truncate(geminiResult?.subgenre3, 100),
-            aiReasoning: truncate(geminiResult?.reasoning, 5000),
-            aiContextUsed: truncate(geminiResult?.context, 2000),
-            // Explicit will be updated by poll-explicit endpoint
-            aiExplicit: null,
-            // Status
-            aiStatus: geminiResult?.status === 'SUCCESS' ? 'SUCCESS' : 'ERROR',
-            aiErrorMessage: geminiResult?.error_message || null,
-            // Upload tracking
-            uploadBatchId: batchId,
-            uploadBatchName: uploadBatchName,
-            reviewed: false
-          };
+          // Measure the preview/source audio so the prompt gets it as context
+          const analyzed = { ...song, audio: await analyzeSongAudio(song) };
 
-          // Upsert to handle duplicates
-          const savedSong = await prisma.song.upsert({
-            where: { isrc: enrichedSong.isrc },
-            update: enrichedSong,
-            create: enrichedSong
+          // Run classification with the configured provider (cached results are reused)
+          const geminiResult = await classifySongWithCache(prisma, song.artist, song.title, classificationMetadata(analyzed), {
+            promptId: choosePromptId(promptRollout),
+            isrc
           });
 
-          // Create playlist association
-          await prisma.playlistSong.upsert({
-            where: {
-              playlistId_songIsrc: {
-                playlistId: playlistId,
-                songIsrc: savedSong.isrc
-              }
-            },
-            update: { wasNew: true },
-            create: {
-              playlistId: playlistId,
-              songIsrc: savedSong.isrc,
-              wasNew: true
-            }
+          // Save with aiExplicit: null (updated later by poll-explicit)
+          const savedSong = await saveClassifiedSong(prisma, analyzed, isrc, geminiResult, {
+            batchId,
+            uploadBatchName,
+            playlistId
           });
 
           return {
@@ -0,0 +1,168 @@
+/**
+ * POST /api/songs/reclassify
+ *
+ * Queues AI reclassification of existing songs. Runs on the upload worker like
+ * a CSV upload, so progress is available from GET /api/songs/upload-status.
+ * The classification cache is bypassed, so every song gets a fresh model call.
+ * Admin only, since every song costs paid model and Parallel AI calls.
+ *
+ * Body Parameters (one of isrcs / filters required):
+ *   - isrcs: ISRCs to reclassify
+ *   - filters: Same filter parameters as GET /api/songs (e.g. { status: 'ERROR' })
+ *   - target: 'all' (default) | 'classification' | 'explicit'
+ *   - skipReviewed: Leave curator-reviewed songs alone (default: true). When
+ *     false, fields a curator edited stay locked and get proposed values instead.
+ *   - explicitProvider: 'parallel' | 'lyrics' (optional, defaults to the
+ *     configured provider). Songs without stored lyrics use Parallel AI.
+ *
+ * Response:
+ *   { success: true, batchId, jobId, matched, queued, skippedReviewed }
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { v4 as uuidv4 } from 'uuid';
+import { requireAdmin } from '../lib/auth.js';
+import { AUDIO_FEATURE_SELECT, storedAudioFeatures } from '../lib/audio-analysis.js';
+import { buildSongWhere, type SongFilterParams } from '../lib/song-filters.js';
+import { getTaxonomyEntries } from '../lib/taxonomy.js';
+import type { ExplicitProvider, ReclassifyOptions } from '../lib/upload-worker.js';
+import { EXPLICIT_PROVIDERS } from '../../src/classifiers/explicit-jobs.cjs';
+
+const prisma = new PrismaClient();
+
+const VALID_TARGETS = ['all', 'classification', 'explicit'];
+// Keeps one request to a size the worker clears in reasonable time
+const MAX_RECLASSIFY_SONGS = 1000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require admin role
+  const user = await requireAdmin(req, res);
+  if (!user) {
+    return; // requireAdmin already sent 401/403 response
+  }
+
+  const { isrcs, filters, target = 'all', skipReviewed = true, explicitProvider } = req.body || {};
+
+  const hasIsrcs = Array.isArray(isrcs) && isrcs.length > 0;
+  const hasFilters = filters && typeof filters === 'object' && !Array.isArray(filters);
+
+  if (!hasIsrcs && !hasFilters) {
+    return res.status(400).json({
+      error: 'Either isrcs or filters is required',
+    });
+  }
+
+  if (!VALID_TARGETS.includes(target)) {
+    return res.status(400).json({
+      error: 'Invalid target',
+      message: `Must be one of: ${VALID_TARGETS.join(', ')}`,
+    });
+  }
+
+  if (explicitProvider !== undefined && !EXPLICIT_PROVIDERS.includes(explicitProvider)) {
+    return res.status(400).json({
+      error: 'Invalid explicitProvider',
+      message: `Must be one of: ${EXPLICIT_PROVIDERS.join(', ')}`,
+    });
+  }
+
+  try {
+    const where = hasIsrcs
+      ? { isrc: { in: (isrcs as unknown[]).map(String) } }
+      : buildSongWhere(filters as SongFilterParams, await getTaxonomyEntries(prisma));
+
+    const matched = await prisma.song.count({ where });
+
+    if (matched > MAX_RECLASSIFY_SONGS) {
+      return res.status(400).json({
+        error: `Too many songs. Maximum ${MAX_RECLASSIFY_SONGS} songs per request. The selection matches ${matched} songs.`,
+      });
+    }
+
+    const songs = await prisma.song.findMany({
+      where: skipReviewed ? { AND: [where, { reviewed: false }] } : where,
+      orderBy: { createdAt: 'asc' },
+      select: {
+        isrc: true,
+        artist: true,
+        title: true,
+        bpm: true,
+        s3Url: true,
+        spotifyPreviewUrl: true,
+        lyrics: true,
+        aiSubgenre1: true,
+        aiSubgenre2: true,
+        aiSubgenre3: true,
+        ...AUDIO_FEATURE_SELECT,
+      },
+    });
+
+    const options: ReclassifyOptions = {
+      classification: target !== 'explicit',
+      explicit: target !== 'classification',
+      skipReviewed,
+      ...(explicitProvider && { explicitProvider: explicitProvider as ExplicitProvider }),
+    };
+    const batchId = uuidv4();
+
+    const job = await prisma.uploadJob.create({
+      data: {
+        batchId,
+        kind: 'RECLASSIFY',
+        options: options as unknown as Prisma.InputJsonValue,
+        requestedBy: user.name,
+        status: songs.length > 0 ? 'PENDING' : 'COMPLETE',
+        totalSongs: matched,
+        skippedSongs: matched - songs.length,
+        completedAt: songs.length > 0 ? null : new Date(),
+        tasks: {
+          createMany: {
+            data: songs.map((song, position) => ({
+              position,
+              isrc: song.isrc,
+              artist: song.artist || '',
+              title: song.title || '',
+              song: {
+                artist: song.artist || '',
+                title: song.title || '',
+                ...(song.bpm && { bpm: song.bpm }),
+                // Songs without stored audio features are measured by the worker
+                ...(song.s3Url && { s3Url: song.s3Url }),
+                ...(song.spotifyPreviewUrl && { spotifyPreviewUrl: song.spotifyPreviewUrl }),
+                ...(song.lyrics && { lyrics: song.lyrics }),
+                subgenres: [song.aiSubgenre1, song.aiSubgenre2, song.aiSubgenre3].filter(Boolean) as string[],
+                audio: storedAudioFeatures(song),
+              } as unknown as Prisma.InputJsonValue,
+            })),
+          },
+        },
+      },
+    });
+
+    console.log(`[Reclassify] ${user.email} queued ${songs.length}/${matched} songs (target=${target}, skipReviewed=${skipReviewed}, explicitProvider=${explicitProvider || 'default'}, batch=${batchId})`);
+
+    return res.status(200).json({
+      success: true,
+      batchId,
+      jobId: job.id,
+      matched,
+      queued: songs.length,
+      skippedReviewed: matched - songs.length,
+    });
+
+  } catch (error: any) {
+    console.error('Error queueing reclassification:', error);
+    return res.status(500).json({
+      error: 'Failed to queue reclassification',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
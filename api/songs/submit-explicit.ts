@@ -1,13 +1,19 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
+import { PrismaClient } from '@prisma/client';
 import { submitExplicitTaskAsync } from '../../src/classifiers/explicit-classifier.cjs';
+import { createExplicitJob } from '../../src/classifiers/explicit-jobs.cjs';
+
+const prisma = new PrismaClient();
 
 interface SongInput {
   artist: string;
   title: string;
+  isrc?: string;
 }
 
 interface ExplicitSubmission {
   index: number;
+  jobId: string | null;
   runId: string | null;
   artist: string;
   title: string;
@@ -29,19 +35,23 @@ interface SubmitExplicitResponse {
  * POST /api/songs/submit-explicit
  *
  * Submit explicit content detection tasks for all songs upfront.
- * Returns runIds for polling later after Gemini processing completes.
+ * Songs with an ISRC get a persisted ExplicitJob: the upload worker cron stores
+ * the result on the song even if nobody calls poll-explicit. Songs without an
+ * ISRC only get a Parallel AI run to poll.
  *
  * Request body:
  * {
- *   songs: Array<{ artist, title }>
+ *   songs: Array<{ artist, title, isrc? }>
  * }
  *
  * Response:
  * {
  *   submitted: number,
  *   total: number,
- *   submissions: Array<{ index, runId, artist, title, status, error? }>
+ *   submissions: Array<{ index, jobId, runId, artist, title, status, error? }>
  * }
+ *
+ * A failed submission with a jobId is retried by the worker.
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
@@ -64,17 +74,42 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           error: 'Each song must have artist and title strings'
         });
       }
+      if (song.isrc !== undefined && (typeof song.isrc !== 'string' || song.isrc.length > 12)) {
+        return res.status(400).json({
+          error: 'isrc must be a string of at most 12 characters'
+        });
+      }
     }
 
     console.log(`[SubmitExplicit] Submitting ${songs.length} explicit tasks...`);
 
     // Submit all explicit tasks in parallel - fire-and-forget pattern for async processing
+    // (paced by the shared parallel rate limiter)
     const submissions = await Promise.all(
       songs.map(async (song, index): Promise<ExplicitSubmission> => {
         try {
+          if (song.isrc) {
+            const job = await createExplicitJob(prisma, {
+              isrc: song.isrc,
+              artist: song.artist,
+              title: song.title,
+              source: 'api'
+            });
+            return {
+              index,
+              jobId: job.id,
+              runId: job.runId,
+              artist: song.artist,
+              title: song.title,
+              status: job.status === 'SUBMITTED' ? 'submitted' : 'error',
+              error: job.error || undefined
+            };
+          }
+
           const result = await submitExplicitTaskAsync(song.artist, song.title);
           return {
             index,
+            jobId: null,
             runId: result.runId || null,
             artist: song.artist,
             title: song.title,
@@ -84,6 +119,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         } catch (error: any) {
           return {
             index,
+            jobId: null,
             runId: null,
             artist: song.artist,
             title: song.title,
@@ -111,5 +147,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       error: 'Internal server error',
       message: error.message
     });
+  } finally {
+    await prisma.$disconnect();
   }
 }
@@ -1,12 +1,13 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { PrismaClient } from '@prisma/client';
+import { OPEN_STATUSES } from '../../src/classifiers/explicit-jobs.cjs';
 
 const prisma = new PrismaClient();
 
 /**
  * GET /api/songs/upload-status
  *
- * Get the status of an upload batch by batchId
+ * Get the progress of an upload (or reclassify) job from its UploadTask rows
  *
  * Query params:
  * - batchId: The upload batch ID to check
@@ -14,13 +15,23 @@ const prisma = new PrismaClient();
  * Response:
  * {
  *   batchId: string,
- *   playlistId: string,
- *   playlistName: string,
- *   total: number,
- *   processed: number,
+ *   jobId: string,
+ *   kind: 'UPLOAD' | 'RECLASSIFY',
+ *   playlistId: string | null,
+ *   playlistName: string | null,
+ *   status: 'PENDING' | 'PROCESSING' | 'COMPLETE',
+ *   total: number,            // songs queued for classification
+ *   processed: number,        // classified (imported) or given up (failed)
+ *   imported: number,
+ *   failed: number,
+ *   pending: number,          // waiting or in progress, including retries
+ *   retrying: number,         // pending tasks that already failed at least once
+ *   explicitPending: number,  // imported songs still waiting for explicit detection
+ *   skipped: number,          // already in the library (upload) / reviewed (reclassify)
  *   complete: boolean,
  *   newSongs: number,
- *   duplicateSongs: number
+ *   duplicateSongs: number,
+ *   errors: Array<{ isrc, artist, title, error, attempts }>
  * }
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -35,33 +46,65 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    // Find the playlist by uploadBatchId
-    const playlist = await prisma.playlist.findFirst({
-      where: { uploadBatchId: batchId }
+    const job = await prisma.uploadJob.findUnique({
+      where: { batchId }
     });
 
-    if (!playlist) {
+    if (!job) {
       return res.status(404).json({ error: 'Batch not found' });
     }
 
-    // Count processed songs via PlaylistSong junction table
-    const processedCount = await prisma.playlistSong.count({
-      where: { playlistId: playlist.id }
-    });
+    const [statusCounts, retrying, explicitPending, failedTasks] = await Promise.all([
+      prisma.uploadTask.groupBy({
+        by: ['status'],
+        where: { jobId: job.id },
+        _count: { _all: true }
+      }),
+      prisma.uploadTask.count({
+        where: { jobId: job.id, status: { in: ['PENDING', 'PROCESSING'] }, attempts: { gt: 0 } }
+      }),
+      prisma.uploadTask.count({
+        where: { jobId: job.id, explicitJob: { status: { in: OPEN_STATUSES } } }
+      }),
+      prisma.uploadTask.findMany({
+        where: { jobId: job.id, status: 'FAILED' },
+        orderBy: { position: 'asc' },
+        select: { isrc: true, artist: true, title: true, lastError: true, attempts: true }
+      })
+    ]);
+
+    const countOf = (status: string) =>
+      statusCounts.find(row => row.status === status)?._count._all ?? 0;
 
-    // Determine if processing is complete
-    // Note: totalSongs is set at the end of processing, so if it's > 0 and matches processedCount, we're done
-    const complete = playlist.totalSongs > 0 && processedCount >= playlist.totalSongs;
+    const imported = countOf('COMPLETE');
+    const failed = countOf('FAILED');
+    const pending = countOf('PENDING') + countOf('PROCESSING');
 
     return res.status(200).json({
       batchId,
-      playlistId: playlist.id,
-      playlistName: playlist.name,
-      total: playlist.totalSongs,
-      processed: processedCount,
-      complete,
-      newSongs: playlist.newSongs,
-      duplicateSongs: playlist.duplicateSongs
+      jobId: job.id,
+      kind: job.kind,
+      playlistId: job.playlistId,
+      playlistName: job.playlistName,
+      status: job.status,
+      total: imported + failed + pending,
+      processed: imported + failed,
+      imported,
+      failed,
+      pending,
+      retrying,
+      explicitPending,
+      skipped: job.skippedSongs,
+      complete: job.status === 'COMPLETE',
+      newSongs: imported,
+      duplicateSongs: job.skippedSongs,
+      errors: failedTasks.map(task => ({
+        isrc: task.isrc,
+        artist: task.artist,
+        title: task.title,
+        error: task.lastError || 'Unknown error',
+        attempts: task.attempts
+      }))
     });
 
   } catch (error: any) {
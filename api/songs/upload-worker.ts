@@ -0,0 +1,66 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../lib/auth.js';
+import { runUploadWorker } from '../lib/upload-worker.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * GET|POST /api/songs/upload-worker
+ *
+ * Runs one pass of the upload worker: classifies queued upload tasks, retries
+ * failures and advances open explicit jobs (from uploads, the API and scripts). Called every minute by Vercel cron
+ * (see vercel.json; per-minute schedules need a paid Vercel plan). The upload
+ * modal also calls it while it watches an upload, so uploads progress where
+ * cron runs rarely or not at all (Hobby plan, local dev). A pass only works
+ * through tasks already queued, and concurrent passes claim different tasks.
+ *
+ * Auth: `Authorization: Bearer $CRON_SECRET` (sent by Vercel cron) or any signed-in user
+ *
+ * Response:
+ * {
+ *   claimed: number,
+ *   completed: number,
+ *   retried: number,
+ *   failed: number,
+ *   explicitFinished: number,
+ *   jobsCompleted: number
+ * }
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron = !!cronSecret && req.headers.authorization === `Bearer ${cronSecret}`;
+
+  if (!isCron) {
+    const user = await requireAuth(req, res);
+    if (!user) {
+      return; // requireAuth already sent 401 response
+    }
+  }
+
+  try {
+    const summary = await runUploadWorker(prisma);
+
+    if (summary.claimed > 0 || summary.explicitFinished > 0 || summary.jobsCompleted > 0) {
+      console.log(
+        `[UploadWorker] Run: ${summary.completed} completed, ${summary.retried} retried, ${summary.failed} failed, ` +
+        `${summary.explicitFinished} explicit finished, ${summary.jobsCompleted} jobs completed`
+      );
+    }
+
+    return res.status(200).json(summary);
+
+  } catch (error: any) {
+    console.error('[UploadWorker] Error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
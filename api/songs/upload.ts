@@ -1,9 +1,11 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import formidable from 'formidable';
 import fs from 'fs';
 import csv from 'csv-parser';
 import { v4 as uuidv4 } from 'uuid';
+import { EXPLICIT_PROVIDERS } from '../../src/classifiers/explicit-jobs.cjs';
+import type { ExplicitProvider, UploadOptions } from '../lib/upload-worker.js';
 
 const prisma = new PrismaClient();
 
@@ -111,19 +113,20 @@ interface ParsedSong {
   artworkUrl?: string;
   spotifyPreviewUrl?: string;
   spotifyArtworkUrl?: string;
+  lyrics?: string;
 }
 
 interface UploadResult {
   batchId: string;
+  jobId: string;
   playlistId: string;
   playlistName: string;
-  status: 'ready' | 'processing' | 'complete';
+  status: 'processing' | 'complete';
   summary: {
     total: number;
     toProcess: number;
     skipped: number;
   };
-  songsToProcess: ParsedSong[];
   skippedSongs: Array<{
     isrc: string;
     title: string;
@@ -148,15 +151,19 @@ async function getExistingIsrcs(isrcs: string[]): Promise<Set<string>> {
 /**
  * POST /api/songs/upload
  *
- * Parse CSV and prepare songs for batch processing.
+ * Parse CSV and queue songs for classification.
  * - ISRC-based deduplication (skip songs that already exist)
  * - Creates playlist record from CSV filename
- * - Returns songs for frontend to process via /api/songs/process-batch
+ * - Creates an UploadJob with one UploadTask per new song; the upload worker
+ *   (/api/songs/upload-worker) processes them server-side
  *
  * Multipart form data:
- * - file: CSV file (max 250 songs for web uploads)
+ * - file: CSV file (max 250 songs for web uploads). An optional `lyrics`
+ *   column is stored on the song for the lyrics explicit provider.
+ * - explicitProvider: 'parallel' | 'lyrics' (optional, defaults to the
+ *   configured provider). Songs without lyrics always use Parallel AI.
  *
- * Response: UploadResult with songsToProcess array
+ * Response: UploadResult - poll /api/songs/upload-status?batchId= for progress
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Only allow POST
@@ -165,10 +172,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   const uploadBatchId = uuidv4();
+  let playlist: { id: string } | null = null;
 
   try {
     // Parse multipart form data
-    const { file, songs, batchName } = await parseFormData(req);
+    const { file, songs, batchName, explicitProvider } = await parseFormData(req);
 
     if (!file || !songs || songs.length === 0) {
       return res.status(400).json({
@@ -176,6 +184,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    if (explicitProvider && !EXPLICIT_PROVIDERS.includes(explicitProvider)) {
+      return res.status(400).json({
+        error: 'Invalid explicitProvider',
+        message: `Must be one of: ${EXPLICIT_PROVIDERS.join(', ')}`
+      });
+    }
+
     // Enforce 250 song limit for web uploads
     if (songs.length > 250) {
       return res.status(400).json({
@@ -184,7 +199,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Create playlist record
-    let playlist: { id: string } | null = null;
     playlist = await prisma.playlist.create({
       data: {
         name: batchName,
@@ -247,19 +261,54 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
-    // Return songs ready for batch processing
-    // The frontend will call /api/songs/process-batch in chunks
+    const options: UploadOptions | null = explicitProvider
+      ? { explicitProvider: explicitProvider as ExplicitProvider }
+      : null;
+
+    // Queue new songs for the upload worker. ISRCs are fixed here (TEMP- when
+    // the CSV has none, 12 chars to fit songs.isrc) so retries update the same song row.
+    const job = await prisma.uploadJob.create({
+      data: {
+        batchId: uploadBatchId,
+        playlistId: playlist.id,
+        playlistName: batchName,
+        ...(options && { options: options as unknown as Prisma.InputJsonValue }),
+        status: songsToProcess.length > 0 ? 'PENDING' : 'COMPLETE',
+        totalSongs: songs.length,
+        skippedSongs: skippedSongs.length,
+        completedAt: songsToProcess.length > 0 ? null : new Date(),
+        tasks: {
+          createMany: {
+            data: songsToProcess.map((song, position) => ({
+              position,
+              isrc: song.isrc || `TEMP-${uuidv4().substring(0, 7).toUpperCase()}`,
+              artist: song.artist,
+              title: song.title,
+              song: song as unknown as Prisma.InputJsonValue
+            }))
+          }
+        }
+      }
+    });
+
+    if (songsToProcess.length === 0) {
+      await prisma.playlist.update({
+        where: { id: playlist.id },
+        data: { totalSongs: songs.length, duplicateSongs: skippedSongs.length }
+      });
+    }
+
     const result: UploadResult = {
       batchId: uploadBatchId,
+      jobId: job.id,
       playlistId: playlist.id,
       playlistName: batchName,
-      status: songsToProcess.length > 0 ? 'ready' : 'complete',
+      status: songsToProcess.length > 0 ? 'processing' : 'complete',
       summary: {
         total: songs.length,
         toProcess: songsToProcess.length,
         skipped: skippedSongs.length
       },
-      songsToProcess: songsToProcess,
       skippedSongs: skippedSongs
     };
 
@@ -288,6 +337,7 @@ async function parseFormData(req: VercelRequest): Promise<{
   file: formidable.File | null;
   songs: ParsedSong[];
   batchName: string;
+  explicitProvider?: string;
 }> {
   return new Promise((resolve, reject) => {
     const form = formidable({ multiples: false });
@@ -298,6 +348,8 @@ async function parseFormData(req: VercelRequest): Promise<{
       }
 
       const file = Array.isArray(files.file) ? files.file[0] : files.file;
+      const providerField = Array.isArray(fields.explicitProvider) ? fields.explicitProvider[0] : fields.explicitProvider;
+      const explicitProvider = providerField ? String(providerField).trim().toLowerCase() : undefined;
 
       if (!file) {
         return resolve({ file: null, songs: [], batchName: 'Unknown Upload' });
@@ -310,7 +362,7 @@ async function parseFormData(req: VercelRequest): Promise<{
 
       try {
         const songs = await parseCSV(file.filepath);
-        resolve({ file, songs, batchName });
+        resolve({ file, songs, batchName, explicitProvider });
       } catch (error) {
         reject(error);
       }
@@ -344,6 +396,7 @@ async function parseCSV(filePath: string): Promise<ParsedSong[]> {
         const artworkUrl = row.artwork_url || row.ARTWORK_URL || row['Artwork URL'] || row.artwork || row.ARTWORK || row.Artwork;
         const spotifyPreviewUrl = row.spotify_preview_url || row['Spotify Preview URL'] || row.spotifyPreviewUrl;
         const spotifyArtworkUrl = row.spotify_artwork_url || row['Spotify Artwork URL'] || row.spotifyArtworkUrl;
+        const lyrics = row.Lyrics || row.lyrics || row.LYRICS;
 
         if (artist && title) {
           songs.push({
@@ -355,7 +408,8 @@ async function parseCSV(filePath: string): Promise<ParsedSong[]> {
             s3Url,
             artworkUrl,
             spotifyPreviewUrl,
-            spotifyArtworkUrl
+            spotifyArtworkUrl,
+            lyrics: lyrics && lyrics.trim() ? lyrics : undefined
           });
         }
       })
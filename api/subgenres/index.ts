@@ -0,0 +1,70 @@
+/**
+ * GET /api/subgenres
+ *
+ * Fetches the subgenre taxonomy (categories in display order, each with its
+ * subgenres) for dropdowns and filters. Deprecated subgenres are included and
+ * flagged: songs may still carry them, but they can't be set as new values.
+ *
+ * Query Parameters:
+ *   - counts: Set to 'true' to include song counts (category counts are
+ *     distinct songs with any of the category's subgenres)
+ *
+ * Response:
+ *   {
+ *     categories: Array<{
+ *       id, name, description, songCount?,
+ *       subgenres: Array<{ id, name, description, deprecated, songCount? }>
+ *     }>
+ *   }
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../lib/auth.js';
+import { countSongsByCategory, countSongsBySubgenre, getTaxonomyEntries } from '../lib/taxonomy.js';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Require authentication
+  const user = await requireAuth(req, res);
+  if (!user) {
+    return; // requireAuth already sent 401 response
+  }
+
+  try {
+    const categories = await getTaxonomyEntries(prisma);
+
+    if (req.query.counts !== 'true') {
+      return res.status(200).json({ categories });
+    }
+
+    const subgenreCounts = await countSongsBySubgenre(prisma);
+    const categoryCounts = await countSongsByCategory(prisma, categories);
+
+    return res.status(200).json({
+      categories: categories.map(category => ({
+        ...category,
+        songCount: category.id !== null ? categoryCounts.get(category.id) || 0 : 0,
+        subgenres: category.subgenres.map(subgenre => ({
+          ...subgenre,
+          songCount: subgenreCounts.get(subgenre.name) || 0,
+        })),
+      })),
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching subgenres:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch subgenres',
+      message: error.message,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -1,8 +1,11 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from './components/ui/sonner';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { TaxonomyProvider } from './contexts/TaxonomyContext';
 import Login from './pages/Login';
 import SongsPage from './pages/SongsPage';
+import SubgenresPage from './pages/SubgenresPage';
+import BlindReviewsPage from './pages/BlindReviewsPage';
 
 function AppContent() {
   const { user, loading: authLoading } = useAuth();
@@ -25,13 +28,17 @@ function AppContent() {
   }
 
   return (
-    <BrowserRouter>
-      <Toaster position="top-right" />
-      <Routes>
-        <Route path="/" element={<SongsPage />} />
-        <Route path="*" element={<Navigate to="/" replace />} />
-      </Routes>
-    </BrowserRouter>
+    <TaxonomyProvider>
+      <BrowserRouter>
+        <Toaster position="top-right" />
+        <Routes>
+          <Route path="/" element={<SongsPage />} />
+          <Route path="/admin/subgenres" element={<SubgenresPage />} />
+          <Route path="/admin/blind-reviews" element={<BlindReviewsPage />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </BrowserRouter>
+    </TaxonomyProvider>
   );
 }
 
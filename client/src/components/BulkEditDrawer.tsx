@@ -0,0 +1,317 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ArrowRight, Loader2, PencilLine } from 'lucide-react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/sheet';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { SearchableSelect } from './ui/searchable-select';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { toast } from 'sonner';
+import { useTaxonomy } from '../contexts/TaxonomyContext';
+import { ENERGY_LEVELS, ACCESSIBILITY_TYPES, EXPLICIT_TYPES } from '../data/constants';
+import { bulkUpdateSongs, songFilterParams, type BulkUpdate, type BulkUpdateResponse, type GetSongsParams } from '../lib/api';
+
+// Select value for "leave this field alone" (Radix selects can't use an empty value)
+const KEEP = '_keep';
+const CLEAR = '_clear';
+// Rows listed in the preview
+const PREVIEW_ROWS = 50;
+
+const FIELD_LABELS: Record<string, string> = {
+  ai_energy: 'Energy',
+  ai_accessibility: 'Accessibility',
+  ai_explicit: 'Explicit',
+  ai_subgenre_1: 'Subgenre 1',
+  ai_subgenre_2: 'Subgenre 2',
+  ai_subgenre_3: 'Subgenre 3',
+  curator_notes: 'Notes',
+};
+
+interface BulkEditDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedIsrcs: Set<string>;
+  // Used when nothing is selected
+  currentFilters: GetSongsParams;
+  totalSongs: number;
+  onComplete?: () => void;
+}
+
+/**
+ * Edits the selected songs (or every song matching the current filters) at
+ * once. Changes are previewed per song before they are applied.
+ */
+export function BulkEditDrawer({
+  isOpen,
+  onClose,
+  selectedIsrcs,
+  currentFilters,
+  totalSongs,
+  onComplete,
+}: BulkEditDrawerProps) {
+  const { subgenres, allSubgenres } = useTaxonomy();
+  const [energy, setEnergy] = useState(KEEP);
+  const [accessibility, setAccessibility] = useState(KEEP);
+  const [explicit, setExplicit] = useState(KEEP);
+  const [subgenreAction, setSubgenreAction] = useState<'keep' | 'add' | 'replace'>('keep');
+  const [subgenreFrom, setSubgenreFrom] = useState<string | undefined>();
+  const [subgenreTo, setSubgenreTo] = useState<string | undefined>();
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<BulkUpdateResponse | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEnergy(KEEP);
+      setAccessibility(KEEP);
+      setExplicit(KEEP);
+      setSubgenreAction('keep');
+      setSubgenreFrom(undefined);
+      setSubgenreTo(undefined);
+      setNotes('');
+      setPreview(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Any change invalidates the preview
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+  }, [energy, accessibility, explicit, subgenreAction, subgenreFrom, subgenreTo, notes]);
+
+  const update = useMemo<BulkUpdate | null>(() => {
+    const result: BulkUpdate = {};
+    if (energy !== KEEP) result.ai_energy = energy;
+    if (accessibility !== KEEP) result.ai_accessibility = accessibility;
+    if (explicit !== KEEP) result.ai_explicit = explicit === CLEAR ? null : explicit;
+    if (subgenreAction === 'add' && subgenreTo) {
+      result.subgenre = { action: 'add', value: subgenreTo };
+    }
+    if (subgenreAction === 'replace' && subgenreFrom && subgenreTo) {
+      result.subgenre = { action: 'replace', from: subgenreFrom, to: subgenreTo };
+    }
+    if (notes.trim()) result.append_notes = notes.trim();
+    return Object.keys(result).length > 0 ? result : null;
+  }, [energy, accessibility, explicit, subgenreAction, subgenreFrom, subgenreTo, notes]);
+
+  const bySelection = selectedIsrcs.size > 0;
+  const songCount = bySelection ? selectedIsrcs.size : totalSongs;
+
+  const runUpdate = (previewOnly: boolean) => bulkUpdateSongs({
+    ...(bySelection ? { isrcs: Array.from(selectedIsrcs) } : { filters: songFilterParams(currentFilters) }),
+    update: update!,
+    preview: previewOnly,
+  });
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      setPreview(await runUpdate(true));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      const result = await runUpdate(false);
+      toast.success(`Updated ${result.updated} song${result.updated !== 1 ? 's' : ''}${result.skipped > 0 ? `, ${result.skipped} skipped` : ''}`);
+      onComplete?.();
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const selectClassName = 'bg-zinc-900 border-zinc-700 text-zinc-100';
+  const itemClassName = 'text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100';
+
+  const renderSelect = (value: string, onChange: (value: string) => void, options: readonly string[], clearable = false) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={selectClassName}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-zinc-900 border-zinc-800">
+        <SelectItem value={KEEP} className={itemClassName}>Keep current</SelectItem>
+        {clearable && <SelectItem value={CLEAR} className={itemClassName}>Clear</SelectItem>}
+        {options.map((option) => (
+          <SelectItem key={option} value={option} className={itemClassName}>{option}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const changedRows = preview?.results.filter((result) => result.status !== 'unchanged') ?? [];
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-xl bg-zinc-950 border-zinc-800 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-zinc-100 flex items-center gap-2">
+            <PencilLine className="w-5 h-5" />
+            Bulk Edit
+          </SheetTitle>
+          <SheetDescription className="text-zinc-400">
+            {bySelection
+              ? <>Edit {songCount} selected song{songCount !== 1 ? 's' : ''}</>
+              : <>Edit all {songCount} song{songCount !== 1 ? 's' : ''} matching the current filters</>}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 px-4">
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Energy</Label>
+            {renderSelect(energy, setEnergy, ENERGY_LEVELS)}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Accessibility</Label>
+            {renderSelect(accessibility, setAccessibility, ACCESSIBILITY_TYPES)}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Explicit Content</Label>
+            {renderSelect(explicit, setExplicit, EXPLICIT_TYPES, true)}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Subgenre</Label>
+            <Select value={subgenreAction} onValueChange={(value) => setSubgenreAction(value as 'keep' | 'add' | 'replace')}>
+              <SelectTrigger className={selectClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-900 border-zinc-800">
+                <SelectItem value="keep" className={itemClassName}>Keep current</SelectItem>
+                <SelectItem value="add" className={itemClassName}>Add a subgenre</SelectItem>
+                <SelectItem value="replace" className={itemClassName}>Replace a subgenre</SelectItem>
+              </SelectContent>
+            </Select>
+            {subgenreAction === 'replace' && (
+              <SearchableSelect
+                options={allSubgenres.map((genre) => ({ value: genre, label: genre }))}
+                value={subgenreFrom}
+                onChange={setSubgenreFrom}
+                placeholder="Subgenre to replace"
+                searchPlaceholder="Search subgenres..."
+              />
+            )}
+            {subgenreAction !== 'keep' && (
+              <SearchableSelect
+                options={subgenres.filter((genre) => genre !== subgenreFrom).map((genre) => ({ value: genre, label: genre }))}
+                value={subgenreTo}
+                onChange={setSubgenreTo}
+                placeholder={subgenreAction === 'add' ? 'Subgenre to add' : 'Replace with'}
+                searchPlaceholder="Search subgenres..."
+              />
+            )}
+            {subgenreAction === 'add' && (
+              <p className="text-xs text-zinc-500">Goes into the first empty slot; songs with all three slots taken are skipped</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Append to notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Added as a new line of each song's curator notes"
+              className="bg-zinc-900 border-zinc-700 text-zinc-100 placeholder:text-zinc-500 min-h-[60px]"
+            />
+          </div>
+
+          <p className="text-xs text-zinc-500">
+            Edited tags are locked like a single-song edit. Reviewed status is not changed.
+          </p>
+
+          {preview && (
+            <div className="bg-zinc-900 border border-zinc-700 rounded-lg p-4 space-y-3 text-sm">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <div className="text-zinc-100 text-lg">{preview.updated}</div>
+                  <div className="text-zinc-500">will change</div>
+                </div>
+                <div>
+                  <div className="text-zinc-100 text-lg">{preview.unchanged}</div>
+                  <div className="text-zinc-500">already match</div>
+                </div>
+                <div>
+                  <div className={`text-lg ${preview.skipped > 0 ? 'text-amber-400' : 'text-zinc-100'}`}>{preview.skipped}</div>
+                  <div className="text-zinc-500">skipped</div>
+                </div>
+              </div>
+
+              {changedRows.length > 0 && (
+                <ul className="space-y-2 text-xs">
+                  {changedRows.slice(0, PREVIEW_ROWS).map((result) => (
+                    <li key={result.isrc} className="border-t border-zinc-800 pt-2">
+                      <div className="text-zinc-300">
+                        {result.artist && result.title ? `${result.artist} – ${result.title}` : result.isrc}
+                      </div>
+                      {result.status === 'skipped' ? (
+                        <div className="text-amber-400">Skipped: {result.reason}</div>
+                      ) : (
+                        result.changes.map((change) => (
+                          <div key={change.field} className="flex items-center gap-2">
+                            <span className="w-24 shrink-0 text-zinc-500">{FIELD_LABELS[change.field] || change.field}</span>
+                            <span className="text-zinc-500 truncate">{change.old_value ?? '—'}</span>
+                            <ArrowRight className="w-3 h-3 shrink-0 text-zinc-600" />
+                            <span className="text-zinc-200 truncate">{change.new_value ?? '—'}</span>
+                          </div>
+                        ))
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {changedRows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-zinc-500">
+                  Showing {PREVIEW_ROWS} of {changedRows.length} songs.
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-4 pb-4 border-t border-zinc-800">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              disabled={isApplying}
+              className="border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+            >
+              Cancel
+            </Button>
+            {preview ? (
+              <Button onClick={handleApply} disabled={isApplying || preview.updated === 0}>
+                {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Apply to {preview.updated} {preview.updated === 1 ? 'song' : 'songs'}
+              </Button>
+            ) : (
+              <Button onClick={handlePreview} disabled={isPreviewing || !update || songCount === 0}>
+                {isPreviewing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
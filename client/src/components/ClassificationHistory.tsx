@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { Badge } from './ui/badge';
+import { Song, ClassificationRun, getClassificationRuns } from '../lib/api';
+import { GroundingSources } from './GroundingSources';
+
+interface ClassificationHistoryProps {
+  song: Song;
+}
+
+// Run output fields shown side by side with the song's current values
+const COMPARED_FIELDS: Array<{ label: string; run: keyof NonNullable<ClassificationRun['output']>; song: keyof Song }> = [
+  { label: 'Energy', run: 'energy', song: 'ai_energy' },
+  { label: 'Accessibility', run: 'accessibility', song: 'ai_accessibility' },
+  { label: 'Subgenre 1', run: 'subgenre1', song: 'ai_subgenre_1' },
+  { label: 'Subgenre 2', run: 'subgenre2', song: 'ai_subgenre_2' },
+  { label: 'Subgenre 3', run: 'subgenre3', song: 'ai_subgenre_3' },
+];
+
+/**
+ * Lists earlier classification runs for a song and highlights where each run
+ * differs from the song's current values
+ */
+export function ClassificationHistory({ song }: ClassificationHistoryProps) {
+  const [runs, setRuns] = useState<ClassificationRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchRuns() {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getClassificationRuns(song.isrc);
+        if (!cancelled) setRuns(data);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    fetchRuns();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [song.isrc]);
+
+  const formatDateTime = (isoString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(new Date(isoString));
+  };
+
+  if (loading) {
+    return <p className="text-sm text-zinc-500 py-4">Loading classification history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400 py-4">Failed to load history: {error}</p>;
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-sm text-zinc-500 py-4">No classification runs recorded for this song yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {runs.map((run) => (
+        <div key={run.id} className="bg-zinc-900 border border-zinc-800 rounded-md p-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-zinc-200">{formatDateTime(run.created_at)}</span>
+              {run.status === 'SUCCESS' ? (
+                <Badge className="text-xs bg-emerald-900/50 text-emerald-300 border-emerald-700">Success</Badge>
+              ) : (
+                <Badge className="text-xs bg-red-900/50 text-red-300 border-red-700">Error</Badge>
+              )}
+              {run.cached && (
+                <Badge className="text-xs bg-zinc-800 text-zinc-400 border-zinc-700" title="Reused from the classification cache">
+                  Cached
+                </Badge>
+              )}
+            </div>
+            <div className="text-xs text-zinc-500 text-right">
+              {run.provider} · {run.model}
+              {run.prompt_id && <> · {run.prompt_id}</>}
+            </div>
+          </div>
+
+          {run.output ? (
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              {COMPARED_FIELDS.map(({ label, run: runField, song: songField }) => {
+                const runValue = run.output?.[runField] as string | null;
+                const currentValue = song[songField] as string | null;
+                if (!runValue && !currentValue) return null;
+                const differs = (runValue || null) !== (currentValue || null);
+                return (
+                  <div key={label} className="flex justify-between gap-2">
+                    <span className="text-zinc-500">{label}</span>
+                    <span
+                      className={differs ? 'text-amber-400' : 'text-zinc-300'}
+                      title={differs ? `Current value: ${currentValue || '—'}` : undefined}
+                    >
+                      {runValue || '—'}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-red-400">{run.error_message || 'Classification failed'}</p>
+          )}
+
+          <div className="text-xs text-zinc-500">
+            {run.latency_ms !== null && <>{(run.latency_ms / 1000).toFixed(1)}s</>}
+            {run.total_tokens !== null && <> · {run.total_tokens} tokens</>}
+            {run.repairs && run.repairs.length > 0 && <> · {run.repairs.length} repaired</>}
+            {run.examples && run.examples.length > 0 && <> · {run.examples.length} examples</>}
+            {run.grounding && run.grounding.sources.length > 0 && <> · {run.grounding.sources.length} sources</>}
+          </div>
+
+          {run.examples && run.examples.length > 0 && (
+            <Collapsible>
+              <CollapsibleTrigger className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200 group">
+                Few-shot examples
+                <ChevronDown className="w-3 h-3 transition-transform group-data-[state=open]:rotate-180" />
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pt-2">
+                <ul className="space-y-1 text-xs text-zinc-400">
+                  {run.examples.map((example) => (
+                    <li key={example.isrc}>
+                      <span className="text-zinc-300">{example.artist} - {example.title}</span>
+                      {' · '}{example.energy} / {example.accessibility} / {example.subgenres.join(', ')}
+                      <span className="text-zinc-500">
+                        {' '}({example.match === 'artist' ? 'same artist' : 'shared subgenre'}{example.corrected && ', curator-corrected'})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
+          {run.grounding && run.grounding.sources.length + run.grounding.queries.length > 0 && (
+            <Collapsible>
+              <CollapsibleTrigger className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200 group">
+                Sources
+                <ChevronDown className="w-3 h-3 transition-transform group-data-[state=open]:rotate-180" />
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pt-2">
+                <GroundingSources grounding={run.grounding} />
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
+          {run.raw_response && (
+            <Collapsible>
+              <CollapsibleTrigger className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200 group">
+                Raw response
+                <ChevronDown className="w-3 h-3 transition-transform group-data-[state=open]:rotate-180" />
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pt-2">
+                <pre className="bg-zinc-950 border border-zinc-800 rounded p-2 text-xs text-zinc-400 whitespace-pre-wrap max-h-64 overflow-y-auto">
+                  {run.raw_response}
+                </pre>
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Checkbox } from './ui/checkbox';
+import { createReviewQueue } from '../lib/api';
+
+interface CreateReviewQueueDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filters: Record<string, string>; // Current song filters (GET /api/songs parameters)
+  onCreated: () => void;
+}
+
+/**
+ * Creates a review queue over the current filters and assigns curators to it
+ * (admin only)
+ */
+export function CreateReviewQueueDialog({ isOpen, onClose, filters, onCreated }: CreateReviewQueueDialogProps) {
+  const [name, setName] = useState('');
+  const [assignees, setAssignees] = useState('');
+  const [blind, setBlind] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName('');
+    setAssignees('');
+    setBlind(false);
+    setError(null);
+  }, [isOpen]);
+
+  // reviewStatus is left out: a queue always hands out unreviewed songs
+  const queueFilters = Object.fromEntries(Object.entries(filters).filter(([key]) => key !== 'reviewStatus'));
+  const hasFilters = Object.keys(queueFilters).length > 0;
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await createReviewQueue({
+        name: name.trim(),
+        filters: queueFilters,
+        assignees: assignees.split(/[\s,]+/).filter(Boolean),
+        mode: blind ? 'BLIND' : 'STANDARD',
+      });
+      onCreated();
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md bg-zinc-950 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">New review queue</DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Hands the unreviewed songs matching the current filters to the assigned curators, one at a time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-md border border-zinc-800 bg-zinc-900 px-3 py-2 text-xs text-zinc-400">
+            {hasFilters
+              ? Object.entries(queueFilters).map(([key, value]) => (
+                  <div key={key}>
+                    <span className="text-zinc-500">{key}:</span> {value}
+                  </div>
+                ))
+              : 'Set at least one filter (e.g. an upload batch) to build a queue.'}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. March upload"
+              className="bg-zinc-900 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Assignees</Label>
+            <Textarea
+              value={assignees}
+              onChange={(e) => setAssignees(e.target.value)}
+              placeholder="Curator emails, separated by commas"
+              className="bg-zinc-900 border-zinc-700 text-zinc-100 placeholder:text-zinc-500 min-h-[60px]"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="blindQueue"
+                checked={blind}
+                onCheckedChange={(checked) => setBlind(checked === true)}
+              />
+              <label htmlFor="blindQueue" className="text-sm text-zinc-300 cursor-pointer">
+                Double-blind review
+              </label>
+            </div>
+            {blind && (
+              <p className="text-xs text-zinc-500">
+                Two curators label each song without seeing the AI's tags or each other's answers.
+                Songs they disagree on go to Blind Reviews for reconciliation.
+              </p>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onClose} disabled={isSubmitting} className="text-zinc-400">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={isSubmitting || !hasFilters || !name.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Create queue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,7 @@ interface ExportModalProps {
   currentFilters: {
     // Multi-select filters (arrays)
     subgenres?: string[];
+    categories?: number[];
     energies?: string[];
     accessibilities?: string[];
     explicits?: string[];
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { FileDown, Upload } from 'lucide-react';
+import { FileDown, PencilLine, Upload } from 'lucide-react';
 import { Label } from './ui/label';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -11,12 +11,15 @@ import {
   SelectValue,
 } from './ui/select';
 import { MultiSelect } from './ui/multi-select';
-import { SUBGENRES, ENERGY_LEVELS, ACCESSIBILITY_TYPES, EXPLICIT_TYPES, AI_STATUSES, APPROVAL_STATUSES, APPROVAL_STATUS_LABELS } from '../data/constants';
-import { getUploadBatches, getPlaylists, type UploadBatch, type Playlist } from '../lib/api';
+import { ENERGY_LEVELS, ACCESSIBILITY_TYPES, EXPLICIT_TYPES, AI_STATUSES, APPROVAL_STATUSES, APPROVAL_STATUS_LABELS, CONFIDENCE_LEVELS, CONFIDENCE_LEVEL_LABELS } from '../data/constants';
+import { getUploadBatches, getPlaylists, getSubgenres, type UploadBatch, type Playlist, type TaxonomyCategory } from '../lib/api';
+import { useTaxonomy } from '../contexts/TaxonomyContext';
+import { SubgenreTreeFilter } from './SubgenreTreeFilter';
 
 interface FilterPanelProps {
   // Multi-select filters (arrays)
   selectedSubgenres: string[];
+  selectedCategories: number[];
   selectedEnergies: string[];
   selectedAccessibilities: string[];
   selectedExplicits: string[];
@@ -26,9 +29,11 @@ interface FilterPanelProps {
   selectedApprovalStatus: string;
   selectedBatchId: string;
   selectedPlaylistId: string;
+  selectedConfidence: string;
   searchQuery: string;
   // Multi-select handlers
   onSubgenresChange: (values: string[]) => void;
+  onCategoriesChange: (values: number[]) => void;
   onEnergiesChange: (values: string[]) => void;
   onAccessibilitiesChange: (values: string[]) => void;
   onExplicitsChange: (values: string[]) => void;
@@ -38,14 +43,17 @@ interface FilterPanelProps {
   onApprovalStatusChange: (value: string) => void;
   onBatchChange: (value: string) => void;
   onPlaylistChange: (value: string) => void;
+  onConfidenceChange: (value: string) => void;
   onSearchChange: (value: string) => void;
   onExport: () => void;
+  onBulkEdit: () => void;
   onUpload: () => void;
   totalCount: number;
 }
 
 export function FilterPanel({
   selectedSubgenres,
+  selectedCategories,
   selectedEnergies,
   selectedAccessibilities,
   selectedExplicits,
@@ -54,8 +62,10 @@ export function FilterPanel({
   selectedApprovalStatus,
   selectedBatchId,
   selectedPlaylistId,
+  selectedConfidence,
   searchQuery,
   onSubgenresChange,
+  onCategoriesChange,
   onEnergiesChange,
   onAccessibilitiesChange,
   onExplicitsChange,
@@ -64,14 +74,30 @@ export function FilterPanel({
   onApprovalStatusChange,
   onBatchChange,
   onPlaylistChange,
+  onConfidenceChange,
   onSearchChange,
   onExport,
+  onBulkEdit,
   onUpload,
   totalCount,
 }: FilterPanelProps) {
+  const { categories } = useTaxonomy();
+  const [countedCategories, setCountedCategories] = useState<TaxonomyCategory[] | null>(null);
   const [uploadBatches, setUploadBatches] = useState<UploadBatch[]>([]);
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
 
+  // Fetch song counts for the subgenre tree (again whenever the taxonomy reloads)
+  useEffect(() => {
+    async function fetchCounts() {
+      try {
+        setCountedCategories(await getSubgenres({ counts: true }));
+      } catch (error) {
+        console.error('Failed to load subgenre counts:', error);
+      }
+    }
+    fetchCounts();
+  }, [categories]);
+
   // Fetch upload batches on mount
   useEffect(() => {
     async function fetchBatches() {
@@ -113,11 +139,6 @@ export function FilterPanel({
   }
 
   // Create options for multi-select components
-  const subgenreOptions = useMemo(
-    () => SUBGENRES.map((genre) => ({ value: genre, label: genre })),
-    []
-  );
-
   const energyOptions = useMemo(
     () => ENERGY_LEVELS.map((level) => ({ value: level, label: level })),
     []
@@ -158,6 +179,16 @@ export function FilterPanel({
             <FileDown className="w-4 h-4 mr-2" />
             Export CSV
           </Button>
+          <Button
+            size="sm"
+            onClick={onBulkEdit}
+            variant="outline"
+            className="bg-zinc-950 border-zinc-700 hover:bg-zinc-800 text-zinc-100"
+            disabled={totalCount === 0}
+          >
+            <PencilLine className="w-4 h-4 mr-2" />
+            Bulk Edit
+          </Button>
         </div>
       </div>
 
@@ -172,15 +203,15 @@ export function FilterPanel({
         />
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-8 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-9 gap-4">
         <div className="space-y-2">
           <Label htmlFor="subgenre" className="text-zinc-300">Subgenre</Label>
-          <MultiSelect
-            options={subgenreOptions}
-            selected={selectedSubgenres}
-            onChange={onSubgenresChange}
-            placeholder="All subgenres"
-            searchPlaceholder="Search subgenres..."
+          <SubgenreTreeFilter
+            categories={countedCategories ?? categories}
+            selectedCategories={selectedCategories}
+            selectedSubgenres={selectedSubgenres}
+            onCategoriesChange={onCategoriesChange}
+            onSubgenresChange={onSubgenresChange}
           />
         </div>
 
@@ -280,6 +311,26 @@ export function FilterPanel({
           />
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="confidence" className="text-zinc-300">AI Confidence</Label>
+          <Select value={selectedConfidence} onValueChange={onConfidenceChange}>
+            <SelectTrigger id="confidence" className="bg-zinc-950 border-zinc-700 text-zinc-100">
+              <SelectValue placeholder="All" />
+            </SelectTrigger>
+            <SelectContent className="bg-zinc-900 border-zinc-700">
+              {CONFIDENCE_LEVELS.map((level) => (
+                <SelectItem
+                  key={level}
+                  value={level}
+                  className="text-zinc-100 focus:bg-zinc-700 focus:text-zinc-100"
+                >
+                  {CONFIDENCE_LEVEL_LABELS[level]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className="space-y-2">
           <Label htmlFor="batch" className="text-zinc-300">Upload Batch</Label>
           <Select value={selectedBatchId} onValueChange={onBatchChange}>
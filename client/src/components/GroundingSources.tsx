@@ -0,0 +1,69 @@
+import { ExternalLink, Search } from 'lucide-react';
+import type { Grounding } from '../lib/api';
+
+/**
+ * Opens in a new tab; shows the page title, or its host when there is none
+ */
+export function SourceLink({ url, title }: { url: string; title: string | null }) {
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={url}
+      className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300"
+    >
+      {title || sourceHost(url)}
+      <ExternalLink className="w-3 h-3 flex-shrink-0" />
+    </a>
+  );
+}
+
+/**
+ * The Google searches and pages behind a classification, with the parts of the
+ * answer each page supports
+ */
+export function GroundingSources({ grounding }: { grounding: Grounding }) {
+  return (
+    <div className="space-y-3 text-sm">
+      {grounding.sources.length > 0 && (
+        <ul className="space-y-2">
+          {grounding.sources.map((source) => (
+            <li key={source.url}>
+              <SourceLink url={source.url} title={source.title} />
+              {source.cited.map((text, index) => (
+                <p key={index} className="text-xs text-zinc-500 italic mt-0.5">"{text}"</p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {grounding.queries.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+          <span className="text-zinc-500">Searched:</span>
+          {grounding.queries.map((query) => (
+            <a
+              key={query}
+              href={`https://www.google.com/search?q=${encodeURIComponent(query)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-zinc-400 hover:text-zinc-200"
+            >
+              <Search className="w-3 h-3" />
+              {query}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function sourceHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
@@ -1,3 +1,4 @@
+import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -6,6 +7,7 @@ import { toast } from 'sonner';
 
 export default function Header() {
   const { user, logout } = useAuth();
+  const location = useLocation();
 
   const handleLogout = async () => {
     try {
@@ -25,8 +27,24 @@ export default function Header() {
       <div className="container mx-auto px-4 py-3 flex items-center justify-between">
         <div className="flex items-center gap-4">
           <h1 className="text-lg font-semibold text-zinc-100">
-            Music Classification Review
+            <Link to="/">Music Classification Review</Link>
           </h1>
+          {user.role === 'ADMIN' && (
+            <nav className="flex items-center gap-3 text-sm">
+              <Link
+                to="/admin/subgenres"
+                className={location.pathname === '/admin/subgenres' ? 'text-zinc-100' : 'text-zinc-400 hover:text-zinc-100'}
+              >
+                Manage Subgenres
+              </Link>
+              <Link
+                to="/admin/blind-reviews"
+                className={location.pathname === '/admin/blind-reviews' ? 'text-zinc-100' : 'text-zinc-400 hover:text-zinc-100'}
+              >
+                Blind Reviews
+              </Link>
+            </nav>
+          )}
         </div>
 
         <div className="flex items-center gap-4">
@@ -0,0 +1,171 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Song } from '../lib/api';
+
+// What the review modal saves (a partial song, in API field names)
+export type SongEdits = Partial<Song> & { approval_status?: 'APPROVED' | 'REJECTED' | 'PENDING' };
+
+interface MergeConflictDialogProps {
+  isOpen: boolean;
+  base: Song; // The song as it was when the user started editing
+  mine: SongEdits; // The user's save that conflicted
+  current: Song; // The song as someone else saved it
+  onResolve: (merged: SongEdits) => Promise<void>;
+  onDiscard: () => void;
+}
+
+const MERGE_FIELDS = [
+  'ai_energy',
+  'ai_accessibility',
+  'ai_explicit',
+  'ai_subgenre_1',
+  'ai_subgenre_2',
+  'ai_subgenre_3',
+  'curator_notes',
+  'approval_status',
+  'rejection_reason',
+  'rejection_note',
+] as const;
+
+type MergeField = typeof MERGE_FIELDS[number];
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  ai_energy: 'Energy',
+  ai_accessibility: 'Accessibility',
+  ai_explicit: 'Explicit',
+  ai_subgenre_1: 'Subgenre 1',
+  ai_subgenre_2: 'Subgenre 2',
+  ai_subgenre_3: 'Subgenre 3',
+  curator_notes: 'Notes',
+  approval_status: 'Status',
+  rejection_reason: 'Rejection reason',
+  rejection_note: 'Rejection note',
+};
+
+// Empty and missing values compare equal
+const valueOf = (source: Partial<Record<MergeField, unknown>>, field: MergeField): string | null => {
+  const value = source[field];
+  return value === undefined || value === null || value === '' ? null : String(value);
+};
+
+interface FieldMerge {
+  field: MergeField;
+  mine: string | null;
+  theirs: string | null;
+  // Set when only one side changed the field; both-changed fields are the user's call
+  auto?: 'mine' | 'theirs';
+}
+
+/**
+ * Shown when a save is refused because someone else saved the song first.
+ * Fields only one side changed are merged automatically; for fields both
+ * changed, the user picks their value or the saved one.
+ */
+export function MergeConflictDialog({ isOpen, base, mine, current, onResolve, onDiscard }: MergeConflictDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<MergeField, 'mine' | 'theirs'>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const merges = useMemo<FieldMerge[]>(() => MERGE_FIELDS
+    .filter((field) => field in mine)
+    .map((field) => {
+      const merge: FieldMerge = { field, mine: valueOf(mine, field), theirs: valueOf(current, field) };
+      const original = valueOf(base, field);
+      if (merge.mine === original) merge.auto = 'theirs';
+      else if (merge.theirs === original) merge.auto = 'mine';
+      return merge;
+    })
+    .filter((merge) => merge.mine !== merge.theirs), [base, mine, current]);
+
+  const conflicts = merges.filter((merge) => !merge.auto);
+  const automatic = merges.filter((merge) => merge.auto);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setChoices({});
+  }, [isOpen, current]);
+
+  const handleResolve = async () => {
+    const merged: SongEdits = { ...mine };
+    for (const merge of merges) {
+      const pick = merge.auto ?? choices[merge.field] ?? 'mine';
+      if (pick === 'theirs') {
+        Object.assign(merged, { [merge.field]: current[merge.field] });
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await onResolve(merged);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="max-w-lg bg-zinc-950 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">Someone else saved this song</DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            It changed while you had it open. Nothing of yours was saved yet.
+            {conflicts.length > 0 && ' Pick which value to keep where you both made a change.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {conflicts.map((merge) => (
+            <div key={merge.field} className="space-y-1">
+              <div className="text-sm font-medium text-zinc-300">{FIELD_LABELS[merge.field]}</div>
+              <RadioGroup
+                value={choices[merge.field] ?? 'mine'}
+                onValueChange={(value) => setChoices((prev) => ({ ...prev, [merge.field]: value as 'mine' | 'theirs' }))}
+                className="space-y-1"
+              >
+                <label className="flex items-center gap-2 cursor-pointer text-sm text-zinc-200">
+                  <RadioGroupItem value="mine" />
+                  <span className="text-zinc-500 w-14">Yours</span>
+                  <span className="truncate">{merge.mine ?? '—'}</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer text-sm text-zinc-200">
+                  <RadioGroupItem value="theirs" />
+                  <span className="text-zinc-500 w-14">Saved</span>
+                  <span className="truncate">{merge.theirs ?? '—'}</span>
+                </label>
+              </RadioGroup>
+            </div>
+          ))}
+
+          {automatic.length > 0 && (
+            <div className="rounded-md border border-zinc-800 bg-zinc-900 px-3 py-2 space-y-1">
+              <div className="text-xs text-zinc-500">Merged automatically (only one of you changed these)</div>
+              {automatic.map((merge) => (
+                <div key={merge.field} className="flex items-center gap-2 text-xs">
+                  <span className="w-28 shrink-0 text-zinc-500">{FIELD_LABELS[merge.field]}</span>
+                  <span className="text-zinc-200 truncate">{(merge.auto === 'mine' ? merge.mine : merge.theirs) ?? '—'}</span>
+                  <span className="text-zinc-500">({merge.auto === 'mine' ? 'yours' : 'saved'})</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onDiscard} disabled={isSaving} className="text-zinc-400">
+            Discard my changes
+          </Button>
+          <Button
+            onClick={handleResolve}
+            disabled={isSaving}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Save merged
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Loader2, ArrowRight } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { MultiSelect } from './ui/multi-select';
+import { SearchableSelect } from './ui/searchable-select';
+import {
+  previewSubgenreMigration,
+  applySubgenreMigration,
+  type AdminTaxonomy,
+  type SubgenreMigrationImpact,
+  type SubgenreMigrationPreview,
+} from '../lib/api';
+
+interface MergeSubgenresDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  taxonomy: AdminTaxonomy;
+  // Preselected source (the row or unknown value the dialog was opened from)
+  initialSource?: string;
+  onMerged: (impact: SubgenreMigrationImpact) => Promise<void>;
+}
+
+function formatSlots(values: Array<string | null>) {
+  return values.filter(Boolean).join(', ') || '—';
+}
+
+/**
+ * Maps one or more subgenres onto a target on every song. Shows a preview of
+ * the affected songs, playlists and exports before anything is written.
+ */
+export function MergeSubgenresDialog({
+  isOpen,
+  onClose,
+  taxonomy,
+  initialSource,
+  onMerged,
+}: MergeSubgenresDialogProps) {
+  const [sources, setSources] = useState<string[]>([]);
+  const [target, setTarget] = useState<string | undefined>();
+  const [preview, setPreview] = useState<SubgenreMigrationPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSources(initialSource ? [initialSource] : []);
+      setTarget(undefined);
+      setPreview(null);
+      setError(null);
+    }
+  }, [isOpen, initialSource]);
+
+  // Any change invalidates the preview
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+  }, [sources, target]);
+
+  const { sourceOptions, targetOptions } = useMemo(() => {
+    const entries = taxonomy.categories.flatMap((category) => category.subgenres);
+    const byName = (a: { label: string }, b: { label: string }) => a.label.localeCompare(b.label);
+
+    return {
+      sourceOptions: [
+        ...entries.map((s) => ({
+          value: s.name,
+          label: `${s.name} (${s.songCount ?? 0})${s.deprecated ? ' · deprecated' : ''}`,
+        })),
+        ...taxonomy.unknown.map((u) => ({ value: u.name, label: `${u.name} (${u.songCount}) · not in taxonomy` })),
+      ]
+        .filter((option) => option.value !== target)
+        .sort(byName),
+      targetOptions: entries
+        .filter((s) => !s.deprecated && !sources.includes(s.name))
+        .map((s) => ({ value: s.name, label: s.name }))
+        .sort(byName),
+    };
+  }, [taxonomy, sources, target]);
+
+  const mappings = target ? sources.map((from) => ({ from, to: target })) : [];
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      setPreview(await previewSubgenreMigration(mappings));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      const impact = await applySubgenreMigration(mappings);
+      await onMerged(impact);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const impact = preview?.impact;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl bg-zinc-950 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">Merge subgenres</DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Every song tagged with a source subgenre gets the target instead. Sources in the taxonomy are deprecated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Merge</Label>
+            <MultiSelect
+              options={sourceOptions}
+              selected={sources}
+              onChange={setSources}
+              placeholder="Select subgenres to retire"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Into</Label>
+            <SearchableSelect
+              options={targetOptions}
+              value={target}
+              onChange={setTarget}
+              placeholder="Select target subgenre"
+            />
+          </div>
+
+          {preview && impact && (
+            <div className="bg-zinc-900 border border-zinc-700 rounded-lg p-4 space-y-3 text-sm">
+              {impact.songs === 0 ? (
+                <p className="text-zinc-400">No songs carry these subgenres. Applying only deprecates them.</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <div className="text-zinc-100 text-lg">{impact.songs}</div>
+                      <div className="text-zinc-500">songs rewritten</div>
+                    </div>
+                    <div>
+                      <div className="text-zinc-100 text-lg">{impact.exportedSongs}</div>
+                      <div className="text-zinc-500">in exports</div>
+                    </div>
+                    <div>
+                      <div className="text-zinc-100 text-lg">{impact.playlists}</div>
+                      <div className="text-zinc-500">playlists</div>
+                    </div>
+                  </div>
+
+                  {impact.slotsDeduplicated > 0 && (
+                    <p className="text-amber-400">
+                      {impact.slotsDeduplicated} duplicate {impact.slotsDeduplicated === 1 ? 'slot is' : 'slots are'} dropped
+                      where a song already has the target; its remaining subgenres move up.
+                    </p>
+                  )}
+
+                  {impact.byMapping.length > 1 && (
+                    <ul className="text-zinc-400 space-y-1">
+                      {impact.byMapping.map((m) => (
+                        <li key={m.from}>
+                          {m.from} <ArrowRight className="inline w-3 h-3" /> {m.to}: {m.songCount} songs
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {impact.topPlaylists.length > 0 && (
+                    <p className="text-zinc-400">
+                      Most affected playlists:{' '}
+                      {impact.topPlaylists.map((p) => `${p.name} (${p.songCount})`).join(', ')}
+                    </p>
+                  )}
+
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-zinc-500">
+                        <th className="py-1 font-normal">Song</th>
+                        <th className="py-1 font-normal">Before</th>
+                        <th className="py-1 font-normal">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.samples.map((sample) => (
+                        <tr key={sample.isrc} className="border-t border-zinc-800 align-top">
+                          <td className="py-1 pr-2 text-zinc-300">
+                            {sample.artist} – {sample.title}
+                          </td>
+                          <td className="py-1 pr-2 text-zinc-500">{formatSlots(sample.before)}</td>
+                          <td className="py-1 text-zinc-200">{formatSlots(sample.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {impact.songs > preview.samples.length && (
+                    <p className="text-xs text-zinc-500">
+                      Showing {preview.samples.length} of {impact.songs} songs.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onClose} disabled={isApplying} className="text-zinc-400">
+            Cancel
+          </Button>
+          {preview ? (
+            <Button onClick={handleApply} disabled={isApplying}>
+              {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Apply to {preview.impact.songs} {preview.impact.songs === 1 ? 'song' : 'songs'}
+            </Button>
+          ) : (
+            <Button onClick={handlePreview} disabled={isPreviewing || mappings.length === 0}>
+              {isPreviewing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Preview
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect, useRef } from 'react';
+import { RefreshCw, Loader2, CheckCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { toast } from 'sonner';
+import {
+  reclassifySongs,
+  getUploadStatus,
+  EXPLICIT_PROVIDER_LABELS,
+  type ExplicitProvider,
+  type ReclassifyTarget,
+  type ReclassifyResponse,
+  type UploadStatus,
+} from '../lib/api';
+
+// How often the modal checks the reclassify job
+const STATUS_POLL_INTERVAL_MS = 3000;
+
+const TARGET_LABELS: Record<ReclassifyTarget, string> = {
+  all: 'Classification + explicit',
+  classification: 'Classification only (energy, accessibility, subgenres)',
+  explicit: 'Explicit only',
+};
+
+interface ReclassifyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedIsrcs: Set<string>;
+  onComplete?: () => void;
+}
+
+export function ReclassifyModal({ isOpen, onClose, selectedIsrcs, onComplete }: ReclassifyModalProps) {
+  const [target, setTarget] = useState<ReclassifyTarget>('all');
+  const [skipReviewed, setSkipReviewed] = useState(true);
+  const [explicitProvider, setExplicitProvider] = useState<ExplicitProvider | 'default'>('default');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [queued, setQueued] = useState<ReclassifyResponse | null>(null);
+  const [jobStatus, setJobStatus] = useState<UploadStatus | null>(null);
+
+  // Latest callback, so a re-render of the page doesn't restart polling
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // Watch the queued job until the worker finishes it
+  useEffect(() => {
+    if (!queued || queued.queued === 0 || jobStatus?.complete) return;
+
+    let cancelled = false;
+    const checkStatus = async () => {
+      try {
+        const status = await getUploadStatus(queued.batchId);
+        if (cancelled) return;
+        setJobStatus(status);
+        if (status.complete) {
+          toast.success(`Reclassified ${status.imported} song${status.imported !== 1 ? 's' : ''}${status.failed > 0 ? `, ${status.failed} failed` : ''}`);
+          onCompleteRef.current?.();
+        }
+      } catch (error: any) {
+        // Transient - try again on the next tick
+        console.error('[Reclassify] Failed to get status:', error.message);
+      }
+    };
+
+    checkStatus();
+    const interval = setInterval(checkStatus, STATUS_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [queued, jobStatus?.complete]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await reclassifySongs({
+        isrcs: Array.from(selectedIsrcs),
+        target,
+        skipReviewed,
+        ...(target !== 'classification' && explicitProvider !== 'default' && { explicitProvider }),
+      });
+      setQueued(response);
+
+      if (response.queued === 0) {
+        toast.info('No songs to reclassify - all selected songs are reviewed');
+      } else {
+        toast.success(`Queued ${response.queued} song${response.queued !== 1 ? 's' : ''} for reclassification`);
+      }
+    } catch (error: any) {
+      console.error('Error queueing reclassification:', error);
+      toast.error(`Failed to reclassify: ${error.message}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setQueued(null);
+    setJobStatus(null);
+    onClose();
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      handleClose();
+    }
+  };
+
+  const total = jobStatus?.total ?? queued?.queued ?? 0;
+  const processed = jobStatus?.processed ?? 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg bg-zinc-950 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100 flex items-center gap-2">
+            <RefreshCw className="w-5 h-5" />
+            Reclassify Songs
+          </DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Rerun AI classification for {selectedIsrcs.size} selected song{selectedIsrcs.size !== 1 ? 's' : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!queued ? (
+          <div className="space-y-6 mt-4">
+            <div className="space-y-2">
+              <Label className="text-zinc-300">Reclassify</Label>
+              <Select value={target} onValueChange={(value) => setTarget(value as ReclassifyTarget)}>
+                <SelectTrigger className="bg-zinc-900 border-zinc-700 text-zinc-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-zinc-900 border-zinc-800">
+                  {(Object.keys(TARGET_LABELS) as ReclassifyTarget[]).map((value) => (
+                    <SelectItem
+                      key={value}
+                      value={value}
+                      className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
+                    >
+                      {TARGET_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {target !== 'classification' && (
+              <div className="space-y-2">
+                <Label className="text-zinc-300">Explicit detection</Label>
+                <Select
+                  value={explicitProvider}
+                  onValueChange={(value) => setExplicitProvider(value as ExplicitProvider | 'default')}
+                >
+                  <SelectTrigger className="bg-zinc-900 border-zinc-700 text-zinc-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-zinc-900 border-zinc-800">
+                    <SelectItem value="default" className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100">
+                      Default provider
+                    </SelectItem>
+                    {(Object.keys(EXPLICIT_PROVIDER_LABELS) as ExplicitProvider[]).map((value) => (
+                      <SelectItem
+                        key={value}
+                        value={value}
+                        className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
+                      >
+                        {EXPLICIT_PROVIDER_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="skipReviewed"
+                  checked={skipReviewed}
+                  onCheckedChange={(checked) => setSkipReviewed(checked === true)}
+                />
+                <label htmlFor="skipReviewed" className="text-sm text-zinc-300 cursor-pointer">
+                  Skip songs a curator has reviewed
+                </label>
+              </div>
+              <p className="text-xs text-zinc-500">
+                Unchecked, fields a curator edited keep their value and get a proposed AI value to accept or dismiss
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4 border-t border-zinc-800">
+              <Button
+                variant="outline"
+                onClick={handleClose}
+                className="border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={isSubmitting || selectedIsrcs.size === 0}>
+                {isSubmitting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Reclassify
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 mt-4">
+            {queued.queued > 0 && (
+              <>
+                <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 rounded-full"
+                    style={{
+                      width: total > 0 ? `${(processed / total) * 100}%` : '0%',
+                      transition: 'width 0.5s ease-out'
+                    }}
+                  />
+                </div>
+
+                <p className="text-sm text-zinc-400 text-center flex items-center justify-center gap-2">
+                  {jobStatus?.complete ? (
+                    <CheckCircle className="h-4 w-4 text-green-500" />
+                  ) : (
+                    <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
+                  )}
+                  {processed} / {total} songs processed
+                  {!!jobStatus?.failed && (
+                    <span className="text-red-400">• {jobStatus.failed} failed</span>
+                  )}
+                </p>
+              </>
+            )}
+
+            {queued.skippedReviewed > 0 && (
+              <p className="text-xs text-zinc-500 text-center">
+                {queued.skippedReviewed} reviewed song{queued.skippedReviewed !== 1 ? 's' : ''} skipped
+              </p>
+            )}
+
+            {!jobStatus?.complete && queued.queued > 0 && (
+              <p className="text-xs text-zinc-500 text-center">
+                You can close this window - processing continues on the server.
+              </p>
+            )}
+
+            <div className="flex justify-end pt-4 border-t border-zinc-800">
+              <Button onClick={handleClose}>
+                Close
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
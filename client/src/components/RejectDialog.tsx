@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { getRejectionReasons, type RejectionReason } from '../lib/api';
+
+interface RejectDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  songCount: number;
+  onConfirm: (reason: string, note: string | null) => Promise<void>;
+}
+
+/**
+ * Asks for a rejection reason (from the configured list) and an optional note
+ * before one or more songs are rejected
+ */
+export function RejectDialog({ isOpen, onClose, songCount, onConfirm }: RejectDialogProps) {
+  const [reasons, setReasons] = useState<RejectionReason[]>([]);
+  const [reason, setReason] = useState<string | undefined>();
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setReason(undefined);
+    setNote('');
+    setError(null);
+
+    let cancelled = false;
+    getRejectionReasons()
+      .then((data) => {
+        if (!cancelled) setReasons(data);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const handleConfirm = async () => {
+    if (!reason) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm(reason, note.trim() || null);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md bg-zinc-950 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">
+            Reject {songCount === 1 ? 'song' : `${songCount} songs`}
+          </DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Pick the reason. It is stored with the song and counted in the rejection report.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={setReason} className="space-y-1">
+            {reasons.map((option) => (
+              <label key={option.code} className="flex items-center gap-2 cursor-pointer text-sm text-zinc-200">
+                <RadioGroupItem value={option.code} />
+                {option.label}
+              </label>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Note (optional)</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Anything the reason doesn't cover"
+              className="bg-zinc-900 border-zinc-700 text-zinc-100 placeholder:text-zinc-500 min-h-[60px]"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onClose} disabled={isSubmitting} className="text-zinc-400">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isSubmitting || !reason}
+            style={{ backgroundColor: '#7f1d1d', color: '#ef4444', borderColor: '#7f1d1d' }}
+            className="hover:opacity-90"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <X className="w-4 h-4 mr-1" />}
+            Reject
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,23 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import { ChevronDown, ChevronRight, User, X } from 'lucide-react';
+import { ChevronDown, ChevronRight, Lock, User, X } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
 import { Dialog, DialogContent } from './ui/dialog';
 import { AudioPlayer } from './AudioPlayer';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Button } from './ui/button';
-import { Song, updateSong } from '../lib/api';
-import { ENERGY_LEVELS, ACCESSIBILITY_TYPES, EXPLICIT_TYPES, SUBGENRES } from '../data/constants';
+import {
+  Song,
+  LockableField,
+  ProposedValue,
+  ExplicitEvidence,
+  EXPLICIT_PROVIDER_LABELS,
+  updateSong,
+  resolveProposals,
+  submitBlindLabel,
+  SongConflictError,
+} from '../lib/api';
+import { ENERGY_LEVELS, ACCESSIBILITY_TYPES, EXPLICIT_TYPES } from '../data/constants';
 import {
   Select,
   SelectContent,
@@ -18,20 +28,40 @@ import {
 import { ImageWithFallback } from './figma/ImageWithFallback';
 import { SearchableSelect } from './ui/searchable-select';
 import { useAuth } from '../contexts/AuthContext';
+import { useTaxonomy } from '../contexts/TaxonomyContext';
 import { Badge } from './ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { ClassificationHistory } from './ClassificationHistory';
+import { SongChangeHistory } from './SongChangeHistory';
+import { RejectDialog } from './RejectDialog';
+import { MergeConflictDialog, SongEdits } from './MergeConflictDialog';
+import { GroundingSources, SourceLink } from './GroundingSources';
 import { toast } from 'sonner';
+import { isLowConfidence, formatConfidence } from '../lib/confidence';
 
 interface ReviewModalProps {
   song: Song | null;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (songId: number, updates: Partial<Song> & { approval_status?: 'APPROVED' | 'REJECTED' | 'PENDING' }) => void;
-  onNext: () => boolean; // Returns true if there's a next song
+  onSave: (songId: number, updates: SongEdits) => Promise<Song | undefined>; // Rejects with SongConflictError if someone else saved first
+  onNext: () => boolean | Promise<boolean>; // Returns true if there's a next song (from the page, or the active review queue)
   onEndOfQueue: () => void; // Called when all pending songs have been reviewed
+  onSongUpdate?: (song: Song) => void; // Called after proposals are resolved or the song is reverted
+  blind?: boolean; // Song from a blind review queue: labels are submitted without seeing the AI's tags or the song's history
 }
 
-export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueue }: ReviewModalProps) {
+const FIELD_LABELS: Record<LockableField, string> = {
+  ai_energy: 'Energy',
+  ai_accessibility: 'Accessibility',
+  ai_explicit: 'Explicit Content',
+  ai_subgenre_1: 'Subgenre 1',
+  ai_subgenre_2: 'Subgenre 2',
+  ai_subgenre_3: 'Subgenre 3',
+};
+
+export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueue, onSongUpdate, blind = false }: ReviewModalProps) {
   const { user } = useAuth();
+  const { subgenres } = useTaxonomy();
   const [energy, setEnergy] = useState<string | undefined>(undefined);
   const [accessibility, setAccessibility] = useState<string | undefined>(undefined);
   const [explicit, setExplicit] = useState<string | undefined>(undefined);
@@ -40,15 +70,28 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
   const [subgenre3, setSubgenre3] = useState<string | undefined>(undefined);
   const [notes, setNotes] = useState('');
   const [notesOpen, setNotesOpen] = useState(false);
+  const [rejectOpen, setRejectOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // A save refused because the song changed since it was loaded
+  const [conflict, setConflict] = useState<{
+    base: Song;
+    mine: SongEdits;
+    current: Song;
+    after: (saved: Song | undefined) => void | Promise<void>;
+  } | null>(null);
   const lastRejectedIsrc = useRef<string | null>(null);
 
   const isAdmin = user?.role === 'ADMIN';
 
-  const subgenreOptions = useMemo(
-    () => SUBGENRES.map((genre) => ({ value: genre, label: genre })),
-    []
-  );
+  // Active subgenres, plus deprecated ones the song already has so they can be kept
+  const subgenreOptions = useMemo(() => {
+    const current = [song?.ai_subgenre_1, song?.ai_subgenre_2, song?.ai_subgenre_3]
+      .filter((genre): genre is string => !!genre && !subgenres.includes(genre));
+    return [
+      ...subgenres.map((genre) => ({ value: genre, label: genre })),
+      ...current.map((genre) => ({ value: genre, label: `${genre} (deprecated)` })),
+    ];
+  }, [subgenres, song?.ai_subgenre_1, song?.ai_subgenre_2, song?.ai_subgenre_3]);
 
   useEffect(() => {
     if (song) {
@@ -66,38 +109,67 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
   const clearSubgenre2 = () => setSubgenre2(undefined);
   const clearSubgenre3 = () => setSubgenre3(undefined);
 
-  const handleSave = () => {
+  // The form's metadata, marked reviewed
+  const metadataEdits = (): SongEdits => ({
+    ai_energy: energy || '',
+    ai_accessibility: accessibility || '',
+    ai_explicit: explicit || null,
+    ai_subgenre_1: subgenre1 || '',
+    ai_subgenre_2: (subgenre2 && subgenre2 !== '_none') ? subgenre2 : null,
+    ai_subgenre_3: (subgenre3 && subgenre3 !== '_none') ? subgenre3 : null,
+    curator_notes: notes || null,
+    reviewed: true,
+    reviewed_at: new Date().toISOString(),
+  });
+
+  // Saves, then runs `after`. If someone else saved the song first, opens the
+  // merge dialog instead; `after` runs once the merged save goes through.
+  const saveOrMerge = async (edits: SongEdits, after: (saved: Song | undefined) => void | Promise<void>) => {
     if (!song) return;
 
-    onSave(song.id, {
-      ai_energy: energy || '',
-      ai_accessibility: accessibility || '',
-      ai_explicit: explicit || null,
-      ai_subgenre_1: subgenre1 || '',
-      ai_subgenre_2: (subgenre2 && subgenre2 !== '_none') ? subgenre2 : null,
-      ai_subgenre_3: (subgenre3 && subgenre3 !== '_none') ? subgenre3 : null,
-      curator_notes: notes || null,
-      reviewed: true,
-      reviewed_at: new Date().toISOString(),
+    try {
+      const saved = await onSave(song.id, edits);
+      await after(saved);
+    } catch (error) {
+      if (!(error instanceof SongConflictError)) throw error;
+      setConflict({ base: song, mine: edits, current: error.current, after });
+    }
+  };
+
+  const handleResolveConflict = async (merged: SongEdits) => {
+    if (!conflict) return;
+    const { after } = conflict;
+    await saveOrMerge(merged, async (saved) => {
+      setConflict(null);
+      await after(saved);
     });
-    onClose();
   };
 
-  const handleSaveAndNext = () => {
+  const handleSave = async () => {
+    await saveOrMerge(metadataEdits(), onClose);
+  };
+
+  // Check if there's a next song
+  const goToNext = async () => {
+    const hasNext = await onNext();
+    if (!hasNext) {
+      // End of queue - switch filter to "All"
+      onEndOfQueue();
+    }
+  };
+
+  const handleSaveAndNext = async () => {
     if (!song) return;
+    setIsLoading(true);
 
-    onSave(song.id, {
-      ai_energy: energy || '',
-      ai_accessibility: accessibility || '',
-      ai_explicit: explicit || null,
-      ai_subgenre_1: subgenre1 || '',
-      ai_subgenre_2: (subgenre2 && subgenre2 !== '_none') ? subgenre2 : null,
-      ai_subgenre_3: (subgenre3 && subgenre3 !== '_none') ? subgenre3 : null,
-      curator_notes: notes || null,
-      reviewed: true,
-      reviewed_at: new Date().toISOString(),
-    });
-    onNext();
+    try {
+      // Saved first so a review queue doesn't hand the song out again
+      await saveOrMerge(metadataEdits(), async () => {
+        await onNext();
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   // Handle next (admin only) - auto-saves any metadata edits and moves to next
@@ -106,32 +178,53 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
     setIsLoading(true);
 
     try {
-      // Auto-save any metadata edits
-      await onSave(song.id, {
-        ai_energy: energy || '',
-        ai_accessibility: accessibility || '',
+      await saveOrMerge(metadataEdits(), goToNext);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Blind review: the labels are stored apart from the song until both raters are in
+  const handleSubmitBlindLabel = async () => {
+    if (!song) return;
+    setIsLoading(true);
+
+    try {
+      await submitBlindLabel(song.isrc, {
+        ai_energy: energy || null,
+        ai_accessibility: accessibility || null,
         ai_explicit: explicit || null,
-        ai_subgenre_1: subgenre1 || '',
+        ai_subgenre_1: subgenre1 || null,
         ai_subgenre_2: (subgenre2 && subgenre2 !== '_none') ? subgenre2 : null,
         ai_subgenre_3: (subgenre3 && subgenre3 !== '_none') ? subgenre3 : null,
-        curator_notes: notes || null,
-        reviewed: true,
-        reviewed_at: new Date().toISOString(),
       });
+      toast.success('Label saved');
+      await onNext();
+    } catch (error: any) {
+      toast.error(`Failed to save label: ${error.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Accept or dismiss AI values proposed for locked fields
+  const handleResolveProposals = async (action: 'accept' | 'dismiss', fields?: LockableField[]) => {
+    if (!song) return;
+    setIsLoading(true);
 
-      // Check if there's a next song
-      const hasNext = onNext();
-      if (!hasNext) {
-        // End of queue - switch filter to "All"
-        onEndOfQueue();
-      }
+    try {
+      const updatedSong = await resolveProposals(song.isrc, action, fields);
+      onSongUpdate?.(updatedSong);
+      toast.success(action === 'accept' ? 'Proposed values accepted' : 'Proposed values dismissed');
+    } catch (error: any) {
+      toast.error(`Failed to update proposals: ${error.message}`);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Handle reject (admin only)
-  const handleReject = async () => {
+  // Handle reject (admin only), once the reject dialog has a reason
+  const handleReject = async (reason: string, note: string | null) => {
     if (!song || !isAdmin) return;
     setIsLoading(true);
 
@@ -139,33 +232,36 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
     lastRejectedIsrc.current = rejectedIsrc;
 
     try {
-      await onSave(song.id, {
+      await saveOrMerge({
         approval_status: 'REJECTED',
+        rejection_reason: reason,
+        rejection_note: note,
         curator_notes: notes || null,
+      }, async (rejected) => {
+        // Show undo toast
+        if (rejected) {
+          const rejectedVersion = rejected.modified_at;
+          toast('Song rejected', {
+            action: {
+              label: 'Undo',
+              onClick: async () => {
+                try {
+                  await updateSong(rejectedIsrc, {
+                    expected_modified_at: rejectedVersion,
+                    approval_status: 'PENDING',
+                  });
+                  toast.success('Rejection undone');
+                } catch (error) {
+                  toast.error('Failed to undo rejection');
+                }
+              },
+            },
+            duration: 5000,
+          });
+        }
+
+        await goToNext();
       });
-
-      // Show undo toast
-      toast('Song rejected', {
-        action: {
-          label: 'Undo',
-          onClick: async () => {
-            try {
-              await updateSong(rejectedIsrc, { approval_status: 'PENDING' });
-              toast.success('Rejection undone');
-            } catch (error) {
-              toast.error('Failed to undo rejection');
-            }
-          },
-        },
-        duration: 5000,
-      });
-
-      // Check if there's a next song
-      const hasNext = onNext();
-      if (!hasNext) {
-        // End of queue - switch filter to "All"
-        onEndOfQueue();
-      }
     } finally {
       setIsLoading(false);
     }
@@ -173,6 +269,9 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
 
   if (!song) return null;
 
+  const isLocked = (field: LockableField) => song.locked_fields?.includes(field) ?? false;
+  const proposals = Object.entries(song.ai_proposed || {}) as Array<[LockableField, ProposedValue]>;
+
   const handleOpenChange = (open: boolean) => {
     if (!open) {
       onClose();
@@ -221,6 +320,11 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
                 {user?.role}
               </Badge>
             </div>
+            {blind && (
+              <Badge variant="outline" className="text-xs bg-zinc-800 border-purple-700 text-purple-300">
+                Blind review
+              </Badge>
+            )}
             {song.reviewed && song.reviewed_by && (
               <div className="text-xs text-zinc-500">
                 Previously reviewed by <span className="text-zinc-400">{song.reviewed_by}</span>
@@ -238,19 +342,23 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
           />
 
           {/* Admin Review Actions */}
-          {isAdmin && (
+          {isAdmin && !blind && (
             <div className="flex items-center justify-between p-4 rounded-lg border border-zinc-800" style={{ backgroundColor: '#18181b' }}>
               <div className="flex items-center gap-2">
                 <span className="text-sm font-medium text-zinc-300">Admin Review</span>
                 {song.approval_status === 'REJECTED' && (
-                  <Badge className="text-xs" style={{ backgroundColor: 'rgba(239, 68, 68, 0.2)', color: '#ef4444' }}>
-                    Rejected
+                  <Badge
+                    className="text-xs"
+                    style={{ backgroundColor: 'rgba(239, 68, 68, 0.2)', color: '#ef4444' }}
+                    title={song.rejection_note || undefined}
+                  >
+                    Rejected{song.rejection_reason && `: ${song.rejection_reason}`}
                   </Badge>
                 )}
               </div>
               <div className="flex items-center gap-2">
                 <Button
-                  onClick={handleReject}
+                  onClick={() => setRejectOpen(true)}
                   disabled={isLoading}
                   size="sm"
                   style={{ backgroundColor: '#7f1d1d', color: '#ef4444', borderColor: '#7f1d1d' }}
@@ -272,181 +380,324 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
             </div>
           )}
 
-          {/* AI Classification */}
-          <div className="space-y-4">
-            <h3 className="text-zinc-200">AI Classification</h3>
-            
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="energy" className="text-zinc-300">Energy</Label>
-                <Select value={energy || ''} onValueChange={(val) => setEnergy(val || undefined)}>
-                  <SelectTrigger id="energy" className="bg-zinc-900 border-zinc-800 text-zinc-100">
-                    <SelectValue placeholder="Select energy level" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-zinc-900 border-zinc-800">
-                    {ENERGY_LEVELS.map((level) => (
-                      <SelectItem
-                        key={level}
-                        value={level}
-                        className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
-                      >
-                        {level}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+          {/* AI Classification / Run History */}
+          <Tabs key={song.isrc} defaultValue="classification">
+            {blind ? (
+              <p className="text-sm text-zinc-400">
+                Label this song from what you hear. The AI's tags and other curators' labels are hidden until the review is settled.
+              </p>
+            ) : (
+              <TabsList className="bg-zinc-900 border border-zinc-800">
+                <TabsTrigger value="classification">AI Classification</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+                <TabsTrigger value="changes">Changes</TabsTrigger>
+              </TabsList>
+            )}
 
-              <div className="space-y-2">
-                <Label htmlFor="accessibility" className="text-zinc-300">Accessibility</Label>
-                <Select value={accessibility || ''} onValueChange={(val) => setAccessibility(val || undefined)}>
-                  <SelectTrigger id="accessibility" className="bg-zinc-900 border-zinc-800 text-zinc-100">
-                    <SelectValue placeholder="Select accessibility" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-zinc-900 border-zinc-800">
-                    {ACCESSIBILITY_TYPES.map((type) => (
-                      <SelectItem
-                        key={type}
-                        value={type}
-                        className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
+            <TabsContent value="classification" className="space-y-6">
+              {/* AI values proposed for curator-locked fields */}
+              {proposals.length > 0 && (
+                <div className="space-y-3 p-4 rounded-lg border border-amber-700 bg-amber-900/20">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-amber-300">
+                      New AI values for curator-edited fields
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => handleResolveProposals('dismiss')}
+                        disabled={isLoading}
+                        size="sm"
+                        variant="outline"
+                        className="border-zinc-700 bg-zinc-900 text-zinc-300 hover:bg-zinc-800"
                       >
-                        {type}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="explicit" className="text-zinc-300">Explicit Content</Label>
-              <Select value={explicit || ''} onValueChange={(val) => setExplicit(val || undefined)}>
-                <SelectTrigger id="explicit" className="bg-zinc-900 border-zinc-800 text-zinc-100">
-                  <SelectValue placeholder="Select explicit content rating" />
-                </SelectTrigger>
-                <SelectContent className="bg-zinc-900 border-zinc-800">
-                  {EXPLICIT_TYPES.map((type) => (
-                    <SelectItem
-                      key={type}
-                      value={type}
-                      className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
-                    >
-                      {type}
-                    </SelectItem>
+                        Dismiss all
+                      </Button>
+                      <Button
+                        onClick={() => handleResolveProposals('accept')}
+                        disabled={isLoading}
+                        size="sm"
+                        className="bg-blue-600 hover:bg-blue-700 text-white"
+                      >
+                        Accept all
+                      </Button>
+                    </div>
+                  </div>
+                  {proposals.map(([field, proposal]) => (
+                    <div key={field} className="flex items-center justify-between gap-4 text-sm">
+                      <div className="text-zinc-300">
+                        <span className="text-zinc-500">{FIELD_LABELS[field]}:</span>{' '}
+                        <span className="line-through text-zinc-500">{song[field] || 'None'}</span>
+                        {' → '}
+                        <span className="text-zinc-100">{proposal.value || 'None'}</span>
+                        <ConfidenceBadge confidence={proposal.confidence} />
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          onClick={() => handleResolveProposals('dismiss', [field])}
+                          disabled={isLoading}
+                          size="sm"
+                          variant="ghost"
+                          className="text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+                        >
+                          Dismiss
+                        </Button>
+                        <Button
+                          onClick={() => handleResolveProposals('accept', [field])}
+                          disabled={isLoading}
+                          size="sm"
+                          variant="ghost"
+                          className="text-blue-400 hover:bg-zinc-800 hover:text-blue-300"
+                        >
+                          Accept
+                        </Button>
+                      </div>
+                    </div>
                   ))}
-                </SelectContent>
-              </Select>
-            </div>
+                </div>
+              )}
 
-            <div className="space-y-2">
-              <Label htmlFor="subgenre1" className="text-zinc-300">Subgenre 1 *</Label>
-              <SearchableSelect
-                options={subgenreOptions}
-                value={subgenre1}
-                onChange={setSubgenre1}
-                placeholder="Select primary subgenre"
-                searchPlaceholder="Search subgenres..."
-              />
-            </div>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="energy" className="text-zinc-300">Energy <ConfidenceBadge confidence={song.ai_energy_confidence} /><LockIndicator locked={isLocked('ai_energy')} /></Label>
+                    <Select value={energy || ''} onValueChange={(val) => setEnergy(val || undefined)}>
+                      <SelectTrigger id="energy" className="bg-zinc-900 border-zinc-800 text-zinc-100">
+                        <SelectValue placeholder="Select energy level" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-zinc-900 border-zinc-800">
+                        {ENERGY_LEVELS.map((level) => (
+                          <SelectItem
+                            key={level}
+                            value={level}
+                            className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
+                          >
+                            {level}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="accessibility" className="text-zinc-300">Accessibility <ConfidenceBadge confidence={song.ai_accessibility_confidence} /><LockIndicator locked={isLocked('ai_accessibility')} /></Label>
+                    <Select value={accessibility || ''} onValueChange={(val) => setAccessibility(val || undefined)}>
+                      <SelectTrigger id="accessibility" className="bg-zinc-900 border-zinc-800 text-zinc-100">
+                        <SelectValue placeholder="Select accessibility" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-zinc-900 border-zinc-800">
+                        {ACCESSIBILITY_TYPES.map((type) => (
+                          <SelectItem
+                            key={type}
+                            value={type}
+                            className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
+                          >
+                            {type}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="subgenre2" className="text-zinc-300">Subgenre 2</Label>
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
-                  <SearchableSelect
-                    options={subgenreOptions}
-                    value={subgenre2}
-                    onChange={setSubgenre2}
-                    placeholder="Select secondary subgenre (optional)"
-                    searchPlaceholder="Search subgenres..."
-                  />
+                <div className="space-y-2">
+                  <Label htmlFor="explicit" className="text-zinc-300">Explicit Content <ConfidenceBadge confidence={song.ai_explicit_confidence} /><LockIndicator locked={isLocked('ai_explicit')} /></Label>
+                  <Select value={explicit || ''} onValueChange={(val) => setExplicit(val || undefined)}>
+                    <SelectTrigger id="explicit" className="bg-zinc-900 border-zinc-800 text-zinc-100">
+                      <SelectValue placeholder="Select explicit content rating" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-zinc-900 border-zinc-800">
+                      {EXPLICIT_TYPES.map((type) => (
+                        <SelectItem
+                          key={type}
+                          value={type}
+                          className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
+                        >
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {song.ai_explicit_evidence && (
+                    <ExplicitEvidencePanel evidence={song.ai_explicit_evidence} selected={explicit} />
+                  )}
                 </div>
-                {subgenre2 && (
-                  <button
-                    type="button"
-                    onClick={clearSubgenre2}
-                    style={{ padding: '6px', borderRadius: '6px', backgroundColor: '#7f1d1d', color: '#ef4444' }}
-                    title="Clear subgenre 2"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                )}
-              </div>
-            </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="subgenre3" className="text-zinc-300">Subgenre 3</Label>
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
+                <div className="space-y-2">
+                  <Label htmlFor="subgenre1" className="text-zinc-300">Subgenre 1 * <ConfidenceBadge confidence={song.ai_subgenre_1_confidence} /><LockIndicator locked={isLocked('ai_subgenre_1')} /></Label>
                   <SearchableSelect
                     options={subgenreOptions}
-                    value={subgenre3}
-                    onChange={setSubgenre3}
-                    placeholder="Select tertiary subgenre (optional)"
+                    value={subgenre1}
+                    onChange={setSubgenre1}
+                    placeholder="Select primary subgenre"
                     searchPlaceholder="Search subgenres..."
                   />
                 </div>
-                {subgenre3 && (
-                  <button
-                    type="button"
-                    onClick={clearSubgenre3}
-                    style={{ padding: '6px', borderRadius: '6px', backgroundColor: '#7f1d1d', color: '#ef4444' }}
-                    title="Clear subgenre 3"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                )}
-              </div>
-            </div>
-          </div>
 
-          {/* AI Reasoning - Read Only */}
-          {song.ai_reasoning && (
-            <Collapsible>
-              <CollapsibleTrigger className="flex items-center justify-between w-full p-3 bg-zinc-900 border border-zinc-800 rounded-md hover:bg-zinc-800 transition-colors group">
-                <Label className="text-zinc-300 cursor-pointer">AI Reasoning</Label>
-                <ChevronDown className="w-4 h-4 text-zinc-400 transition-transform group-data-[state=open]:rotate-180" />
-              </CollapsibleTrigger>
-              <CollapsibleContent className="pt-2">
-                <div className="bg-zinc-900 border border-zinc-800 rounded-md p-3 text-sm text-zinc-400">
-                  {song.ai_reasoning}
+                <div className="space-y-2">
+                  <Label htmlFor="subgenre2" className="text-zinc-300">Subgenre 2 <ConfidenceBadge confidence={song.ai_subgenre_2_confidence} /><LockIndicator locked={isLocked('ai_subgenre_2')} /></Label>
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1">
+                      <SearchableSelect
+                        options={subgenreOptions}
+                        value={subgenre2}
+                        onChange={setSubgenre2}
+                        placeholder="Select secondary subgenre (optional)"
+                        searchPlaceholder="Search subgenres..."
+                      />
+                    </div>
+                    {subgenre2 && (
+                      <button
+                        type="button"
+                        onClick={clearSubgenre2}
+                        style={{ padding: '6px', borderRadius: '6px', backgroundColor: '#7f1d1d', color: '#ef4444' }}
+                        title="Clear subgenre 2"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
                 </div>
-              </CollapsibleContent>
-            </Collapsible>
-          )}
 
-          {/* AI Context - Read Only */}
-          {song.ai_context_used && (
-            <Collapsible>
+                <div className="space-y-2">
+                  <Label htmlFor="subgenre3" className="text-zinc-300">Subgenre 3 <ConfidenceBadge confidence={song.ai_subgenre_3_confidence} /><LockIndicator locked={isLocked('ai_subgenre_3')} /></Label>
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1">
+                      <SearchableSelect
+                        options={subgenreOptions}
+                        value={subgenre3}
+                        onChange={setSubgenre3}
+                        placeholder="Select tertiary subgenre (optional)"
+                        searchPlaceholder="Search subgenres..."
+                      />
+                    </div>
+                    {subgenre3 && (
+                      <button
+                        type="button"
+                        onClick={clearSubgenre3}
+                        style={{ padding: '6px', borderRadius: '6px', backgroundColor: '#7f1d1d', color: '#ef4444' }}
+                        title="Clear subgenre 3"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* AI Reasoning - Read Only */}
+              {song.ai_reasoning && (
+                <Collapsible>
+                  <CollapsibleTrigger className="flex items-center justify-between w-full p-3 bg-zinc-900 border border-zinc-800 rounded-md hover:bg-zinc-800 transition-colors group">
+                    <Label className="text-zinc-300 cursor-pointer">AI Reasoning</Label>
+                    <ChevronDown className="w-4 h-4 text-zinc-400 transition-transform group-data-[state=open]:rotate-180" />
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="pt-2">
+                    <div className="bg-zinc-900 border border-zinc-800 rounded-md p-3 text-sm text-zinc-400">
+                      {song.ai_reasoning}
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+
+              {/* AI Context - Read Only */}
+              {song.ai_context_used && (
+                <Collapsible>
+                  <CollapsibleTrigger className="flex items-center justify-between w-full p-3 bg-zinc-900 border border-zinc-800 rounded-md hover:bg-zinc-800 transition-colors group">
+                    <Label className="text-zinc-300 cursor-pointer">AI Context Used</Label>
+                    <ChevronDown className="w-4 h-4 text-zinc-400 transition-transform group-data-[state=open]:rotate-180" />
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="pt-2">
+                    <div className="bg-zinc-900 border border-zinc-800 rounded-md p-3 text-sm text-zinc-400">
+                      {song.ai_context_used}
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+
+              {/* Search Sources - Read Only */}
+              {song.ai_grounding && song.ai_grounding.sources.length + song.ai_grounding.queries.length > 0 && (
+                <Collapsible>
+                  <CollapsibleTrigger className="flex items-center justify-between w-full p-3 bg-zinc-900 border border-zinc-800 rounded-md hover:bg-zinc-800 transition-colors group">
+                    <Label className="text-zinc-300 cursor-pointer">
+                      AI Sources
+                      <span className="ml-2 text-xs text-zinc-500">
+                        {song.ai_grounding.sources.length} page{song.ai_grounding.sources.length !== 1 ? 's' : ''}
+                      </span>
+                    </Label>
+                    <ChevronDown className="w-4 h-4 text-zinc-400 transition-transform group-data-[state=open]:rotate-180" />
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="pt-2">
+                    <div className="bg-zinc-900 border border-zinc-800 rounded-md p-3">
+                      <GroundingSources grounding={song.ai_grounding} />
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+
+              {/* Audio Analysis - Read Only */}
+              {song.audio_analyzed_at && (
+                <Collapsible>
+                  <CollapsibleTrigger className="flex items-center justify-between w-full p-3 bg-zinc-900 border border-zinc-800 rounded-md hover:bg-zinc-800 transition-colors group">
+                    <Label className="text-zinc-300 cursor-pointer">
+                      Audio Analysis
+                      {song.audio_energy_score !== null && (
+                        <span className="ml-2 text-xs text-zinc-500">energy score {song.audio_energy_score.toFixed(2)}</span>
+                      )}
+                    </Label>
+                    <ChevronDown className="w-4 h-4 text-zinc-400 transition-transform group-data-[state=open]:rotate-180" />
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="pt-2">
+                    <dl className="bg-zinc-900 border border-zinc-800 rounded-md p-3 text-sm grid grid-cols-2 gap-x-4 gap-y-1">
+                      <dt className="text-zinc-500">Tempo</dt>
+                      <dd className="text-zinc-300">
+                        {song.audio_tempo !== null ? `~${song.audio_tempo} BPM` : 'No clear pulse'}
+                      </dd>
+                      <dt className="text-zinc-500">Loudness</dt>
+                      <dd className="text-zinc-300">
+                        {song.audio_loudness_lufs !== null ? `${song.audio_loudness_lufs} LUFS (RMS ${song.audio_rms_db} dBFS)` : 'Silent'}
+                      </dd>
+                      <dt className="text-zinc-500">Brightness</dt>
+                      <dd className="text-zinc-300">{song.audio_brightness} Hz</dd>
+                      <dt className="text-zinc-500">Onset density</dt>
+                      <dd className="text-zinc-300">{song.audio_onset_rate} / s</dd>
+                      <dt className="text-zinc-500">Measured from</dt>
+                      <dd className="text-zinc-300">
+                        {song.audio_source === 'source' ? 'Source file' : 'Spotify preview'}, {new Date(song.audio_analyzed_at).toLocaleDateString()}
+                      </dd>
+                    </dl>
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+            </TabsContent>
+
+            <TabsContent value="history">
+              <ClassificationHistory song={song} />
+            </TabsContent>
+
+            <TabsContent value="changes">
+              <SongChangeHistory song={song} isAdmin={isAdmin} onReverted={onSongUpdate} />
+            </TabsContent>
+          </Tabs>
+
+          {/* Curator Notes */}
+          {!blind && (
+            <Collapsible open={notesOpen} onOpenChange={setNotesOpen}>
               <CollapsibleTrigger className="flex items-center justify-between w-full p-3 bg-zinc-900 border border-zinc-800 rounded-md hover:bg-zinc-800 transition-colors group">
-                <Label className="text-zinc-300 cursor-pointer">AI Context Used</Label>
+                <Label className="text-zinc-300 cursor-pointer">Curator Notes (Optional)</Label>
                 <ChevronDown className="w-4 h-4 text-zinc-400 transition-transform group-data-[state=open]:rotate-180" />
               </CollapsibleTrigger>
               <CollapsibleContent className="pt-2">
-                <div className="bg-zinc-900 border border-zinc-800 rounded-md p-3 text-sm text-zinc-400">
-                  {song.ai_context_used}
-                </div>
+                <Textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Add any notes about this classification... (useful for rejection reasons)"
+                  className="bg-zinc-900 border-zinc-800 text-zinc-100 placeholder:text-zinc-600 min-h-24"
+                />
               </CollapsibleContent>
             </Collapsible>
           )}
 
-          {/* Curator Notes */}
-          <Collapsible open={notesOpen} onOpenChange={setNotesOpen}>
-            <CollapsibleTrigger className="flex items-center justify-between w-full p-3 bg-zinc-900 border border-zinc-800 rounded-md hover:bg-zinc-800 transition-colors group">
-              <Label className="text-zinc-300 cursor-pointer">Curator Notes (Optional)</Label>
-              <ChevronDown className="w-4 h-4 text-zinc-400 transition-transform group-data-[state=open]:rotate-180" />
-            </CollapsibleTrigger>
-            <CollapsibleContent className="pt-2">
-              <Textarea
-                id="notes"
-                value={notes}
-                onChange={(e) => setNotes(e.target.value)}
-                placeholder="Add any notes about this classification... (useful for rejection reasons)"
-                className="bg-zinc-900 border-zinc-800 text-zinc-100 placeholder:text-zinc-600 min-h-24"
-              />
-            </CollapsibleContent>
-          </Collapsible>
-
           {/* Actions */}
           <div className="flex justify-between pt-4 border-t border-zinc-800">
             <Button
@@ -456,25 +707,138 @@ export function ReviewModal({ song, isOpen, onClose, onSave, onNext, onEndOfQueu
             >
               Cancel
             </Button>
-            <div className="flex gap-2">
-              <Button
-                onClick={handleSave}
-                variant="outline"
-                className="border-zinc-600 bg-zinc-800 text-zinc-100 hover:bg-zinc-700 hover:text-white"
-              >
-                Save
-              </Button>
+            {blind ? (
               <Button
-                onClick={handleSaveAndNext}
+                onClick={handleSubmitBlindLabel}
+                disabled={isLoading || !energy || !accessibility || !subgenre1}
                 className="bg-blue-600 hover:bg-blue-700 text-white"
               >
-                Save & Next
+                Submit & Next
                 <ChevronRight className="w-4 h-4 ml-1" />
               </Button>
-            </div>
+            ) : (
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSave}
+                  variant="outline"
+                  className="border-zinc-600 bg-zinc-800 text-zinc-100 hover:bg-zinc-700 hover:text-white"
+                >
+                  Save
+                </Button>
+                <Button
+                  onClick={handleSaveAndNext}
+                  disabled={isLoading}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  Save & Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </DialogContent>
+
+      <RejectDialog
+        isOpen={rejectOpen}
+        onClose={() => setRejectOpen(false)}
+        songCount={1}
+        onConfirm={handleReject}
+      />
+
+      {conflict && (
+        <MergeConflictDialog
+          isOpen
+          base={conflict.base}
+          mine={conflict.mine}
+          current={conflict.current}
+          onResolve={handleResolveConflict}
+          onDiscard={() => setConflict(null)}
+        />
+      )}
     </Dialog>
   );
 }
+
+/**
+ * Marks a field a curator edited - classification only proposes changes to it
+ */
+function LockIndicator({ locked }: { locked: boolean }) {
+  if (!locked) return null;
+
+  return (
+    <span title="Edited by a curator - new AI values are proposed instead of applied">
+      <Lock className="inline w-3 h-3 ml-2 text-zinc-500" />
+    </span>
+  );
+}
+
+/**
+ * Example lines, reasoning and cited sources behind the explicit verdict
+ */
+function ExplicitEvidencePanel({ evidence, selected }: { evidence: ExplicitEvidence; selected: string | undefined }) {
+  const hasDetails = evidence.examples.length > 0 || evidence.reasoning || evidence.sources.length > 0;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-md p-3 text-sm space-y-2">
+      <div className="text-xs text-zinc-500">
+        {EXPLICIT_PROVIDER_LABELS[evidence.provider] || evidence.provider} · {new Date(evidence.checkedAt).toLocaleString()}
+        {selected !== evidence.classification && (
+          <span className="text-amber-400"> · AI said {evidence.classification}</span>
+        )}
+      </div>
+
+      {evidence.examples.length > 0 && (
+        <ul className="space-y-1">
+          {evidence.examples.map((example, index) => (
+            <li key={index} className="text-zinc-300">
+              {example.lineNumber !== undefined && (
+                <span className="text-zinc-600 mr-2">L{example.lineNumber}</span>
+              )}
+              <span className="italic">"{example.line}"</span>
+              {example.terms && example.terms.length > 0 && (
+                <span className="ml-2 text-xs text-zinc-500">{example.terms.join(', ')}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {evidence.reasoning && <p className="text-zinc-400">{evidence.reasoning}</p>}
+
+      {evidence.sources.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+          {evidence.sources.map((source) => (
+            <SourceLink key={source.url} url={source.url} title={source.title} />
+          ))}
+        </div>
+      )}
+
+      {!hasDetails && <p className="text-zinc-500">No example lines or sources were kept for this result</p>}
+    </div>
+  );
+}
+
+/**
+ * Shows the AI's confidence next to a field label, highlighted when low
+ */
+function ConfidenceBadge({ confidence }: { confidence: number | null }) {
+  if (confidence === null || confidence === undefined) return null;
+
+  if (isLowConfidence(confidence)) {
+    return (
+      <Badge
+        className="ml-2 text-xs bg-amber-900/50 text-amber-300 border-amber-700"
+        title="The AI was unsure about this value - please double-check"
+      >
+        Low confidence · {formatConfidence(confidence)}
+      </Badge>
+    );
+  }
+
+  return (
+    <span className="ml-2 text-xs text-zinc-500" title="AI confidence">
+      {formatConfidence(confidence)}
+    </span>
+  );
+}
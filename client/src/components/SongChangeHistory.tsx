@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { ArrowRight, Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Song, SongChangeSet, SongChangeSource, getSongHistory, revertSong } from '../lib/api';
+import { toast } from 'sonner';
+
+interface SongChangeHistoryProps {
+  song: Song;
+  isAdmin: boolean;
+  onReverted?: (song: Song) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  ai_energy: 'Energy',
+  ai_accessibility: 'Accessibility',
+  ai_explicit: 'Explicit',
+  ai_subgenre_1: 'Subgenre 1',
+  ai_subgenre_2: 'Subgenre 2',
+  ai_subgenre_3: 'Subgenre 3',
+  approval_status: 'Status',
+  rejection_reason: 'Rejection reason',
+  rejection_note: 'Rejection note',
+  reviewed: 'Reviewed',
+  curator_notes: 'Notes',
+};
+
+const SOURCE_STYLES: Record<SongChangeSource, { label: string; className: string }> = {
+  CURATOR: { label: 'Curator', className: 'bg-blue-900/50 text-blue-300 border-blue-700' },
+  AI: { label: 'AI', className: 'bg-purple-900/50 text-purple-300 border-purple-700' },
+  IMPORT: { label: 'Import', className: 'bg-zinc-800 text-zinc-300 border-zinc-700' },
+  BULK: { label: 'Bulk', className: 'bg-amber-900/50 text-amber-300 border-amber-700' },
+  REVERT: { label: 'Revert', className: 'bg-emerald-900/50 text-emerald-300 border-emerald-700' },
+};
+
+/**
+ * Lists every recorded change to a song's tags and review state, newest first.
+ * Admins can restore the song to how it was right after any change.
+ */
+export function SongChangeHistory({ song, isAdmin, onReverted }: SongChangeHistoryProps) {
+  const [changeSets, setChangeSets] = useState<SongChangeSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  // Refetches after any save (modified_at changes) so new changes show up
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchHistory() {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getSongHistory(song.isrc);
+        if (!cancelled) setChangeSets(data);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [song.isrc, song.modified_at]);
+
+  const formatDateTime = (isoString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(new Date(isoString));
+  };
+
+  const handleRevert = async (changeSet: SongChangeSet) => {
+    setRevertingId(changeSet.change_set_id);
+
+    try {
+      const updatedSong = await revertSong(song.isrc, changeSet.change_set_id);
+      onReverted?.(updatedSong);
+      toast.success('Song reverted');
+    } catch (err: any) {
+      toast.error(`Failed to revert: ${err.message}`);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-zinc-500 py-4">Loading change history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400 py-4">Failed to load changes: {error}</p>;
+  }
+
+  if (changeSets.length === 0) {
+    return <p className="text-sm text-zinc-500 py-4">No changes recorded for this song yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {changeSets.map((changeSet, index) => {
+        const source = SOURCE_STYLES[changeSet.source] || SOURCE_STYLES.IMPORT;
+        return (
+          <div key={changeSet.change_set_id} className="bg-zinc-900 border border-zinc-800 rounded-md p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="text-sm text-zinc-200">{formatDateTime(changeSet.created_at)}</span>
+                <Badge className={`text-xs ${source.className}`}>{source.label}</Badge>
+                <span className="text-xs text-zinc-500 truncate">
+                  {changeSet.changed_by}
+                  {changeSet.changed_by && changeSet.context && ' · '}
+                  {changeSet.context}
+                </span>
+              </div>
+              {/* The newest change set is the current version */}
+              {isAdmin && index > 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleRevert(changeSet)}
+                  disabled={revertingId !== null}
+                  className="h-7 text-xs text-zinc-400 hover:text-zinc-100 shrink-0"
+                >
+                  {revertingId === changeSet.change_set_id
+                    ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    : <RotateCcw className="w-3 h-3 mr-1" />}
+                  Revert to this version
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-1 text-sm">
+              {changeSet.changes.map((change) => (
+                <div key={change.id} className="flex items-center gap-2">
+                  <span className="w-32 shrink-0 text-zinc-500">{FIELD_LABELS[change.field] || change.field}</span>
+                  <span className="text-zinc-500 line-through truncate">{change.old_value ?? '—'}</span>
+                  <ArrowRight className="w-3 h-3 shrink-0 text-zinc-600" />
+                  <span className="text-zinc-200 truncate">{change.new_value ?? '—'}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
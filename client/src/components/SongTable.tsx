@@ -3,6 +3,7 @@ import { Song } from '../lib/api';
 import { Badge } from './ui/badge';
 import { Checkbox } from './ui/checkbox';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { isLowConfidence, formatConfidence } from '../lib/confidence';
 
 interface SongTableProps {
   songs: Song[];
@@ -78,6 +79,15 @@ export function SongTable({ songs, selectedIsrcs, onSongClick, onToggleSelection
     return {};
   };
 
+  // Amber text + tooltip for AI values the model wasn't sure about
+  const getConfidenceProps = (confidence: number | null) => {
+    if (!isLowConfidence(confidence)) return {};
+    return {
+      className: 'text-amber-400',
+      title: `Low AI confidence (${formatConfidence(confidence)})`,
+    };
+  };
+
   if (songs.length === 0) {
     return (
       <div className="bg-zinc-900 rounded-lg p-12 border border-zinc-800 text-center">
@@ -108,6 +118,12 @@ export function SongTable({ songs, selectedIsrcs, onSongClick, onToggleSelection
               <th className="text-left p-4 text-sm text-zinc-400">Explicit</th>
               <th className="text-left p-4 text-sm text-zinc-400">Subgenres</th>
               <th className="text-left p-4 text-sm text-zinc-400">Status</th>
+              <th
+                className="text-left p-4 text-sm text-zinc-400 cursor-pointer hover:text-zinc-200 transition-colors select-none"
+                onClick={() => onSort('confidence')}
+              >
+                Confidence{getSortIndicator('confidence')}
+              </th>
               <th
                 className="text-left p-4 text-sm text-zinc-400 cursor-pointer hover:text-zinc-200 transition-colors select-none"
                 onClick={() => onSort('createdAt')}
@@ -158,24 +174,45 @@ export function SongTable({ songs, selectedIsrcs, onSongClick, onToggleSelection
                   <div className="text-zinc-300 max-w-xs truncate">{song.artist}</div>
                 </td>
                 <td className="p-4 cursor-pointer" onClick={() => onSongClick(song)}>
-                  <div className="text-zinc-400 text-sm">{song.ai_energy || '—'}</div>
+                  <div className="text-zinc-400 text-sm">
+                    <span {...getConfidenceProps(song.ai_energy_confidence)}>{song.ai_energy || '—'}</span>
+                  </div>
                 </td>
                 <td className="p-4 cursor-pointer" onClick={() => onSongClick(song)}>
-                  <div className="text-zinc-400 text-sm">{song.ai_accessibility || '—'}</div>
+                  <div className="text-zinc-400 text-sm">
+                    <span {...getConfidenceProps(song.ai_accessibility_confidence)}>{song.ai_accessibility || '—'}</span>
+                  </div>
                 </td>
                 <td className="p-4 cursor-pointer" onClick={() => onSongClick(song)}>
-                  <div className="text-zinc-400 text-sm">{song.ai_explicit || '—'}</div>
+                  <div className="text-zinc-400 text-sm">
+                    <span {...getConfidenceProps(song.ai_explicit_confidence)}>{song.ai_explicit || '—'}</span>
+                  </div>
                 </td>
                 <td className="p-4 cursor-pointer" onClick={() => onSongClick(song)}>
                   <div className="text-zinc-400 text-sm max-w-xs">
-                    {[song.ai_subgenre_1, song.ai_subgenre_2, song.ai_subgenre_3]
-                      .filter(Boolean)
-                      .join(', ') || '—'}
+                    {[
+                      { value: song.ai_subgenre_1, confidence: song.ai_subgenre_1_confidence },
+                      { value: song.ai_subgenre_2, confidence: song.ai_subgenre_2_confidence },
+                      { value: song.ai_subgenre_3, confidence: song.ai_subgenre_3_confidence },
+                    ]
+                      .filter((subgenre) => subgenre.value)
+                      .map((subgenre, index) => (
+                        <span key={subgenre.value}>
+                          {index > 0 && ', '}
+                          <span {...getConfidenceProps(subgenre.confidence)}>{subgenre.value}</span>
+                        </span>
+                      ))}
+                    {!song.ai_subgenre_1 && !song.ai_subgenre_2 && !song.ai_subgenre_3 && '—'}
                   </div>
                 </td>
                 <td className="p-4 cursor-pointer" onClick={() => onSongClick(song)}>
                   {getStatusBadge(song.ai_status)}
                 </td>
+                <td className="p-4 cursor-pointer" onClick={() => onSongClick(song)}>
+                  <div className="text-zinc-400 text-sm">
+                    <span {...getConfidenceProps(song.ai_confidence)}>{formatConfidence(song.ai_confidence)}</span>
+                  </div>
+                </td>
                 <td className="p-4 cursor-pointer" onClick={() => onSongClick(song)}>
                   <div className="text-zinc-400 text-sm">
                     {formatDate(song.created_at)}
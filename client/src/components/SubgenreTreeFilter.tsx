@@ -0,0 +1,206 @@
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, XIcon } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import type { TaxonomyCategory } from '../lib/api';
+
+interface SubgenreTreeFilterProps {
+  categories: TaxonomyCategory[];
+  selectedCategories: number[];
+  selectedSubgenres: string[];
+  onCategoriesChange: (values: number[]) => void;
+  onSubgenresChange: (values: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Subgenre filter grouped by category. Checking a category selects all of its
+ * subgenres (sent as categories=, so the server expands it); checking some of
+ * them leaves the category partially checked. Counts come from
+ * getSubgenres({ counts: true }) when available.
+ */
+export function SubgenreTreeFilter({
+  categories,
+  selectedCategories,
+  selectedSubgenres,
+  onCategoriesChange,
+  onSubgenresChange,
+  placeholder = 'All subgenres',
+}: SubgenreTreeFilterProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const query = search.trim().toLowerCase();
+
+  // While searching, show only matching subgenres (or whole matching categories)
+  const visibleCategories = useMemo(() => {
+    if (!query) return categories;
+    return categories
+      .map((category) => category.name.toLowerCase().includes(query)
+        ? category
+        : { ...category, subgenres: category.subgenres.filter((s) => s.name.toLowerCase().includes(query)) })
+      .filter((category) => category.subgenres.length > 0);
+  }, [categories, query]);
+
+  function categoryState(category: TaxonomyCategory): boolean | 'indeterminate' {
+    if (selectedCategories.includes(category.id)) return true;
+    return category.subgenres.some((s) => selectedSubgenres.includes(s.name)) ? 'indeterminate' : false;
+  }
+
+  function toggleCategory(category: TaxonomyCategory) {
+    const members = category.subgenres.map((s) => s.name);
+
+    if (selectedCategories.includes(category.id)) {
+      onCategoriesChange(selectedCategories.filter((id) => id !== category.id));
+    } else {
+      // Partially checked becomes fully checked; the category replaces its subgenres
+      onCategoriesChange([...selectedCategories, category.id]);
+      onSubgenresChange(selectedSubgenres.filter((name) => !members.includes(name)));
+    }
+  }
+
+  function toggleSubgenre(category: TaxonomyCategory, name: string) {
+    const members = category.subgenres.map((s) => s.name);
+
+    if (selectedCategories.includes(category.id)) {
+      // Unchecking one subgenre of a checked category keeps the others
+      onCategoriesChange(selectedCategories.filter((id) => id !== category.id));
+      onSubgenresChange([...selectedSubgenres, ...members.filter((member) => member !== name)]);
+    } else if (selectedSubgenres.includes(name)) {
+      onSubgenresChange(selectedSubgenres.filter((value) => value !== name));
+    } else {
+      const next = [...selectedSubgenres, name];
+      if (members.every((member) => next.includes(member))) {
+        // Every subgenre checked: select the category instead
+        onCategoriesChange([...selectedCategories, category.id]);
+        onSubgenresChange(next.filter((value) => !members.includes(value)));
+      } else {
+        onSubgenresChange(next);
+      }
+    }
+  }
+
+  function toggleExpanded(id: number) {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  const handleClear = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onCategoriesChange([]);
+    onSubgenresChange([]);
+  };
+
+  const selectedLabels = [
+    ...categories.filter((c) => selectedCategories.includes(c.id)).map((c) => c.name),
+    ...selectedSubgenres,
+  ];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          role="combobox"
+          aria-expanded={open}
+          className="flex w-full items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm whitespace-nowrap outline-none h-9 min-h-9 bg-zinc-950 border-zinc-700 text-zinc-100 focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+        >
+          <div className="flex flex-1 flex-wrap gap-1 overflow-hidden">
+            {selectedLabels.length === 0 ? (
+              <span className="text-zinc-500">{placeholder}</span>
+            ) : (
+              <Badge
+                variant="secondary"
+                className="text-xs px-1.5 py-0 h-5 bg-zinc-700 text-zinc-200 border-zinc-600 truncate"
+              >
+                {selectedLabels.length === 1 ? selectedLabels[0] : `${selectedLabels.length} selected`}
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            {selectedLabels.length > 0 && (
+              <span
+                role="button"
+                className="rounded-full p-0.5 hover:bg-zinc-700"
+                onClick={handleClear}
+              >
+                <XIcon className="h-3.5 w-3.5 text-zinc-400 hover:text-zinc-200" />
+              </span>
+            )}
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </div>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0 bg-zinc-900 border-zinc-700" align="start">
+        <div className="p-2 border-b border-zinc-800">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search subgenres..."
+            className="h-8 bg-zinc-950 border-zinc-700 text-zinc-100 placeholder:text-zinc-500"
+          />
+        </div>
+        <div className="max-h-80 overflow-y-auto py-1 text-sm">
+          {visibleCategories.length === 0 && (
+            <p className="px-3 py-2 text-zinc-500">No subgenres found.</p>
+          )}
+          {visibleCategories.map((category) => {
+            const isOpen = query !== '' || expanded.has(category.id);
+            // Toggle against the full category, not the search-filtered copy
+            const fullCategory = categories.find((c) => c.id === category.id) || category;
+
+            return (
+              <Collapsible key={category.id} open={isOpen} onOpenChange={() => toggleExpanded(category.id)}>
+                <div className="flex items-center gap-2 px-2 py-1.5 hover:bg-zinc-800">
+                  <CollapsibleTrigger className="text-zinc-400 hover:text-zinc-100">
+                    {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </CollapsibleTrigger>
+                  <Checkbox
+                    checked={categoryState(fullCategory)}
+                    onCheckedChange={() => toggleCategory(fullCategory)}
+                  />
+                  <span className="flex-1 text-zinc-100 truncate">{category.name}</span>
+                  {category.songCount !== undefined && (
+                    <span className="text-xs text-zinc-500">{category.songCount}</span>
+                  )}
+                </div>
+                <CollapsibleContent>
+                  {category.subgenres.map((subgenre) => (
+                    <label
+                      key={subgenre.name}
+                      className="flex items-center gap-2 pl-10 pr-2 py-1 cursor-pointer hover:bg-zinc-800"
+                    >
+                      <Checkbox
+                        checked={selectedCategories.includes(category.id) || selectedSubgenres.includes(subgenre.name)}
+                        onCheckedChange={() => toggleSubgenre(fullCategory, subgenre.name)}
+                      />
+                      <span className={`flex-1 truncate ${subgenre.deprecated ? 'text-zinc-500' : 'text-zinc-300'}`}>
+                        {subgenre.name}
+                        {/* Deprecated subgenres stay filterable: existing songs still carry them */}
+                        {subgenre.deprecated && ' (deprecated)'}
+                      </span>
+                      {subgenre.songCount !== undefined && (
+                        <span className="text-xs text-zinc-500">{subgenre.songCount}</span>
+                      )}
+                    </label>
+                  ))}
+                </CollapsibleContent>
+              </Collapsible>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
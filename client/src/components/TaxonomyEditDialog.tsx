@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import type { TaxonomyCategory } from '../lib/api';
+
+export interface TaxonomyEditValues {
+  name: string;
+  description: string;
+  categoryId?: number;
+}
+
+interface TaxonomyEditDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  description?: string;
+  initial: TaxonomyEditValues;
+  // Shown for subgenres only
+  categories?: TaxonomyCategory[];
+  // Songs that carry the subgenre; a rename rewrites them
+  songCount?: number;
+  onSave: (values: TaxonomyEditValues) => Promise<void>;
+}
+
+/**
+ * Add/edit form for a subgenre or category (name, description and, for
+ * subgenres, the category)
+ */
+export function TaxonomyEditDialog({
+  isOpen,
+  onClose,
+  title,
+  description,
+  initial,
+  categories,
+  songCount = 0,
+  onSave,
+}: TaxonomyEditDialogProps) {
+  const [name, setName] = useState(initial.name);
+  const [details, setDetails] = useState(initial.description);
+  const [categoryId, setCategoryId] = useState(initial.categoryId);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initial.name);
+      setDetails(initial.description);
+      setCategoryId(initial.categoryId);
+    }
+  }, [isOpen, initial.name, initial.description, initial.categoryId]);
+
+  const isRename = initial.name !== '' && name.trim() !== initial.name;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ name: name.trim(), description: details.trim(), categoryId });
+      onClose();
+    } catch {
+      // onSave reports the error; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg bg-zinc-950 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">{title}</DialogTitle>
+          {description && (
+            <DialogDescription className="text-zinc-400">{description}</DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-zinc-900 border-zinc-700 text-zinc-100"
+            />
+            {isRename && songCount > 0 && (
+              <p className="text-xs text-amber-400">
+                Renaming updates {songCount} {songCount === 1 ? 'song' : 'songs'} tagged "{initial.name}".
+              </p>
+            )}
+          </div>
+
+          {categories && (
+            <div className="space-y-2">
+              <Label className="text-zinc-300">Category</Label>
+              <Select
+                value={categoryId !== undefined ? String(categoryId) : undefined}
+                onValueChange={(value) => setCategoryId(Number(value))}
+              >
+                <SelectTrigger className="bg-zinc-900 border-zinc-700 text-zinc-100">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={String(category.id)}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-zinc-300">Description</Label>
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="What belongs here. Shown to the classifier next to the name."
+              className="bg-zinc-900 border-zinc-700 text-zinc-100 min-h-[80px]"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onClose} disabled={isSaving} className="text-zinc-400">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim() || (categories !== undefined && categoryId === undefined)}
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
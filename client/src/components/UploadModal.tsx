@@ -1,14 +1,16 @@
 import { useState, useCallback, useEffect } from 'react';
 import {
-  submitAllExplicit,
-  processBatch,
-  pollAllExplicit,
-  chunkArray,
-  type ProcessedSong,
+  getUploadStatus,
+  runUploadWorker,
+  EXPLICIT_PROVIDER_LABELS,
+  type ExplicitProvider,
   type UploadResponse,
-  type ExplicitSubmission,
+  type UploadStatus,
 } from '../lib/api';
 
+// How often the modal checks the server-side upload job
+const STATUS_POLL_INTERVAL_MS = 3000;
+
 // Request notification permission
 const requestNotificationPermission = async () => {
   if ('Notification' in window && Notification.permission === 'default') {
@@ -40,6 +42,14 @@ const sendNotification = (title: string, body: string) => {
 };
 import { Upload, CheckCircle, XCircle, Loader2, FileMusic } from 'lucide-react';
 import { Button } from './ui/button';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
 import {
   Dialog,
   DialogContent,
@@ -61,7 +71,6 @@ interface UploadResult {
     errors: number;
   };
   results: {
-    imported: ProcessedSong[];
     skipped: Array<{
       isrc: string;
       title: string;
@@ -83,14 +92,6 @@ interface UploadModalProps {
 
 type UploadState = 'idle' | 'preparing' | 'processing' | 'complete';
 
-interface BatchProgress {
-  phase: 'preparing' | 'processing' | 'finalizing';
-  currentBatch: number;
-  totalBatches: number;
-  songsProcessed: number;
-  totalSongs: number;
-}
-
 export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModalProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
@@ -98,14 +99,9 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
   const [songCount, setSongCount] = useState(0);
   const [validationError, setValidationError] = useState<string>('');
   const [result, setResult] = useState<UploadResult | null>(null);
-  const [batchProgress, setBatchProgress] = useState<BatchProgress>({
-    phase: 'preparing',
-    currentBatch: 0,
-    totalBatches: 0,
-    songsProcessed: 0,
-    totalSongs: 0,
-  });
-  const [batchId, setBatchId] = useState<string | null>(null);
+  const [uploadResponse, setUploadResponse] = useState<UploadResponse | null>(null);
+  const [jobStatus, setJobStatus] = useState<UploadStatus | null>(null);
+  const [explicitProvider, setExplicitProvider] = useState<ExplicitProvider | 'default'>('default');
 
   // Update page title based on upload state
   useEffect(() => {
@@ -114,7 +110,7 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
     if (uploadState === 'preparing') {
       document.title = `⏳ Preparing ${songCount} songs...`;
     } else if (uploadState === 'processing') {
-      document.title = `⏳ Processing batch ${batchProgress.currentBatch}/${batchProgress.totalBatches}...`;
+      document.title = `⏳ Processing ${jobStatus?.processed ?? 0}/${jobStatus?.total ?? uploadResponse?.summary.toProcess ?? 0}...`;
     } else if (uploadState === 'complete' && result) {
       document.title = `✓ ${result.summary.imported} songs imported`;
       // Reset title after 5 seconds
@@ -129,7 +125,82 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
     return () => {
       document.title = originalTitle;
     };
-  }, [uploadState, songCount, result, batchProgress]);
+  }, [uploadState, songCount, result, jobStatus, uploadResponse]);
+
+  const finishUpload = useCallback((response: UploadResponse, status: UploadStatus | null) => {
+    const finalResult: UploadResult = {
+      batchId: response.batchId,
+      playlistId: response.playlistId,
+      playlistName: response.playlistName,
+      summary: {
+        total: response.summary.total,
+        imported: status?.imported ?? 0,
+        skipped: response.summary.skipped,
+        errors: status?.failed ?? 0,
+      },
+      results: {
+        skipped: response.skippedSongs,
+        errors: (status?.errors ?? []).map(({ artist, title, error }) => ({ artist, title, error })),
+      },
+    };
+
+    setResult(finalResult);
+    setUploadState('complete');
+
+    // Send browser notification if tab is not focused
+    sendNotification(
+      'Upload Complete',
+      `${finalResult.summary.imported} songs imported from ${finalResult.playlistName}`
+    );
+
+    toast.success(
+      `Upload complete: ${finalResult.summary.imported} imported, ${finalResult.summary.skipped} already exist`
+    );
+  }, []);
+
+  // Watch the server-side job; it keeps running if the modal or tab is closed
+  useEffect(() => {
+    if (uploadState !== 'processing' || !uploadResponse) return;
+
+    let cancelled = false;
+
+    // Fallback for deployments where cron doesn't run every minute: drive the
+    // worker from here too, one pass at a time
+    let workerRunning = false;
+    const runWorker = async () => {
+      if (workerRunning) return;
+      workerRunning = true;
+      try {
+        await runUploadWorker();
+      } catch (error: any) {
+        console.error('[Upload] Failed to run upload worker:', error.message);
+      } finally {
+        workerRunning = false;
+      }
+    };
+
+    const checkStatus = async () => {
+      if (!cancelled) runWorker();
+      try {
+        const status = await getUploadStatus(uploadResponse.batchId);
+        if (cancelled) return;
+        setJobStatus(status);
+        if (status.complete) {
+          finishUpload(uploadResponse, status);
+        }
+      } catch (error: any) {
+        // Transient - try again on the next tick
+        console.error('[Upload] Failed to get upload status:', error.message);
+      }
+    };
+
+    checkStatus();
+    const interval = setInterval(checkStatus, STATUS_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [uploadState, uploadResponse, finishUpload]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -216,18 +287,14 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
     requestNotificationPermission();
 
     setUploadState('preparing');
-    setBatchProgress({
-      phase: 'preparing',
-      currentBatch: 0,
-      totalBatches: 0,
-      songsProcessed: 0,
-      totalSongs: songCount,
-    });
 
     try {
-      // Step 1: Quick upload - parse CSV, check ISRCs, get songs to process
+      // Parse CSV, check ISRCs and queue new songs as a server-side job
       const formData = new FormData();
       formData.append('file', selectedFile);
+      if (explicitProvider !== 'default') {
+        formData.append('explicitProvider', explicitProvider);
+      }
 
       const response = await fetch('/api/songs/upload', {
         method: 'POST',
@@ -246,152 +313,15 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
       }
 
       const uploadResponse: UploadResponse = await response.json();
-      setBatchId(uploadResponse.batchId);
-
-      // Initialize result tracking
-      const allImported: ProcessedSong[] = [];
-      const allErrors: Array<{ artist: string; title: string; error: string }> = [];
-
-      // Track ISRC mapping for explicit polling
-      const isrcMap = new Map<number, string>(); // index -> isrc
-      let explicitSubmissions: ExplicitSubmission[] = [];
+      setUploadResponse(uploadResponse);
 
-      // Step 2: Process songs if there are songs to process
-      if (uploadResponse.songsToProcess.length > 0) {
+      if (uploadResponse.status === 'complete') {
+        // Nothing new to classify
+        finishUpload(uploadResponse, null);
+      } else {
         setUploadState('processing');
-
-        // Phase 1: Submit explicit tasks upfront for async processing
-        console.log('[Upload] Submitting all explicit tasks upfront...');
-        try {
-          const explicitResponse = await submitAllExplicit(
-            uploadResponse.songsToProcess.map(s => ({ artist: s.artist, title: s.title }))
-          );
-          explicitSubmissions = explicitResponse.submissions;
-          console.log(`[Upload] Explicit submitted: ${explicitResponse.submitted}/${explicitResponse.total}`);
-        } catch (error: any) {
-          console.error('[Upload] Failed to submit explicit tasks:', error.message);
-          toast.warning('Explicit content detection unavailable - songs will be imported without explicit classification');
-        }
-
-        // Phase 2: Process Gemini in batches of 5
-        const BATCH_SIZE = 5;
-        const batches = chunkArray(uploadResponse.songsToProcess, BATCH_SIZE);
-
-        setBatchProgress(prev => ({
-          ...prev,
-          phase: 'processing',
-          totalBatches: batches.length,
-          totalSongs: uploadResponse.songsToProcess.length,
-        }));
-
-        // Track used indices to prevent duplicate matches for songs with same artist+title
-        const usedIndices = new Set<number>();
-
-        for (let i = 0; i < batches.length; i++) {
-          setBatchProgress(prev => ({
-            ...prev,
-            currentBatch: i + 1,
-          }));
-
-          try {
-            const batchResult = await processBatch(
-              uploadResponse.batchId,
-              uploadResponse.playlistId,
-              uploadResponse.playlistName,
-              batches[i]
-            );
-
-            // Track ISRC mapping for explicit polling (avoid race condition with duplicates)
-            for (const result of batchResult.results) {
-              const originalIndex = uploadResponse.songsToProcess.findIndex(
-                (s, idx) => !usedIndices.has(idx) && s.artist === result.artist && s.title === result.title
-              );
-              if (originalIndex >= 0) {
-                usedIndices.add(originalIndex);
-                isrcMap.set(originalIndex, result.isrc);
-              }
-            }
-
-            // Add results progressively
-            allImported.push(...batchResult.results);
-            allErrors.push(...batchResult.errors);
-
-            // Update progress
-            setBatchProgress(prev => ({
-              ...prev,
-              songsProcessed: prev.songsProcessed + batchResult.processed + batchResult.errors.length,
-            }));
-
-          } catch (batchError: any) {
-            console.error(`Batch ${i + 1} failed:`, batchError);
-            // Add all songs in failed batch to errors
-            for (const song of batches[i]) {
-              allErrors.push({
-                artist: song.artist,
-                title: song.title,
-                error: batchError.message || 'Batch processing failed',
-              });
-            }
-          }
-        }
-
-        // Phase 3: Poll ALL explicit results at the end
-        setBatchProgress(prev => ({ ...prev, phase: 'finalizing' }));
-
-        if (explicitSubmissions.length > 0 && isrcMap.size > 0) {
-          console.log('[Upload] Polling all explicit results...');
-          try {
-            // Build poll request with ISRCs
-            const pollSubmissions = explicitSubmissions
-              .filter(s => s.status === 'submitted' && s.runId && isrcMap.has(s.index))
-              .map(s => ({
-                runId: s.runId!,
-                isrc: isrcMap.get(s.index)!,
-                artist: s.artist,
-                title: s.title,
-              }));
-
-            if (pollSubmissions.length > 0) {
-              const pollResult = await pollAllExplicit(pollSubmissions);
-              console.log(`[Upload] Explicit polled: ${pollResult.successful}/${pollResult.polled}`);
-            }
-          } catch (error: any) {
-            console.error('[Upload] Failed to poll explicit results:', error.message);
-            toast.warning('Could not retrieve explicit classifications - some songs may be missing explicit data');
-          }
-        }
       }
 
-      const finalResult: UploadResult = {
-        batchId: uploadResponse.batchId,
-        playlistId: uploadResponse.playlistId,
-        playlistName: uploadResponse.playlistName,
-        summary: {
-          total: uploadResponse.summary.total,
-          imported: allImported.length,
-          skipped: uploadResponse.summary.skipped,
-          errors: allErrors.length,
-        },
-        results: {
-          imported: allImported,
-          skipped: uploadResponse.skippedSongs,
-          errors: allErrors,
-        },
-      };
-
-      setResult(finalResult);
-      setUploadState('complete');
-
-      // Send browser notification if tab is not focused
-      sendNotification(
-        'Upload Complete',
-        `${finalResult.summary.imported} songs imported from ${finalResult.playlistName}`
-      );
-
-      toast.success(
-        `Upload complete: ${finalResult.summary.imported} imported, ${finalResult.summary.skipped} already exist`
-      );
-
     } catch (error: any) {
       toast.error(`Upload failed: ${error.message}`);
       console.error('Upload error:', error);
@@ -405,14 +335,8 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
     setValidationError('');
     setResult(null);
     setUploadState('idle');
-    setBatchProgress({
-      phase: 'preparing',
-      currentBatch: 0,
-      totalBatches: 0,
-      songsProcessed: 0,
-      totalSongs: 0,
-    });
-    setBatchId(null);
+    setUploadResponse(null);
+    setJobStatus(null);
     onOpenChange(false);
   };
 
@@ -428,17 +352,13 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
     setSongCount(0);
     setResult(null);
     setUploadState('idle');
-    setBatchProgress({
-      phase: 'preparing',
-      currentBatch: 0,
-      totalBatches: 0,
-      songsProcessed: 0,
-      totalSongs: 0,
-    });
-    setBatchId(null);
+    setUploadResponse(null);
+    setJobStatus(null);
   };
 
   const playlistName = selectedFile?.name.replace(/\.csv$/i, '') || 'Playlist';
+  const progressTotal = jobStatus?.total ?? uploadResponse?.summary.toProcess ?? 0;
+  const progressProcessed = jobStatus?.processed ?? 0;
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
@@ -502,6 +422,37 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
                 </div>
               )}
 
+              <div className="space-y-2">
+                <Label className="text-zinc-300">Explicit detection</Label>
+                <Select
+                  value={explicitProvider}
+                  onValueChange={(value) => setExplicitProvider(value as ExplicitProvider | 'default')}
+                >
+                  <SelectTrigger className="bg-zinc-900 border-zinc-700 text-zinc-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-zinc-900 border-zinc-800">
+                    <SelectItem value="default" className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100">
+                      Default provider
+                    </SelectItem>
+                    {(Object.keys(EXPLICIT_PROVIDER_LABELS) as ExplicitProvider[]).map((value) => (
+                      <SelectItem
+                        key={value}
+                        value={value}
+                        className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100"
+                      >
+                        {EXPLICIT_PROVIDER_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {explicitProvider === 'lyrics' && (
+                  <p className="text-xs text-zinc-500">
+                    Reads the CSV's lyrics column. Songs without lyrics use Parallel AI.
+                  </p>
+                )}
+              </div>
+
               {validationError && (
                 <div className="flex items-center gap-2 text-sm text-red-400">
                   <XCircle className="h-4 w-4 flex-shrink-0" />
@@ -558,7 +509,9 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
                 Processing {playlistName}
               </DialogTitle>
               <DialogDescription>
-                Batch {batchProgress.currentBatch} of {batchProgress.totalBatches}
+                {jobStatus?.status === 'PENDING' || !jobStatus
+                  ? 'Queued - waiting for the upload worker'
+                  : 'Classifying songs on the server'}
               </DialogDescription>
             </DialogHeader>
 
@@ -568,8 +521,8 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
                 <div
                   className="h-full bg-blue-500 rounded-full"
                   style={{
-                    width: batchProgress.totalSongs > 0
-                      ? `${(batchProgress.songsProcessed / batchProgress.totalSongs) * 100}%`
+                    width: progressTotal > 0
+                      ? `${(progressProcessed / progressTotal) * 100}%`
                       : '0%',
                     transition: 'width 0.5s ease-out'
                   }}
@@ -577,7 +530,23 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
               </div>
 
               <p className="text-sm text-zinc-400 text-center">
-                {batchProgress.songsProcessed} / {batchProgress.totalSongs} songs processed
+                {progressProcessed} / {progressTotal} songs processed
+                {!!jobStatus?.retrying && (
+                  <span className="text-amber-400"> • {jobStatus.retrying} retrying</span>
+                )}
+                {!!jobStatus?.failed && (
+                  <span className="text-red-400"> • {jobStatus.failed} failed</span>
+                )}
+              </p>
+
+              {progressTotal > 0 && progressProcessed >= progressTotal && !!jobStatus?.explicitPending && (
+                <p className="text-xs text-zinc-500 text-center">
+                  Waiting for explicit content results ({jobStatus.explicitPending} remaining)...
+                </p>
+              )}
+
+              <p className="text-xs text-zinc-500 text-center">
+                You can close this window - processing continues on the server.
               </p>
             </div>
           </>
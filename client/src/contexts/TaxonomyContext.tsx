@@ -0,0 +1,64 @@
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { getSubgenres, type TaxonomyCategory } from '../lib/api';
+
+interface TaxonomyContextType {
+  categories: TaxonomyCategory[];
+  subgenres: string[];        // Active subgenres (alphabetical), for new values
+  allSubgenres: string[];     // Including deprecated ones, for filters
+  isDeprecated: (name: string) => boolean;
+  loading: boolean;
+  reload: () => Promise<void>;
+}
+
+const TaxonomyContext = createContext<TaxonomyContextType | undefined>(undefined);
+
+/**
+ * Loads the subgenre taxonomy (GET /api/subgenres) once for the signed-in app
+ */
+export function TaxonomyProvider({ children }: { children: React.ReactNode }) {
+  const [categories, setCategories] = useState<TaxonomyCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const reload = async () => {
+    try {
+      setCategories(await getSubgenres());
+    } catch (error) {
+      console.error('Failed to load subgenres:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const value = useMemo(() => {
+    const entries = categories.flatMap((category) => category.subgenres);
+    const deprecated = new Set(entries.filter((s) => s.deprecated).map((s) => s.name));
+    const names = entries.map((s) => s.name).sort((a, b) => a.localeCompare(b));
+
+    return {
+      categories,
+      subgenres: names.filter((name) => !deprecated.has(name)),
+      allSubgenres: names,
+      isDeprecated: (name: string) => deprecated.has(name),
+      loading,
+      reload,
+    };
+  }, [categories, loading]);
+
+  return (
+    <TaxonomyContext.Provider value={value}>
+      {children}
+    </TaxonomyContext.Provider>
+  );
+}
+
+export function useTaxonomy() {
+  const context = useContext(TaxonomyContext);
+  if (context === undefined) {
+    throw new Error('useTaxonomy must be used within a TaxonomyProvider');
+  }
+  return context;
+}
@@ -1,198 +1,10 @@
 /**
  * Music Classification Constants
  *
- * AUTO-GENERATED from data/subgenres.json
- * DO NOT EDIT MANUALLY - Run: npm run generate:constants
- *
- * Last generated: 2025-12-03T17:56:06.372Z
+ * Subgenres are not listed here: they live in the database and are loaded
+ * through TaxonomyContext (GET /api/subgenres).
  */
 
-export const SUBGENRES = [
-  "2000s Dance",
-  "2000s Garage Rock",
-  "2000s Hip-Hop",
-  "2000s Indie Pop",
-  "2000s Indie Rock",
-  "2000s Pop",
-  "2000s Pop Rock",
-  "2000s R&B",
-  "2000s Reggaeton",
-  "2010s Hip-Hop",
-  "2010s Indie Pop",
-  "2010s Indie Rock",
-  "2010s Pop",
-  "2010s R&B",
-  "2010s Reggaeton",
-  "2010s and 2020s Pop (Dance Remixes)",
-  "2010s and 2020s Pop Dance Originals & Remixes",
-  "2020s Hip-Hop",
-  "2020s Indie Pop",
-  "2020s Indie Rock",
-  "2020s Pop",
-  "2020s R&B",
-  "2020s Reggaeton",
-  "20s Jazz & Big-Band",
-  "50s Standards",
-  "50s Vocal Jazz",
-  "60s Vocal Jazz",
-  "70s Pop",
-  "80s Dance",
-  "80s Hip-Hop",
-  "80s Pop",
-  "80s R&B",
-  "80s Rock",
-  "90s & 00s Dancehall",
-  "90s Alternative",
-  "90s Dance",
-  "90s Grunge",
-  "90s Hip-Hop",
-  "90s Pop",
-  "90s R&B",
-  "90s Rock",
-  "Afro Funk & Soul (Classics)",
-  "Afro Funk & Soul (Modern)",
-  "Afro Funk Instrumentals",
-  "Afro Nu-Disco",
-  "Afro-Dance",
-  "Afro-Disco",
-  "Afro-House",
-  "Afro-Lounge",
-  "Afrobeat",
-  "Afrobeats",
-  "Alt Modern Country",
-  "Alternative R&B",
-  "Amapiano",
-  "Ambient",
-  "Ambient Piano",
-  "Balearic",
-  "Bluegrass",
-  "Blues",
-  "Bossa Nova Covers",
-  "Calming Frequencies",
-  "Chillout",
-  "Christmas Acoustic",
-  "Christmas Classics",
-  "Christmas Coffeehouse",
-  "Christmas Country",
-  "Christmas Folk",
-  "Christmas Funk & Soul",
-  "Christmas Indie",
-  "Christmas Indie Acoustic",
-  "Christmas Jazz",
-  "Christmas Pop",
-  "Classic Bachata",
-  "Classic Bossa Nova",
-  "Classic Country Pop",
-  "Classic Folk",
-  "Classic Latin Pop",
-  "Classic Merengue",
-  "Classic Rock",
-  "Classic Salsa",
-  "Classical",
-  "Clean 90s Hip-Hop",
-  "Country Remixed",
-  "Cuban Jazz",
-  "Deep House (Jazz)",
-  "Deep House (Vocal)",
-  "Disco Classics (70s and 80s)",
-  "Disco Edits",
-  "Disco House",
-  "Doo-Wop",
-  "EDM Classics",
-  "Early Alternative",
-  "East Asian Instrumentals",
-  "French Disco",
-  "French Electronica",
-  "French Funk & Soul",
-  "French Hip-Hop",
-  "French Indie",
-  "French Jazz",
-  "French Pop",
-  "Funk & Soul Classics",
-  "Funk Classics",
-  "Garage Rock (60s & 70s)",
-  "Global Disco",
-  "Global Disco House",
-  "Global Electronica (Non French)",
-  "Global Funk & Soul",
-  "Global Instrumentals (Organic)",
-  "Global Pop (Eastern)",
-  "Golden Era Hip-Hop",
-  "Hawaiian Acoustic Guitar (Instrumental)",
-  "Hawaiian Easy Listening",
-  "Hip Hop Instrumentals",
-  "Hip-Hop Samples",
-  "Indie Dance",
-  "Indie Electronica",
-  "Indie Folk",
-  "Indie Sleaze",
-  "Indie Soft Pop",
-  "Indie Soft Rock",
-  "Instrumental Electronica",
-  "Irish Rock Classics",
-  "Italo-Disco",
-  "Japanese Jazz",
-  "Jazz & Piano",
-  "Jazz Piano Standards",
-  "Jazz Standards",
-  "Latin Dance",
-  "Latin Funk & Soul (Classic)",
-  "Latin Funk & Soul (Modern)",
-  "Latin Funk Instrumentals",
-  "Latin Nu-Disco",
-  "Latin-Disco",
-  "Latin-Lounge",
-  "Lo-Fi Beats",
-  "Lounge (Agnostic)",
-  "Lounge (French)",
-  "Middle Eastern Funk & Soul",
-  "Modern Bossa Nova",
-  "Modern Country Pop",
-  "Modern Dance",
-  "Modern Dancehall",
-  "Modern Disco",
-  "Modern Funk",
-  "Modern Instrumentals (Organic)",
-  "Modern Latin Pop",
-  "Modern Reggae",
-  "Modern Salsa",
-  "Modern Soul",
-  "Motown",
-  "Mumble Rap",
-  "Native American Spa",
-  "Natural Soundscape",
-  "Neo Soul",
-  "Neo-Classical",
-  "Neo-Soul",
-  "New Jack Swing",
-  "New Wave",
-  "Nu-Disco (Agnostic)",
-  "Nu-Jazz",
-  "Organic House (Afro)",
-  "Organic House (Agnostic)",
-  "Organic House (Indo)",
-  "Organic House (Latin)",
-  "Organic House (Middle Eastern)",
-  "Outlaw Country (Classics)",
-  "Outlaw Country (Modern)",
-  "Psychedelic Rock",
-  "Refined Covers",
-  "Reggae Classics",
-  "Rockabilly",
-  "Roots Country",
-  "Roots Reggae",
-  "Ska",
-  "Soft Pop",
-  "Soul Classics",
-  "Soulful House",
-  "Spanish Indie",
-  "Stadium Rock",
-  "Trip-Hop",
-  "Tropical House",
-  "World Lounge",
-  "Yacht Rock"
-];
-
 export const ENERGY_LEVELS = [
   "Very Low",
   "Low",
@@ -241,10 +53,35 @@ export const APPROVAL_STATUS_LABELS: Record<string, string> = {
   pending: "Pending",
 };
 
+export const CONFIDENCE_LEVELS = [
+  "all",
+  "low",
+  "medium",
+  "high",
+] as const;
+
+export const CONFIDENCE_LEVEL_LABELS: Record<string, string> = {
+  all: "All",
+  low: "Low (< 60%)",
+  medium: "Medium (60-85%)",
+  high: "High (85%+)",
+};
+
+// Overall AI confidence range per level (min inclusive, max exclusive)
+export const CONFIDENCE_LEVEL_RANGES: Record<string, { min?: number; max?: number }> = {
+  low: { max: 0.6 },
+  medium: { min: 0.6, max: 0.85 },
+  high: { min: 0.85 },
+};
+
+// AI fields below this confidence are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
 // TypeScript types for compile-time safety
 export type EnergyLevel = (typeof ENERGY_LEVELS)[number];
 export type AccessibilityType = (typeof ACCESSIBILITY_TYPES)[number];
 export type ExplicitType = (typeof EXPLICIT_TYPES)[number];
 export type AIStatus = (typeof AI_STATUSES)[number];
 export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+export type ConfidenceLevel = (typeof CONFIDENCE_LEVELS)[number];
 export type Subgenre = (typeof SUBGENRES)[number];
@@ -19,12 +19,39 @@ export interface Song {
   ai_error_message: string | null;
   ai_reasoning: string | null;
   ai_context_used: string | null;
+  // Google Search queries and pages behind ai_reasoning/ai_context_used
+  ai_grounding: Grounding | null;
   ai_energy: string | null;
   ai_accessibility: string | null;
   ai_explicit: string | null;
+  // Why the latest explicit verdict was reached (null for songs checked before evidence was kept)
+  ai_explicit_evidence: ExplicitEvidence | null;
   ai_subgenre_1: string | null;
   ai_subgenre_2: string | null;
   ai_subgenre_3: string | null;
+  ai_repairs: FieldRepair[] | null;
+  ai_prompt_id: string | null;
+  // AI confidence (0-1); ai_confidence is the lowest field confidence
+  ai_confidence: number | null;
+  ai_energy_confidence: number | null;
+  ai_accessibility_confidence: number | null;
+  ai_explicit_confidence: number | null;
+  ai_subgenre_1_confidence: number | null;
+  ai_subgenre_2_confidence: number | null;
+  ai_subgenre_3_confidence: number | null;
+  // Measured from the preview/source audio (null until analyzed)
+  audio_tempo: number | null;
+  audio_tempo_confidence: number | null;
+  audio_loudness_lufs: number | null;
+  audio_rms_db: number | null;
+  audio_brightness: number | null;
+  audio_onset_rate: number | null;
+  audio_energy_score: number | null;
+  audio_source: 'preview' | 'source' | null;
+  audio_analyzed_at: string | null;
+  // Fields a curator edited; classification only proposes new values for them
+  locked_fields: LockableField[];
+  ai_proposed: ProposedValues | null;
   reviewed: boolean;
   reviewed_by: string | null;
   reviewed_at: string | null;
@@ -33,10 +60,110 @@ export interface Song {
   approval_status: 'PENDING' | 'APPROVED' | 'REJECTED';
   approved_by: string | null;
   approved_at: string | null;
+  rejection_reason: string | null; // Code from GET /api/rejection-reasons
+  rejection_note: string | null;
   created_at: string;
   modified_at: string;
 }
 
+export type LockableField =
+  | 'ai_energy'
+  | 'ai_accessibility'
+  | 'ai_explicit'
+  | 'ai_subgenre_1'
+  | 'ai_subgenre_2'
+  | 'ai_subgenre_3';
+
+export interface ProposedValue {
+  value: string | null;
+  confidence: number | null;
+  promptId: string | null;
+  proposedAt: string;
+}
+
+export type ProposedValues = Partial<Record<LockableField, ProposedValue>>;
+
+export interface Grounding {
+  queries: string[];
+  // cited: passages of the AI's answer the page supports
+  sources: Array<{ url: string; title: string | null; cited: string[] }>;
+}
+
+export interface ExplicitEvidence {
+  provider: ExplicitProvider;
+  // Verdict the evidence supports (may differ from a curator-edited ai_explicit)
+  classification: string;
+  examples: Array<{ line: string; lineNumber?: number; terms?: string[] }>;
+  reasoning: string;
+  sources: Array<{ url: string; title: string | null }>;
+  checkedAt: string;
+  jobId: string;
+}
+
+export interface FieldRepair {
+  field: 'energy' | 'accessibility' | 'subgenre1' | 'subgenre2' | 'subgenre3';
+  from: string;
+  to: string | null;
+  method: 'case' | 'fuzzy' | 'reprompt' | 'dropped';
+  similarity?: number;
+}
+
+// Curator-reviewed song given to the prompt as a few-shot example
+export interface FewShotExample {
+  isrc: string;
+  artist: string;
+  title: string;
+  energy: string;
+  accessibility: string;
+  subgenres: string[];
+  match: 'artist' | 'subgenre';
+  corrected: boolean;
+}
+
+export interface ClassificationRun {
+  id: string;
+  isrc: string;
+  provider: string;
+  model: string;
+  prompt_id: string | null;
+  prompt_hash: string | null;
+  input: { artist: string; title: string; metadata: Record<string, unknown> };
+  raw_response: string | null;
+  output: {
+    energy: string | null;
+    accessibility: string | null;
+    subgenre1: string | null;
+    subgenre2: string | null;
+    subgenre3: string | null;
+    reasoning: string | null;
+    context: string | null;
+    confidence: Record<string, number | null> | null;
+  } | null;
+  repairs: FieldRepair[] | null;
+  examples: FewShotExample[] | null;
+  grounding: Grounding | null;
+  status: 'SUCCESS' | 'ERROR';
+  error_message: string | null;
+  cached: boolean;
+  latency_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  total_tokens: number | null;
+  created_at: string;
+}
+
+export type SongChangeSource = 'CURATOR' | 'AI' | 'IMPORT' | 'BULK' | 'REVERT';
+
+// One write to a song: every tracked field it changed, with old and new values as text
+export interface SongChangeSet {
+  change_set_id: string;
+  source: SongChangeSource;
+  context: string | null;
+  changed_by: string | null;
+  created_at: string;
+  changes: Array<{ id: string; field: string; old_value: string | null; new_value: string | null }>;
+}
+
 export interface PaginationInfo {
   page: number;
   limit: number;
@@ -73,6 +200,7 @@ export interface GetSongsParams {
   limit?: number;
   // Multi-select filters (arrays)
   subgenres?: string[];
+  categories?: number[]; // Category ids; each matches all of its subgenres
   energies?: string[];
   accessibilities?: string[];
   explicits?: string[];
@@ -83,11 +211,16 @@ export interface GetSongsParams {
   uploadBatchId?: string;
   playlistId?: string;
   search?: string;
+  // Overall AI confidence range (0-1)
+  minConfidence?: number;
+  maxConfidence?: number;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
 
 export interface UpdateSongPayload {
+  // The song's modified_at as loaded; a stale value gets a SongConflictError
+  expected_modified_at: string;
   ai_energy?: string;
   ai_accessibility?: string;
   ai_explicit?: string | null;
@@ -97,27 +230,40 @@ export interface UpdateSongPayload {
   curator_notes?: string | null;
   // Approval workflow (admin only)
   approval_status?: 'APPROVED' | 'REJECTED' | 'PENDING';
+  // Required when rejecting
+  rejection_reason?: string;
+  rejection_note?: string | null;
 }
 
 /**
- * Fetches songs with optional filtering and pagination
+ * Converts song list parameters to their query string form (also the filters
+ * body of bulk endpoints)
  */
-export async function getSongs(params: GetSongsParams = {}): Promise<PaginatedResponse> {
-  const query = new URLSearchParams();
+export function songFilterParams(params: GetSongsParams): Record<string, string> {
+  const result: Record<string, string> = {};
 
   Object.entries(params).forEach(([key, value]) => {
     if (value !== undefined && value !== null && value !== '' && value !== 'all') {
       // Handle array values (multi-select filters) - join with comma
       if (Array.isArray(value)) {
         if (value.length > 0) {
-          query.append(key, value.join(','));
+          result[key] = value.join(',');
         }
       } else {
-        query.append(key, String(value));
+        result[key] = String(value);
       }
     }
   });
 
+  return result;
+}
+
+/**
+ * Fetches songs with optional filtering and pagination
+ */
+export async function getSongs(params: GetSongsParams = {}): Promise<PaginatedResponse> {
+  const query = new URLSearchParams(songFilterParams(params));
+
   const url = `/api/songs${query.toString() ? `?${query.toString()}` : ''}`;
 
   const response = await fetch(url, {
@@ -132,8 +278,23 @@ export async function getSongs(params: GetSongsParams = {}): Promise<PaginatedRe
   return response.json();
 }
 
+/**
+ * Thrown by updateSong when the song changed after it was loaded. Carries the
+ * current version so the caller can merge.
+ */
+export class SongConflictError extends Error {
+  current: Song;
+
+  constructor(message: string, current: Song) {
+    super(message);
+    this.name = 'SongConflictError';
+    this.current = current;
+  }
+}
+
 /**
  * Updates a song's classification fields
+ * @throws SongConflictError if the song changed since payload.expected_modified_at
  */
 export async function updateSong(isrc: string, payload: UpdateSongPayload): Promise<Song> {
   const response = await fetch(`/api/songs/${isrc}`, {
@@ -147,6 +308,9 @@ export async function updateSong(isrc: string, payload: UpdateSongPayload): Prom
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Failed to update song' }));
+    if (response.status === 409 && error.data) {
+      throw new SongConflictError(error.error, error.data);
+    }
     throw new Error(error.error || 'Failed to update song');
   }
 
@@ -154,6 +318,89 @@ export async function updateSong(isrc: string, payload: UpdateSongPayload): Prom
   return result.data;
 }
 
+/**
+ * Accepts or dismisses AI values proposed for a song's locked fields
+ * (all pending proposals when no fields are given)
+ */
+export async function resolveProposals(
+  isrc: string,
+  action: 'accept' | 'dismiss',
+  fields?: LockableField[]
+): Promise<Song> {
+  const response = await fetch(`/api/songs/${encodeURIComponent(isrc)}/proposals`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action, fields }),
+    credentials: 'include', // Include cookies for authentication
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update proposals' }));
+    throw new Error(error.error || 'Failed to update proposals');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Fetches a song's classification run history (newest first)
+ */
+export async function getClassificationRuns(isrc: string): Promise<ClassificationRun[]> {
+  const response = await fetch(`/api/songs/${encodeURIComponent(isrc)}/runs`, {
+    credentials: 'include', // Include cookies for authentication
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch classification history' }));
+    throw new Error(error.error || 'Failed to fetch classification history');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+/**
+ * Fetches a song's field-level change history (newest first)
+ */
+export async function getSongHistory(isrc: string): Promise<SongChangeSet[]> {
+  const response = await fetch(`/api/songs/${encodeURIComponent(isrc)}/history`, {
+    credentials: 'include', // Include cookies for authentication
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch change history' }));
+    throw new Error(error.error || 'Failed to fetch change history');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+/**
+ * Restores a song to how it was right after a change set (admin only)
+ */
+export async function revertSong(isrc: string, changeSetId: string): Promise<Song> {
+  const response = await fetch(`/api/songs/${encodeURIComponent(isrc)}/revert`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ changeSetId }),
+    credentials: 'include', // Include cookies for authentication
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to revert song' }));
+    throw new Error(error.error || 'Failed to revert song');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 /**
  * Fetches all upload batches with metadata
  */
@@ -190,39 +437,42 @@ export async function getPlaylists(): Promise<Playlist[]> {
 
 export interface UploadStatus {
   batchId: string;
-  playlistId: string;
-  playlistName: string;
+  jobId: string;
+  kind: 'UPLOAD' | 'RECLASSIFY';
+  playlistId: string | null;
+  playlistName: string | null;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETE';
   total: number;
   processed: number;
+  imported: number;
+  failed: number;
+  pending: number;
+  retrying: number;
+  explicitPending: number;
+  skipped: number;
   complete: boolean;
   newSongs: number;
   duplicateSongs: number;
-}
-
-// New upload flow interfaces
-export interface SongToProcess {
-  artist: string;
-  title: string;
-  isrc?: string;
-  bpm?: number;
-  spotifyTrackId?: string;
-  s3Url?: string;
-  artworkUrl?: string;
-  spotifyPreviewUrl?: string;
-  spotifyArtworkUrl?: string;
+  errors: Array<{
+    isrc: string;
+    artist: string;
+    title: string;
+    error: string;
+    attempts: number;
+  }>;
 }
 
 export interface UploadResponse {
   batchId: string;
+  jobId: string;
   playlistId: string;
   playlistName: string;
-  status: 'ready' | 'processing' | 'complete';
+  status: 'processing' | 'complete';
   summary: {
     total: number;
     toProcess: number;
     skipped: number;
   };
-  songsToProcess: SongToProcess[];
   skippedSongs: Array<{
     isrc: string;
     title: string;
@@ -230,156 +480,728 @@ export interface UploadResponse {
   }>;
 }
 
-export interface ProcessedSong {
-  isrc: string;
-  title: string;
-  artist: string;
-  aiEnergy?: string | null;
-  aiAccessibility?: string | null;
-  aiSubgenre1?: string | null;
-  aiSubgenre2?: string | null;
-  aiSubgenre3?: string | null;
-  aiExplicit?: string | null;
-  status: 'success' | 'error';
-  error?: string;
+export type ReclassifyTarget = 'all' | 'classification' | 'explicit';
+
+/**
+ * Explicit content detection: Parallel AI web research, or the lexicon check
+ * on stored lyrics (songs without lyrics fall back to Parallel AI)
+ */
+export type ExplicitProvider = 'parallel' | 'lyrics';
+
+export const EXPLICIT_PROVIDER_LABELS: Record<ExplicitProvider, string> = {
+  parallel: 'Parallel AI (web research)',
+  lyrics: 'Lyrics lexicon (songs with lyrics)',
+};
+
+export interface ReclassifyRequest {
+  isrcs?: string[];
+  filters?: Record<string, string>;
+  target?: ReclassifyTarget;
+  skipReviewed?: boolean;
+  // Omitted: the server's configured provider
+  explicitProvider?: ExplicitProvider;
 }
 
-export interface ProcessBatchResponse {
+export interface ReclassifyResponse {
+  success: boolean;
   batchId: string;
-  processed: number;
-  results: ProcessedSong[];
-  errors: Array<{ artist: string; title: string; error: string }>;
+  jobId: string;
+  matched: number;
+  queued: number;
+  skippedReviewed: number;
 }
 
-// Explicit detection interfaces
-export interface ExplicitSubmission {
-  index: number;
-  runId: string | null;
-  artist: string;
-  title: string;
-  status: 'submitted' | 'error';
-  error?: string;
+/**
+ * Gets the status of an upload batch (for progress tracking)
+ */
+export async function getUploadStatus(batchId: string): Promise<UploadStatus> {
+  const response = await fetch(`/api/songs/upload-status?batchId=${encodeURIComponent(batchId)}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to get upload status' }));
+    throw new Error(error.error || 'Failed to get upload status');
+  }
+
+  return response.json();
 }
 
-export interface SubmitExplicitResponse {
-  submitted: number;
-  total: number;
-  submissions: ExplicitSubmission[];
+/**
+ * Runs one pass of the upload worker. Vercel cron normally does this; the
+ * upload modal calls it too so uploads progress without cron.
+ */
+export async function runUploadWorker(): Promise<void> {
+  const response = await fetch('/api/songs/upload-worker', {
+    method: 'POST',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to run upload worker' }));
+    throw new Error(error.error || 'Failed to run upload worker');
+  }
+}
+
+/**
+ * Queues AI reclassification for songs (by ISRC or GET /api/songs filters).
+ * Progress is reported by getUploadStatus(batchId).
+ */
+export async function reclassifySongs(request: ReclassifyRequest): Promise<ReclassifyResponse> {
+  const response = await fetch('/api/songs/reclassify', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to queue reclassification' }));
+    throw new Error(error.error || 'Failed to queue reclassification');
+  }
+
+  return response.json();
+}
+
+export type BulkSubgenreEdit =
+  | { action: 'add'; value: string }
+  | { action: 'replace'; from: string; to: string };
+
+export interface BulkUpdate {
+  ai_energy?: string;
+  ai_accessibility?: string;
+  ai_explicit?: string | null; // null clears it
+  subgenre?: BulkSubgenreEdit;
+  append_notes?: string;
 }
 
-export interface ExplicitResult {
+export interface BulkUpdateRequest {
+  isrcs?: string[];
+  filters?: Record<string, string>;
+  update: BulkUpdate;
+  preview?: boolean;
+}
+
+export interface BulkUpdateResult {
   isrc: string;
-  classification: string | null;
-  status: 'success' | 'error';
-  error?: string;
+  artist: string | null;
+  title: string | null;
+  status: 'updated' | 'unchanged' | 'skipped';
+  reason?: string;
+  changes: Array<{ field: string; old_value: string | null; new_value: string | null }>;
 }
 
-export interface PollExplicitResponse {
-  polled: number;
-  successful: number;
-  results: ExplicitResult[];
+export interface BulkUpdateResponse {
+  preview: boolean;
+  changeSetId: string | null;
+  matched: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  results: BulkUpdateResult[];
 }
 
 /**
- * Gets the status of an upload batch (for progress tracking)
+ * Applies one update to many songs (by ISRC or GET /api/songs filters), or
+ * with preview: true reports what it would change
  */
-export async function getUploadStatus(batchId: string): Promise<UploadStatus> {
-  const response = await fetch(`/api/songs/upload-status?batchId=${encodeURIComponent(batchId)}`, {
+export async function bulkUpdateSongs(request: BulkUpdateRequest): Promise<BulkUpdateResponse> {
+  const response = await fetch('/api/songs/bulk', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
     credentials: 'include',
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to get upload status' }));
-    throw new Error(error.error || 'Failed to get upload status');
+    const error = await response.json().catch(() => ({ error: 'Failed to update songs' }));
+    throw new Error(error.error || 'Failed to update songs');
   }
 
   return response.json();
 }
 
+export interface RejectionReason {
+  code: string;
+  label: string;
+}
+
+/**
+ * Fetches the configured rejection reason codes
+ */
+export async function getRejectionReasons(): Promise<RejectionReason[]> {
+  const response = await fetch('/api/rejection-reasons', {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch rejection reasons' }));
+    throw new Error(error.error || 'Failed to fetch rejection reasons');
+  }
+
+  const data = await response.json();
+  return data.reasons;
+}
+
+export interface BulkApprovalRequest {
+  isrcs: string[];
+  approval_status: 'APPROVED' | 'REJECTED' | 'PENDING';
+  rejection_reason?: string;
+  rejection_note?: string | null;
+}
+
+export interface BulkApprovalResponse {
+  success: boolean;
+  changeSetId: string;
+  updated: number;
+  unchanged: number;
+  notFound: string[];
+}
+
 /**
- * Submit all explicit detection tasks upfront (fast, non-blocking)
+ * Approves, rejects or resets many songs at once (admin only)
  */
-export async function submitAllExplicit(
-  songs: Array<{ artist: string; title: string }>
-): Promise<SubmitExplicitResponse> {
-  const response = await fetch('/api/songs/submit-explicit', {
+export async function bulkSetApproval(request: BulkApprovalRequest): Promise<BulkApprovalResponse> {
+  const response = await fetch('/api/songs/approval', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ songs }),
+    body: JSON.stringify(request),
     credentials: 'include',
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to submit explicit tasks' }));
-    throw new Error(error.error || 'Failed to submit explicit tasks');
+    const error = await response.json().catch(() => ({ error: 'Failed to update approval status' }));
+    throw new Error(error.error || 'Failed to update approval status');
   }
 
   return response.json();
 }
 
+export interface RejectionBreakdown {
+  id: string | null;
+  name: string;
+  count: number;
+  reasons: Record<string, number>;
+}
+
+export interface RejectionReport {
+  total: number;
+  byReason: Array<RejectionReason & { count: number }>;
+  byPlaylist: RejectionBreakdown[];
+  byCurator: RejectionBreakdown[];
+}
+
 /**
- * Process a batch of songs with Gemini classification only
+ * Fetches rejections broken down by reason, playlist and curator (admin only)
+ * @param params - Optional ISO date range on when songs were rejected
  */
-export async function processBatch(
-  batchId: string,
-  playlistId: string,
-  uploadBatchName: string,
-  songs: SongToProcess[]
-): Promise<ProcessBatchResponse> {
-  const response = await fetch('/api/songs/process-batch', {
+export async function getRejectionReport(params: { from?: string; to?: string } = {}): Promise<RejectionReport> {
+  const query = new URLSearchParams();
+  if (params.from) query.set('from', params.from);
+  if (params.to) query.set('to', params.to);
+
+  const response = await fetch(`/api/admin/rejections${query.toString() ? `?${query.toString()}` : ''}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch rejection report' }));
+    throw new Error(error.error || 'Failed to fetch rejection report');
+  }
+
+  return response.json();
+}
+
+export type ReviewQueueMode = 'STANDARD' | 'BLIND';
+
+export interface ReviewQueue {
+  id: string;
+  name: string;
+  filters: Record<string, string>;
+  mode: ReviewQueueMode;
+  remaining: number; // Open songs, including claimed ones
+}
+
+export interface NextQueueSong {
+  data: Song | null; // null when no unclaimed song is left; AI tags blanked in a blind queue
+  expiresAt: string | null;
+  remaining: number;
+  blind: boolean;
+}
+
+export interface ReviewQueueAssigneeProgress {
+  id: string;
+  name: string;
+  email: string;
+  reviewed: number;
+  claimed: number;
+  lastReviewedAt: string | null;
+}
+
+export interface ReviewQueueProgress {
+  id: string;
+  name: string;
+  filters: Record<string, string>;
+  mode: ReviewQueueMode;
+  status: 'ACTIVE' | 'ARCHIVED';
+  createdBy: string | null;
+  createdAt: string;
+  total: number;
+  reviewed: number;
+  remaining: number;
+  claimed: number;
+  assignees: ReviewQueueAssigneeProgress[];
+}
+
+export interface CreateReviewQueueRequest {
+  name: string;
+  filters?: Record<string, string>;
+  uploadBatchId?: string;
+  assignees: string[]; // User emails
+  mode?: ReviewQueueMode;
+}
+
+/**
+ * Fetches the active review queues the current user can take songs from
+ */
+export async function getReviewQueues(): Promise<ReviewQueue[]> {
+  const response = await fetch('/api/review-queues', {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch review queues' }));
+    throw new Error(error.error || 'Failed to fetch review queues');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+/**
+ * Claims the next song from a review queue
+ * @param skip - ISRC of the song being moved past; it isn't handed back right away
+ */
+export async function getNextQueueSong(queueId: string, skip?: string): Promise<NextQueueSong> {
+  const response = await fetch(`/api/review-queues/${encodeURIComponent(queueId)}/next`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ skip }),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to get the next song' }));
+    throw new Error(error.error || 'Failed to get the next song');
+  }
+
+  return response.json();
+}
+
+/**
+ * Creates a review queue from filters or an upload batch (admin only)
+ */
+export async function createReviewQueue(request: CreateReviewQueueRequest): Promise<void> {
+  const response = await fetch('/api/admin/review-queues/create', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create review queue' }));
+    throw new Error(error.error || 'Failed to create review queue');
+  }
+}
+
+/**
+ * Renames, reassigns or archives a review queue (admin only)
+ */
+export async function updateReviewQueue(
+  id: string,
+  update: { name?: string; assignees?: string[]; status?: 'ACTIVE' | 'ARCHIVED' }
+): Promise<void> {
+  const response = await fetch(`/api/admin/review-queues/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(update),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update review queue' }));
+    throw new Error(error.error || 'Failed to update review queue');
+  }
+}
+
+/**
+ * Fetches review queues with progress per assignee (admin only)
+ */
+export async function getReviewQueueProgress(status: 'ACTIVE' | 'ARCHIVED' | 'all' = 'ACTIVE'): Promise<ReviewQueueProgress[]> {
+  const response = await fetch(`/api/admin/review-queues?status=${status}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch review queues' }));
+    throw new Error(error.error || 'Failed to fetch review queues');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+// A curator's blind labels, in song field names
+export type BlindLabelValues = Record<LockableField, string | null>;
+
+export interface BlindLabelResult {
+  rater: number;
+  status: 'WAITING' | 'AGREED' | 'DISAGREED'; // WAITING until the second label is in
+}
+
+export interface BlindDisagreement {
+  isrc: string;
+  title: string | null;
+  artist: string | null;
+  artwork: string | null;
+  labels: Array<{ rater: number; userId: string; userName: string; values: BlindLabelValues; createdAt: string }>;
+  ai: BlindLabelValues; // The AI's tags when the first label came in
+  differs: LockableField[];
+}
+
+export interface FieldAgreement {
+  n: number;
+  agreement: number | null;
+  kappa: number | null;
+}
+
+export interface RaterComparison {
+  songs: number;
+  fields: Partial<Record<LockableField, FieldAgreement>>;
+}
+
+export interface AgreementReport {
+  curators: RaterComparison;
+  ai: RaterComparison;
+  pairs: Array<RaterComparison & { raters: Array<{ id: string; name: string }> }>;
+  aiByCurator: Array<RaterComparison & { rater: { id: string; name: string } }>;
+}
+
+/**
+ * Submits the current user's labels for a song from a blind review queue
+ */
+export async function submitBlindLabel(
+  isrc: string,
+  values: Partial<BlindLabelValues>
+): Promise<BlindLabelResult> {
+  const response = await fetch(`/api/songs/${encodeURIComponent(isrc)}/blind-label`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(values),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save label' }));
+    throw new Error(error.error || 'Failed to save label');
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetches blind reviews whose raters disagreed (admin only)
+ */
+export async function getBlindDisagreements(queueId?: string): Promise<{ data: BlindDisagreement[]; total: number }> {
+  const query = queueId ? `?queueId=${encodeURIComponent(queueId)}` : '';
+  const response = await fetch(`/api/admin/blind-reviews${query}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch blind reviews' }));
+    throw new Error(error.error || 'Failed to fetch blind reviews');
+  }
+
+  return response.json();
+}
+
+/**
+ * Applies the final labels to a song its blind raters disagreed on (admin only)
+ */
+export async function reconcileBlindReview(isrc: string, values: Partial<BlindLabelValues>): Promise<Song> {
+  const response = await fetch(`/api/songs/${encodeURIComponent(isrc)}/reconcile`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
-      batchId,
-      playlistId,
-      uploadBatchName,
-      songs,
-    }),
+    body: JSON.stringify(values),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to reconcile blind review' }));
+    throw new Error(error.error || 'Failed to reconcile blind review');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+/**
+ * Fetches inter-rater agreement for blind reviews (admin only)
+ * @param params - Optional queue and ISO date range on when labels were given
+ */
+export async function getAgreementReport(
+  params: { queueId?: string; from?: string; to?: string } = {}
+): Promise<AgreementReport> {
+  const query = new URLSearchParams();
+  if (params.queueId) query.set('queueId', params.queueId);
+  if (params.from) query.set('from', params.from);
+  if (params.to) query.set('to', params.to);
+
+  const response = await fetch(`/api/admin/blind-reviews/agreement${query.toString() ? `?${query.toString()}` : ''}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch agreement report' }));
+    throw new Error(error.error || 'Failed to fetch agreement report');
+  }
+
+  return response.json();
+}
+
+export interface TaxonomySubgenre {
+  id: number;
+  name: string;
+  description: string | null;
+  deprecated: boolean;
+  songCount?: number; // Admin listing, or getSubgenres({ counts: true })
+}
+
+export interface TaxonomyCategory {
+  id: number;
+  name: string;
+  description: string | null;
+  songCount?: number; // Songs with any of the category's subgenres (getSubgenres({ counts: true }))
+  subgenres: TaxonomySubgenre[];
+}
+
+export interface AdminTaxonomy {
+  categories: TaxonomyCategory[];
+  unknown: Array<{ name: string; songCount: number }>; // Song subgenres missing from the taxonomy
+}
+
+export interface SubgenreUpdate {
+  name?: string;
+  description?: string;
+  deprecated?: boolean;
+  categoryId?: number;
+  position?: number;
+}
+
+export interface CategoryUpdate {
+  name?: string;
+  description?: string;
+  position?: number;
+}
+
+/**
+ * Fetches the subgenre taxonomy (categories with their subgenres, in display order)
+ * @param counts - Include song counts per category and subgenre
+ */
+export async function getSubgenres({ counts = false }: { counts?: boolean } = {}): Promise<TaxonomyCategory[]> {
+  const response = await fetch(`/api/subgenres${counts ? '?counts=true' : ''}`, {
+    credentials: 'include', // Include cookies for authentication
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch subgenres' }));
+    throw new Error(error.error || 'Failed to fetch subgenres');
+  }
+
+  const data = await response.json();
+  return data.categories;
+}
+
+/**
+ * Fetches the taxonomy with song counts per subgenre (admin only)
+ */
+export async function getAdminSubgenres(): Promise<AdminTaxonomy> {
+  const response = await fetch('/api/admin/subgenres', {
     credentials: 'include',
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to process batch' }));
-    throw new Error(error.error || 'Failed to process batch');
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch subgenres' }));
+    throw new Error(error.error || 'Failed to fetch subgenres');
   }
 
   return response.json();
 }
 
 /**
- * Poll all explicit detection results and update database
+ * Adds a subgenre to a category (admin only)
+ */
+export async function createSubgenre(categoryId: number, name: string, description?: string): Promise<void> {
+  const response = await fetch('/api/admin/subgenres/create', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ categoryId, name, description }),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to add subgenre' }));
+    throw new Error(error.error || 'Failed to add subgenre');
+  }
+}
+
+/**
+ * Renames, describes, deprecates or moves a subgenre (admin only).
+ * Resolves with the number of song slots a rename rewrote.
+ */
+export async function updateSubgenre(id: number, update: SubgenreUpdate): Promise<number> {
+  const response = await fetch(`/api/admin/subgenres/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(update),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update subgenre' }));
+    throw new Error(error.error || 'Failed to update subgenre');
+  }
+
+  const data = await response.json();
+  return data.songsUpdated;
+}
+
+/**
+ * Adds a subgenre category (admin only)
+ */
+export async function createCategory(name: string, description?: string): Promise<void> {
+  const response = await fetch('/api/admin/categories/create', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name, description }),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to add category' }));
+    throw new Error(error.error || 'Failed to add category');
+  }
+}
+
+/**
+ * Renames, describes or reorders a subgenre category (admin only)
+ */
+export async function updateCategory(id: number, update: CategoryUpdate): Promise<void> {
+  const response = await fetch(`/api/admin/categories/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(update),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update category' }));
+    throw new Error(error.error || 'Failed to update category');
+  }
+}
+
+export interface SubgenreMapping {
+  from: string;
+  to: string;
+}
+
+export interface SubgenreMigrationImpact {
+  songs: number;
+  slotsRewritten: number;
+  slotsDeduplicated: number; // Slots dropped because the song already had the target
+  exportedSongs: number;     // Songs that are not rejected, so appear in exports
+  playlists: number;
+  topPlaylists: Array<{ id: string; name: string; songCount: number }>;
+  byMapping: Array<SubgenreMapping & { songCount: number }>;
+}
+
+export interface SubgenreMigrationPreview {
+  impact: SubgenreMigrationImpact;
+  samples: Array<{
+    isrc: string;
+    artist: string | null;
+    title: string | null;
+    before: Array<string | null>;
+    after: Array<string | null>;
+  }>;
+}
+
+/**
+ * Previews mapping old subgenres onto new ones without changing anything (admin only)
  */
-export async function pollAllExplicit(
-  submissions: Array<{ runId: string; isrc: string; artist: string; title: string }>
-): Promise<PollExplicitResponse> {
-  const response = await fetch('/api/songs/poll-explicit', {
+export async function previewSubgenreMigration(mappings: SubgenreMapping[]): Promise<SubgenreMigrationPreview> {
+  const response = await fetch('/api/admin/subgenres/migrate', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ submissions }),
+    body: JSON.stringify({ mappings, preview: true }),
     credentials: 'include',
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Failed to poll explicit results' }));
-    throw new Error(error.error || 'Failed to poll explicit results');
+    const error = await response.json().catch(() => ({ error: 'Failed to preview migration' }));
+    throw new Error(error.error || 'Failed to preview migration');
   }
 
   return response.json();
 }
 
 /**
- * Utility to chunk an array into smaller batches
+ * Rewrites every song from the old subgenres to the new ones and deprecates
+ * the old ones (admin only)
  */
-export function chunkArray<T>(array: T[], size: number): T[][] {
-  const chunks: T[][] = [];
-  for (let i = 0; i < array.length; i += size) {
-    chunks.push(array.slice(i, i + size));
+export async function applySubgenreMigration(mappings: SubgenreMapping[]): Promise<SubgenreMigrationImpact> {
+  const response = await fetch('/api/admin/subgenres/migrate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ mappings }),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to migrate subgenres' }));
+    throw new Error(error.error || 'Failed to migrate subgenres');
   }
-  return chunks;
+
+  const data = await response.json();
+  return data.impact;
 }
@@ -0,0 +1,23 @@
+/**
+ * AI Confidence Helpers
+ *
+ * Shared by SongTable and ReviewModal to flag AI fields worth a second look.
+ */
+
+import { LOW_CONFIDENCE_THRESHOLD } from '../data/constants';
+
+/**
+ * True when the AI gave a confidence below the review threshold
+ * Fields without a confidence score are never flagged
+ */
+export function isLowConfidence(confidence: number | null | undefined): boolean {
+  return confidence !== null && confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Formats a 0-1 confidence as a whole percentage (e.g. "72%")
+ */
+export function formatConfidence(confidence: number | null | undefined): string {
+  if (confidence === null || confidence === undefined) return '—';
+  return `${Math.round(confidence * 100)}%`;
+}
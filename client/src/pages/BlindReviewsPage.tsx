@@ -0,0 +1,327 @@
+import { useState, useEffect } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import Header from '../components/Header';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '../components/ui/radio-group';
+import { ImageWithFallback } from '../components/figma/ImageWithFallback';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../components/ui/select';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getBlindDisagreements,
+  getAgreementReport,
+  getReviewQueueProgress,
+  reconcileBlindReview,
+  type AgreementReport,
+  type BlindDisagreement,
+  type BlindLabelValues,
+  type FieldAgreement,
+  type LockableField,
+  type RaterComparison,
+  type ReviewQueueProgress,
+} from '../lib/api';
+
+const FIELD_LABELS: Record<LockableField, string> = {
+  ai_energy: 'Energy',
+  ai_accessibility: 'Accessibility',
+  ai_explicit: 'Explicit',
+  ai_subgenre_1: 'Subgenre 1',
+  ai_subgenre_2: 'Subgenre 2',
+  ai_subgenre_3: 'Subgenre 3',
+};
+
+const LABEL_FIELDS = Object.keys(FIELD_LABELS) as LockableField[];
+
+// Fields the agreement report compares (see api/lib/agreement.ts)
+const AGREEMENT_FIELDS: LockableField[] = ['ai_energy', 'ai_accessibility', 'ai_explicit', 'ai_subgenre_1'];
+
+const ALL_QUEUES = 'all';
+
+// Choice for leaving an optional field empty
+const NONE = '_none';
+
+export default function BlindReviewsPage() {
+  const { user } = useAuth();
+  const [queues, setQueues] = useState<ReviewQueueProgress[]>([]);
+  const [queueId, setQueueId] = useState(ALL_QUEUES);
+  const [disagreements, setDisagreements] = useState<BlindDisagreement[]>([]);
+  const [total, setTotal] = useState(0);
+  const [report, setReport] = useState<AgreementReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = user?.role === 'ADMIN';
+
+  useEffect(() => {
+    if (isAdmin) {
+      getReviewQueueProgress('all')
+        .then((all) => setQueues(all.filter((queue) => queue.mode === 'BLIND')))
+        .catch((error) => toast.error(`Failed to load review queues: ${error.message}`));
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchData();
+    }
+  }, [isAdmin, queueId]);
+
+  async function fetchData() {
+    const queue = queueId === ALL_QUEUES ? undefined : queueId;
+    try {
+      const [pending, agreement] = await Promise.all([
+        getBlindDisagreements(queue),
+        getAgreementReport({ queueId: queue }),
+      ]);
+      setDisagreements(pending.data);
+      setTotal(pending.total);
+      setReport(agreement);
+    } catch (error: any) {
+      toast.error(`Failed to load blind reviews: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleReconcile(item: BlindDisagreement, values: BlindLabelValues) {
+    try {
+      await reconcileBlindReview(item.isrc, values);
+      toast.success(`Reconciled "${item.title}"`);
+      setDisagreements((prev) => prev.filter((entry) => entry.isrc !== item.isrc));
+      setTotal((prev) => prev - 1);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="h-screen flex flex-col bg-zinc-950">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <p className="text-zinc-400">Admin role required to manage blind reviews.</p>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-zinc-950">
+      <Header />
+
+      <main className="flex-1 overflow-auto px-6 py-4 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-zinc-100">Blind Reviews</h2>
+            <p className="text-sm text-zinc-400">
+              Songs labelled independently by two curators in blind review queues. Agreed labels are applied
+              automatically; disagreements are settled here.
+            </p>
+          </div>
+          <Select value={queueId} onValueChange={setQueueId}>
+            <SelectTrigger className="w-[240px] bg-zinc-950 border-zinc-700 text-zinc-100 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-zinc-900 border-zinc-800">
+              <SelectItem value={ALL_QUEUES} className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100">
+                All blind queues
+              </SelectItem>
+              {queues.map((queue) => (
+                <SelectItem key={queue.id} value={queue.id} className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100">
+                  {queue.name}{queue.status === 'ARCHIVED' && ' (archived)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading && <p className="text-zinc-400">Loading...</p>}
+
+        {report && (
+          <section className="space-y-2">
+            <h3 className="text-zinc-100">Agreement</h3>
+            <p className="text-xs text-zinc-500">
+              Share of songs with the same value, and Cohen's kappa (agreement beyond chance: 1 is perfect, 0 is chance).
+            </p>
+            <div className="bg-zinc-900 rounded-lg border border-zinc-700 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-500 border-b border-zinc-800">
+                    <th className="px-4 py-2 font-normal">Raters</th>
+                    <th className="px-4 py-2 font-normal">Songs</th>
+                    {AGREEMENT_FIELDS.map((field) => (
+                      <th key={field} className="px-4 py-2 font-normal">{FIELD_LABELS[field]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <AgreementRow label="All curator pairs" comparison={report.curators} strong />
+                  {report.pairs.map((pair) => (
+                    <AgreementRow
+                      key={pair.raters.map((rater) => rater.id).join(':')}
+                      label={pair.raters.map((rater) => rater.name).join(' & ')}
+                      comparison={pair}
+                    />
+                  ))}
+                  <AgreementRow label="AI vs all curators" comparison={report.ai} strong />
+                  {report.aiByCurator.map((entry) => (
+                    <AgreementRow key={entry.rater.id} label={`AI & ${entry.rater.name}`} comparison={entry} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        {!loading && (
+          <section className="space-y-2">
+            <h3 className="text-zinc-100">
+              Disagreements <span className="text-sm text-zinc-500">{total}</span>
+            </h3>
+            {disagreements.length === 0 && (
+              <p className="text-sm text-zinc-400">Nothing to reconcile.</p>
+            )}
+            {disagreements.map((item) => (
+              <ReconcileCard key={item.isrc} item={item} onReconcile={(values) => handleReconcile(item, values)} />
+            ))}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function formatAgreement(stats: FieldAgreement | undefined) {
+  if (!stats || stats.n === 0 || stats.agreement === null) return '—';
+  const kappa = stats.kappa === null ? '—' : stats.kappa.toFixed(2);
+  return `${Math.round(stats.agreement * 100)}% · κ ${kappa}`;
+}
+
+function AgreementRow({ label, comparison, strong = false }: { label: string; comparison: RaterComparison; strong?: boolean }) {
+  return (
+    <tr className={`border-b border-zinc-800 last:border-0 ${strong ? 'text-zinc-100' : 'text-zinc-300'}`}>
+      <td className={`px-4 py-2 ${strong ? 'font-medium' : 'pl-8'}`}>{label}</td>
+      <td className="px-4 py-2">{comparison.songs}</td>
+      {AGREEMENT_FIELDS.map((field) => (
+        <td key={field} className="px-4 py-2 whitespace-nowrap" title={`${comparison.fields[field]?.n ?? 0} songs compared`}>
+          {formatAgreement(comparison.fields[field])}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+/**
+ * A song whose raters disagreed: the admin picks the final value of each
+ * disputed field from the raters' labels (or the AI's tag)
+ */
+function ReconcileCard({ item, onReconcile }: { item: BlindDisagreement; onReconcile: (values: BlindLabelValues) => Promise<void> }) {
+  const [first, second] = item.labels;
+  const [choices, setChoices] = useState<Partial<Record<LockableField, string>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Each distinct value on offer for a field, with who gave it
+  const optionsFor = (field: LockableField) => {
+    const options: Array<{ value: string; sources: string[] }> = [];
+    const add = (value: string | null, source: string) => {
+      if (value === null) return;
+      const existing = options.find((option) => option.value === value);
+      if (existing) existing.sources.push(source);
+      else options.push({ value, sources: [source] });
+    };
+    add(first.values[field], first.userName);
+    add(second.values[field], second.userName);
+    add(item.ai[field], 'AI');
+    return options;
+  };
+
+  const isComplete = item.differs.every((field) => choices[field] !== undefined);
+
+  const handleApply = async () => {
+    const values = { ...first.values };
+    for (const field of item.differs) {
+      values[field] = choices[field] === NONE ? null : choices[field] ?? null;
+    }
+
+    setIsSaving(true);
+    try {
+      await onReconcile(values);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-700 p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        {item.artwork ? (
+          <ImageWithFallback src={item.artwork} alt={`${item.title} artwork`} className="w-12 h-12 rounded object-cover" />
+        ) : (
+          <div className="w-12 h-12 rounded bg-zinc-800" />
+        )}
+        <div className="flex-1">
+          <div className="text-zinc-100">{item.title}</div>
+          <div className="text-sm text-zinc-400">{item.artist} · {item.isrc}</div>
+        </div>
+        <Button
+          size="sm"
+          onClick={handleApply}
+          disabled={!isComplete || isSaving}
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+          Apply
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {LABEL_FIELDS.map((field) => {
+          if (!item.differs.includes(field)) {
+            const agreed = first.values[field];
+            if (agreed === null) return null;
+            return (
+              <div key={field} className="flex items-center gap-2 text-sm">
+                <span className="w-28 shrink-0 text-zinc-500">{FIELD_LABELS[field]}</span>
+                <span className="text-zinc-300">{agreed}</span>
+                <Badge variant="outline" className="text-xs border-zinc-700 text-zinc-500">agreed</Badge>
+              </div>
+            );
+          }
+
+          const options = optionsFor(field);
+          const allowNone = first.values[field] === null || second.values[field] === null;
+          return (
+            <div key={field} className="flex items-start gap-2 text-sm">
+              <span className="w-28 shrink-0 text-zinc-500 pt-0.5">{FIELD_LABELS[field]}</span>
+              <RadioGroup
+                value={choices[field] ?? ''}
+                onValueChange={(value) => setChoices((prev) => ({ ...prev, [field]: value }))}
+                className="flex flex-wrap gap-x-4 gap-y-1"
+              >
+                {options.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2 cursor-pointer text-zinc-200">
+                    <RadioGroupItem value={option.value} />
+                    <span>{option.value}</span>
+                    <span className="text-xs text-zinc-500">{option.sources.join(', ')}</span>
+                  </label>
+                ))}
+                {allowNone && (
+                  <label className="flex items-center gap-2 cursor-pointer text-zinc-200">
+                    <RadioGroupItem value={NONE} />
+                    <span className="text-zinc-400">None</span>
+                  </label>
+                )}
+              </RadioGroup>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,16 @@ import { useState, useEffect } from 'react';
 import { FilterPanel } from '../components/FilterPanel';
 import { SongTable } from '../components/SongTable';
 import { ReviewModal } from '../components/ReviewModal';
+import type { SongEdits } from '../components/MergeConflictDialog';
 import { ExportModal } from '../components/ExportModal';
 import { UploadModal } from '../components/UploadModal';
+import { ReclassifyModal } from '../components/ReclassifyModal';
+import { BulkEditDrawer } from '../components/BulkEditDrawer';
+import { CreateReviewQueueDialog } from '../components/CreateReviewQueueDialog';
 import { toast } from 'sonner';
-import { getSongs, updateSong, Song, UpdateSongPayload } from '../lib/api';
+import { getSongs, updateSong, bulkSetApproval, getReviewQueues, getNextQueueSong, songFilterParams, Song, SongConflictError, UpdateSongPayload, GetSongsParams, ReviewQueue } from '../lib/api';
+import { RejectDialog } from '../components/RejectDialog';
+import { useAuth } from '../contexts/AuthContext';
 import Header from '../components/Header';
 import {
   Select,
@@ -15,18 +21,31 @@ import {
   SelectValue,
 } from '../components/ui/select';
 import { Button } from '../components/ui/button';
+import { CONFIDENCE_LEVEL_RANGES } from '../data/constants';
 
 export default function SongsPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'ADMIN';
   const [songs, setSongs] = useState<Song[]>([]);
   const [selectedSong, setSelectedSong] = useState<Song | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [isReclassifyModalOpen, setIsReclassifyModalOpen] = useState(false);
+  const [isBulkEditOpen, setIsBulkEditOpen] = useState(false);
+  const [isBulkRejectOpen, setIsBulkRejectOpen] = useState(false);
+  const [isCreateQueueOpen, setIsCreateQueueOpen] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  // Review queues the user can take songs from; while one is active, Next in
+  // the review modal pulls from it instead of the current page
+  const [reviewQueues, setReviewQueues] = useState<ReviewQueue[]>([]);
+  const [activeQueue, setActiveQueue] = useState<ReviewQueue | null>(null);
+
   // Filter states
   // Multi-select filters (arrays)
   const [selectedSubgenres, setSelectedSubgenres] = useState<string[]>([]);
+  const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
   const [selectedEnergies, setSelectedEnergies] = useState<string[]>([]);
   const [selectedAccessibilities, setSelectedAccessibilities] = useState<string[]>([]);
   const [selectedExplicits, setSelectedExplicits] = useState<string[]>([]);
@@ -36,6 +55,7 @@ export default function SongsPage() {
   const [selectedApprovalStatus, setSelectedApprovalStatus] = useState('active'); // Default to "Active" (non-rejected songs)
   const [selectedBatchId, setSelectedBatchId] = useState('all');
   const [selectedPlaylistId, setSelectedPlaylistId] = useState('all');
+  const [selectedConfidence, setSelectedConfidence] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
 
   // Sort states
@@ -54,12 +74,36 @@ export default function SongsPage() {
   // Clear selections when filters change
   useEffect(() => {
     setSelectedIsrcs(new Set());
-  }, [selectedSubgenres, selectedStatus, selectedReviewStatus, selectedApprovalStatus, selectedEnergies, selectedAccessibilities, selectedExplicits, selectedBatchId, selectedPlaylistId, searchQuery]);
+  }, [selectedSubgenres, selectedCategories, selectedStatus, selectedReviewStatus, selectedApprovalStatus, selectedEnergies, selectedAccessibilities, selectedExplicits, selectedBatchId, selectedPlaylistId, selectedConfidence, searchQuery]);
 
   // Fetch songs when filters or page changes
   useEffect(() => {
     fetchSongs();
-  }, [selectedSubgenres, selectedStatus, selectedReviewStatus, selectedApprovalStatus, selectedEnergies, selectedAccessibilities, selectedExplicits, selectedBatchId, selectedPlaylistId, searchQuery, currentPage, sortBy, sortOrder, limit]);
+  }, [selectedSubgenres, selectedCategories, selectedStatus, selectedReviewStatus, selectedApprovalStatus, selectedEnergies, selectedAccessibilities, selectedExplicits, selectedBatchId, selectedPlaylistId, selectedConfidence, searchQuery, currentPage, sortBy, sortOrder, limit]);
+
+  useEffect(() => {
+    fetchReviewQueues();
+  }, []);
+
+  // The active filters as GET /api/songs parameters (also what bulk edit applies to)
+  const currentFilterParams = (): GetSongsParams => {
+    const confidenceRange = CONFIDENCE_LEVEL_RANGES[selectedConfidence];
+    return {
+      subgenres: selectedSubgenres.length > 0 ? selectedSubgenres : undefined,
+      categories: selectedCategories.length > 0 ? selectedCategories : undefined,
+      status: selectedStatus !== 'all' ? selectedStatus : undefined,
+      reviewStatus: selectedReviewStatus !== 'all' ? selectedReviewStatus : undefined,
+      approvalStatus: selectedApprovalStatus !== 'all' ? selectedApprovalStatus : undefined,
+      energies: selectedEnergies.length > 0 ? selectedEnergies : undefined,
+      accessibilities: selectedAccessibilities.length > 0 ? selectedAccessibilities : undefined,
+      explicits: selectedExplicits.length > 0 ? selectedExplicits : undefined,
+      uploadBatchId: selectedBatchId !== 'all' ? selectedBatchId : undefined,
+      playlistId: selectedPlaylistId !== 'all' ? selectedPlaylistId : undefined,
+      minConfidence: confidenceRange?.min,
+      maxConfidence: confidenceRange?.max,
+      search: searchQuery.trim() || undefined,
+    };
+  };
 
   const fetchSongs = async () => {
     setLoading(true);
@@ -67,16 +111,7 @@ export default function SongsPage() {
       const response = await getSongs({
         page: currentPage,
         limit,
-        subgenres: selectedSubgenres.length > 0 ? selectedSubgenres : undefined,
-        status: selectedStatus !== 'all' ? selectedStatus : undefined,
-        reviewStatus: selectedReviewStatus !== 'all' ? selectedReviewStatus : undefined,
-        approvalStatus: selectedApprovalStatus !== 'all' ? selectedApprovalStatus : undefined,
-        energies: selectedEnergies.length > 0 ? selectedEnergies : undefined,
-        accessibilities: selectedAccessibilities.length > 0 ? selectedAccessibilities : undefined,
-        explicits: selectedExplicits.length > 0 ? selectedExplicits : undefined,
-        uploadBatchId: selectedBatchId !== 'all' ? selectedBatchId : undefined,
-        playlistId: selectedPlaylistId !== 'all' ? selectedPlaylistId : undefined,
-        search: searchQuery.trim() || undefined,
+        ...currentFilterParams(),
         sortBy,
         sortOrder,
       });
@@ -92,6 +127,14 @@ export default function SongsPage() {
     }
   };
 
+  const fetchReviewQueues = async () => {
+    try {
+      setReviewQueues(await getReviewQueues());
+    } catch (error: any) {
+      console.error('Error fetching review queues:', error);
+    }
+  };
+
   const handleLimitChange = (newLimit: string) => {
     setLimit(parseInt(newLimit));
     setCurrentPage(1); // Reset to page 1 to avoid showing invalid page
@@ -102,12 +145,15 @@ export default function SongsPage() {
     setIsModalOpen(true);
   };
 
-  const handleSave = async (songId: number, updates: Partial<Song> & { approval_status?: 'APPROVED' | 'REJECTED' | 'PENDING' }) => {
-    const song = songs.find((s) => s.id === songId);
+  // Resolves to the saved song (undefined if the save failed). A save against a
+  // stale version is rethrown for the ReviewModal to merge.
+  const handleSave = async (songId: number, updates: SongEdits): Promise<Song | undefined> => {
+    // Songs handed out by a review queue may not be on the current page
+    const song = songs.find((s) => s.id === songId) ?? (selectedSong?.id === songId ? selectedSong : undefined);
     if (!song) return;
 
     try {
-      const payload: UpdateSongPayload = {};
+      const payload: UpdateSongPayload = { expected_modified_at: song.modified_at };
 
       // Include metadata fields if provided
       if (updates.ai_energy !== undefined) {
@@ -127,6 +173,10 @@ export default function SongsPage() {
       // Include approval status if provided (admin only - handled by API)
       if (updates.approval_status !== undefined) {
         payload.approval_status = updates.approval_status;
+        if (updates.rejection_reason) {
+          payload.rejection_reason = updates.rejection_reason;
+          payload.rejection_note = updates.rejection_note ?? null;
+        }
       }
 
       const updatedSong = await updateSong(song.isrc, payload);
@@ -140,15 +190,72 @@ export default function SongsPage() {
       if (updates.approval_status !== 'REJECTED') {
         toast.success('Changes saved successfully');
       }
+      return updatedSong;
     } catch (error: any) {
+      // Show the modal the version that was saved in the meantime
+      if (error instanceof SongConflictError) {
+        handleSongUpdate(error.current);
+        throw error;
+      }
       console.error('Error saving song:', error);
       toast.error(`Failed to save: ${error.message}`);
     }
   };
 
-  const handleNext = (): boolean => {
+  // Keep the list and the open modal in sync with a song changed inside the modal
+  const handleSongUpdate = (updatedSong: Song) => {
+    setSongs((prevSongs) =>
+      prevSongs.map((s) => (s.isrc === updatedSong.isrc ? updatedSong : s))
+    );
+    setSelectedSong(updatedSong);
+  };
+
+  // Open the next song from a review queue; Next in the modal keeps pulling from it
+  const handleStartQueue = async (queueId: string) => {
+    const queue = reviewQueues.find((q) => q.id === queueId);
+    if (!queue) return;
+
+    try {
+      const next = await getNextQueueSong(queue.id);
+      if (!next.data) {
+        toast.info(`No unclaimed songs left in "${queue.name}"`);
+        fetchReviewQueues();
+        return;
+      }
+      setActiveQueue(queue);
+      setSelectedSong(next.data);
+      setIsModalOpen(true);
+    } catch (error: any) {
+      toast.error(`Failed to start review queue: ${error.message}`);
+    }
+  };
+
+  const handleNextInQueue = async (queue: ReviewQueue, current: Song): Promise<boolean> => {
+    try {
+      const next = await getNextQueueSong(queue.id, current.isrc);
+      if (next.data) {
+        setSelectedSong(next.data);
+        return true;
+      }
+      toast.success(next.remaining === 0
+        ? `Review queue "${queue.name}" finished!`
+        : `No unclaimed songs left in "${queue.name}"`);
+    } catch (error: any) {
+      toast.error(`Failed to get the next song: ${error.message}`);
+    }
+
+    // End of the review queue is handled here rather than by the ReviewModal
+    handleModalClose();
+    return true;
+  };
+
+  const handleNext = async (): Promise<boolean> => {
     if (!selectedSong) return false;
 
+    if (activeQueue) {
+      return handleNextInQueue(activeQueue, selectedSong);
+    }
+
     const currentIndex = songs.findIndex((s) => s.id === selectedSong.id);
     const nextSong = songs[currentIndex + 1];
 
@@ -179,6 +286,33 @@ export default function SongsPage() {
   const handleModalClose = () => {
     setIsModalOpen(false);
     setSelectedSong(null);
+
+    // Leaving a review queue: refresh what it changed
+    if (activeQueue) {
+      setActiveQueue(null);
+      fetchReviewQueues();
+      fetchSongs();
+    }
+  };
+
+  // Approve or reject the selected songs (admin only)
+  const handleBulkApproval = async (status: 'APPROVED' | 'REJECTED', reason?: string, note?: string | null) => {
+    const result = await bulkSetApproval({
+      isrcs: Array.from(selectedIsrcs),
+      approval_status: status,
+      ...(status === 'REJECTED' && { rejection_reason: reason, rejection_note: note }),
+    });
+    toast.success(`${status === 'APPROVED' ? 'Approved' : 'Rejected'} ${result.updated} song${result.updated !== 1 ? 's' : ''}`);
+    setSelectedIsrcs(new Set());
+    fetchSongs();
+  };
+
+  const handleBulkApprove = async () => {
+    try {
+      await handleBulkApproval('APPROVED');
+    } catch (error: any) {
+      toast.error(`Failed to approve: ${error.message}`);
+    }
   };
 
   const handlePageChange = (newPage: number) => {
@@ -249,6 +383,7 @@ export default function SongsPage() {
       <main className="flex-1 overflow-auto px-6 py-4 space-y-4">
         <FilterPanel
           selectedSubgenres={selectedSubgenres}
+          selectedCategories={selectedCategories}
           selectedStatus={selectedStatus}
           selectedReviewStatus={selectedReviewStatus}
           selectedApprovalStatus={selectedApprovalStatus}
@@ -257,11 +392,16 @@ export default function SongsPage() {
           selectedExplicits={selectedExplicits}
           selectedBatchId={selectedBatchId}
           selectedPlaylistId={selectedPlaylistId}
+          selectedConfidence={selectedConfidence}
           searchQuery={searchQuery}
           onSubgenresChange={(values) => {
             setSelectedSubgenres(values);
             setCurrentPage(1); // Reset to page 1 on filter change
           }}
+          onCategoriesChange={(values) => {
+            setSelectedCategories(values);
+            setCurrentPage(1);
+          }}
           onStatusChange={(value) => {
             setSelectedStatus(value);
             setCurrentPage(1);
@@ -294,15 +434,49 @@ export default function SongsPage() {
             setSelectedPlaylistId(value);
             setCurrentPage(1);
           }}
+          onConfidenceChange={(value) => {
+            setSelectedConfidence(value);
+            setCurrentPage(1);
+          }}
           onSearchChange={(value) => {
             setSearchQuery(value);
             setCurrentPage(1);
           }}
           onExport={() => setIsExportModalOpen(true)}
+          onBulkEdit={() => setIsBulkEditOpen(true)}
           onUpload={() => setIsUploadModalOpen(true)}
           totalCount={totalSongs}
         />
 
+        {/* Review queues */}
+        {(reviewQueues.length > 0 || isAdmin) && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-zinc-400">Review queue:</span>
+            <Select value={activeQueue?.id ?? ''} onValueChange={handleStartQueue} disabled={reviewQueues.length === 0}>
+              <SelectTrigger className="w-[260px] bg-zinc-950 border-zinc-700 text-zinc-100 h-9">
+                <SelectValue placeholder={reviewQueues.length > 0 ? 'Start reviewing a queue' : 'No queues'} />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-900 border-zinc-800">
+                {reviewQueues.map((queue) => (
+                  <SelectItem key={queue.id} value={queue.id} className="text-zinc-100 focus:bg-zinc-800 focus:text-zinc-100">
+                    {queue.name}{queue.mode === 'BLIND' && ' · blind'} ({queue.remaining} left)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isAdmin && (
+              <Button
+                onClick={() => setIsCreateQueueOpen(true)}
+                variant="outline"
+                size="sm"
+                className="bg-zinc-950 border-zinc-700 hover:bg-zinc-800 text-zinc-100"
+              >
+                New queue
+              </Button>
+            )}
+          </div>
+        )}
+
         {loading ? (
           <div className="text-center py-12">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
@@ -310,6 +484,61 @@ export default function SongsPage() {
           </div>
         ) : (
           <>
+            {/* Bulk actions for selected rows */}
+            {selectedIsrcs.size > 0 && (
+              <div className="flex items-center justify-between rounded-md border border-zinc-800 bg-zinc-900 px-4 py-2">
+                <span className="text-sm text-zinc-300">
+                  {selectedIsrcs.size} song{selectedIsrcs.size !== 1 ? 's' : ''} selected
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => setIsBulkEditOpen(true)}
+                    variant="outline"
+                    size="sm"
+                    className="bg-zinc-950 border-zinc-700 hover:bg-zinc-800 text-zinc-100"
+                  >
+                    Edit
+                  </Button>
+                  {isAdmin && (
+                    <>
+                      <Button
+                        onClick={handleBulkApprove}
+                        variant="outline"
+                        size="sm"
+                        className="bg-zinc-950 border-zinc-700 hover:bg-zinc-800 text-zinc-100"
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        onClick={() => setIsBulkRejectOpen(true)}
+                        variant="outline"
+                        size="sm"
+                        className="bg-zinc-950 border-zinc-700 hover:bg-zinc-800 text-red-400"
+                      >
+                        Reject
+                      </Button>
+                      <Button
+                        onClick={() => setIsReclassifyModalOpen(true)}
+                        variant="outline"
+                        size="sm"
+                        className="bg-zinc-950 border-zinc-700 hover:bg-zinc-800 text-zinc-100"
+                      >
+                        Reclassify
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    onClick={() => setSelectedIsrcs(new Set())}
+                    variant="ghost"
+                    size="sm"
+                    className="text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+                  >
+                    Clear selection
+                  </Button>
+                </div>
+              </div>
+            )}
+
             <SongTable
               songs={songs}
               selectedIsrcs={selectedIsrcs}
@@ -410,6 +639,8 @@ export default function SongsPage() {
         onSave={handleSave}
         onNext={handleNext}
         onEndOfQueue={handleEndOfQueue}
+        onSongUpdate={handleSongUpdate}
+        blind={activeQueue?.mode === 'BLIND'}
       />
 
       {/* Export Modal */}
@@ -418,6 +649,7 @@ export default function SongsPage() {
         onClose={() => setIsExportModalOpen(false)}
         currentFilters={{
           subgenres: selectedSubgenres.length > 0 ? selectedSubgenres : undefined,
+          categories: selectedCategories.length > 0 ? selectedCategories : undefined,
           status: selectedStatus !== 'all' ? selectedStatus : undefined,
           reviewStatus: selectedReviewStatus !== 'all' ? selectedReviewStatus : undefined,
           approvalStatus: selectedApprovalStatus !== 'all' ? selectedApprovalStatus : undefined,
@@ -431,6 +663,43 @@ export default function SongsPage() {
         selectedIsrcs={selectedIsrcs}
       />
 
+      {/* Reclassify Modal */}
+      <ReclassifyModal
+        isOpen={isReclassifyModalOpen}
+        onClose={() => setIsReclassifyModalOpen(false)}
+        selectedIsrcs={selectedIsrcs}
+        onComplete={fetchSongs}
+      />
+
+      {/* Bulk Edit Drawer */}
+      <BulkEditDrawer
+        isOpen={isBulkEditOpen}
+        onClose={() => setIsBulkEditOpen(false)}
+        selectedIsrcs={selectedIsrcs}
+        currentFilters={currentFilterParams()}
+        totalSongs={totalSongs}
+        onComplete={fetchSongs}
+      />
+
+      {/* Bulk Reject Dialog */}
+      <RejectDialog
+        isOpen={isBulkRejectOpen}
+        onClose={() => setIsBulkRejectOpen(false)}
+        songCount={selectedIsrcs.size}
+        onConfirm={(reason, note) => handleBulkApproval('REJECTED', reason, note)}
+      />
+
+      {/* New Review Queue Dialog (admin only) */}
+      <CreateReviewQueueDialog
+        isOpen={isCreateQueueOpen}
+        onClose={() => setIsCreateQueueOpen(false)}
+        filters={songFilterParams(currentFilterParams())}
+        onCreated={() => {
+          toast.success('Review queue created');
+          fetchReviewQueues();
+        }}
+      />
+
       {/* Upload Modal */}
       <UploadModal
         open={isUploadModalOpen}
@@ -0,0 +1,356 @@
+import { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, Pencil, Plus, Archive, ArchiveRestore, AlertTriangle, Merge } from 'lucide-react';
+import { toast } from 'sonner';
+import Header from '../components/Header';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../components/ui/collapsible';
+import { TaxonomyEditDialog, type TaxonomyEditValues } from '../components/TaxonomyEditDialog';
+import { MergeSubgenresDialog } from '../components/MergeSubgenresDialog';
+import { useAuth } from '../contexts/AuthContext';
+import { useTaxonomy } from '../contexts/TaxonomyContext';
+import {
+  getAdminSubgenres,
+  createSubgenre,
+  updateSubgenre,
+  createCategory,
+  updateCategory,
+  type AdminTaxonomy,
+  type TaxonomyCategory,
+  type TaxonomySubgenre,
+  type SubgenreMigrationImpact,
+} from '../lib/api';
+
+type EditTarget =
+  | { kind: 'new-category' }
+  | { kind: 'category'; category: TaxonomyCategory }
+  | { kind: 'new-subgenre'; category: TaxonomyCategory }
+  | { kind: 'subgenre'; subgenre: TaxonomySubgenre; category: TaxonomyCategory };
+
+export default function SubgenresPage() {
+  const { user } = useAuth();
+  const { reload: reloadTaxonomy } = useTaxonomy();
+  const [taxonomy, setTaxonomy] = useState<AdminTaxonomy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [openCategories, setOpenCategories] = useState<Set<number>>(new Set());
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  // Source to preselect; '' opens the merge dialog empty
+  const [mergeSource, setMergeSource] = useState<string | null>(null);
+
+  const isAdmin = user?.role === 'ADMIN';
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchTaxonomy();
+    }
+  }, [isAdmin]);
+
+  async function fetchTaxonomy() {
+    try {
+      setTaxonomy(await getAdminSubgenres());
+    } catch (error: any) {
+      toast.error(`Failed to load subgenres: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Refresh this page and the dropdowns/filters elsewhere in the app
+  async function refresh() {
+    await Promise.all([fetchTaxonomy(), reloadTaxonomy()]);
+  }
+
+  function toggleCategory(id: number) {
+    setOpenCategories((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  async function handleSave(values: TaxonomyEditValues) {
+    if (!editTarget) return;
+
+    try {
+      switch (editTarget.kind) {
+        case 'new-category':
+          await createCategory(values.name, values.description);
+          toast.success(`Added category "${values.name}"`);
+          break;
+        case 'category':
+          await updateCategory(editTarget.category.id, { name: values.name, description: values.description });
+          toast.success('Category updated');
+          break;
+        case 'new-subgenre':
+          await createSubgenre(values.categoryId ?? editTarget.category.id, values.name, values.description);
+          toast.success(`Added subgenre "${values.name}"`);
+          break;
+        case 'subgenre': {
+          const { subgenre, category } = editTarget;
+          const songsUpdated = await updateSubgenre(subgenre.id, {
+            name: values.name,
+            description: values.description,
+            ...(values.categoryId !== category.id && { categoryId: values.categoryId }),
+          });
+          toast.success(songsUpdated > 0
+            ? `Subgenre updated (${songsUpdated} song tags renamed)`
+            : 'Subgenre updated');
+          break;
+        }
+      }
+      await refresh();
+    } catch (error: any) {
+      toast.error(error.message);
+      throw error;
+    }
+  }
+
+  async function handleToggleDeprecated(subgenre: TaxonomySubgenre) {
+    try {
+      await updateSubgenre(subgenre.id, { deprecated: !subgenre.deprecated });
+      toast.success(subgenre.deprecated
+        ? `Restored "${subgenre.name}"`
+        : `Deprecated "${subgenre.name}"`);
+      await refresh();
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  }
+
+  async function handleMerged(impact: SubgenreMigrationImpact) {
+    toast.success(impact.slotsDeduplicated > 0
+      ? `Merged subgenres on ${impact.songs} songs (${impact.slotsDeduplicated} duplicate slots removed)`
+      : `Merged subgenres on ${impact.songs} songs`);
+    await refresh();
+  }
+
+  function dialogProps(target: EditTarget) {
+    switch (target.kind) {
+      case 'new-category':
+        return { title: 'Add category', initial: { name: '', description: '' } };
+      case 'category':
+        return {
+          title: 'Edit category',
+          initial: { name: target.category.name, description: target.category.description || '' },
+        };
+      case 'new-subgenre':
+        return {
+          title: `Add subgenre to ${target.category.name}`,
+          initial: { name: '', description: '', categoryId: target.category.id },
+          categories: taxonomy?.categories,
+        };
+      case 'subgenre':
+        return {
+          title: 'Edit subgenre',
+          description: 'Renaming also renames the subgenre on every song that has it.',
+          initial: {
+            name: target.subgenre.name,
+            description: target.subgenre.description || '',
+            categoryId: target.category.id,
+          },
+          categories: taxonomy?.categories,
+          songCount: target.subgenre.songCount,
+        };
+    }
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="h-screen flex flex-col bg-zinc-950">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <p className="text-zinc-400">Admin role required to manage subgenres.</p>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-zinc-950">
+      <Header />
+
+      <main className="flex-1 overflow-auto px-6 py-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-zinc-100">Subgenres</h2>
+            <p className="text-sm text-zinc-400">
+              Used by the classifier prompt, review dropdowns and filters. Deprecated subgenres stay on existing songs.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-zinc-700 text-zinc-300"
+              disabled={!taxonomy}
+              onClick={() => setMergeSource('')}
+            >
+              <Merge className="w-4 h-4 mr-2" />
+              Merge subgenres
+            </Button>
+            <Button size="sm" onClick={() => setEditTarget({ kind: 'new-category' })}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add category
+            </Button>
+          </div>
+        </div>
+
+        {loading && <p className="text-zinc-400">Loading...</p>}
+
+        {taxonomy && taxonomy.unknown.length > 0 && (
+          <div className="bg-amber-950/30 border border-amber-800 rounded-lg p-4 text-sm">
+            <div className="flex items-center gap-2 text-amber-300 mb-2">
+              <AlertTriangle className="w-4 h-4" />
+              Song subgenres not in the taxonomy
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {taxonomy.unknown.map((entry) => (
+                <Badge
+                  key={entry.name}
+                  variant="outline"
+                  title="Merge into a subgenre"
+                  className="border-amber-800 text-amber-200 cursor-pointer hover:bg-amber-950"
+                  onClick={() => setMergeSource(entry.name)}
+                >
+                  {entry.name} · {entry.songCount}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {taxonomy?.categories.map((category) => {
+          const isOpen = openCategories.has(category.id);
+          const active = category.subgenres.filter((s) => !s.deprecated).length;
+
+          return (
+            <Collapsible
+              key={category.id}
+              open={isOpen}
+              onOpenChange={() => toggleCategory(category.id)}
+              className="bg-zinc-900 rounded-lg border border-zinc-700"
+            >
+              <div className="flex items-center justify-between px-4 py-3">
+                <CollapsibleTrigger className="flex items-center gap-2 text-left text-zinc-100">
+                  {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  <span>{category.name}</span>
+                  <span className="text-sm text-zinc-500">
+                    {active} active
+                    {active < category.subgenres.length && `, ${category.subgenres.length - active} deprecated`}
+                  </span>
+                </CollapsibleTrigger>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-zinc-400 hover:text-zinc-100"
+                    onClick={() => setEditTarget({ kind: 'category', category })}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-zinc-400 hover:text-zinc-100"
+                    onClick={() => setEditTarget({ kind: 'new-subgenre', category })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Subgenre
+                  </Button>
+                </div>
+              </div>
+              {category.description && (
+                <p className="px-4 pb-3 -mt-1 text-sm text-zinc-500">{category.description}</p>
+              )}
+
+              <CollapsibleContent>
+                <table className="w-full text-sm border-t border-zinc-800">
+                  <thead>
+                    <tr className="text-left text-zinc-500">
+                      <th className="px-4 py-2 font-normal">Name</th>
+                      <th className="px-4 py-2 font-normal">Description</th>
+                      <th className="px-4 py-2 font-normal text-right">Songs</th>
+                      <th className="px-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {category.subgenres.map((subgenre) => (
+                      <tr key={subgenre.id} className="border-t border-zinc-800">
+                        <td className={`px-4 py-2 ${subgenre.deprecated ? 'text-zinc-500 line-through' : 'text-zinc-200'}`}>
+                          {subgenre.name}
+                          {subgenre.deprecated && (
+                            <Badge variant="outline" className="ml-2 text-xs border-zinc-700 text-zinc-500 no-underline">
+                              deprecated
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-zinc-400">{subgenre.description || '—'}</td>
+                        <td className="px-4 py-2 text-right text-zinc-400">{subgenre.songCount ?? 0}</td>
+                        <td className="px-4 py-2">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Edit"
+                              className="text-zinc-400 hover:text-zinc-100"
+                              onClick={() => setEditTarget({ kind: 'subgenre', subgenre, category })}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Merge into another subgenre"
+                              className="text-zinc-400 hover:text-zinc-100"
+                              onClick={() => setMergeSource(subgenre.name)}
+                            >
+                              <Merge className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title={subgenre.deprecated ? 'Restore' : 'Deprecate'}
+                              className="text-zinc-400 hover:text-zinc-100"
+                              onClick={() => handleToggleDeprecated(subgenre)}
+                            >
+                              {subgenre.deprecated
+                                ? <ArchiveRestore className="w-4 h-4" />
+                                : <Archive className="w-4 h-4" />}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CollapsibleContent>
+            </Collapsible>
+          );
+        })}
+      </main>
+
+      {editTarget && (
+        <TaxonomyEditDialog
+          isOpen={editTarget !== null}
+          onClose={() => setEditTarget(null)}
+          onSave={handleSave}
+          {...dialogProps(editTarget)}
+        />
+      )}
+
+      {taxonomy && mergeSource !== null && (
+        <MergeSubgenresDialog
+          isOpen={mergeSource !== null}
+          onClose={() => setMergeSource(null)}
+          taxonomy={taxonomy}
+          initialSource={mergeSource || undefined}
+          onMerged={handleMerged}
+        />
+      )}
+    </div>
+  );
+}
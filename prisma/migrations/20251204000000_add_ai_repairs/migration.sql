@@ -0,0 +1,2 @@
+-- Record which AI classification fields were repaired by taxonomy validation
+ALTER TABLE "songs" ADD COLUMN "ai_repairs" JSONB;
@@ -0,0 +1,11 @@
+-- Add per-field AI confidence scores to songs table
+ALTER TABLE "songs" ADD COLUMN "ai_confidence" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "ai_energy_confidence" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "ai_accessibility_confidence" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "ai_explicit_confidence" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "ai_subgenre_1_confidence" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "ai_subgenre_2_confidence" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "ai_subgenre_3_confidence" DOUBLE PRECISION;
+
+-- Add index for confidence filtering/sorting
+CREATE INDEX "idx_ai_confidence" ON "songs"("ai_confidence");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "classification_runs" (
+    "id" TEXT NOT NULL,
+    "song_isrc" VARCHAR(12) NOT NULL,
+    "provider" VARCHAR(50) NOT NULL,
+    "model" VARCHAR(100) NOT NULL,
+    "prompt_hash" VARCHAR(64),
+    "input" JSONB NOT NULL,
+    "raw_response" TEXT,
+    "output" JSONB,
+    "repairs" JSONB,
+    "status" VARCHAR(20) NOT NULL,
+    "error_message" TEXT,
+    "latency_ms" INTEGER,
+    "input_tokens" INTEGER,
+    "output_tokens" INTEGER,
+    "total_tokens" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "classification_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_classification_run_song" ON "classification_runs"("song_isrc", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_classification_run_prompt" ON "classification_runs"("prompt_hash");
+
+-- AddForeignKey
+ALTER TABLE "classification_runs" ADD CONSTRAINT "classification_runs_song_isrc_fkey" FOREIGN KEY ("song_isrc") REFERENCES "songs"("isrc") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Track which prompt version produced each song's AI tags
+ALTER TABLE "songs" ADD COLUMN "ai_prompt_id" VARCHAR(50);
+CREATE INDEX "idx_ai_prompt_id" ON "songs"("ai_prompt_id");
+
+-- Record the prompt version on each classification run (index by id instead of hash)
+ALTER TABLE "classification_runs" ADD COLUMN "prompt_id" VARCHAR(50);
+DROP INDEX "idx_classification_run_prompt";
+CREATE INDEX "idx_classification_run_prompt" ON "classification_runs"("prompt_id");
+
+-- CreateTable
+CREATE TABLE "prompt_rollouts" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "active_prompt_id" VARCHAR(50) NOT NULL,
+    "candidate_prompt_id" VARCHAR(50),
+    "candidate_percent" INTEGER NOT NULL DEFAULT 0,
+    "updated_by" VARCHAR(100),
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_rollouts_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,35 @@
+-- Flag classification runs served from the cache
+ALTER TABLE "classification_runs" ADD COLUMN "cached" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "classification_cache" (
+    "id" TEXT NOT NULL,
+    "cache_key" VARCHAR(500) NOT NULL,
+    "artist_key" VARCHAR(255) NOT NULL,
+    "prompt_id" VARCHAR(50) NOT NULL,
+    "model" VARCHAR(100) NOT NULL,
+    "provider" VARCHAR(50) NOT NULL,
+    "result" JSONB NOT NULL,
+    "source_isrc" VARCHAR(12),
+    "hit_count" INTEGER NOT NULL DEFAULT 0,
+    "last_hit_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "classification_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "classification_cache_cache_key_prompt_id_model_key" ON "classification_cache"("cache_key", "prompt_id", "model");
+
+-- CreateIndex
+CREATE INDEX "idx_classification_cache_artist" ON "classification_cache"("artist_key");
+
+-- CreateIndex
+CREATE INDEX "idx_classification_cache_prompt" ON "classification_cache"("prompt_id");
+
+-- CreateIndex
+CREATE INDEX "idx_classification_cache_source" ON "classification_cache"("source_isrc");
+
+-- CreateIndex
+CREATE INDEX "idx_classification_cache_expires" ON "classification_cache"("expires_at");
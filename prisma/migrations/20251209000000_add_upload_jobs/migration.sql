@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "upload_jobs" (
+    "id" TEXT NOT NULL,
+    "batch_id" VARCHAR(50) NOT NULL,
+    "playlist_id" TEXT NOT NULL,
+    "playlist_name" VARCHAR(255) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    "total_songs" INTEGER NOT NULL,
+    "skipped_songs" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "upload_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "upload_tasks" (
+    "id" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "isrc" VARCHAR(12) NOT NULL,
+    "artist" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "song" JSONB NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "explicit_run_id" VARCHAR(100),
+    "explicit_status" VARCHAR(20),
+    "explicit_submitted_at" TIMESTAMP(3),
+    "explicit_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "upload_tasks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_jobs_batch_id_key" ON "upload_jobs"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "idx_upload_job_status" ON "upload_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "idx_upload_task_job" ON "upload_tasks"("job_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_upload_task_pending" ON "upload_tasks"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "idx_upload_task_explicit" ON "upload_tasks"("explicit_status");
+
+-- AddForeignKey
+ALTER TABLE "upload_jobs" ADD CONSTRAINT "upload_jobs_playlist_id_fkey" FOREIGN KEY ("playlist_id") REFERENCES "playlists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "upload_tasks" ADD CONSTRAINT "upload_tasks_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "upload_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
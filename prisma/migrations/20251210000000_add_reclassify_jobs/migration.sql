@@ -0,0 +1,6 @@
+-- Reclassify requests reuse the upload queue
+ALTER TABLE "upload_jobs" ADD COLUMN "kind" VARCHAR(20) NOT NULL DEFAULT 'UPLOAD';
+ALTER TABLE "upload_jobs" ADD COLUMN "options" JSONB;
+ALTER TABLE "upload_jobs" ADD COLUMN "requested_by" VARCHAR(100);
+ALTER TABLE "upload_jobs" ALTER COLUMN "playlist_id" DROP NOT NULL;
+ALTER TABLE "upload_jobs" ALTER COLUMN "playlist_name" DROP NOT NULL;
@@ -0,0 +1,8 @@
+-- Curator field locks and pending AI proposals
+ALTER TABLE "songs" ADD COLUMN "locked_fields" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "songs" ADD COLUMN "ai_proposed" JSONB;
+
+-- Songs reviewed before field locks existed: which fields were edited is unknown, so lock every tag field
+UPDATE "songs"
+SET "locked_fields" = ARRAY['ai_energy', 'ai_accessibility', 'ai_explicit', 'ai_subgenre_1', 'ai_subgenre_2', 'ai_subgenre_3']
+WHERE "reviewed" = true;
@@ -0,0 +1,2 @@
+-- Few-shot examples used by each classification attempt
+ALTER TABLE "classification_runs" ADD COLUMN "few_shot_examples" JSONB;
@@ -0,0 +1,10 @@
+-- Audio features measured from the preview or source file
+ALTER TABLE "songs" ADD COLUMN "audio_tempo" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "audio_tempo_confidence" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "audio_loudness_lufs" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "audio_rms_db" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "audio_brightness" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "audio_onset_rate" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "audio_energy_score" DOUBLE PRECISION;
+ALTER TABLE "songs" ADD COLUMN "audio_source" VARCHAR(20);
+ALTER TABLE "songs" ADD COLUMN "audio_analyzed_at" TIMESTAMP(3);
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "explicit_jobs" (
+    "id" TEXT NOT NULL,
+    "isrc" VARCHAR(12) NOT NULL,
+    "artist" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "source" VARCHAR(20) NOT NULL DEFAULT 'api',
+    "upload_task_id" TEXT,
+    "run_id" VARCHAR(100),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3),
+    "submitted_at" TIMESTAMP(3),
+    "last_checked_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "error" TEXT,
+    "classification" VARCHAR(20),
+    "confidence" DOUBLE PRECISION,
+    "raw_result" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "explicit_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "explicit_jobs_upload_task_id_key" ON "explicit_jobs"("upload_task_id");
+
+-- CreateIndex
+CREATE INDEX "idx_explicit_job_status" ON "explicit_jobs"("status", "last_checked_at");
+
+-- CreateIndex
+CREATE INDEX "idx_explicit_job_isrc" ON "explicit_jobs"("isrc");
+
+-- AddForeignKey
+ALTER TABLE "explicit_jobs" ADD CONSTRAINT "explicit_jobs_upload_task_id_fkey" FOREIGN KEY ("upload_task_id") REFERENCES "upload_tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Move explicit runs tracked on upload tasks into jobs
+INSERT INTO "explicit_jobs" ("id", "isrc", "artist", "title", "source", "upload_task_id", "run_id", "status", "attempts", "submitted_at", "error", "completed_at", "created_at", "updated_at")
+SELECT 'task-' || "id", "isrc", "artist", "title", 'upload', "id", "explicit_run_id", "explicit_status", 1, "explicit_submitted_at", "explicit_error",
+       CASE WHEN "explicit_status" = 'COMPLETE' THEN "updated_at" END, COALESCE("explicit_submitted_at", "created_at"), "updated_at"
+FROM "upload_tasks"
+WHERE "explicit_status" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "idx_upload_task_explicit";
+
+-- AlterTable
+ALTER TABLE "upload_tasks" DROP COLUMN "explicit_run_id",
+DROP COLUMN "explicit_status",
+DROP COLUMN "explicit_submitted_at",
+DROP COLUMN "explicit_error";
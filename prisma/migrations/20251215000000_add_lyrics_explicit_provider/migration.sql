@@ -0,0 +1,5 @@
+-- Lyrics from the upload CSV, classified by the lyrics explicit provider
+ALTER TABLE "songs" ADD COLUMN "lyrics" TEXT;
+
+-- Which explicit provider produced a job's result
+ALTER TABLE "explicit_jobs" ADD COLUMN "provider" VARCHAR(20) NOT NULL DEFAULT 'parallel';
@@ -0,0 +1,21 @@
+-- Evidence behind the latest explicit verdict (example lines, sources, provider, timestamp)
+ALTER TABLE "songs" ADD COLUMN "ai_explicit_evidence" JSONB;
+
+-- Backfill provider and time from each song's latest finished job (older results kept no examples or sources)
+UPDATE "songs" s
+SET "ai_explicit_evidence" = jsonb_build_object(
+    'provider', j."provider",
+    'classification', j."classification",
+    'examples', '[]'::jsonb,
+    'reasoning', '',
+    'sources', '[]'::jsonb,
+    'checkedAt', to_char(j."completed_at", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'jobId', j."id"
+)
+FROM (
+    SELECT DISTINCT ON ("isrc") "id", "isrc", "provider", "classification", "completed_at"
+    FROM "explicit_jobs"
+    WHERE "status" = 'COMPLETE'
+    ORDER BY "isrc", "completed_at" DESC
+) j
+WHERE s."isrc" = j."isrc";
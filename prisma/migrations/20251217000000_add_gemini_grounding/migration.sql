@@ -0,0 +1,3 @@
+-- Google Search queries and sources behind each classification
+ALTER TABLE "songs" ADD COLUMN "ai_grounding" JSONB;
+ALTER TABLE "classification_runs" ADD COLUMN "grounding" JSONB;
@@ -0,0 +1,240 @@
+-- CreateTable
+CREATE TABLE "categories" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "subgenres" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "category_id" INTEGER NOT NULL,
+    "description" TEXT,
+    "deprecated" BOOLEAN NOT NULL DEFAULT false,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "updated_by" VARCHAR(100),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "subgenres_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "categories_name_key" ON "categories"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subgenres_name_key" ON "subgenres"("name");
+
+-- CreateIndex
+CREATE INDEX "idx_subgenre_category" ON "subgenres"("category_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "subgenres" ADD CONSTRAINT "subgenres_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed from data/subgenres.json (file order)
+INSERT INTO "categories" ("name", "position") VALUES
+    ('Decades', 0),
+    ('Ambient & Soundscapes', 1),
+    ('Electronic & Dance (Modern)', 2),
+    ('Funk, Soul & Disco (Classic & Modern)', 3),
+    ('Hip-Hop & R&B', 4),
+    ('Christmas', 5),
+    ('Jazz & Classical', 6),
+    ('Pop (2000s-2020s)', 7),
+    ('Rock & Alternative', 8),
+    ('World & Regional', 9);
+
+INSERT INTO "subgenres" ("name", "category_id", "position")
+SELECT s."name", c."id", s."position"
+FROM (VALUES
+    ('50s Standards', 'Decades', 0),
+    ('50s Vocal Jazz', 'Decades', 1),
+    ('60s Vocal Jazz', 'Decades', 2),
+    ('70s Pop', 'Decades', 3),
+    ('80s Dance', 'Decades', 4),
+    ('80s Pop', 'Decades', 5),
+    ('90s Pop', 'Decades', 6),
+    ('Ambient', 'Ambient & Soundscapes', 0),
+    ('Calming Frequencies', 'Ambient & Soundscapes', 1),
+    ('Native American Spa', 'Ambient & Soundscapes', 2),
+    ('Natural Soundscape', 'Ambient & Soundscapes', 3),
+    ('2000s Dance', 'Electronic & Dance (Modern)', 0),
+    ('2010s and 2020s Pop (Dance Remixes)', 'Electronic & Dance (Modern)', 1),
+    ('90s Dance', 'Electronic & Dance (Modern)', 2),
+    ('Afro Nu-Disco', 'Electronic & Dance (Modern)', 3),
+    ('Afro-Dance', 'Electronic & Dance (Modern)', 4),
+    ('Afro-House', 'Electronic & Dance (Modern)', 5),
+    ('Afro-Lounge', 'Electronic & Dance (Modern)', 6),
+    ('Balearic', 'Electronic & Dance (Modern)', 7),
+    ('Chillout', 'Electronic & Dance (Modern)', 8),
+    ('Deep House (Jazz)', 'Electronic & Dance (Modern)', 9),
+    ('Deep House (Vocal)', 'Electronic & Dance (Modern)', 10),
+    ('Disco House', 'Electronic & Dance (Modern)', 11),
+    ('EDM Classics', 'Electronic & Dance (Modern)', 12),
+    ('French Electronica', 'Electronic & Dance (Modern)', 13),
+    ('Global Electronica (Non French)', 'Electronic & Dance (Modern)', 14),
+    ('Indie Dance', 'Electronic & Dance (Modern)', 15),
+    ('Indie Electronica', 'Electronic & Dance (Modern)', 16),
+    ('Instrumental Electronica', 'Electronic & Dance (Modern)', 17),
+    ('Latin Dance', 'Electronic & Dance (Modern)', 18),
+    ('Latin Nu-Disco', 'Electronic & Dance (Modern)', 19),
+    ('Latin-Lounge', 'Electronic & Dance (Modern)', 20),
+    ('Lo-Fi Beats', 'Electronic & Dance (Modern)', 21),
+    ('Lounge (Agnostic)', 'Electronic & Dance (Modern)', 22),
+    ('Lounge (French)', 'Electronic & Dance (Modern)', 23),
+    ('Modern Dance', 'Electronic & Dance (Modern)', 24),
+    ('Nu-Disco (Agnostic)', 'Electronic & Dance (Modern)', 25),
+    ('Organic House (Afro)', 'Electronic & Dance (Modern)', 26),
+    ('Organic House (Agnostic)', 'Electronic & Dance (Modern)', 27),
+    ('Organic House (Indo)', 'Electronic & Dance (Modern)', 28),
+    ('Organic House (Latin)', 'Electronic & Dance (Modern)', 29),
+    ('Organic House (Middle Eastern)', 'Electronic & Dance (Modern)', 30),
+    ('Soulful House', 'Electronic & Dance (Modern)', 31),
+    ('Tropical House', 'Electronic & Dance (Modern)', 32),
+    ('Trip-Hop', 'Electronic & Dance (Modern)', 33),
+    ('World Lounge', 'Electronic & Dance (Modern)', 34),
+    ('80s R&B', 'Funk, Soul & Disco (Classic & Modern)', 0),
+    ('Afro-Disco', 'Funk, Soul & Disco (Classic & Modern)', 1),
+    ('Afrobeat', 'Funk, Soul & Disco (Classic & Modern)', 2),
+    ('Disco Classics (70s and 80s)', 'Funk, Soul & Disco (Classic & Modern)', 3),
+    ('Disco Edits', 'Funk, Soul & Disco (Classic & Modern)', 4),
+    ('Doo-Wop', 'Funk, Soul & Disco (Classic & Modern)', 5),
+    ('French Funk & Soul', 'Funk, Soul & Disco (Classic & Modern)', 6),
+    ('French Indie', 'Funk, Soul & Disco (Classic & Modern)', 7),
+    ('Funk & Soul Classics', 'Funk, Soul & Disco (Classic & Modern)', 8),
+    ('Funk Classics', 'Funk, Soul & Disco (Classic & Modern)', 9),
+    ('Global Funk & Soul', 'Funk, Soul & Disco (Classic & Modern)', 10),
+    ('Hip-Hop Samples', 'Funk, Soul & Disco (Classic & Modern)', 11),
+    ('Italo-Disco', 'Funk, Soul & Disco (Classic & Modern)', 12),
+    ('Latin-Disco', 'Funk, Soul & Disco (Classic & Modern)', 13),
+    ('Modern Disco', 'Funk, Soul & Disco (Classic & Modern)', 14),
+    ('Modern Funk', 'Funk, Soul & Disco (Classic & Modern)', 15),
+    ('Modern Instrumentals (Organic)', 'Funk, Soul & Disco (Classic & Modern)', 16),
+    ('Modern Soul', 'Funk, Soul & Disco (Classic & Modern)', 17),
+    ('Motown', 'Funk, Soul & Disco (Classic & Modern)', 18),
+    ('Neo-Soul', 'Funk, Soul & Disco (Classic & Modern)', 19),
+    ('Refined Covers', 'Funk, Soul & Disco (Classic & Modern)', 20),
+    ('Soul Classics', 'Funk, Soul & Disco (Classic & Modern)', 21),
+    ('2000s Hip-Hop', 'Hip-Hop & R&B', 0),
+    ('2000s R&B', 'Hip-Hop & R&B', 1),
+    ('2000s Reggaeton', 'Hip-Hop & R&B', 2),
+    ('2010s Hip-Hop', 'Hip-Hop & R&B', 3),
+    ('2010s R&B', 'Hip-Hop & R&B', 4),
+    ('2010s Reggaeton', 'Hip-Hop & R&B', 5),
+    ('2020s Hip-Hop', 'Hip-Hop & R&B', 6),
+    ('2020s R&B', 'Hip-Hop & R&B', 7),
+    ('2020s Reggaeton', 'Hip-Hop & R&B', 8),
+    ('80s Hip-Hop', 'Hip-Hop & R&B', 9),
+    ('90s & 00s Dancehall', 'Hip-Hop & R&B', 10),
+    ('90s Hip-Hop', 'Hip-Hop & R&B', 11),
+    ('90s R&B', 'Hip-Hop & R&B', 12),
+    ('Afrobeats', 'Hip-Hop & R&B', 13),
+    ('Alternative R&B', 'Hip-Hop & R&B', 14),
+    ('Amapiano', 'Hip-Hop & R&B', 15),
+    ('Clean 90s Hip-Hop', 'Hip-Hop & R&B', 16),
+    ('French Hip-Hop', 'Hip-Hop & R&B', 17),
+    ('Golden Era Hip-Hop', 'Hip-Hop & R&B', 18),
+    ('Hip Hop Instrumentals', 'Hip-Hop & R&B', 19),
+    ('Mumble Rap', 'Hip-Hop & R&B', 20),
+    ('Neo Soul', 'Hip-Hop & R&B', 21),
+    ('New Jack Swing', 'Hip-Hop & R&B', 22),
+    ('Christmas Acoustic', 'Christmas', 0),
+    ('Christmas Classics', 'Christmas', 1),
+    ('Christmas Coffeehouse', 'Christmas', 2),
+    ('Christmas Country', 'Christmas', 3),
+    ('Christmas Folk', 'Christmas', 4),
+    ('Christmas Funk & Soul', 'Christmas', 5),
+    ('Christmas Indie', 'Christmas', 6),
+    ('Christmas Indie Acoustic', 'Christmas', 7),
+    ('Christmas Jazz', 'Christmas', 8),
+    ('Christmas Pop', 'Christmas', 9),
+    ('20s Jazz & Big-Band', 'Jazz & Classical', 0),
+    ('Ambient Piano', 'Jazz & Classical', 1),
+    ('Bossa Nova Covers', 'Jazz & Classical', 2),
+    ('Classic Bossa Nova', 'Jazz & Classical', 3),
+    ('Classical', 'Jazz & Classical', 4),
+    ('Japanese Jazz', 'Jazz & Classical', 5),
+    ('Jazz & Piano', 'Jazz & Classical', 6),
+    ('Jazz Piano Standards', 'Jazz & Classical', 7),
+    ('Jazz Standards', 'Jazz & Classical', 8),
+    ('Modern Bossa Nova', 'Jazz & Classical', 9),
+    ('Neo-Classical', 'Jazz & Classical', 10),
+    ('Nu-Jazz', 'Jazz & Classical', 11),
+    ('2000s Indie Pop', 'Pop (2000s-2020s)', 0),
+    ('2000s Pop', 'Pop (2000s-2020s)', 1),
+    ('2000s Pop Rock', 'Pop (2000s-2020s)', 2),
+    ('2010s Indie Pop', 'Pop (2000s-2020s)', 3),
+    ('2010s Pop', 'Pop (2000s-2020s)', 4),
+    ('2020s Indie Pop', 'Pop (2000s-2020s)', 5),
+    ('2020s Pop', 'Pop (2000s-2020s)', 6),
+    ('Classic Country Pop', 'Pop (2000s-2020s)', 7),
+    ('Country Remixed', 'Pop (2000s-2020s)', 8),
+    ('Global Pop (Eastern)', 'Pop (2000s-2020s)', 9),
+    ('Indie Soft Pop', 'Pop (2000s-2020s)', 10),
+    ('Modern Country Pop', 'Pop (2000s-2020s)', 11),
+    ('2010s and 2020s Pop Dance Originals & Remixes', 'Pop (2000s-2020s)', 12),
+    ('Soft Pop', 'Pop (2000s-2020s)', 13),
+    ('2000s Garage Rock', 'Rock & Alternative', 0),
+    ('2000s Indie Rock', 'Rock & Alternative', 1),
+    ('2010s Indie Rock', 'Rock & Alternative', 2),
+    ('2020s Indie Rock', 'Rock & Alternative', 3),
+    ('80s Rock', 'Rock & Alternative', 4),
+    ('90s Alternative', 'Rock & Alternative', 5),
+    ('90s Grunge', 'Rock & Alternative', 6),
+    ('90s Rock', 'Rock & Alternative', 7),
+    ('Alt Modern Country', 'Rock & Alternative', 8),
+    ('Bluegrass', 'Rock & Alternative', 9),
+    ('Blues', 'Rock & Alternative', 10),
+    ('Classic Folk', 'Rock & Alternative', 11),
+    ('Classic Rock', 'Rock & Alternative', 12),
+    ('Early Alternative', 'Rock & Alternative', 13),
+    ('Garage Rock (60s & 70s)', 'Rock & Alternative', 14),
+    ('Indie Folk', 'Rock & Alternative', 15),
+    ('Indie Sleaze', 'Rock & Alternative', 16),
+    ('Indie Soft Rock', 'Rock & Alternative', 17),
+    ('Irish Rock Classics', 'Rock & Alternative', 18),
+    ('New Wave', 'Rock & Alternative', 19),
+    ('Outlaw Country (Classics)', 'Rock & Alternative', 20),
+    ('Outlaw Country (Modern)', 'Rock & Alternative', 21),
+    ('Psychedelic Rock', 'Rock & Alternative', 22),
+    ('Rockabilly', 'Rock & Alternative', 23),
+    ('Roots Country', 'Rock & Alternative', 24),
+    ('Ska', 'Rock & Alternative', 25),
+    ('Spanish Indie', 'Rock & Alternative', 26),
+    ('Stadium Rock', 'Rock & Alternative', 27),
+    ('Yacht Rock', 'Rock & Alternative', 28),
+    ('Afro Funk & Soul (Classics)', 'World & Regional', 0),
+    ('Afro Funk & Soul (Modern)', 'World & Regional', 1),
+    ('Afro Funk Instrumentals', 'World & Regional', 2),
+    ('Classic Bachata', 'World & Regional', 3),
+    ('Classic Latin Pop', 'World & Regional', 4),
+    ('Classic Merengue', 'World & Regional', 5),
+    ('Classic Salsa', 'World & Regional', 6),
+    ('Cuban Jazz', 'World & Regional', 7),
+    ('East Asian Instrumentals', 'World & Regional', 8),
+    ('French Disco', 'World & Regional', 9),
+    ('French Jazz', 'World & Regional', 10),
+    ('French Pop', 'World & Regional', 11),
+    ('Global Disco', 'World & Regional', 12),
+    ('Global Disco House', 'World & Regional', 13),
+    ('Global Instrumentals (Organic)', 'World & Regional', 14),
+    ('Hawaiian Acoustic Guitar (Instrumental)', 'World & Regional', 15),
+    ('Hawaiian Easy Listening', 'World & Regional', 16),
+    ('Latin Funk & Soul (Classic)', 'World & Regional', 17),
+    ('Latin Funk & Soul (Modern)', 'World & Regional', 18),
+    ('Latin Funk Instrumentals', 'World & Regional', 19),
+    ('Middle Eastern Funk & Soul', 'World & Regional', 20),
+    ('Modern Dancehall', 'World & Regional', 21),
+    ('Modern Latin Pop', 'World & Regional', 22),
+    ('Modern Reggae', 'World & Regional', 23),
+    ('Modern Salsa', 'World & Regional', 24),
+    ('Reggae Classics', 'World & Regional', 25),
+    ('Roots Reggae', 'World & Regional', 26)
+) AS s("name", "category", "position")
+JOIN "categories" c ON c."name" = s."category";
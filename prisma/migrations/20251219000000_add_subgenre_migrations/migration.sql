@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "subgenre_migrations" (
+    "id" TEXT NOT NULL,
+    "mappings" JSONB NOT NULL,
+    "deprecated" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "songs_updated" INTEGER NOT NULL,
+    "slots_rewritten" INTEGER NOT NULL,
+    "slots_deduplicated" INTEGER NOT NULL,
+    "exported_songs" INTEGER NOT NULL,
+    "playlists" INTEGER NOT NULL,
+    "changes" JSONB NOT NULL,
+    "performed_by" VARCHAR(100),
+    "performed_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "subgenre_migrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_subgenre_migration_created" ON "subgenre_migrations"("created_at");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "song_changes" (
+    "id" TEXT NOT NULL,
+    "song_isrc" VARCHAR(12) NOT NULL,
+    "change_set_id" VARCHAR(36) NOT NULL,
+    "field" VARCHAR(50) NOT NULL,
+    "old_value" TEXT,
+    "new_value" TEXT,
+    "source" VARCHAR(20) NOT NULL,
+    "context" VARCHAR(255),
+    "changed_by" VARCHAR(100),
+    "changed_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "song_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_song_change_song" ON "song_changes"("song_isrc", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_song_change_set" ON "song_changes"("change_set_id");
+
+-- AddForeignKey
+ALTER TABLE "song_changes" ADD CONSTRAINT "song_changes_song_isrc_fkey" FOREIGN KEY ("song_isrc") REFERENCES "songs"("isrc") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Add rejection reason and note to songs table
+ALTER TABLE "songs" ADD COLUMN "rejection_reason" VARCHAR(30);
+ALTER TABLE "songs" ADD COLUMN "rejection_note" TEXT;
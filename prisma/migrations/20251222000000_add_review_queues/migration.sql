@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "review_queues" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "filters" JSONB NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "created_by" VARCHAR(100),
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_queues_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_queue_assignees" (
+    "queue_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "assigned_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_queue_assignees_pkey" PRIMARY KEY ("queue_id","user_id")
+);
+
+-- CreateTable
+CREATE TABLE "review_claims" (
+    "song_isrc" VARCHAR(12) NOT NULL,
+    "queue_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "user_name" VARCHAR(100) NOT NULL,
+    "claimed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_claims_pkey" PRIMARY KEY ("song_isrc")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_review_queue_status" ON "review_queues"("status");
+
+-- CreateIndex
+CREATE INDEX "idx_review_queue_assignee_user" ON "review_queue_assignees"("user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_review_claim_queue_user" ON "review_claims"("queue_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_review_claim_user" ON "review_claims"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "review_queue_assignees" ADD CONSTRAINT "review_queue_assignees_queue_id_fkey" FOREIGN KEY ("queue_id") REFERENCES "review_queues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_queue_assignees" ADD CONSTRAINT "review_queue_assignees_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_claims" ADD CONSTRAINT "review_claims_song_isrc_fkey" FOREIGN KEY ("song_isrc") REFERENCES "songs"("isrc") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_claims" ADD CONSTRAINT "review_claims_queue_id_fkey" FOREIGN KEY ("queue_id") REFERENCES "review_queues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_claims" ADD CONSTRAINT "review_claims_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
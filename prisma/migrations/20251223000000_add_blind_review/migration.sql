@@ -0,0 +1,43 @@
+-- Blind review mode for review queues
+ALTER TABLE "review_queues" ADD COLUMN "mode" VARCHAR(20) NOT NULL DEFAULT 'STANDARD';
+
+-- CreateTable
+CREATE TABLE "blind_labels" (
+    "id" TEXT NOT NULL,
+    "song_isrc" VARCHAR(12) NOT NULL,
+    "queue_id" TEXT,
+    "rater" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "user_name" VARCHAR(100) NOT NULL,
+    "energy" VARCHAR(20),
+    "accessibility" VARCHAR(20),
+    "explicit" VARCHAR(20),
+    "subgenre_1" VARCHAR(100),
+    "subgenre_2" VARCHAR(100),
+    "subgenre_3" VARCHAR(100),
+    "ai_values" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "blind_labels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_blind_label_song_rater" ON "blind_labels"("song_isrc", "rater");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_blind_label_song_user" ON "blind_labels"("song_isrc", "user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_blind_label_queue_user" ON "blind_labels"("queue_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_blind_label_user" ON "blind_labels"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "blind_labels" ADD CONSTRAINT "blind_labels_song_isrc_fkey" FOREIGN KEY ("song_isrc") REFERENCES "songs"("isrc") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "blind_labels" ADD CONSTRAINT "blind_labels_queue_id_fkey" FOREIGN KEY ("queue_id") REFERENCES "review_queues"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "blind_labels" ADD CONSTRAINT "blind_labels_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
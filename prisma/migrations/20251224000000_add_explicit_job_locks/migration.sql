@@ -0,0 +1,2 @@
+-- Claim on an explicit job while a poller submits or checks it, so overlapping pollers never run it twice
+ALTER TABLE "explicit_jobs" ADD COLUMN "locked_at" TIMESTAMP(3);
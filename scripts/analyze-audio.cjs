@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+/**
+ * Analyze Song Audio
+ *
+ * Runs the offline audio analysis (src/audio/audio-features.cjs) on local files,
+ * or backfills the audio_* columns of songs that were never analyzed. Uploads and
+ * reclassification analyze songs automatically; this covers older songs.
+ *
+ * Usage:
+ *   node scripts/analyze-audio.cjs path/to/song.mp3 [more files...]
+ *   node scripts/analyze-audio.cjs --backfill [--limit=500] [--concurrency=3]
+ */
+
+const path = require('path');
+const { analyzeAudio } = require('../src/audio/audio-features.cjs');
+
+const args = process.argv.slice(2);
+const backfill = args.includes('--backfill');
+const limit = parseInt(args.find(a => a.startsWith('--limit='))?.split('=')[1] || '500');
+const concurrency = parseInt(args.find(a => a.startsWith('--concurrency='))?.split('=')[1] || '3');
+const files = args.filter(a => !a.startsWith('--'));
+
+if (!backfill && files.length === 0) {
+  console.error('Usage: node scripts/analyze-audio.cjs FILE [FILE...]');
+  console.error('       node scripts/analyze-audio.cjs --backfill [--limit=500] [--concurrency=3]');
+  process.exit(1);
+}
+
+async function analyzeFiles() {
+  let failed = 0;
+
+  for (const file of files) {
+    try {
+      const features = await analyzeAudio(path.resolve(file));
+      console.log(`${file}\n${JSON.stringify(features, null, 2)}\n`);
+    } catch (error) {
+      failed++;
+      console.error(`${file}: ${error.message}\n`);
+    }
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+/**
+ * Analyzes one song, preview first, and stores its features
+ * @returns {Promise<boolean>} true if the song was analyzed
+ */
+async function backfillSong(prisma, song) {
+  const candidates = [['preview', song.spotifyPreviewUrl], ['source', song.s3Url]];
+
+  for (const [source, url] of candidates) {
+    if (!url) continue;
+
+    try {
+      const features = await analyzeAudio(url);
+      await prisma.song.update({
+        where: { isrc: song.isrc },
+        data: {
+          audioTempo: features.tempo,
+          audioTempoConfidence: features.tempoConfidence,
+          audioLoudnessLufs: features.loudnessLufs,
+          audioRmsDb: features.rmsDb,
+          audioBrightness: features.brightness,
+          audioOnsetRate: features.onsetRate,
+          audioEnergyScore: features.energyScore,
+          audioSource: source,
+          audioAnalyzedAt: new Date()
+        }
+      });
+      console.log(`  ✓ ${song.artist} - ${song.title} (${source}, energy score ${features.energyScore})`);
+      return true;
+    } catch (error) {
+      console.log(`  ✗ ${song.artist} - ${song.title} (${source}): ${error.message}`);
+    }
+  }
+
+  return false;
+}
+
+async function backfillSongs() {
+  const { PrismaClient } = require('@prisma/client');
+  const prisma = new PrismaClient();
+
+  try {
+    console.log('='.repeat(60));
+    console.log('Audio Analysis Backfill');
+    console.log('='.repeat(60));
+
+    const songs = await prisma.song.findMany({
+      where: {
+        audioAnalyzedAt: null,
+        OR: [{ spotifyPreviewUrl: { not: null } }, { s3Url: { not: null } }]
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { isrc: true, artist: true, title: true, spotifyPreviewUrl: true, s3Url: true }
+    });
+
+    console.log(`Found ${songs.length} songs without audio features (limit ${limit})\n`);
+
+    let analyzed = 0;
+    for (let i = 0; i < songs.length; i += concurrency) {
+      const batch = songs.slice(i, i + concurrency);
+      const outcomes = await Promise.all(batch.map(song => backfillSong(prisma, song)));
+      analyzed += outcomes.filter(Boolean).length;
+    }
+
+    console.log(`\nAnalyzed ${analyzed}/${songs.length} songs`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (backfill) {
+  backfillSongs().catch(error => {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  });
+} else {
+  analyzeFiles();
+}
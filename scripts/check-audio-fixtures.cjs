@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+/**
+ * Check Audio Analysis Against Fixtures
+ *
+ * Analyzes every file listed in test-data/audio-fixtures/fixtures.json and
+ * compares the features with the expected ranges. Runs offline; exits 1 if
+ * any feature is out of range.
+ *
+ * Usage: npm run check:audio
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { analyzeAudio } = require('../src/audio/audio-features.cjs');
+
+const fixturesDir = path.join(__dirname, '../test-data/audio-fixtures');
+
+function checkFeature(features, name, expected) {
+  const actual = features[name];
+
+  if (expected === null) {
+    return actual === null ? null : `${name}: expected none, got ${actual}`;
+  }
+
+  const [min, max] = expected;
+  if (typeof actual !== 'number' || actual < min || actual > max) {
+    return `${name}: expected ${min}..${max}, got ${actual}`;
+  }
+  return null;
+}
+
+async function main() {
+  const { fixtures } = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'fixtures.json'), 'utf8'));
+  let failed = 0;
+
+  console.log(`\n🎧 Checking ${fixtures.length} audio fixtures\n`);
+
+  for (const fixture of fixtures) {
+    let problems;
+    try {
+      const features = await analyzeAudio(path.join(fixturesDir, fixture.file));
+      problems = Object.entries(fixture.expect)
+        .map(([name, expected]) => checkFeature(features, name, expected))
+        .filter(Boolean);
+    } catch (error) {
+      problems = [`analysis failed: ${error.message}`];
+    }
+
+    if (problems.length === 0) {
+      console.log(`  ✓ ${fixture.file}`);
+    } else {
+      failed++;
+      console.log(`  ✗ ${fixture.file}`);
+      problems.forEach(problem => console.log(`      ${problem}`));
+    }
+  }
+
+  console.log(`\n${fixtures.length - failed}/${fixtures.length} fixtures passed\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
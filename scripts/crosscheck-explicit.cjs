@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+
+/**
+ * Cross-check Explicit Results Against Lyrics
+ *
+ * Runs the lyric lexicon classifier (src/classifiers/lyrics-explicit-classifier.cjs)
+ * on songs that have lyrics and compares it with their latest Parallel AI
+ * result (completed ExplicitJob). Disagreements are listed with the matched
+ * lines, so curators can spot Parallel AI misses and tune the lexicon.
+ *
+ * Usage:
+ *   node scripts/crosscheck-explicit.cjs [--limit=500] [--csv=outputs/explicit-crosscheck.csv]
+ *   node scripts/crosscheck-explicit.cjs --file=path/to/lyrics.txt
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { classifyLyricsExplicit, getLexiconPath } = require('../src/classifiers/lyrics-explicit-classifier.cjs');
+
+const args = process.argv.slice(2);
+const limit = parseInt(args.find(a => a.startsWith('--limit='))?.split('=')[1] || '500');
+const csvPath = args.find(a => a.startsWith('--csv='))?.split('=')[1];
+const lyricsFile = args.find(a => a.startsWith('--file='))?.split('=')[1];
+
+const CLASSIFICATIONS = ['Explicit', 'Suggestive', 'Family Friendly'];
+
+function classifyFile() {
+  const result = classifyLyricsExplicit(fs.readFileSync(path.resolve(lyricsFile), 'utf8'));
+  console.log(`Lexicon: ${getLexiconPath()} (${result.lexiconVersion})`);
+  console.log(JSON.stringify(result, null, 2));
+}
+
+function csvField(value) {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function crossCheck() {
+  const { PrismaClient } = require('@prisma/client');
+  const prisma = new PrismaClient();
+
+  try {
+    console.log('='.repeat(60));
+    console.log('Explicit Cross-check: Parallel AI vs lyrics lexicon');
+    console.log('='.repeat(60));
+    console.log(`Lexicon: ${getLexiconPath()}\n`);
+
+    const songs = await prisma.song.findMany({
+      where: { lyrics: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: { isrc: true, artist: true, title: true, lyrics: true }
+    });
+
+    const jobs = await prisma.explicitJob.findMany({
+      where: {
+        isrc: { in: songs.map(song => song.isrc) },
+        provider: 'parallel',
+        status: 'COMPLETE'
+      },
+      orderBy: { completedAt: 'desc' },
+      select: { isrc: true, classification: true, confidence: true }
+    });
+
+    // Latest Parallel AI result per song
+    const parallelByIsrc = new Map();
+    for (const job of jobs) {
+      if (!parallelByIsrc.has(job.isrc)) parallelByIsrc.set(job.isrc, job);
+    }
+
+    const matrix = Object.fromEntries(CLASSIFICATIONS.map(c => [c, Object.fromEntries(CLASSIFICATIONS.map(l => [l, 0]))]));
+    const disagreements = [];
+    let compared = 0;
+
+    for (const song of songs) {
+      const parallel = parallelByIsrc.get(song.isrc);
+      if (!parallel?.classification) continue;
+
+      let lyricResult;
+      try {
+        lyricResult = classifyLyricsExplicit(song.lyrics);
+      } catch (error) {
+        continue; // Blank lyrics
+      }
+
+      compared++;
+      if (matrix[parallel.classification]) {
+        matrix[parallel.classification][lyricResult.classification]++;
+      }
+
+      if (parallel.classification !== lyricResult.classification) {
+        disagreements.push({ song, parallel, lyricResult });
+      }
+    }
+
+    console.log(`Compared ${compared} songs with lyrics and a Parallel AI result (${songs.length} with lyrics, limit ${limit})\n`);
+    if (compared === 0) return;
+
+    console.log('Parallel AI (rows) vs lyrics (columns):');
+    console.log(`${''.padEnd(17)}${CLASSIFICATIONS.map(c => c.padStart(17)).join('')}`);
+    for (const row of CLASSIFICATIONS) {
+      console.log(`${row.padEnd(17)}${CLASSIFICATIONS.map(col => String(matrix[row][col]).padStart(17)).join('')}`);
+    }
+    console.log(`\nAgreement: ${((compared - disagreements.length) / compared * 100).toFixed(1)}%\n`);
+
+    for (const { song, parallel, lyricResult } of disagreements) {
+      console.log(`  ${song.artist} - ${song.title} (${song.isrc})`);
+      console.log(`    Parallel AI: ${parallel.classification}  Lyrics: ${lyricResult.classification} (score ${lyricResult.score})`);
+      lyricResult.matches.slice(0, 3).forEach(match =>
+        console.log(`      L${match.lineNumber}: ${match.line} [${match.terms.map(t => t.term).join(', ')}]`)
+      );
+    }
+
+    if (csvPath) {
+      const rows = [
+        ['isrc', 'artist', 'title', 'parallel', 'parallel_confidence', 'lyrics', 'lyrics_score', 'evidence'].join(','),
+        ...disagreements.map(({ song, parallel, lyricResult }) => [
+          song.isrc,
+          song.artist,
+          song.title,
+          parallel.classification,
+          parallel.confidence,
+          lyricResult.classification,
+          lyricResult.score,
+          lyricResult.matches.map(match => match.line).join(' | ')
+        ].map(csvField).join(','))
+      ];
+      fs.mkdirSync(path.dirname(path.resolve(csvPath)), { recursive: true });
+      fs.writeFileSync(path.resolve(csvPath), rows.join('\n') + '\n');
+      console.log(`\nWrote ${disagreements.length} disagreements to ${csvPath}`);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (lyricsFile) {
+  try {
+    classifyFile();
+  } catch (error) {
+    console.error(`${lyricsFile}: ${error.message}`);
+    process.exit(1);
+  }
+} else {
+  crossCheck().catch(error => {
+    console.error('Cross-check failed:', error);
+    process.exit(1);
+  });
+}
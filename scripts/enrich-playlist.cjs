@@ -25,6 +25,9 @@ const { createObjectCsvWriter } = require('csv-writer');
 const { PrismaClient } = require('@prisma/client');
 const { initLogger } = require('braintrust');
 const { classifySong } = require('../src/classifiers/gemini-classifier.cjs');
+const { loadTaxonomy } = require('../src/utils/subgenre-loader.cjs');
+const { updateSongWithHistory, createSongWithHistory } = require('../src/utils/song-changes.cjs');
+const { applyFieldLocks } = require('../src/utils/field-locks.cjs');
 const { classifyExplicitContent } = require('../src/classifiers/explicit-classifier.cjs');
 const { submitAllExplicitTasks, pollAndUpdateExplicitResults } = require('../src/utils/explicit-batch-helper.cjs');
 const { calculateSongSimilarity, areSongsDuplicate } = require('../src/utils/fuzzy-matcher.cjs');
@@ -103,6 +106,9 @@ async function enrichPlaylist() {
   }
 
   try {
+    // Subgenre list for the prompt and validation
+    await loadTaxonomy(prisma);
+
     // 1. Load CSV
     console.log('[1/5] Loading CSV...');
     const songs = await loadCSV(csvPath);
@@ -165,7 +171,7 @@ async function enrichPlaylist() {
     let explicitSubmissions = [];
     if (!options.geminiOnly && !options.explicitOnly) {
       console.log('[2.1/5] Phase 1: Submitting explicit content tasks...');
-      explicitSubmissions = await submitAllExplicitTasks(songsToProcess, options.concurrency);
+      explicitSubmissions = await submitAllExplicitTasks(songsToProcess, options.concurrency, prisma);
       const submitted = explicitSubmissions.filter(s => s.status === 'submitted').length;
       console.log(`  ✓ Submitted ${submitted}/${songsToProcess.length} tasks\n`);
     }
@@ -363,37 +369,49 @@ async function enrichSong(song, options, duplicateDecision, uploadBatchId, playl
       uploadBatchName: batchName
     };
 
+    // Recorded in the song's change history
+    const changeMeta = { source: 'IMPORT', context: `enrich-playlist: ${batchName}` };
+
+    // Writes to an existing song go through its curator locks, as uploads do
+    // (api/lib/song-import.ts): locked fields get proposals and review state is kept
+    const updateExisting = async (existing) => {
+      // Explicit is filled in by Phase 3; a curator's value is kept meanwhile
+      const { aiExplicit, ...classification } = enrichedSong;
+      const explicitWrite = aiExplicit || !existing.lockedFields.includes('ai_explicit') ? { aiExplicit } : {};
+
+      return updateSongWithHistory(prisma, existing, applyFieldLocks(existing, {
+        ...classification,
+        ...explicitWrite,
+        isrc: existing.isrc // Keep original ISRC
+      }, {
+        propose: geminiResult?.status === 'SUCCESS'
+      }), changeMeta);
+    };
+
     // Handle duplicate decisions
     if (duplicateDecision) {
       if (duplicateDecision.action === 'update') {
-        // Update existing song
-        await prisma.song.update({
-          where: { isrc: duplicateDecision.existingSong.isrc },
-          data: {
-            ...enrichedSong,
-            isrc: duplicateDecision.existingSong.isrc, // Keep original ISRC
-            reviewed: false // Mark for re-review
-          }
-        });
+        // Update existing song (reloaded in full so the change history diffs every field)
+        const existing = await prisma.song.findUnique({ where: { isrc: duplicateDecision.existingSong.isrc } });
+        await updateExisting(existing);
         console.log(`${logPrefix} → ✓ Updated existing`);
       } else if (duplicateDecision.action === 'new') {
         // Save as new duplicate version
-        await prisma.song.create({
-          data: {
-            ...enrichedSong,
-            isDuplicate: true,
-            originalIsrc: duplicateDecision.existingSong.isrc
-          }
-        });
+        await createSongWithHistory(prisma, {
+          ...enrichedSong,
+          isDuplicate: true,
+          originalIsrc: duplicateDecision.existingSong.isrc
+        }, changeMeta);
         console.log(`${logPrefix} → ✓ Saved as new duplicate`);
       }
     } else {
       // Normal upsert for non-duplicates
-      await prisma.song.upsert({
-        where: { isrc: song.isrc },
-        update: enrichedSong,
-        create: enrichedSong
-      });
+      const existing = await prisma.song.findUnique({ where: { isrc: song.isrc } });
+      if (existing) {
+        await updateExisting(existing);
+      } else {
+        await createSongWithHistory(prisma, enrichedSong, changeMeta);
+      }
       console.log(`${logPrefix} → ✓ Success`);
     }
 
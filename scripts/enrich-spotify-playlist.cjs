@@ -19,7 +19,9 @@ const { PrismaClient } = require('@prisma/client');
 const spotifyClient = require('../src/utils/spotify-client.cjs');
 const { normalizeBpm } = require('../src/utils/bpm-normalizer.cjs');
 const { classifySong } = require('../src/classifiers/gemini-classifier.cjs');
+const { loadTaxonomy } = require('../src/utils/subgenre-loader.cjs');
 const { submitAllExplicitTasks, pollAndUpdateExplicitResults } = require('../src/utils/explicit-batch-helper.cjs');
+const { upsertSongWithHistory } = require('../src/utils/song-changes.cjs');
 
 const prisma = new PrismaClient();
 
@@ -180,11 +182,10 @@ async function processSongGeminiOnly(song, spotifyMetadata, batchName = null, ba
     };
 
     // Upsert to database
-    await prisma.song.upsert({
-      where: { isrc: song.isrc },
+    await upsertSongWithHistory(prisma, song.isrc, {
       update: songData,
       create: songData,
-    });
+    }, { source: 'IMPORT', context: `enrich-spotify-playlist: ${batchName}` });
 
     // Create playlist association if playlistId provided (upsert to handle duplicates in CSV)
     if (playlistId) {
@@ -285,7 +286,7 @@ async function processSongsWithConcurrency(songs, spotifyMetadata, concurrency,
 
   // === PHASE 1: Submit all explicit tasks upfront ===
   console.log(`\n[2.1] Submitting explicit content tasks for ${songsToCheck.length} songs...`);
-  const explicitSubmissions = await submitAllExplicitTasks(songsToCheck, concurrency);
+  const explicitSubmissions = await submitAllExplicitTasks(songsToCheck, concurrency, prisma);
   const submitted = explicitSubmissions.filter(s => s.status === 'submitted').length;
   console.log(`  ✓ Submitted ${submitted}/${songsToCheck.length} tasks`);
 
@@ -404,6 +405,9 @@ async function main() {
       process.exit(1);
     }
 
+    // Subgenre list for the prompt and validation
+    await loadTaxonomy(prisma);
+
     // Extract playlist name from filename and generate batch ID
     const playlistName = path.basename(csvPath, '.csv');
     const sanitizedName = playlistName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+/**
+ * Generate Audio Analysis Fixtures
+ *
+ * Writes the synthetic WAV files in test-data/audio-fixtures/ used by
+ * scripts/check-audio-fixtures.cjs. Output is deterministic (seeded noise),
+ * so regenerating only changes files when this script changes.
+ *
+ * click-120bpm.mp3 is not generated here; it is click-120bpm.wav encoded with
+ * LAME at 64 kbps and checked in as-is.
+ *
+ * Usage: node scripts/generate-audio-fixtures.cjs
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const outputDir = path.join(__dirname, '../test-data/audio-fixtures');
+const SAMPLE_RATE = 16000;
+
+/**
+ * Deterministic white noise in [-1, 1]
+ */
+function createNoise(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x80000000 - 1;
+  };
+}
+
+/**
+ * Encodes channels as a PCM (8/16/24-bit) or IEEE float (32-bit) WAV
+ */
+function encodeWav(channels, { bitsPerSample = 16, float = false } = {}) {
+  const channelCount = channels.length;
+  const frameCount = channels[0].length;
+  const bytesPerSample = bitsPerSample / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(float ? 3 : 1, 20);
+  buffer.writeUInt16LE(channelCount, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * blockAlign, 28);
+  buffer.writeUInt16LE(blockAlign, 32);
+  buffer.writeUInt16LE(bitsPerSample, 34);
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(dataSize, 40);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < channelCount; ch++) {
+      const sample = Math.max(-1, Math.min(1, channels[ch][i]));
+      if (float) {
+        buffer.writeFloatLE(sample, offset);
+      } else if (bitsPerSample === 8) {
+        buffer[offset] = Math.round(sample * 127) + 128;
+      } else if (bitsPerSample === 16) {
+        buffer.writeInt16LE(Math.round(sample * 32767), offset);
+      } else {
+        buffer.writeIntLE(Math.round(sample * 8388607), offset, 3);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Adds a decaying hit (tone + noise) starting at `start` seconds
+ */
+function addHit(samples, start, { frequency, noise, amplitude, decay, length }) {
+  const first = Math.round(start * SAMPLE_RATE);
+  const count = Math.round(length * SAMPLE_RATE);
+
+  for (let i = 0; i < count && first + i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = amplitude * Math.exp(-t / decay);
+    const tone = frequency ? Math.sin(2 * Math.PI * frequency * t) : 0;
+    samples[first + i] += envelope * (noise ? 0.5 * tone + 0.5 * noise() : tone);
+  }
+}
+
+// Sparse, mid-level clicks on every beat at 120 BPM
+function clickTrack() {
+  const duration = 6;
+  const samples = new Float32Array(duration * SAMPLE_RATE);
+  const noise = createNoise(120);
+
+  for (let beat = 0; beat < duration * 2; beat++) {
+    addHit(samples, beat * 0.5, { frequency: 1000, noise, amplitude: 0.5, decay: 0.01, length: 0.06 });
+  }
+
+  return [samples];
+}
+
+// Loud stereo groove at 128 BPM: kick on every beat, bright hats on 16th notes
+function denseDrums() {
+  const duration = 6;
+  const beat = 60 / 128;
+  const left = new Float32Array(duration * SAMPLE_RATE);
+  const right = new Float32Array(duration * SAMPLE_RATE);
+  const noise = createNoise(128);
+
+  for (let sixteenth = 0; sixteenth * beat / 4 < duration; sixteenth++) {
+    const start = sixteenth * beat / 4;
+    for (const samples of [left, right]) {
+      if (sixteenth % 4 === 0) {
+        addHit(samples, start, { frequency: 60, amplitude: 0.9, decay: 0.08, length: 0.25 });
+      }
+      addHit(samples, start, { frequency: 7000, noise, amplitude: sixteenth % 2 === 0 ? 0.45 : 0.3, decay: 0.015, length: 0.05 });
+    }
+  }
+
+  return [left, right];
+}
+
+// Quiet sustained chord with a slow swell and no attacks
+function softPad() {
+  const duration = 6;
+  const samples = new Float32Array(duration * SAMPLE_RATE);
+
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const swell = 0.6 + 0.4 * Math.sin(2 * Math.PI * t / duration);
+    const chord = Math.sin(2 * Math.PI * 220 * t) + Math.sin(2 * Math.PI * 277.18 * t) + Math.sin(2 * Math.PI * 329.63 * t);
+    samples[i] = 0.02 * swell * chord;
+  }
+
+  return [samples];
+}
+
+function silence() {
+  return [new Float32Array(3 * SAMPLE_RATE)];
+}
+
+const FIXTURES = [
+  { file: 'click-120bpm.wav', channels: clickTrack(), format: { bitsPerSample: 16 } },
+  { file: 'dense-drums-128bpm-stereo.wav', channels: denseDrums(), format: { bitsPerSample: 24 } },
+  { file: 'soft-pad.wav', channels: softPad(), format: { bitsPerSample: 32, float: true } },
+  { file: 'silence.wav', channels: silence(), format: { bitsPerSample: 8 } }
+];
+
+fs.mkdirSync(outputDir, { recursive: true });
+
+for (const fixture of FIXTURES) {
+  const outputPath = path.join(outputDir, fixture.file);
+  fs.writeFileSync(outputPath, encodeWav(fixture.channels, fixture.format));
+  console.log(`  ✓ ${fixture.file}`);
+}
+
+console.log(`\nWrote ${FIXTURES.length} fixtures to ${outputDir}`);
@@ -19,6 +19,7 @@ require('dotenv').config();
 const fs = require('fs');
 const csv = require('csv-parser');
 const { PrismaClient } = require('@prisma/client');
+const { updateSongWithHistory, createSongWithHistory } = require('../src/utils/song-changes.cjs');
 
 const prisma = new PrismaClient();
 
@@ -303,31 +304,30 @@ async function importToDatabase() {
         });
         const wasNew = !existingBefore;
 
-        const result = await prisma.song.upsert({
-          where: { isrc: song.isrc },
-          update: {
-            title: song.title,
-            artist: song.artist,
-            energy: song.energy,
-            bpm: song.bpm,
-            subgenre: song.subgenre,
-            artwork: song.artwork,
-            sourceFile: song.sourceFile,
-            aiStatus: song.aiStatus,
-            aiEnergy: song.aiEnergy,
-            aiAccessibility: song.aiAccessibility,
-            aiExplicit: song.aiExplicit,
-            aiSubgenre1: song.aiSubgenre1,
-            aiSubgenre2: song.aiSubgenre2,
-            aiSubgenre3: song.aiSubgenre3,
-            uploadBatchId: song.uploadBatchId,
-            uploadBatchName: song.uploadBatchName,
-            reviewed: song.reviewed,
-            reviewedBy: song.reviewedBy,
-            reviewedAt: song.reviewedAt
-          },
-          create: song
-        });
+        const changeMeta = { source: 'IMPORT', context: `import-curator-to-db: ${playlistName}` };
+        const result = existingBefore
+          ? await updateSongWithHistory(prisma, existingBefore, {
+              title: song.title,
+              artist: song.artist,
+              energy: song.energy,
+              bpm: song.bpm,
+              subgenre: song.subgenre,
+              artwork: song.artwork,
+              sourceFile: song.sourceFile,
+              aiStatus: song.aiStatus,
+              aiEnergy: song.aiEnergy,
+              aiAccessibility: song.aiAccessibility,
+              aiExplicit: song.aiExplicit,
+              aiSubgenre1: song.aiSubgenre1,
+              aiSubgenre2: song.aiSubgenre2,
+              aiSubgenre3: song.aiSubgenre3,
+              uploadBatchId: song.uploadBatchId,
+              uploadBatchName: song.uploadBatchName,
+              reviewed: song.reviewed,
+              reviewedBy: song.reviewedBy,
+              reviewedAt: song.reviewedAt
+            }, changeMeta)
+          : await createSongWithHistory(prisma, song, changeMeta);
 
         // Create playlist association
         if (playlist) {
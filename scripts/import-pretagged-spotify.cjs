@@ -27,6 +27,7 @@ const { parse } = require('csv-parse/sync');
 const { PrismaClient } = require('@prisma/client');
 const spotifyClient = require('../src/utils/spotify-client.cjs');
 const { normalizeBpm } = require('../src/utils/bpm-normalizer.cjs');
+const { upsertSongWithHistory } = require('../src/utils/song-changes.cjs');
 
 const prisma = new PrismaClient();
 
@@ -305,11 +306,10 @@ async function processSong(song, spotifyMetadata, batchName = null, batchId = nu
     };
 
     // Upsert to database
-    await prisma.song.upsert({
-      where: { isrc: song.isrc },
+    await upsertSongWithHistory(prisma, song.isrc, {
       update: songData,
       create: songData,
-    });
+    }, { source: 'IMPORT', context: `import-pretagged-spotify: ${batchName}` });
 
     // Create playlist association if playlistId provided
     if (playlistId) {
@@ -8,7 +8,9 @@
 
 const { PrismaClient } = require('@prisma/client');
 const { classifySong } = require('../src/classifiers/gemini-classifier.cjs');
+const { loadTaxonomy } = require('../src/utils/subgenre-loader.cjs');
 const { classifyExplicitContent } = require('../src/classifiers/explicit-classifier.cjs');
+const { updateSongWithHistory } = require('../src/utils/song-changes.cjs');
 
 const prisma = new PrismaClient();
 
@@ -32,6 +34,9 @@ async function reprocessErrors() {
     console.log('='.repeat(60));
     console.log('');
 
+    // Subgenre list for the prompt and validation
+    await loadTaxonomy(prisma);
+
     // Find all ERROR songs for this batch
     const errorSongs = await prisma.song.findMany({
       where: {
@@ -77,21 +82,18 @@ async function reprocessErrors() {
           const explicitResult = await classifyExplicitContent(song.artist, song.title);
 
           // Update database
-          await prisma.song.update({
-            where: { isrc: song.isrc },
-            data: {
-              aiEnergy: geminiResult.energy,
-              aiAccessibility: geminiResult.accessibility,
-              aiSubgenre1: geminiResult.subgenre1,
-              aiSubgenre2: geminiResult.subgenre2,
-              aiSubgenre3: geminiResult.subgenre3,
-              aiExplicit: explicitResult.classification,
-              aiReasoning: geminiResult.reasoning,
-              aiContextUsed: geminiResult.context,
-              aiStatus: 'SUCCESS',
-              modifiedAt: new Date()
-            }
-          });
+          await updateSongWithHistory(prisma, song, {
+            aiEnergy: geminiResult.energy,
+            aiAccessibility: geminiResult.accessibility,
+            aiSubgenre1: geminiResult.subgenre1,
+            aiSubgenre2: geminiResult.subgenre2,
+            aiSubgenre3: geminiResult.subgenre3,
+            aiExplicit: explicitResult.classification,
+            aiReasoning: geminiResult.reasoning,
+            aiContextUsed: geminiResult.context,
+            aiStatus: 'SUCCESS',
+            modifiedAt: new Date()
+          }, { source: 'AI', context: `reprocess-errors: ${batchName}` });
 
           console.log(`  ✓ Fixed: ${song.artist} - ${song.title}`);
           successCount++;
@@ -17,6 +17,7 @@ import fs from 'fs';
 import { parse } from 'csv-parse/sync';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import songChanges from '../src/utils/song-changes.cjs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -74,8 +75,7 @@ async function seed() {
           : `TEMP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
         // Upsert song using Prisma (insert or update if ISRC exists)
-        const result = await prisma.song.upsert({
-          where: { isrc },
+        const result = await songChanges.upsertSongWithHistory(prisma, isrc, {
           create: {
             isrc,
             title: row.title,
@@ -110,7 +110,7 @@ async function seed() {
             aiSubgenre3: row.ai_subgenre_3,
             modifiedAt: new Date(),
           },
-        });
+        }, { source: 'IMPORT', context: 'seed' });
 
         // Track if this was an insert or update
         // Prisma upsert always returns the record, so we check if createdAt == modifiedAt
@@ -3,29 +3,43 @@
 /**
  * Validate Subgenres Data
  *
- * This script validates data/subgenres.json for:
+ * This script validates the subgenre taxonomy in the database (categories and
+ * subgenres tables) for:
  * - Duplicate subgenres
  * - Empty or whitespace-only subgenres
- * - Consistent data structure
+ * - Consistent data structure (every category has an active subgenre)
+ * - Song subgenres that aren't in the taxonomy (reported, not fatal)
  *
- * Usage: node scripts/validate-subgenres.cjs
+ * --seed validates data/subgenres.json (the seed the tables were created from)
+ * instead, without a database.
+ *
+ * Usage: node scripts/validate-subgenres.cjs [--seed]
  */
 
-const { loadSubgenres, getAllSubgenres, getSubgenreStats } = require('../src/utils/subgenre-loader.cjs');
+const { loadTaxonomy, loadSeedTaxonomy, loadSubgenres, getSubgenreStats } = require('../src/utils/subgenre-loader.cjs');
+
+const useSeed = process.argv.includes('--seed');
 
-console.log('\n🔍 Subgenre Validation Report\n');
-console.log('=' .repeat(50) + '\n');
+async function validate(prisma) {
+  console.log('\n🔍 Subgenre Validation Report\n');
+  console.log('=' .repeat(50) + '\n');
 
-try {
   // Load data
-  const data = loadSubgenres();
-  const allSubgenres = getAllSubgenres();
+  if (prisma) {
+    await loadTaxonomy(prisma);
+  } else {
+    loadSeedTaxonomy();
+  }
+  const data = loadSubgenres({ includeDeprecated: true });
+  const allSubgenres = data.categories.flatMap(cat => cat.subgenres);
+  const activeByCategory = new Map(loadSubgenres().categories.map(cat => [cat.name, cat.subgenres.length]));
   const stats = getSubgenreStats();
 
   // Display statistics
   console.log('📊 Statistics:');
+  console.log(`  Source: ${useSeed ? 'data/subgenres.json' : 'database'}`);
   console.log(`  Total categories: ${stats.totalCategories}`);
-  console.log(`  Total subgenres: ${stats.totalSubgenres}\n`);
+  console.log(`  Total subgenres: ${stats.totalSubgenres} (${stats.deprecatedSubgenres} deprecated)\n`);
 
   // Validation 1: Check for duplicates
   console.log('🔎 Checking for duplicates...');
@@ -43,7 +57,7 @@ try {
   if (duplicates.length > 0) {
     console.error('  ❌ DUPLICATES FOUND:');
     duplicates.forEach(dup => console.error(`     - "${dup}"`));
-    process.exit(1);
+    return false;
   } else {
     console.log('  ✅ No duplicates found');
   }
@@ -54,7 +68,7 @@ try {
 
   if (empties.length > 0) {
     console.error('  ❌ EMPTY SUBGENRES FOUND');
-    process.exit(1);
+    return false;
   } else {
     console.log('  ✅ No empty subgenres found');
   }
@@ -77,15 +91,44 @@ try {
     if (category.subgenres.length === 0) {
       console.error(`  ❌ Category "${category.name}" has no subgenres`);
       structureValid = false;
+    } else if (activeByCategory.get(category.name) === 0) {
+      console.warn(`  ⚠️  Category "${category.name}" only has deprecated subgenres`);
     }
   });
 
   if (!structureValid) {
-    process.exit(1);
+    return false;
   } else {
     console.log('  ✅ Data structure is valid');
   }
 
+  // Validation 4: Song values missing from the taxonomy
+  if (prisma) {
+    console.log('\n🔎 Checking song subgenres...');
+    const known = new Set(allSubgenres);
+    const unknown = new Map();
+
+    for (const slot of ['aiSubgenre1', 'aiSubgenre2', 'aiSubgenre3']) {
+      const groups = await prisma.song.groupBy({
+        by: [slot],
+        where: { [slot]: { not: null } },
+        _count: { _all: true }
+      });
+      groups
+        .filter(group => !known.has(group[slot]))
+        .forEach(group => unknown.set(group[slot], (unknown.get(group[slot]) || 0) + group._count._all));
+    }
+
+    if (unknown.size > 0) {
+      console.warn(`  ⚠️  ${unknown.size} song subgenres are not in the taxonomy:`);
+      [...unknown.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([name, count]) => console.warn(`     - "${name}" (${count} songs)`));
+    } else {
+      console.log('  ✅ Every song subgenre is in the taxonomy');
+    }
+  }
+
   // Display category breakdown
   console.log('\n📂 Categories:\n');
   data.categories.forEach(category => {
@@ -95,9 +138,25 @@ try {
 
   console.log('\n' + '='.repeat(50));
   console.log('✅ All validations passed!\n');
+  return true;
+}
+
+async function main() {
+  const prisma = useSeed ? null : new (require('@prisma/client').PrismaClient)();
 
-} catch (error) {
-  console.error('\n❌ Validation failed:', error.message);
-  console.error(error.stack);
-  process.exit(1);
+  try {
+    return await validate(prisma);
+  } finally {
+    await prisma?.$disconnect();
+  }
 }
+
+main()
+  .then(passed => {
+    if (!passed) process.exit(1);
+  })
+  .catch(error => {
+    console.error('\n❌ Validation failed:', error.message);
+    console.error(error.stack);
+    process.exit(1);
+  });
@@ -0,0 +1,223 @@
+/**
+ * Audio Decoder
+ *
+ * Decodes WAV and MP3 files to float PCM for audio-features.cjs, on plain CPU
+ * with no native tools (ffmpeg, sox) required.
+ *
+ * - WAV: parsed here; 8/16/24/32-bit integer PCM and 32/64-bit float, including
+ *   WAVE_FORMAT_EXTENSIBLE files
+ * - MP3: mpg123-decoder (WebAssembly), loaded only when an MP3 is decoded
+ * - Decoding stops after `maxSeconds`, so a full-length source file costs no
+ *   more memory than the analysis window
+ */
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+// MP3 bytes handed to the decoder per call
+const MP3_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * @typedef {Object} DecodedAudio
+ * @property {number} sampleRate
+ * @property {Float32Array[]} channels - One array per channel, samples in [-1, 1]
+ * @property {'wav'|'mp3'} format
+ */
+
+/**
+ * Detects the container from the file header
+ * @param {Buffer} buffer
+ * @returns {'wav'|'mp3'|null}
+ */
+function detectAudioFormat(buffer) {
+  if (buffer.length >= 12 &&
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WAVE') {
+    return 'wav';
+  }
+
+  // ID3 tag, or an MPEG audio frame sync
+  if (buffer.length >= 3 && buffer.toString('ascii', 0, 3) === 'ID3') {
+    return 'mp3';
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) {
+    return 'mp3';
+  }
+
+  return null;
+}
+
+/**
+ * Reads one sample as a float in [-1, 1]
+ */
+function sampleReader(formatTag, bitsPerSample) {
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample === 32) return (buf, offset) => buf.readFloatLE(offset);
+    if (bitsPerSample === 64) return (buf, offset) => buf.readDoubleLE(offset);
+  } else if (formatTag === WAVE_FORMAT_PCM) {
+    if (bitsPerSample === 8) return (buf, offset) => (buf[offset] - 128) / 128;
+    if (bitsPerSample === 16) return (buf, offset) => buf.readInt16LE(offset) / 32768;
+    if (bitsPerSample === 24) return (buf, offset) => buf.readIntLE(offset, 3) / 8388608;
+    if (bitsPerSample === 32) return (buf, offset) => buf.readInt32LE(offset) / 2147483648;
+  }
+
+  throw new Error(`Unsupported WAV encoding (format ${formatTag}, ${bitsPerSample}-bit)`);
+}
+
+/**
+ * Decodes a RIFF/WAVE file
+ * @param {Buffer} buffer
+ * @param {number} maxSeconds
+ * @returns {DecodedAudio}
+ */
+function decodeWav(buffer, maxSeconds) {
+  let offset = 12;
+  let fmt = null;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    let chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let formatTag = buffer.readUInt16LE(body);
+      const bitsPerSample = buffer.readUInt16LE(body + 14);
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        // First two bytes of the SubFormat GUID are the actual format tag
+        formatTag = buffer.readUInt16LE(body + 24);
+      }
+      fmt = {
+        formatTag,
+        channelCount: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        blockAlign: buffer.readUInt16LE(body + 12),
+        bitsPerSample
+      };
+    } else if (chunkId === 'data') {
+      if (!fmt) {
+        throw new Error('WAV data chunk found before fmt chunk');
+      }
+      // Streamed WAVs leave the size at 0 or 0xFFFFFFFF
+      if (chunkSize === 0 || body + chunkSize > buffer.length) {
+        chunkSize = buffer.length - body;
+      }
+      return readWavSamples(buffer.subarray(body, body + chunkSize), fmt, maxSeconds);
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+function readWavSamples(data, fmt, maxSeconds) {
+  const { formatTag, channelCount, sampleRate, blockAlign, bitsPerSample } = fmt;
+  if (!channelCount || !sampleRate || !blockAlign) {
+    throw new Error('WAV fmt chunk is invalid');
+  }
+
+  const read = sampleReader(formatTag, bitsPerSample);
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.min(
+    Math.floor(data.length / blockAlign),
+    Math.floor(maxSeconds * sampleRate)
+  );
+
+  const channels = [];
+  for (let ch = 0; ch < channelCount; ch++) {
+    channels.push(new Float32Array(frameCount));
+  }
+
+  for (let i = 0; i < frameCount; i++) {
+    const frameOffset = i * blockAlign;
+    for (let ch = 0; ch < channelCount; ch++) {
+      channels[ch][i] = read(data, frameOffset + ch * bytesPerSample);
+    }
+  }
+
+  return { sampleRate, channels, format: 'wav' };
+}
+
+/**
+ * Decodes an MP3 file with mpg123-decoder
+ * @param {Buffer} buffer
+ * @param {number} maxSeconds
+ * @returns {Promise<DecodedAudio>}
+ */
+async function decodeMp3(buffer, maxSeconds) {
+  const { MPEGDecoder } = await import('mpg123-decoder');
+  const decoder = new MPEGDecoder();
+  await decoder.ready;
+
+  const parts = [];
+  let sampleRate = 0;
+  let decodedSamples = 0;
+
+  try {
+    for (let offset = 0; offset < buffer.length; offset += MP3_CHUNK_BYTES) {
+      const chunk = new Uint8Array(buffer.subarray(offset, offset + MP3_CHUNK_BYTES));
+      const { channelData, samplesDecoded, sampleRate: rate } = decoder.decode(chunk);
+
+      if (samplesDecoded > 0) {
+        sampleRate = rate;
+        parts.push(channelData.map(data => data.slice(0, samplesDecoded)));
+        decodedSamples += samplesDecoded;
+      }
+
+      if (sampleRate && decodedSamples >= maxSeconds * sampleRate) {
+        break;
+      }
+    }
+  } finally {
+    decoder.free();
+  }
+
+  if (decodedSamples === 0) {
+    throw new Error('MP3 file contains no decodable audio');
+  }
+
+  const frameCount = Math.min(decodedSamples, Math.floor(maxSeconds * sampleRate));
+  const channelCount = parts[0].length;
+  const channels = [];
+
+  for (let ch = 0; ch < channelCount; ch++) {
+    const samples = new Float32Array(frameCount);
+    let position = 0;
+    for (const part of parts) {
+      if (position >= frameCount) break;
+      const data = part[ch] || part[0];
+      samples.set(data.subarray(0, frameCount - position), position);
+      position += data.length;
+    }
+    channels.push(samples);
+  }
+
+  return { sampleRate, channels, format: 'mp3' };
+}
+
+/**
+ * Decodes a WAV or MP3 file held in memory
+ * @param {Buffer} buffer - Complete file contents
+ * @param {{maxSeconds?: number}} [options] - Stop after this much audio (default: all)
+ * @returns {Promise<DecodedAudio>}
+ * @throws {Error} If the format is not WAV/MP3 or the file is corrupt
+ */
+async function decodeAudio(buffer, options = {}) {
+  const maxSeconds = options.maxSeconds ?? Infinity;
+  const format = detectAudioFormat(buffer);
+
+  if (format === 'wav') {
+    return decodeWav(buffer, maxSeconds);
+  }
+  if (format === 'mp3') {
+    return decodeMp3(buffer, maxSeconds);
+  }
+
+  throw new Error('Unsupported audio format (expected WAV or MP3)');
+}
+
+module.exports = {
+  detectAudioFormat,
+  decodeAudio
+};
@@ -0,0 +1,550 @@
+/**
+ * Audio Feature Extraction
+ *
+ * Measures a song's audio (Spotify preview or source file) so the classifier
+ * judges energy from the sound as well as from web text. Pure JavaScript on
+ * plain CPU; remote files are downloaded and analyzed locally.
+ *
+ * Features (first `audioAnalysisMaxSeconds` of the file):
+ * - tempo: autocorrelation of the onset envelope, 60-180 BPM with a prior
+ *   around 120, folded into 50-170 by bpm-normalizer.cjs
+ * - loudness: RMS in dBFS and integrated loudness in LUFS (ITU-R BS.1770:
+ *   K-weighting, 400ms blocks, absolute and relative gates)
+ * - brightness: spectral centroid in Hz, weighted by frame energy
+ * - onsetRate: detected note/beat onsets per second (spectral flux peaks)
+ * - energyScore: 0-1 heuristic, mostly onset density plus loudness and brightness
+ *
+ * Settings: AUDIO_ANALYSIS_ENABLED / AUDIO_ANALYSIS_MAX_SECONDS env vars, then
+ * `audioAnalysisEnabled` / `audioAnalysisMaxSeconds` in config/default.json
+ */
+
+const fs = require('fs');
+const path = require('path');
+const axios = require('axios');
+const { decodeAudio } = require('./audio-decoder.cjs');
+const { normalizeBpm } = require('../utils/bpm-normalizer.cjs');
+
+const DEFAULT_MAX_SECONDS = 90;
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+const MAX_DOWNLOAD_BYTES = 100 * 1024 * 1024;
+
+// Analysis frames of ~46ms, hop of a quarter frame
+const FRAME_SECONDS = 0.046;
+const MIN_TEMPO_BPM = 60;
+const MAX_TEMPO_BPM = 180;
+const TEMPO_PRIOR_BPM = 120;
+// Anything quieter is treated as silence (no onsets, no tempo)
+const SILENCE_DB = -60;
+// Mean log-magnitude rise per frequency bin below which nothing counts as an
+// onset (keeps sustained pads and slow swells at zero)
+const MIN_ONSET_STRENGTH = 0.005;
+// Fewer onsets than this per second leave no pulse to measure
+const MIN_PULSE_ONSET_RATE = 0.5;
+
+/**
+ * @typedef {Object} AudioFeatures
+ * @property {number|null} tempo - Estimated BPM (50-170), null if no pulse was found
+ * @property {number} tempoConfidence - Autocorrelation strength of the tempo, 0-1
+ * @property {number|null} loudnessLufs - Integrated loudness, null for silence
+ * @property {number|null} rmsDb - RMS level in dBFS, null for silence
+ * @property {number} brightness - Spectral centroid in Hz
+ * @property {number} onsetRate - Onsets per second
+ * @property {number} energyScore - 0 (calm, sparse, quiet) to 1 (dense, loud, bright)
+ * @property {number} duration - Seconds analyzed
+ */
+
+/**
+ * Reads whether songs are analyzed during upload and reclassification. Off
+ * unless turned on: each task downloads and decodes a file on the CPU, several
+ * tasks at a time.
+ * @returns {boolean}
+ */
+function isAudioAnalysisEnabled() {
+  if (process.env.AUDIO_ANALYSIS_ENABLED !== undefined) {
+    return !['false', '0', 'off'].includes(process.env.AUDIO_ANALYSIS_ENABLED.trim().toLowerCase());
+  }
+
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  return config.audioAnalysisEnabled ?? false;
+}
+
+/**
+ * Reads the analysis window in seconds
+ * @returns {number}
+ */
+function getAudioAnalysisMaxSeconds() {
+  if (process.env.AUDIO_ANALYSIS_MAX_SECONDS !== undefined) {
+    const seconds = parseFloat(process.env.AUDIO_ANALYSIS_MAX_SECONDS);
+    return Number.isNaN(seconds) || seconds <= 0 ? DEFAULT_MAX_SECONDS : seconds;
+  }
+
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  return config.audioAnalysisMaxSeconds ?? DEFAULT_MAX_SECONDS;
+}
+
+const clamp01 = value => Math.min(1, Math.max(0, value));
+const round = (value, digits) => Math.round(value * 10 ** digits) / 10 ** digits;
+const toDb = meanSquare => 10 * Math.log10(meanSquare);
+
+/**
+ * RBJ biquad coefficients, normalized so a0 = 1
+ */
+function biquad(b0, b1, b2, a0, a1, a2) {
+  return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+/**
+ * BS.1770 K-weighting (high shelf + high pass) for any sample rate
+ */
+function kWeightingFilters(sampleRate) {
+  const shelf = (() => {
+    const A = 10 ** (4 / 40);
+    const w0 = 2 * Math.PI * 1500 / sampleRate;
+    const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+    const cos = Math.cos(w0);
+    const sqrtA = Math.sqrt(A);
+    return biquad(
+      A * ((A + 1) + (A - 1) * cos + 2 * sqrtA * alpha),
+      -2 * A * ((A - 1) + (A + 1) * cos),
+      A * ((A + 1) + (A - 1) * cos - 2 * sqrtA * alpha),
+      (A + 1) - (A - 1) * cos + 2 * sqrtA * alpha,
+      2 * ((A - 1) - (A + 1) * cos),
+      (A + 1) - (A - 1) * cos - 2 * sqrtA * alpha
+    );
+  })();
+
+  const highPass = (() => {
+    const w0 = 2 * Math.PI * 38 / sampleRate;
+    const alpha = Math.sin(w0) / (2 * 0.5);
+    const cos = Math.cos(w0);
+    return biquad((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+  })();
+
+  return [shelf, highPass];
+}
+
+/**
+ * Integrated loudness (LUFS) and RMS level (dBFS) across all channels
+ * @param {Float32Array[]} channels
+ * @param {number} sampleRate
+ */
+function measureLoudness(channels, sampleRate) {
+  const filters = kWeightingFilters(sampleRate);
+  // 100ms steps; a 400ms gating block is four consecutive steps
+  const stepSize = Math.round(sampleRate * 0.1);
+  const length = channels[0].length;
+  const stepCount = Math.floor(length / stepSize);
+  const stepEnergy = new Float64Array(stepCount);
+  let sumSquares = 0;
+
+  for (const samples of channels) {
+    const states = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+
+    for (let i = 0; i < length; i++) {
+      const raw = samples[i];
+      sumSquares += raw * raw;
+
+      let value = raw;
+      for (let f = 0; f < filters.length; f++) {
+        const c = filters[f];
+        const s = states[f];
+        const out = c.b0 * value + c.b1 * s.x1 + c.b2 * s.x2 - c.a1 * s.y1 - c.a2 * s.y2;
+        s.x2 = s.x1; s.x1 = value;
+        s.y2 = s.y1; s.y1 = out;
+        value = out;
+      }
+
+      const step = Math.floor(i / stepSize);
+      if (step < stepCount) {
+        stepEnergy[step] += value * value;
+      }
+    }
+  }
+
+  const meanSquare = sumSquares / (length * channels.length);
+  const rmsDb = meanSquare > 0 ? round(toDb(meanSquare), 1) : null;
+
+  // Block loudness; channel weights are 1 for mono/stereo
+  const blocks = [];
+  for (let step = 0; step + 4 <= stepCount; step++) {
+    const energy = (stepEnergy[step] + stepEnergy[step + 1] + stepEnergy[step + 2] + stepEnergy[step + 3]) / (4 * stepSize);
+    blocks.push(energy);
+  }
+
+  const blockLoudness = energy => -0.691 + toDb(energy);
+  const gatedMean = list => list.reduce((sum, energy) => sum + energy, 0) / list.length;
+
+  const aboveAbsolute = blocks.filter(energy => energy > 0 && blockLoudness(energy) > -70);
+  if (aboveAbsolute.length === 0) {
+    return { loudnessLufs: null, rmsDb };
+  }
+
+  const relativeGate = blockLoudness(gatedMean(aboveAbsolute)) - 10;
+  const aboveRelative = aboveAbsolute.filter(energy => blockLoudness(energy) > relativeGate);
+
+  return {
+    loudnessLufs: round(blockLoudness(gatedMean(aboveRelative)), 1),
+    rmsDb
+  };
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function createFft(size) {
+  const levels = Math.log2(size);
+  const reverse = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let bit = 0; bit < levels; bit++) {
+      r = (r << 1) | ((i >>> bit) & 1);
+    }
+    reverse[i] = r;
+  }
+
+  const cos = new Float64Array(size / 2);
+  const sin = new Float64Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos(2 * Math.PI * i / size);
+    sin[i] = -Math.sin(2 * Math.PI * i / size);
+  }
+
+  return (re, im) => {
+    for (let i = 0; i < size; i++) {
+      const j = reverse[i];
+      if (j > i) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+
+    for (let half = 1; half < size; half *= 2) {
+      const step = size / (half * 2);
+      for (let start = 0; start < size; start += half * 2) {
+        for (let k = 0; k < half; k++) {
+          const tr = re[start + k + half] * cos[k * step] - im[start + k + half] * sin[k * step];
+          const ti = re[start + k + half] * sin[k * step] + im[start + k + half] * cos[k * step];
+          re[start + k + half] = re[start + k] - tr;
+          im[start + k + half] = im[start + k] - ti;
+          re[start + k] += tr;
+          im[start + k] += ti;
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Spectral centroid and onset (spectral flux) envelope of the mono mix
+ */
+function analyzeSpectrum(mono, sampleRate) {
+  const frameSize = 2 ** Math.round(Math.log2(sampleRate * FRAME_SECONDS));
+  const hopSize = frameSize / 4;
+  const bins = frameSize / 2 + 1;
+  const fft = createFft(frameSize);
+  const window = new Float64Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / frameSize);
+  }
+
+  const frameCount = Math.max(0, Math.floor((mono.length - frameSize) / hopSize) + 1);
+  const flux = new Float64Array(frameCount);
+  const frameDb = new Float64Array(frameCount);
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  let previous = new Float64Array(bins);
+  let current = new Float64Array(bins);
+  let centroidSum = 0;
+  let centroidWeight = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * hopSize;
+    let frameEnergy = 0;
+    for (let i = 0; i < frameSize; i++) {
+      const sample = mono[start + i];
+      frameEnergy += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    frameDb[frame] = frameEnergy > 0 ? toDb(frameEnergy / frameSize) : -Infinity;
+
+    fft(re, im);
+
+    let magnitudeSum = 0;
+    let weightedFrequency = 0;
+    let frameFlux = 0;
+    for (let k = 0; k < bins; k++) {
+      const magnitude = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+      magnitudeSum += magnitude;
+      weightedFrequency += magnitude * (k * sampleRate / frameSize);
+
+      // Log compression keeps quiet attacks visible next to loud sustained notes
+      current[k] = Math.log1p(100 * magnitude / frameSize);
+      const rise = current[k] - previous[k];
+      if (rise > 0) frameFlux += rise;
+    }
+
+    flux[frame] = frame === 0 ? 0 : frameFlux / bins;
+    [previous, current] = [current, previous];
+
+    if (magnitudeSum > 0 && frameDb[frame] > SILENCE_DB) {
+      centroidSum += (weightedFrequency / magnitudeSum) * frameEnergy;
+      centroidWeight += frameEnergy;
+    }
+  }
+
+  return {
+    flux,
+    frameDb,
+    envelopeRate: sampleRate / hopSize,
+    brightness: centroidWeight > 0 ? Math.round(centroidSum / centroidWeight) : 0
+  };
+}
+
+/**
+ * Flux minus its local mean (±0.25s), floored at zero
+ */
+function onsetStrength(flux, envelopeRate) {
+  const radius = Math.max(1, Math.round(envelopeRate * 0.25));
+  const strength = new Float64Array(flux.length);
+  let windowSum = 0;
+  let lo = 0;
+  let hi = -1;
+
+  for (let i = 0; i < flux.length; i++) {
+    while (hi < Math.min(flux.length - 1, i + radius)) windowSum += flux[++hi];
+    while (lo < i - radius) windowSum -= flux[lo++];
+    strength[i] = Math.max(0, flux[i] - windowSum / (hi - lo + 1));
+  }
+
+  return strength;
+}
+
+/**
+ * Counts onsets: local maxima of the onset strength well above its typical level,
+ * at least 50ms apart
+ */
+function countOnsets(strength, frameDb, envelopeRate) {
+  let sum = 0;
+  let sumSquares = 0;
+  for (const value of strength) {
+    sum += value;
+    sumSquares += value * value;
+  }
+  const mean = sum / strength.length;
+  const std = Math.sqrt(Math.max(0, sumSquares / strength.length - mean * mean));
+  const threshold = Math.max(mean + std, MIN_ONSET_STRENGTH);
+  const neighbourhood = Math.max(1, Math.round(envelopeRate * 0.03));
+  const minGap = Math.round(envelopeRate * 0.05);
+
+  let count = 0;
+  let lastOnset = -Infinity;
+
+  for (let i = 0; i < strength.length; i++) {
+    if (strength[i] <= threshold || frameDb[i] <= SILENCE_DB || i - lastOnset < minGap) continue;
+
+    let isPeak = true;
+    for (let j = Math.max(0, i - neighbourhood); j <= Math.min(strength.length - 1, i + neighbourhood); j++) {
+      if (strength[j] > strength[i]) {
+        isPeak = false;
+        break;
+      }
+    }
+
+    if (isPeak) {
+      count++;
+      lastOnset = i;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Tempo from the autocorrelation of the onset strength envelope
+ */
+function estimateTempo(strength, envelopeRate) {
+  const minLag = Math.floor(envelopeRate * 60 / MAX_TEMPO_BPM);
+  const maxLag = Math.ceil(envelopeRate * 60 / MIN_TEMPO_BPM);
+  if (strength.length <= maxLag * 2) {
+    return { tempo: null, tempoConfidence: 0 };
+  }
+
+  const autocorrelation = lag => {
+    let sum = 0;
+    for (let i = lag; i < strength.length; i++) {
+      sum += strength[i] * strength[i - lag];
+    }
+    return sum / (strength.length - lag);
+  };
+
+  const zeroLag = autocorrelation(0);
+  if (zeroLag <= 0) {
+    return { tempo: null, tempoConfidence: 0 };
+  }
+
+  const correlations = new Float64Array(maxLag + 2);
+  for (let lag = Math.max(1, minLag - 1); lag <= maxLag + 1; lag++) {
+    correlations[lag] = autocorrelation(lag);
+  }
+
+  // Log-normal prior (one octave wide) resolves half/double tempo ambiguity
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 * envelopeRate / lag;
+    const prior = Math.exp(-0.5 * Math.log2(bpm / TEMPO_PRIOR_BPM) ** 2);
+    const score = correlations[lag] * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag === 0) {
+    return { tempo: null, tempoConfidence: 0 };
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision
+  const [left, center, right] = [correlations[bestLag - 1], correlations[bestLag], correlations[bestLag + 1]];
+  const denominator = left - 2 * center + right;
+  const offset = denominator < 0 ? 0.5 * (left - right) / denominator : 0;
+  const bpm = 60 * envelopeRate / (bestLag + offset);
+
+  return {
+    tempo: normalizeBpm(bpm).normalizedBpm,
+    tempoConfidence: round(clamp01(center / zeroLag), 2)
+  };
+}
+
+/**
+ * Combines onset density, loudness and brightness into a 0-1 energy score.
+ * Around 6 onsets/s, -8 LUFS or a 3.5kHz centroid each max out their part.
+ */
+function energyScore({ onsetRate, loudnessLufs, brightness }) {
+  const density = clamp01(onsetRate / 6);
+  const loudness = loudnessLufs === null ? 0 : clamp01((loudnessLufs + 30) / 22);
+  const bright = clamp01((brightness - 500) / 3000);
+  return round(0.5 * density + 0.3 * loudness + 0.2 * bright, 2);
+}
+
+/**
+ * Extracts features from decoded audio
+ * @param {import('./audio-decoder.cjs').DecodedAudio} audio
+ * @returns {AudioFeatures}
+ */
+function extractFeatures({ sampleRate, channels }) {
+  const length = channels[0]?.length || 0;
+  if (length < sampleRate) {
+    throw new Error('Audio is shorter than one second');
+  }
+
+  const mono = channels.length === 1 ? channels[0] : new Float32Array(length);
+  if (channels.length > 1) {
+    for (const samples of channels) {
+      for (let i = 0; i < length; i++) {
+        mono[i] += samples[i] / channels.length;
+      }
+    }
+  }
+
+  const { loudnessLufs, rmsDb } = measureLoudness(channels, sampleRate);
+  const { flux, frameDb, envelopeRate, brightness } = analyzeSpectrum(mono, sampleRate);
+  const duration = length / sampleRate;
+  const silent = rmsDb === null || rmsDb <= SILENCE_DB;
+
+  const strength = onsetStrength(flux, envelopeRate);
+  const onsetRate = silent ? 0 : round(countOnsets(strength, frameDb, envelopeRate) / duration, 2);
+  const { tempo, tempoConfidence } = onsetRate < MIN_PULSE_ONSET_RATE
+    ? { tempo: null, tempoConfidence: 0 }
+    : estimateTempo(strength, envelopeRate);
+
+  return {
+    tempo,
+    tempoConfidence,
+    loudnessLufs,
+    rmsDb,
+    brightness,
+    onsetRate,
+    energyScore: energyScore({ onsetRate, loudnessLufs, brightness }),
+    duration: round(duration, 2)
+  };
+}
+
+/**
+ * Analyzes a WAV or MP3 file held in memory
+ * @param {Buffer} buffer
+ * @param {{maxSeconds?: number}} [options]
+ * @returns {Promise<AudioFeatures>}
+ */
+async function analyzeAudioBuffer(buffer, options = {}) {
+  const maxSeconds = options.maxSeconds ?? getAudioAnalysisMaxSeconds();
+  const audio = await decodeAudio(buffer, { maxSeconds });
+  return extractFeatures(audio);
+}
+
+/**
+ * Reads a local path, or downloads an http(s) URL into memory
+ * @param {string} source
+ * @returns {Promise<Buffer>}
+ */
+async function readAudioSource(source) {
+  if (/^https?:\/\//i.test(source)) {
+    const response = await axios.get(source, {
+      responseType: 'arraybuffer',
+      timeout: DOWNLOAD_TIMEOUT_MS,
+      maxContentLength: MAX_DOWNLOAD_BYTES
+    });
+    return Buffer.from(response.data);
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(source)) {
+    throw new Error(`Unsupported audio location: ${source}`);
+  }
+
+  return fs.promises.readFile(source);
+}
+
+/**
+ * Analyzes a local file or an http(s) URL
+ * @param {string} source - File path or URL
+ * @param {{maxSeconds?: number}} [options]
+ * @returns {Promise<AudioFeatures>}
+ */
+async function analyzeAudio(source, options = {}) {
+  const buffer = await readAudioSource(source);
+  return analyzeAudioBuffer(buffer, options);
+}
+
+/**
+ * Formats features as a prompt section (empty string when there are none)
+ * @param {AudioFeatures|null|undefined} features
+ * @returns {string}
+ */
+function formatAudioFeaturesForPrompt(features) {
+  if (!features) {
+    return '';
+  }
+
+  const lines = [];
+  if (features.tempo) {
+    lines.push(`- Tempo: ~${features.tempo} BPM (confidence ${features.tempoConfidence})`);
+  }
+  if (features.loudnessLufs !== null && features.loudnessLufs !== undefined) {
+    lines.push(`- Loudness: ${features.loudnessLufs} LUFS (RMS ${features.rmsDb} dBFS)`);
+  }
+  lines.push(`- Brightness (spectral centroid): ${features.brightness} Hz`);
+  lines.push(`- Onset density: ${features.onsetRate} onsets/s`);
+  lines.push(`- Energy score: ${features.energyScore} (0 = calm and sparse, 1 = dense and loud)`);
+
+  return `Audio analysis of the recording (measured, not from the web):\n${lines.join('\n')}\n`;
+}
+
+module.exports = {
+  isAudioAnalysisEnabled,
+  getAudioAnalysisMaxSeconds,
+  extractFeatures,
+  analyzeAudioBuffer,
+  analyzeAudio,
+  formatAudioFeaturesForPrompt
+};
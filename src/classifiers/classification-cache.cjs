@@ -0,0 +1,251 @@
+/**
+ * Classification Result Cache
+ *
+ * Persistent cache (classification_cache table) in front of the configured
+ * classifier, so a track that reappears under a different or TEMP ISRC doesn't
+ * pay for another grounded Gemini call.
+ *
+ * - Key: normalized artist + title (fuzzy-matcher.cjs) + prompt version + model
+ * - Titles keep version suffixes ("Remix", "Live", ...) because those change
+ *   energy and subgenres; artists drop "The" and featured artists
+ * - Only successful classifications are cached, with the few-shot examples
+ *   that produced them (examples are only looked up on a miss)
+ * - Entries tagged with a subgenre that has since been deprecated or renamed
+ *   count as misses
+ * - Songs with measured audio features (`metadata.audio`) bypass the cache:
+ *   the features belong to one recording, which the key can't tell apart, so
+ *   those results are neither served from nor stored in it
+ * - TTL: CLASSIFICATION_CACHE_TTL_DAYS env var, then `classificationCacheTtlDays`
+ *   in config/default.json; 0 disables the cache
+ */
+
+const path = require('path');
+const { smartNormalize } = require('../utils/fuzzy-matcher.cjs');
+const { getDefaultPromptId } = require('../utils/prompt-registry.cjs');
+const { loadTaxonomy, getAllSubgenres } = require('../utils/subgenre-loader.cjs');
+const { getClassifierProvider, classifyWithProvider } = require('./classifier-provider.cjs');
+const { selectFewShotExamples } = require('./few-shot-examples.cjs');
+
+const DEFAULT_TTL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the cache TTL in days (0 = disabled)
+ * @returns {number}
+ */
+function getCacheTtlDays() {
+  if (process.env.CLASSIFICATION_CACHE_TTL_DAYS !== undefined) {
+    const days = parseFloat(process.env.CLASSIFICATION_CACHE_TTL_DAYS);
+    return Number.isNaN(days) ? DEFAULT_TTL_DAYS : Math.max(0, days);
+  }
+
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  return config.classificationCacheTtlDays ?? DEFAULT_TTL_DAYS;
+}
+
+/**
+ * Normalized artist used for cache keys and artist-level invalidation
+ * @param {string} artist
+ * @returns {string}
+ */
+function normalizeCacheArtist(artist) {
+  return smartNormalize(artist, '').artistStripped;
+}
+
+/**
+ * Builds the artist/title part of the cache key
+ * @param {string} artist
+ * @param {string} title
+ * @returns {string} e.g. "beatles|let it be remastered"
+ */
+function buildCacheKey(artist, title) {
+  const normalized = smartNormalize(artist, title);
+  return `${normalized.artistStripped}|${normalized.title}`;
+}
+
+/**
+ * Picks few-shot examples for a song; a failed lookup only costs the examples
+ * @returns {Promise<import('./few-shot-examples.cjs').FewShotExample[]>}
+ */
+async function loadExamples(prisma, artist, options) {
+  try {
+    return await selectFewShotExamples(prisma, artist, {
+      excludeIsrc: options.isrc,
+      subgenres: options.subgenres
+    });
+  } catch (error) {
+    console.error(`[FewShot] Example lookup failed for ${artist}:`, error.message);
+    return [];
+  }
+}
+
+/**
+ * Loads the current subgenre taxonomy for the prompt and validation; on a
+ * failed read the previously loaded taxonomy is kept
+ */
+async function refreshTaxonomy(prisma) {
+  try {
+    await loadTaxonomy(prisma);
+  } catch (error) {
+    console.error('[Cache] Taxonomy load failed, using previous subgenre list:', error.message);
+  }
+}
+
+/**
+ * Whether every subgenre of a cached result is still a valid tag
+ */
+function hasCurrentSubgenres(result) {
+  const valid = new Set(getAllSubgenres());
+  return [result.subgenre1, result.subgenre2, result.subgenre3]
+    .filter(Boolean)
+    .every(subgenre => valid.has(subgenre));
+}
+
+/**
+ * Classifies a song, serving a cached result when one is fresh
+ * Same result shape as classifyWithProvider(), plus `cached: boolean`
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {string} artist - Artist name
+ * @param {string} title - Song title
+ * @param {Object} metadata - Additional song metadata (bpm, energy, etc)
+ * @param {import('./classifier-provider.cjs').ClassifyOptions & {isrc?: string, refresh?: boolean, subgenres?: string[]}} [options]
+ *   `isrc` is recorded as the source song of new cache entries and never picked as
+ *   its own example; `refresh` skips the lookup (the model is always called) but
+ *   still stores the new result; `subgenres` (e.g. the song's current tags) widen
+ *   the few-shot example search
+ * @returns {Promise<Object>} Classification result
+ */
+async function classifySongWithCache(prisma, artist, title, metadata = {}, options = {}) {
+  const provider = getClassifierProvider();
+  const promptId = options.promptId || getDefaultPromptId();
+  const ttlDays = getCacheTtlDays();
+
+  await refreshTaxonomy(prisma);
+
+  if (ttlDays <= 0 || metadata.audio) {
+    const examples = await loadExamples(prisma, artist, options);
+    const result = await classifyWithProvider(provider, artist, title, metadata, { promptId, examples });
+    return { ...result, cached: false };
+  }
+
+  const cacheKey = buildCacheKey(artist, title);
+  const startedAt = Date.now();
+
+  try {
+    const entry = !options.refresh && await prisma.classificationCache.findUnique({
+      where: { cacheKey_promptId_model: { cacheKey, promptId, model: provider.model } }
+    });
+
+    if (entry && entry.expiresAt > new Date() && hasCurrentSubgenres(entry.result)) {
+      await prisma.classificationCache.update({
+        where: { id: entry.id },
+        data: { hitCount: { increment: 1 }, lastHitAt: new Date() }
+      });
+
+      console.log(`[Cache] Hit: ${artist} - ${title} (${promptId}, ${provider.model})`);
+      return {
+        ...entry.result,
+        usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+        provider: entry.provider,
+        model: entry.model,
+        rawResponse: null,
+        latencyMs: Date.now() - startedAt,
+        status: 'SUCCESS',
+        cached: true
+      };
+    }
+  } catch (error) {
+    // A broken cache must never block classification
+    console.error(`[Cache] Lookup failed for ${artist} - ${title}:`, error.message);
+  }
+
+  const examples = await loadExamples(prisma, artist, options);
+  const result = await classifyWithProvider(provider, artist, title, metadata, { promptId, examples });
+
+  if (result.status === 'SUCCESS') {
+    const cachedResult = {
+      energy: result.energy,
+      accessibility: result.accessibility,
+      subgenre1: result.subgenre1,
+      subgenre2: result.subgenre2,
+      subgenre3: result.subgenre3,
+      reasoning: result.reasoning,
+      context: result.context,
+      confidence: result.confidence || null,
+      repairs: result.repairs || [],
+      // Cache hits show curators the same sources as the original call
+      grounding: result.grounding || null,
+      promptId: result.promptId,
+      promptHash: result.promptHash,
+      examples: result.examples || []
+    };
+    const entryData = {
+      artistKey: normalizeCacheArtist(artist),
+      provider: result.provider,
+      result: cachedResult,
+      sourceIsrc: options.isrc || null,
+      expiresAt: new Date(Date.now() + ttlDays * DAY_MS)
+    };
+
+    try {
+      await prisma.classificationCache.upsert({
+        where: { cacheKey_promptId_model: { cacheKey, promptId, model: result.model } },
+        update: { ...entryData, hitCount: 0, lastHitAt: null, createdAt: new Date() },
+        create: { cacheKey, promptId, model: result.model, ...entryData }
+      });
+    } catch (error) {
+      console.error(`[Cache] Store failed for ${artist} - ${title}:`, error.message);
+    }
+  }
+
+  return { ...result, cached: false };
+}
+
+/**
+ * Deletes cache entries matching every given filter
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {{isrc?: string, artist?: string, promptId?: string}} filters
+ *   isrc matches the song's normalized artist/title and entries it produced
+ * @returns {Promise<number>} Number of entries deleted
+ * @throws {Error} If no filter is given or the ISRC doesn't exist
+ */
+async function invalidateClassificationCache(prisma, filters) {
+  const { isrc, artist, promptId } = filters;
+  const where = {};
+
+  if (!isrc && !artist && !promptId) {
+    throw new Error('At least one of isrc, artist or promptId is required');
+  }
+
+  if (isrc) {
+    const song = await prisma.song.findUnique({
+      where: { isrc },
+      select: { artist: true, title: true }
+    });
+    if (!song) {
+      throw new Error(`Song not found: ${isrc}`);
+    }
+    where.OR = [
+      { cacheKey: buildCacheKey(song.artist || '', song.title || '') },
+      { sourceIsrc: isrc }
+    ];
+  }
+
+  if (artist) {
+    where.artistKey = normalizeCacheArtist(artist);
+  }
+
+  if (promptId) {
+    where.promptId = promptId;
+  }
+
+  const { count } = await prisma.classificationCache.deleteMany({ where });
+  return count;
+}
+
+module.exports = {
+  getCacheTtlDays,
+  buildCacheKey,
+  classifySongWithCache,
+  invalidateClassificationCache
+};
@@ -0,0 +1,218 @@
+/**
+ * Classification Validator
+ *
+ * Validates classifier output against Raina's taxonomy and repairs near-misses.
+ *
+ * - energy / accessibility must be one of the fixed enum values
+ * - subgenre1..3 must be active (not deprecated) subgenres in the taxonomy
+ *   (subgenre-loader.cjs; callers load it from the database first)
+ * - Case-only differences and fuzzy near-misses (e.g. "Deep House Vocal") are
+ *   mapped to the closest valid value and recorded as repairs
+ * - Anything that can't be repaired is reported in `invalidFields` so the caller
+ *   can re-prompt the model
+ */
+
+const { calculateSimilarity } = require('../utils/fuzzy-matcher.cjs');
+const { getAllSubgenres } = require('../utils/subgenre-loader.cjs');
+
+const VALID_ENERGY = ['Very Low', 'Low', 'Medium', 'High', 'Very High'];
+const VALID_ACCESSIBILITY = ['Eclectic', 'Timeless', 'Commercial', 'Cheesy'];
+
+// Minimum fuzzy similarity (0-100) for a near-miss to be auto-repaired
+const REPAIR_SIMILARITY_THRESHOLD = 80;
+
+const SUBGENRE_FIELDS = ['subgenre1', 'subgenre2', 'subgenre3'];
+
+/**
+ * @typedef {Object} FieldRepair
+ * @property {string} field - Classification field (energy, accessibility, subgenre1..3)
+ * @property {string} from - Value returned by the model
+ * @property {string|null} to - Value stored after repair (null when dropped)
+ * @property {'case'|'fuzzy'|'reprompt'|'dropped'} method
+ * @property {number} [similarity] - Fuzzy similarity score for 'fuzzy' repairs
+ */
+
+/**
+ * Finds the closest valid value for a model-provided value
+ * @param {string} value
+ * @param {string[]} validValues
+ * @returns {{match: string, method: 'exact'|'case'|'fuzzy', similarity: number} | null}
+ */
+function findClosestValue(value, validValues) {
+  if (validValues.includes(value)) {
+    return { match: value, method: 'exact', similarity: 100 };
+  }
+
+  const lower = value.trim().toLowerCase();
+  const caseMatch = validValues.find(v => v.toLowerCase() === lower);
+  if (caseMatch) {
+    return { match: caseMatch, method: 'case', similarity: 100 };
+  }
+
+  let best = null;
+  for (const candidate of validValues) {
+    const similarity = calculateSimilarity(value, candidate);
+    if (!best || similarity > best.similarity) {
+      best = { match: candidate, method: 'fuzzy', similarity };
+    }
+  }
+
+  return best && best.similarity >= REPAIR_SIMILARITY_THRESHOLD ? best : null;
+}
+
+/**
+ * Validates a single field, recording any repair
+ * @returns {{value: string|null, repair: FieldRepair|null, valid: boolean}}
+ */
+function validateField(field, value, validValues) {
+  if (!value) {
+    return { value: null, repair: null, valid: true };
+  }
+
+  const closest = findClosestValue(String(value), validValues);
+  if (!closest) {
+    return { value, repair: null, valid: false };
+  }
+
+  if (closest.method === 'exact') {
+    return { value: closest.match, repair: null, valid: true };
+  }
+
+  const repair = { field, from: value, to: closest.match, method: closest.method };
+  if (closest.method === 'fuzzy') {
+    repair.similarity = closest.similarity;
+  }
+  return { value: closest.match, repair, valid: true };
+}
+
+/**
+ * Validates a parsed classification against the taxonomy
+ * @param {Object} classification - Parsed classifier output
+ * @returns {{classification: Object, repairs: FieldRepair[], invalidFields: string[]}}
+ */
+function validateClassification(classification) {
+  const validSubgenres = getAllSubgenres();
+  const repaired = { ...classification };
+  const repairs = [];
+  const invalidFields = [];
+
+  const checks = [
+    ['energy', VALID_ENERGY],
+    ['accessibility', VALID_ACCESSIBILITY],
+    ...SUBGENRE_FIELDS.map(field => [field, validSubgenres])
+  ];
+
+  repaired.confidence = { ...(classification.confidence || {}) };
+
+  for (const [field, validValues] of checks) {
+    const result = validateField(field, classification[field], validValues);
+    repaired[field] = result.value;
+    if (result.repair) {
+      repairs.push(result.repair);
+      // A fuzzy repair is only as trustworthy as the match it relied on
+      if (result.repair.similarity && repaired.confidence[field] != null) {
+        repaired.confidence[field] *= result.repair.similarity / 100;
+      }
+    }
+    if (!result.valid) invalidFields.push(field);
+  }
+
+  // Required fields must be present
+  for (const field of ['energy', 'accessibility', 'subgenre1']) {
+    if (!repaired[field] && !invalidFields.includes(field)) {
+      invalidFields.push(field);
+    }
+  }
+
+  dedupeSubgenres(repaired, repairs, invalidFields);
+
+  return { classification: repaired, repairs, invalidFields };
+}
+
+/**
+ * Removes subgenres that became duplicates after repair (e.g. two near-misses
+ * mapping to the same value). Slots are only compacted once every remaining
+ * value is valid, so invalidFields keeps pointing at the right slot.
+ */
+function dedupeSubgenres(classification, repairs, invalidFields = []) {
+  const seen = new Set();
+  const confidence = classification.confidence || {};
+
+  for (const field of SUBGENRE_FIELDS) {
+    const value = classification[field];
+    if (!value) continue;
+    if (seen.has(value)) {
+      repairs.push({ field, from: value, to: null, method: 'dropped' });
+      classification[field] = null;
+      continue;
+    }
+    seen.add(value);
+  }
+
+  if (invalidFields.length === 0) {
+    // Confidence scores move with their subgenre
+    const kept = SUBGENRE_FIELDS
+      .filter(field => classification[field])
+      .map(field => ({ value: classification[field], confidence: confidence[field] ?? null }));
+    SUBGENRE_FIELDS.forEach((field, i) => {
+      classification[field] = kept[i] ? kept[i].value : null;
+      confidence[field] = kept[i] ? kept[i].confidence : null;
+    });
+  }
+}
+
+/**
+ * Drops optional subgenres that are still invalid after a re-prompt
+ * Required fields are left for the caller to reject
+ * @returns {string[]} Remaining invalid required fields
+ */
+function dropInvalidOptionalFields(classification, invalidFields, repairs) {
+  const remaining = [];
+
+  for (const field of invalidFields) {
+    if (field === 'subgenre2' || field === 'subgenre3') {
+      repairs.push({ field, from: classification[field], to: null, method: 'dropped' });
+      classification[field] = null;
+      if (classification.confidence) classification.confidence[field] = null;
+    } else {
+      remaining.push(field);
+    }
+  }
+
+  dedupeSubgenres(classification, repairs, remaining);
+  return remaining;
+}
+
+/**
+ * Builds a correction message asking the model to fix invalid fields
+ * @param {Object} classification - Classification with invalid values
+ * @param {string[]} invalidFields
+ * @returns {string}
+ */
+function buildRepairPrompt(classification, invalidFields) {
+  const lines = ['Your previous answer contained values outside the allowed taxonomy:', ''];
+
+  for (const field of invalidFields) {
+    const value = classification[field] ? `"${classification[field]}"` : '(missing)';
+    if (field === 'energy') {
+      lines.push(`- energy ${value} must be exactly one of: ${VALID_ENERGY.join(', ')}`);
+    } else if (field === 'accessibility') {
+      lines.push(`- accessibility ${value} must be exactly one of: ${VALID_ACCESSIBILITY.join(', ')}`);
+    } else {
+      lines.push(`- ${field} ${value} is not in the subgenre list from your instructions`);
+    }
+  }
+
+  lines.push('');
+  lines.push('Reply with the corrected JSON object only, using the same format. Copy subgenre names exactly as written in the list.');
+  return lines.join('\n');
+}
+
+module.exports = {
+  VALID_ENERGY,
+  VALID_ACCESSIBILITY,
+  REPAIR_SIMILARITY_THRESHOLD,
+  validateClassification,
+  dropInvalidOptionalFields,
+  buildRepairPrompt
+};
@@ -0,0 +1,203 @@
+/**
+ * Classifier Provider Registry
+ *
+ * Defines the ClassifierProvider interface shared by every song classifier and
+ * selects the active implementation from configuration.
+ *
+ * Providers:
+ * - gemini: Gemini standard API with Google Search grounding (default)
+ * - local:  Offline fixture/rule-based classifier, no network or API key needed
+ *
+ * Selection order: CLASSIFIER_PROVIDER env var, then `classifierProvider` in
+ * config/default.json, then 'gemini'.
+ */
+
+const path = require('path');
+
+const DEFAULT_PROVIDER = 'gemini';
+
+/**
+ * @typedef {Object} Classification
+ * @property {string} energy
+ * @property {string} accessibility
+ * @property {string} subgenre1
+ * @property {string|null} subgenre2
+ * @property {string|null} subgenre3
+ * @property {string} reasoning
+ * @property {string} context
+ * @property {FieldConfidence} confidence
+ */
+
+/**
+ * Per-field confidence, 0 (guess) to 1 (certain); null when the provider gave none
+ * @typedef {Object} FieldConfidence
+ * @property {number|null} energy
+ * @property {number|null} accessibility
+ * @property {number|null} subgenre1
+ * @property {number|null} subgenre2
+ * @property {number|null} subgenre3
+ */
+
+/**
+ * @typedef {Object} ClassificationUsage
+ * @property {number} inputTokens
+ * @property {number} outputTokens
+ * @property {number} totalTokens
+ */
+
+/**
+ * Web search grounding behind a classification (search-backed providers only)
+ * @typedef {Object} Grounding
+ * @property {string[]} queries - Search queries the model ran
+ * @property {Array<{url: string, title: string|null, cited: string[]}>} sources - Pages used;
+ *   `cited` holds up to two passages of the answer each page supports
+ */
+
+/**
+ * @typedef {Object} ProviderResult
+ * @property {Classification} classification
+ * @property {ClassificationUsage} usage
+ * @property {import('./classification-validator.cjs').FieldRepair[]} [repairs] - Fields repaired during validation
+ * @property {string} [rawResponse] - Unparsed model output (re-prompt answers appended)
+ * @property {Grounding|null} [grounding] - Search queries and sources behind the answer
+ * @property {string} [promptId] - Prompt registry version used (prompt-based providers only)
+ * @property {string} [promptHash] - SHA-256 of the system instruction sent
+ * @property {import('./few-shot-examples.cjs').FewShotExample[]} [examples] - Few-shot examples put in the prompt
+ */
+
+/**
+ * @typedef {Object} ClassifyOptions
+ * @property {string} [promptId] - Prompt registry version to use (defaults to the registry default)
+ * @property {import('./few-shot-examples.cjs').FewShotExample[]} [examples] - Curator-reviewed songs
+ *   to include as few-shot examples (providers without a prompt ignore them)
+ */
+
+/**
+ * @typedef {Object} ClassifierProvider
+ * @property {string} name - Registry key (e.g. 'gemini', 'local')
+ * @property {string} model - Model identifier recorded alongside results
+ * @property {(artist: string, title: string, metadata?: Object, options?: ClassifyOptions) => Promise<ProviderResult>} classify
+ *   Resolves with the parsed classification and token usage; rejects on failure.
+ *   Errors may carry `rawResponse`, `promptId`, `promptHash` and `examples` so failed runs keep their provenance.
+ */
+
+// Lazy loaders so selecting one provider never loads another's dependencies
+const PROVIDERS = {
+  gemini: () => require('./gemini-classifier.cjs').geminiProvider,
+  local: () => require('./local-classifier.cjs').localProvider
+};
+
+/**
+ * Reads the configured provider name
+ * @returns {string}
+ */
+function getConfiguredProviderName() {
+  if (process.env.CLASSIFIER_PROVIDER) {
+    return process.env.CLASSIFIER_PROVIDER.trim().toLowerCase();
+  }
+
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  return (config.classifierProvider || DEFAULT_PROVIDER).toLowerCase();
+}
+
+/**
+ * Gets a classifier provider by name (defaults to the configured provider)
+ * @param {string} [name] - Provider name
+ * @returns {ClassifierProvider}
+ * @throws {Error} If the provider name is not registered
+ */
+function getClassifierProvider(name = getConfiguredProviderName()) {
+  const load = PROVIDERS[name];
+  if (!load) {
+    throw new Error(`Unknown classifier provider "${name}". Valid providers: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return load();
+}
+
+/**
+ * Classifies a song with the given provider and normalizes the result
+ * Never throws - failures are returned with status 'ERROR'
+ * Provenance (provider, model, promptId, promptHash, examples, rawResponse, latencyMs) is included
+ * on both outcomes so callers can record a ClassificationRun
+ * @param {ClassifierProvider} provider
+ * @param {string} artist - Artist name
+ * @param {string} title - Song title
+ * @param {Object} metadata - Additional song metadata (bpm, energy, etc)
+ * @param {ClassifyOptions} [options]
+ * @returns {Promise<Object>} Classification result
+ */
+async function classifyWithProvider(provider, artist, title, metadata = {}, options = {}) {
+  const startedAt = Date.now();
+  const provenance = {
+    provider: provider.name,
+    model: provider.model
+  };
+
+  try {
+    const {
+      classification,
+      usage,
+      repairs = [],
+      rawResponse = null,
+      grounding = null,
+      promptId = null,
+      promptHash = null,
+      examples = []
+    } = await provider.classify(artist, title, metadata, options);
+
+    return {
+      ...classification,
+      usage,
+      repairs,
+      ...provenance,
+      promptId,
+      promptHash,
+      examples,
+      rawResponse,
+      grounding,
+      latencyMs: Date.now() - startedAt,
+      status: 'SUCCESS'
+    };
+  } catch (error) {
+    return {
+      energy: null,
+      accessibility: null,
+      subgenre1: null,
+      subgenre2: null,
+      subgenre3: null,
+      reasoning: null,
+      context: null,
+      confidence: null,
+      usage: null,
+      repairs: [],
+      ...provenance,
+      promptId: error.promptId || null,
+      promptHash: error.promptHash || null,
+      examples: error.examples || [],
+      rawResponse: error.rawResponse || null,
+      grounding: null,
+      latencyMs: Date.now() - startedAt,
+      status: 'ERROR',
+      error_message: error.message
+    };
+  }
+}
+
+/**
+ * Classifies a song using the configured provider
+ * @param {string} artist - Artist name
+ * @param {string} title - Song title
+ * @param {Object} metadata - Additional song metadata (bpm, energy, etc)
+ * @param {ClassifyOptions} [options]
+ * @returns {Promise<Object>} Classification result
+ */
+async function classifySong(artist, title, metadata = {}, options = {}) {
+  return classifyWithProvider(getClassifierProvider(), artist, title, metadata, options);
+}
+
+module.exports = {
+  getClassifierProvider,
+  getConfiguredProviderName,
+  classifyWithProvider,
+  classifySong
+};
@@ -6,19 +6,40 @@
  */
 
 const axios = require('axios');
+const { getRateLimiter } = require('../utils/rate-limiter.cjs');
 
 const PARALLEL_AI_ENDPOINT = process.env.PARALLEL_AI_ENDPOINT || 'https://api.parallel.ai/v1/tasks/runs';
 const PARALLEL_AI_API_KEY = process.env.PARALLEL_AI_API_KEY;
 
+// Cited pages kept per result
+const MAX_SOURCES = 10;
+
 if (!PARALLEL_AI_API_KEY) {
   console.warn('Warning: PARALLEL_AI_API_KEY not set in environment');
 }
 
+/**
+ * @typedef {Object} ExplicitSource
+ * @property {string} url
+ * @property {string|null} title
+ */
+
+/**
+ * @typedef {Object} ExplicitResult
+ * @property {string|null} classification - null when the task failed
+ * @property {string} first_example
+ * @property {number|null} confidence
+ * @property {string[]} examples - Lyric lines or content that support the verdict
+ * @property {string} reasoning - Parallel AI's justification
+ * @property {ExplicitSource[]} sources - Pages Parallel AI cited
+ * @property {string} [error_details]
+ */
+
 /**
  * Classifies a song for explicit content
  * @param {string} artist - Artist name
  * @param {string} title - Song title
- * @returns {Promise<{classification: string, first_example: string}>}
+ * @returns {Promise<ExplicitResult>}
  */
 async function classifyExplicitContent(artist, title) {
   try {
@@ -31,7 +52,7 @@ async function classifyExplicitContent(artist, title) {
     const result = await pollForResult(runId, artist, title);
 
     // 3. Process response to single classification
-    return processExplicitResponse(result);
+    return processExplicitResponse(result.content, result.basis);
 
   } catch (error) {
     console.error(`[Explicit] Error for ${artist} - ${title}:`, error.message);
@@ -46,12 +67,14 @@ async function submitExplicitTask(artist, title) {
   const requestBody = buildExplicitPrompt(artist, title);
 
   try {
-    const response = await axios.post(PARALLEL_AI_ENDPOINT, requestBody, {
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': PARALLEL_AI_API_KEY
-      }
-    });
+    const response = await getRateLimiter('parallel').schedule(() =>
+      axios.post(PARALLEL_AI_ENDPOINT, requestBody, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': PARALLEL_AI_API_KEY
+        }
+      })
+    );
 
     if (response.data.error) {
       throw new Error(`Parallel AI API Error: ${response.data.error.message || JSON.stringify(response.data.error)}`);
@@ -66,7 +89,9 @@ async function submitExplicitTask(artist, title) {
 
   } catch (error) {
     if (error.response) {
-      throw new Error(`API request failed: ${error.response.status} - ${error.response.statusText}`);
+      const apiError = new Error(`API request failed: ${error.response.status} - ${error.response.statusText}`);
+      apiError.status = error.response.status;
+      throw apiError;
     }
     throw error;
   }
@@ -107,19 +132,21 @@ async function pollForResult(runId, artist, title, timeout = 60000) {
 
   while (Date.now() - startTime < timeout) {
     try {
-      const response = await axios.get(`${PARALLEL_AI_ENDPOINT}/${runId}/result`, {
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': PARALLEL_AI_API_KEY
-        }
-      });
+      const response = await getRateLimiter('parallel').schedule(() =>
+        axios.get(`${PARALLEL_AI_ENDPOINT}/${runId}/result`, {
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': PARALLEL_AI_API_KEY
+          }
+        })
+      );
 
       const resultData = response.data;
 
-      // Check if completed
+      // Check if completed (output holds the content and its cited basis)
       if (resultData.run && resultData.run.status === 'completed' && resultData.output && resultData.output.content) {
         console.log(`[Explicit] Task completed for ${artist} - ${title}`);
-        return resultData.output.content;
+        return resultData.output;
       }
 
       // Check if failed
@@ -131,8 +158,8 @@ async function pollForResult(runId, artist, title, timeout = 60000) {
       await sleep(pollInterval);
 
     } catch (error) {
-      if (error.response && error.response.status === 404) {
-        // Task not found yet, keep waiting
+      if (error.response && (error.response.status === 404 || error.response.status === 429)) {
+        // Task not found yet (or rate limited - the limiter slows down), keep waiting
         await sleep(pollInterval);
         continue;
       }
@@ -149,18 +176,65 @@ async function pollForResult(runId, artist, title, timeout = 60000) {
  * @param {string} artist - Artist name (for logging)
  * @param {string} title - Song title (for logging)
  * @param {number} timeout - Timeout in ms (default 60000)
- * @returns {Promise<{classification: string|null, first_example: string, error_details?: string}>}
+ * @returns {Promise<ExplicitResult>}
  */
 async function pollExplicitResult(runId, artist, title, timeout = 60000) {
   try {
     const result = await pollForResult(runId, artist, title, timeout);
-    return processExplicitResponse(result);
+    return processExplicitResponse(result.content, result.basis);
   } catch (error) {
     console.error(`[Explicit] Poll failed for ${artist} - ${title}:`, error.message);
     return createExplicitFallback(artist, title, error.message);
   }
 }
 
+/**
+ * Checks a submitted task once without waiting (for server-side workers that
+ * poll across invocations)
+ * @param {string} runId - The run ID from submission
+ * `raw` is the unprocessed output, content and basis (completed), or run status (failed)
+ * @returns {Promise<{status: 'running'} | {status: 'completed', result: ExplicitResult, raw: Object} | {status: 'failed', error: string, raw: Object}>}
+ */
+async function checkExplicitResult(runId) {
+  try {
+    const response = await getRateLimiter('parallel').schedule(() =>
+      axios.get(`${PARALLEL_AI_ENDPOINT}/${runId}/result`, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': PARALLEL_AI_API_KEY
+        }
+      })
+    );
+
+    const resultData = response.data;
+
+    if (resultData.run && resultData.run.status === 'completed' && resultData.output && resultData.output.content) {
+      return {
+        status: 'completed',
+        result: processExplicitResponse(resultData.output.content, resultData.output.basis),
+        raw: { content: resultData.output.content, basis: resultData.output.basis || [] }
+      };
+    }
+
+    if (resultData.run && resultData.run.status === 'failed') {
+      return {
+        status: 'failed',
+        error: `Task failed: ${resultData.run.status_message || 'Unknown error'}`,
+        raw: resultData.run
+      };
+    }
+
+    return { status: 'running' };
+
+  } catch (error) {
+    if (error.response && (error.response.status === 404 || error.response.status === 429)) {
+      // Task not found yet (or rate limited) - check again next time
+      return { status: 'running' };
+    }
+    throw error;
+  }
+}
+
 /**
  * Builds the Parallel AI prompt structure (inline schema)
  */
@@ -185,16 +259,32 @@ function buildExplicitPrompt(artist, title) {
               description: "First example of profane language or a mention of profane language within the song. Only fill this if the song is marked explicit.",
               type: "string"
             },
+            examples: {
+              description: "Up to three lyric lines (quoted exactly) that support the verdict: profanity if explicit, the suggestive lines if suggestive. Empty if family friendly.",
+              type: "array",
+              items: { type: "string" }
+            },
+            justification: {
+              description: "One or two sentences explaining the verdict, naming the themes found (e.g. drug references, sexual content) or why the song is family friendly.",
+              type: "string"
+            },
             suggestive: {
               description: "Boolean indicating whether the song contains suggestive content related to violence, sex, alcohol, drugs, or other topics deemed unsafe for children or conservative audiences. This is true even if the song does not contain explicit language but implies such themes through lyrics or context.",
               type: "boolean"
+            },
+            confidence: {
+              description: "Number from 0.0 to 1.0 indicating how confident you are in the explicit/suggestive/family_friendly verdict. Use lower values when the lyrics could not be found or sources disagree.",
+              type: "number"
             }
           },
           required: [
             "suggestive",
             "family_friendly",
             "first_example",
-            "explicit"
+            "examples",
+            "justification",
+            "explicit",
+            "confidence"
           ],
           type: "object"
         },
@@ -205,25 +295,62 @@ function buildExplicitPrompt(artist, title) {
 }
 
 /**
- * Processes Parallel AI response into single classification
+ * Collects the pages Parallel AI cited (output.basis), deduplicated by URL
+ * @returns {ExplicitSource[]}
+ */
+function collectSources(basis) {
+  const sources = new Map();
+
+  for (const field of Array.isArray(basis) ? basis : []) {
+    for (const citation of field.citations || []) {
+      if (citation.url && !sources.has(citation.url)) {
+        sources.set(citation.url, { url: citation.url, title: citation.title || null });
+      }
+    }
+  }
+
+  return [...sources.values()].slice(0, MAX_SOURCES);
+}
+
+/**
+ * Processes Parallel AI response into single classification, keeping the
+ * example lines, justification and cited sources as evidence
  */
-function processExplicitResponse(contentData) {
+function processExplicitResponse(contentData, basis = []) {
   try {
+    const confidence = typeof contentData.confidence === 'number'
+      ? Math.min(1, Math.max(0, contentData.confidence))
+      : null;
+
+    const evidence = {
+      examples: Array.isArray(contentData.examples)
+        ? contentData.examples.filter(example => typeof example === 'string' && example.trim()).slice(0, 3)
+        : [],
+      reasoning: typeof contentData.justification === 'string' ? contentData.justification : '',
+      sources: collectSources(basis)
+    };
+
     // Convert boolean flags to single classification string
     if (contentData.explicit === true) {
       return {
         classification: "Explicit",
-        first_example: contentData.first_example || ""
+        first_example: contentData.first_example || "",
+        confidence,
+        ...evidence
       };
     } else if (contentData.suggestive === true) {
       return {
         classification: "Suggestive",
-        first_example: ""
+        first_example: "",
+        confidence,
+        ...evidence
       };
     } else {
       return {
         classification: "Family Friendly",
-        first_example: ""
+        first_example: "",
+        confidence,
+        ...evidence
       };
     }
   } catch (error) {
@@ -242,6 +369,10 @@ function createExplicitFallback(artist, title, errorMessage) {
   return {
     classification: null,
     first_example: "",
+    confidence: null,
+    examples: [],
+    reasoning: "",
+    sources: [],
     error_details: errorMessage
   };
 }
@@ -256,5 +387,6 @@ function sleep(ms) {
 module.exports = {
   classifyExplicitContent,
   submitExplicitTaskAsync,
-  pollExplicitResult
+  pollExplicitResult,
+  checkExplicitResult
 };
@@ -0,0 +1,491 @@
+/**
+ * Explicit Detection Jobs
+ *
+ * Every Parallel AI explicit-content run is stored as an ExplicitJob row, so a
+ * result is never lost when whoever submitted it (a browser, a serverless
+ * invocation, a script) goes away before the run finishes. The upload worker
+ * cron advances open jobs; scripts and POST /api/songs/poll-explicit check
+ * their own jobs with the same functions. A job is claimed (locked_at) before
+ * it is submitted or checked, so overlapping pollers never run it twice.
+ *
+ * Statuses:
+ * - PENDING: not submitted yet; failed submissions are retried with backoff up
+ *   to MAX_SUBMIT_ATTEMPTS times
+ * - SUBMITTED: run in progress at Parallel AI
+ * - COMPLETE: result stored on the job and handed to `saveResult`
+ * - FAILED: run failed, timed out or could not be submitted; admins can
+ *   resubmit it (POST /api/admin/explicit-jobs/resubmit)
+ *
+ * Providers:
+ * - parallel: Parallel AI web research run, polled until it finishes (default)
+ * - lyrics: lexicon match on the song's lyrics (lyrics-explicit-classifier.cjs),
+ *   finished on creation. Songs without lyrics fall back to Parallel AI, and a
+ *   resubmitted lyrics job runs on Parallel AI.
+ *
+ * Writing the result to the song is left to the caller (`saveResult`). The API
+ * and the scripts all write it with `saveExplicitResult`, which applies curator
+ * field locks (src/utils/field-locks.cjs): a locked explicit value is kept and
+ * the result stored as a proposal.
+ */
+
+const path = require('path');
+const { submitExplicitTaskAsync, checkExplicitResult } = require('./explicit-classifier.cjs');
+const { classifyLyricsExplicit, hasLyrics } = require('./lyrics-explicit-classifier.cjs');
+const { applyFieldLocks } = require('../utils/field-locks.cjs');
+const { updateSongWithHistory } = require('../utils/song-changes.cjs');
+
+const MAX_SUBMIT_ATTEMPTS = 3;
+const SUBMIT_RETRY_DELAY_MS = 60 * 1000;
+const EXPLICIT_TIMEOUT_MS = 15 * 60 * 1000;
+// A claim older than this belongs to a poller that died mid-job and is taken over
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+// A SUBMITTED job unchecked or unfinished this long is reported as stuck
+const STUCK_AFTER_MS = 5 * 60 * 1000;
+const DEFAULT_POLL_LIMIT = 50;
+
+const OPEN_STATUSES = ['PENDING', 'SUBMITTED'];
+const EXPLICIT_PROVIDERS = ['parallel', 'lyrics'];
+const DEFAULT_PROVIDER = 'parallel';
+
+/**
+ * @typedef {Object} ExplicitJobInput
+ * @property {string} isrc
+ * @property {string} artist
+ * @property {string} title
+ * @property {'upload'|'api'|'script'} [source] - Who created the job (default 'api')
+ * @property {string} [uploadTaskId] - Upload task the job belongs to (one job per task)
+ * @property {'parallel'|'lyrics'} [provider] - Defaults to the configured provider
+ * @property {string|null} [lyrics] - Song lyrics (used by the lyrics provider)
+ */
+
+/**
+ * Why a job reached its verdict, stored on the song (songs.ai_explicit_evidence)
+ * @typedef {Object} ExplicitEvidence
+ * @property {'parallel'|'lyrics'} provider
+ * @property {string} classification - Verdict the evidence supports
+ * @property {Array<{line: string, lineNumber?: number, terms?: string[]}>} examples - Lyric lines behind the verdict
+ * @property {string} reasoning
+ * @property {Array<{url: string, title: string|null}>} sources - Pages cited (Parallel AI only)
+ * @property {string} checkedAt - ISO timestamp
+ * @property {string} jobId
+ */
+
+/**
+ * Stores a finished result on the song
+ * @callback SaveExplicitResult
+ * @param {string} isrc
+ * @param {{classification: string, first_example: string, confidence: number|null, evidence: ExplicitEvidence}} result
+ * @returns {Promise<unknown>}
+ */
+
+/**
+ * Reads the configured default provider: EXPLICIT_PROVIDER env var, then
+ * `explicitProvider` in config/default.json, then 'parallel'
+ * @returns {string}
+ */
+function getDefaultExplicitProvider() {
+  if (process.env.EXPLICIT_PROVIDER) {
+    return process.env.EXPLICIT_PROVIDER.trim().toLowerCase();
+  }
+
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  return (config.explicitProvider || DEFAULT_PROVIDER).toLowerCase();
+}
+
+/**
+ * Writes an explicit classification to a song and recomputes its overall
+ * confidence. A null classification (no result from the API) leaves any
+ * existing value alone; a locked explicit field gets a proposal instead. The
+ * evidence behind the verdict is stored either way.
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {string} isrc
+ * @param {{classification: string|null, confidence?: number|null, evidence?: ExplicitEvidence}} result
+ * @returns {Promise<Object|null>} The updated song, or null if nothing was written
+ */
+async function saveExplicitResult(prisma, isrc, result) {
+  if (!result.classification) {
+    return null;
+  }
+
+  const existing = await prisma.song.findUnique({ where: { isrc } });
+  if (!existing) {
+    return null;
+  }
+
+  return updateSongWithHistory(prisma, existing, {
+    ...applyFieldLocks(existing, {
+      aiExplicit: result.classification,
+      aiExplicitConfidence: result.confidence ?? null
+    }),
+    // Kept even when the field is locked: it explains the proposed value too
+    ...(result.evidence && { aiExplicitEvidence: result.evidence })
+  }, {
+    source: 'AI',
+    context: result.evidence ? `Explicit job ${result.evidence.jobId} (${result.evidence.provider})` : 'Explicit check'
+  });
+}
+
+/**
+ * Builds the evidence for a finished result from either provider
+ * @param {Object} job - The ExplicitJob the result belongs to
+ * @param {'parallel'|'lyrics'} provider
+ * @param {Object} result - Parallel AI (processExplicitResponse) or lyrics (classifyLyricsExplicit) result
+ * @returns {ExplicitEvidence}
+ */
+function buildExplicitEvidence(job, provider, result) {
+  if (provider === 'lyrics') {
+    return {
+      provider,
+      classification: result.classification,
+      examples: result.matches.map(match => ({
+        line: match.line,
+        lineNumber: match.lineNumber,
+        terms: match.terms.map(term => term.term)
+      })),
+      reasoning: `Lexicon ${result.lexiconVersion}: score ${result.score} across ${result.lineCount} lyric lines`,
+      sources: [],
+      checkedAt: new Date().toISOString(),
+      jobId: job.id
+    };
+  }
+
+  const lines = [...(result.examples || [])];
+  if (result.first_example && !lines.includes(result.first_example)) {
+    lines.unshift(result.first_example);
+  }
+
+  return {
+    provider,
+    classification: result.classification,
+    examples: lines.map(line => ({ line })),
+    reasoning: result.reasoning || '',
+    sources: result.sources || [],
+    checkedAt: new Date().toISOString(),
+    jobId: job.id
+  };
+}
+
+/**
+ * Submits (or resubmits) a job's Parallel AI run and records the outcome
+ * @returns {Promise<Object>} The updated job
+ */
+async function submitJob(prisma, job) {
+  const submission = await submitExplicitTaskAsync(job.artist, job.title);
+  const attempts = job.attempts + 1;
+
+  if (submission.status === 'submitted') {
+    return prisma.explicitJob.update({
+      where: { id: job.id },
+      data: {
+        provider: 'parallel',
+        runId: submission.runId,
+        status: 'SUBMITTED',
+        attempts,
+        submittedAt: new Date(),
+        lastCheckedAt: null,
+        nextAttemptAt: null,
+        lockedAt: null,
+        error: null
+      }
+    });
+  }
+
+  const giveUp = attempts >= MAX_SUBMIT_ATTEMPTS;
+  return prisma.explicitJob.update({
+    where: { id: job.id },
+    data: {
+      provider: 'parallel',
+      runId: null,
+      status: giveUp ? 'FAILED' : 'PENDING',
+      attempts,
+      nextAttemptAt: giveUp ? null : new Date(Date.now() + SUBMIT_RETRY_DELAY_MS * attempts),
+      lockedAt: null,
+      error: submission.error || 'Submission failed'
+    }
+  });
+}
+
+/**
+ * Classifies a lyrics job on the spot and stores the outcome; the matched
+ * lines are kept as the job's raw result
+ * @returns {Promise<Object>} The updated job
+ */
+async function runLyricsJob(prisma, job, lyrics, saveResult) {
+  const now = new Date();
+  let result;
+
+  try {
+    result = classifyLyricsExplicit(lyrics);
+  } catch (error) {
+    return prisma.explicitJob.update({
+      where: { id: job.id },
+      data: { status: 'FAILED', attempts: job.attempts + 1, error: error.message, lastCheckedAt: now, lockedAt: null }
+    });
+  }
+
+  const resultFields = {
+    attempts: job.attempts + 1,
+    submittedAt: now,
+    lastCheckedAt: now,
+    lockedAt: null,
+    classification: result.classification,
+    confidence: result.confidence,
+    rawResult: {
+      score: result.score,
+      lineCount: result.lineCount,
+      lexiconVersion: result.lexiconVersion,
+      matches: result.matches
+    }
+  };
+
+  try {
+    await saveResult(job.isrc, { ...result, evidence: buildExplicitEvidence(job, 'lyrics', result) });
+  } catch (saveError) {
+    return prisma.explicitJob.update({
+      where: { id: job.id },
+      data: { ...resultFields, status: 'FAILED', error: `Result could not be saved: ${saveError.message}` }
+    });
+  }
+
+  return prisma.explicitJob.update({
+    where: { id: job.id },
+    data: { ...resultFields, status: 'COMPLETE', completedAt: now, error: null }
+  });
+}
+
+/**
+ * Creates a job and runs it right away: lyrics jobs finish immediately,
+ * Parallel AI jobs are submitted (a failed submission leaves the job PENDING
+ * for the poller to retry)
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {ExplicitJobInput} input
+ * @param {{saveResult?: SaveExplicitResult}} [options] - saveResult is required for the lyrics provider
+ * @returns {Promise<Object>} The job after submission
+ * @throws {Error} If the provider is unknown, or lyrics would be classified without saveResult
+ */
+async function createExplicitJob(prisma, input, options = {}) {
+  const requested = input.provider || getDefaultExplicitProvider();
+  if (!EXPLICIT_PROVIDERS.includes(requested)) {
+    throw new Error(`Unknown explicit provider "${requested}". Valid providers: ${EXPLICIT_PROVIDERS.join(', ')}`);
+  }
+
+  const useLyrics = requested === 'lyrics' && hasLyrics(input.lyrics);
+  if (useLyrics && !options.saveResult) {
+    throw new Error('saveResult is required for lyrics explicit jobs');
+  }
+  if (requested === 'lyrics' && !useLyrics) {
+    console.log(`[ExplicitJobs] No lyrics for ${input.artist} - ${input.title}, using Parallel AI`);
+  }
+
+  const data = {
+    isrc: input.isrc,
+    artist: input.artist,
+    title: input.title,
+    source: input.source || 'api',
+    provider: useLyrics ? 'lyrics' : 'parallel',
+    uploadTaskId: input.uploadTaskId || null,
+    // Held by the creator until its own submission is recorded, so pollers leave it alone
+    lockedAt: new Date()
+  };
+
+  // A retried upload task reuses its job instead of creating a second one
+  const job = input.uploadTaskId
+    ? await prisma.explicitJob.upsert({
+        where: { uploadTaskId: input.uploadTaskId },
+        update: { provider: data.provider, status: 'PENDING', runId: null, attempts: 0, error: null, lockedAt: data.lockedAt },
+        create: data
+      })
+    : await prisma.explicitJob.create({ data });
+
+  return useLyrics
+    ? runLyricsJob(prisma, job, input.lyrics, options.saveResult)
+    : submitJob(prisma, job);
+}
+
+/**
+ * Checks a SUBMITTED job once and stores the outcome
+ * @returns {Promise<Object>} The updated job
+ */
+async function checkJob(prisma, job, saveResult) {
+  try {
+    const check = await checkExplicitResult(job.runId);
+
+    if (check.status === 'completed') {
+      const resultFields = {
+        classification: check.result.classification,
+        confidence: check.result.confidence,
+        rawResult: check.raw,
+        lastCheckedAt: new Date(),
+        lockedAt: null
+      };
+
+      try {
+        await saveResult(job.isrc, { ...check.result, evidence: buildExplicitEvidence(job, 'parallel', check.result) });
+      } catch (saveError) {
+        // Keep the result on the job so it isn't lost with the failed write
+        return prisma.explicitJob.update({
+          where: { id: job.id },
+          data: { ...resultFields, status: 'FAILED', error: `Result could not be saved: ${saveError.message}` }
+        });
+      }
+
+      return prisma.explicitJob.update({
+        where: { id: job.id },
+        data: { ...resultFields, status: 'COMPLETE', completedAt: new Date(), error: null }
+      });
+    }
+
+    if (check.status === 'failed') {
+      return prisma.explicitJob.update({
+        where: { id: job.id },
+        data: { status: 'FAILED', rawResult: check.raw, error: check.error, lastCheckedAt: new Date(), lockedAt: null }
+      });
+    }
+  } catch (error) {
+    // Transient API/DB error - check again next time unless the job has timed out
+    console.error(`[ExplicitJobs] Check failed for ${job.isrc} (${job.runId}):`, error.message);
+  }
+
+  if (Date.now() - (job.submittedAt?.getTime() ?? 0) > EXPLICIT_TIMEOUT_MS) {
+    return prisma.explicitJob.update({
+      where: { id: job.id },
+      data: { status: 'FAILED', error: 'Timeout waiting for explicit result', lastCheckedAt: new Date(), lockedAt: null }
+    });
+  }
+
+  return prisma.explicitJob.update({
+    where: { id: job.id },
+    data: { lastCheckedAt: new Date(), lockedAt: null }
+  });
+}
+
+/**
+ * Claims a job before it is submitted or checked. Each claim is a conditional
+ * update, so overlapping pollers (the cron, upload dialogs, scripts) never
+ * submit or check the same job twice; the claim is released by the job's next
+ * update. A claim older than LOCK_TIMEOUT_MS is taken over.
+ * @returns {Promise<Object|null>} The claimed job, or null if another poller has it
+ */
+async function claimJob(prisma, job) {
+  const now = new Date();
+  const { count } = await prisma.explicitJob.updateMany({
+    where: {
+      id: job.id,
+      status: job.status,
+      OR: [{ lockedAt: null }, { lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } }]
+    },
+    data: { lockedAt: now }
+  });
+
+  return count === 1 ? { ...job, lockedAt: now } : null;
+}
+
+/**
+ * Moves one open job forward: submits a due PENDING job, checks a SUBMITTED one.
+ * A job another poller is working on is returned unchanged.
+ */
+async function advanceJob(prisma, job, saveResult) {
+  const due = job.status === 'SUBMITTED' ||
+    (job.status === 'PENDING' && !(job.nextAttemptAt && job.nextAttemptAt > new Date()));
+  if (!due) {
+    return job;
+  }
+
+  const claimed = await claimJob(prisma, job);
+  if (!claimed) {
+    return job;
+  }
+
+  return claimed.status === 'PENDING'
+    ? submitJob(prisma, claimed)
+    : checkJob(prisma, claimed, saveResult);
+}
+
+/**
+ * Advances open jobs, least recently checked first
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {{saveResult: SaveExplicitResult, limit?: number}} options
+ * @returns {Promise<{checked: number, completed: number, failed: number}>}
+ */
+async function pollExplicitJobs(prisma, options) {
+  const now = new Date();
+  const jobs = await prisma.explicitJob.findMany({
+    where: {
+      OR: [
+        { status: 'SUBMITTED' },
+        { status: 'PENDING', OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] }
+      ]
+    },
+    orderBy: [{ lastCheckedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+    take: options.limit ?? DEFAULT_POLL_LIMIT
+  });
+
+  const updated = await Promise.all(jobs.map(job => advanceJob(prisma, job, options.saveResult)));
+
+  return {
+    checked: jobs.length,
+    completed: updated.filter(job => job.status === 'COMPLETE').length,
+    failed: updated.filter(job => job.status === 'FAILED').length
+  };
+}
+
+/**
+ * Advances the given jobs once (for callers waiting on their own submissions)
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {string[]} ids - ExplicitJob ids
+ * @param {{saveResult: SaveExplicitResult}} options
+ * @returns {Promise<Object[]>} The jobs after this check, in no particular order
+ */
+async function checkExplicitJobs(prisma, ids, options) {
+  const jobs = await prisma.explicitJob.findMany({ where: { id: { in: ids } } });
+  return Promise.all(jobs.map(job => advanceJob(prisma, job, options.saveResult)));
+}
+
+/**
+ * Submits a job again with a new Parallel AI run, whatever its state or provider
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {string} id - ExplicitJob id
+ * @returns {Promise<Object>} The job after submission, or unchanged if a poller
+ *   is working on it
+ * @throws {Error} If the job doesn't exist
+ */
+async function resubmitExplicitJob(prisma, id) {
+  const job = await prisma.explicitJob.findUnique({ where: { id } });
+  if (!job) {
+    throw new Error(`Explicit job not found: ${id}`);
+  }
+
+  const claimed = await claimJob(prisma, job);
+  if (!claimed) {
+    return job;
+  }
+
+  // Attempts count submissions since the job was created or last resubmitted
+  return submitJob(prisma, { ...claimed, attempts: 0 });
+}
+
+/**
+ * Prisma filter for jobs that need attention: FAILED, or SUBMITTED for longer
+ * than STUCK_AFTER_MS
+ * @returns {Object}
+ */
+function stuckOrFailedWhere() {
+  return {
+    OR: [
+      { status: 'FAILED' },
+      { status: 'SUBMITTED', submittedAt: { lt: new Date(Date.now() - STUCK_AFTER_MS) } }
+    ]
+  };
+}
+
+module.exports = {
+  OPEN_STATUSES,
+  EXPLICIT_PROVIDERS,
+  getDefaultExplicitProvider,
+  saveExplicitResult,
+  createExplicitJob,
+  pollExplicitJobs,
+  checkExplicitJobs,
+  resubmitExplicitJob,
+  stuckOrFailedWhere
+};
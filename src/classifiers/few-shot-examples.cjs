@@ -0,0 +1,199 @@
+/**
+ * Few-Shot Examples
+ *
+ * Picks curator-reviewed songs similar to the one being classified and adds
+ * their final labels to the prompt, so the model follows curator conventions
+ * instead of repeating mistakes they already corrected.
+ *
+ * - Candidates: reviewed, not rejected songs with final labels
+ * - Similar: same artist (normalized), or sharing a subgenre with the song's
+ *   hints or with the artist's reviewed songs
+ * - Ranking: same artist, then subgenre overlap, then songs a curator corrected
+ *   (locked fields), then most recently reviewed
+ * - Budget: FEW_SHOT_EXAMPLE_BUDGET env var, then `fewShotExampleBudget` in
+ *   config/default.json; 0 disables examples
+ */
+
+const path = require('path');
+const { smartNormalize } = require('../utils/fuzzy-matcher.cjs');
+
+const DEFAULT_BUDGET = 5;
+// Candidates fetched per example slot before ranking
+const POOL_FACTOR = 4;
+
+/**
+ * @typedef {Object} FewShotExample
+ * @property {string} isrc
+ * @property {string} artist
+ * @property {string} title
+ * @property {string} energy
+ * @property {string} accessibility
+ * @property {string[]} subgenres
+ * @property {'artist'|'subgenre'} match - Why the song was picked
+ * @property {boolean} corrected - A curator changed at least one AI value
+ */
+
+/**
+ * Reads the example budget (0 = disabled)
+ * @returns {number}
+ */
+function getFewShotBudget() {
+  if (process.env.FEW_SHOT_EXAMPLE_BUDGET !== undefined) {
+    const budget = parseInt(process.env.FEW_SHOT_EXAMPLE_BUDGET, 10);
+    return Number.isNaN(budget) ? DEFAULT_BUDGET : Math.max(0, budget);
+  }
+
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  return config.fewShotExampleBudget ?? DEFAULT_BUDGET;
+}
+
+function songSubgenres(song) {
+  return [song.aiSubgenre1, song.aiSubgenre2, song.aiSubgenre3].filter(Boolean);
+}
+
+function toExample(song, match) {
+  return {
+    isrc: song.isrc,
+    artist: song.artist,
+    title: song.title,
+    energy: song.aiEnergy,
+    accessibility: song.aiAccessibility,
+    subgenres: songSubgenres(song),
+    match,
+    corrected: song.lockedFields.length > 0
+  };
+}
+
+/**
+ * Orders candidates best first: more shared subgenres, corrected, recently reviewed
+ */
+function rankCandidates(candidates, seedSubgenres) {
+  const seeds = new Set(seedSubgenres);
+  const score = song => songSubgenres(song).filter(genre => seeds.has(genre)).length;
+
+  return [...candidates].sort((a, b) =>
+    score(b) - score(a) ||
+    (b.lockedFields.length > 0) - (a.lockedFields.length > 0) ||
+    (b.reviewedAt?.getTime() ?? 0) - (a.reviewedAt?.getTime() ?? 0)
+  );
+}
+
+/**
+ * Finds curator-reviewed songs to use as few-shot examples
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {string} artist - Artist of the song being classified
+ * @param {Object} [options]
+ * @param {number} [options.budget] - Max examples (defaults to getFewShotBudget())
+ * @param {string} [options.excludeIsrc] - The song itself, so it never teaches itself
+ * @param {string[]} [options.subgenres] - Known or previous subgenres of the song
+ * @returns {Promise<FewShotExample[]>}
+ */
+async function selectFewShotExamples(prisma, artist, options = {}) {
+  const budget = options.budget ?? getFewShotBudget();
+  if (budget <= 0) {
+    return [];
+  }
+
+  const reviewedWhere = {
+    reviewed: true,
+    approvalStatus: { not: 'REJECTED' },
+    aiEnergy: { not: null },
+    aiAccessibility: { not: null },
+    aiSubgenre1: { not: null },
+    ...(options.excludeIsrc && { isrc: { not: options.excludeIsrc } })
+  };
+  const select = {
+    isrc: true,
+    artist: true,
+    title: true,
+    aiEnergy: true,
+    aiAccessibility: true,
+    aiSubgenre1: true,
+    aiSubgenre2: true,
+    aiSubgenre3: true,
+    lockedFields: true,
+    reviewedAt: true
+  };
+
+  // Same artist: match loosely in SQL, then exactly on the normalized name
+  const artistKey = smartNormalize(artist, '').artistStripped;
+  const artistCandidates = artistKey
+    ? await prisma.song.findMany({
+        where: {
+          ...reviewedWhere,
+          OR: [
+            { artist: { equals: artist, mode: 'insensitive' } },
+            { artist: { contains: artistKey, mode: 'insensitive' } }
+          ]
+        },
+        orderBy: { reviewedAt: 'desc' },
+        take: budget * POOL_FACTOR,
+        select
+      })
+    : [];
+
+  const sameArtist = artistCandidates.filter(song =>
+    smartNormalize(song.artist || '', '').artistStripped === artistKey
+  );
+
+  const seedSubgenres = [...new Set([
+    ...(options.subgenres || []).filter(Boolean),
+    ...sameArtist.flatMap(songSubgenres)
+  ])];
+
+  const examples = rankCandidates(sameArtist, seedSubgenres)
+    .slice(0, budget)
+    .map(song => toExample(song, 'artist'));
+
+  const remaining = budget - examples.length;
+  if (remaining <= 0 || seedSubgenres.length === 0) {
+    return examples;
+  }
+
+  const chosen = new Set(examples.map(example => example.isrc));
+  const subgenreCandidates = await prisma.song.findMany({
+    where: {
+      ...reviewedWhere,
+      OR: [
+        { aiSubgenre1: { in: seedSubgenres } },
+        { aiSubgenre2: { in: seedSubgenres } },
+        { aiSubgenre3: { in: seedSubgenres } }
+      ]
+    },
+    orderBy: { reviewedAt: 'desc' },
+    take: remaining * POOL_FACTOR + chosen.size,
+    select
+  });
+
+  return [
+    ...examples,
+    ...rankCandidates(subgenreCandidates.filter(song => !chosen.has(song.isrc)), seedSubgenres)
+      .slice(0, remaining)
+      .map(song => toExample(song, 'subgenre'))
+  ];
+}
+
+/**
+ * Formats examples as a prompt section (empty string when there are none)
+ * @param {FewShotExample[]} examples
+ * @returns {string}
+ */
+function formatExamplesForPrompt(examples) {
+  if (!examples || examples.length === 0) {
+    return '';
+  }
+
+  const lines = examples.map(example =>
+    `- ${example.artist} - ${example.title}: Energy: ${example.energy}; ` +
+    `Accessibility: ${example.accessibility}; Subgenres: ${example.subgenres.join(', ')}`
+  );
+
+  return `Reference songs with labels confirmed by our curators. ` +
+    `Follow the same conventions for similar songs:\n${lines.join('\n')}\n`;
+}
+
+module.exports = {
+  getFewShotBudget,
+  selectFewShotExamples,
+  formatExamplesForPrompt
+};
@@ -3,12 +3,21 @@
  *
  * Classifies songs for energy, accessibility, and subgenres using Gemini's standard API
  * Replaces the batch API approach with real-time classification
+ *
+ * Exposes `geminiProvider` (see classifier-provider.cjs) so callers can select
+ * Gemini through the provider registry, and keeps `classifySong` for scripts
+ * that always want Gemini.
  */
 
 const { GoogleGenAI } = require('@google/genai');
 const { initLogger } = require('braintrust');
-const fs = require('fs');
-const path = require('path');
+const { classifyWithProvider } = require('./classifier-provider.cjs');
+const { getRateLimiter, isRateLimitError } = require('../utils/rate-limiter.cjs');
+const {
+  validateClassification,
+  dropInvalidOptionalFields,
+  buildRepairPrompt
+} = require('./classification-validator.cjs');
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-flash-latest';
@@ -17,9 +26,21 @@ if (!GEMINI_API_KEY) {
   console.warn('Warning: GEMINI_API_KEY not set in environment');
 }
 
-const genAI = new GoogleGenAI({
-  apiKey: GEMINI_API_KEY
-});
+// Client is created on first use so requiring this module never needs a key
+let genAI = null;
+
+function getGenAI() {
+  if (!genAI) {
+    genAI = new GoogleGenAI({
+      apiKey: GEMINI_API_KEY
+    });
+  }
+  return genAI;
+}
+
+// Grounding sources kept per classification, and text kept per cited passage
+const MAX_GROUNDING_SOURCES = 10;
+const MAX_CITED_TEXT = 200;
 
 // Initialize BrainTrust logger for this session
 const BRAINTRUST_PROJECT_NAME = process.env.BRAINTRUST_PROJECT_NAME || 'Music Classification - Gemini';
@@ -39,20 +60,46 @@ if (process.env.BRAINTRUST_API_KEY) {
   console.warn('[BrainTrust] API key not set, logging disabled');
 }
 
-// Load system instruction with subgenres injected
-const { loadClassificationPrompt } = require('../utils/subgenre-loader.cjs');
-const SYSTEM_INSTRUCTION = loadClassificationPrompt();
+// System instructions come from the versioned prompt registry (subgenres injected)
+const { getSystemInstruction } = require('../utils/prompt-registry.cjs');
+const { formatExamplesForPrompt } = require('./few-shot-examples.cjs');
+const { formatAudioFeaturesForPrompt } = require('../audio/audio-features.cjs');
+
+/**
+ * Gemini implementation of the ClassifierProvider interface
+ * @type {import('./classifier-provider.cjs').ClassifierProvider}
+ */
+const geminiProvider = {
+  name: 'gemini',
+  model: GEMINI_MODEL,
+  classify: classifyWithGemini
+};
 
 /**
  * Classifies a song using Gemini API
  * @param {string} artist - Artist name
  * @param {string} title - Song title
  * @param {Object} metadata - Additional song metadata (bpm, energy, etc)
+ * @param {import('./classifier-provider.cjs').ClassifyOptions} [options]
  * @returns {Promise<Object>} Classification result
  */
-async function classifySong(artist, title, metadata = {}) {
+async function classifySong(artist, title, metadata = {}, options = {}) {
+  return classifyWithProvider(geminiProvider, artist, title, metadata, options);
+}
+
+/**
+ * Runs a single Gemini classification
+ * Throws on failure; classifyWithProvider turns errors into ERROR results
+ * @returns {Promise<import('./classifier-provider.cjs').ProviderResult>}
+ */
+async function classifyWithGemini(artist, title, metadata = {}, options = {}) {
+  // Kept outside the try so failed calls still report the prompt and what the model said
+  let rawResponse = null;
+  let instruction = null;
+
   try {
-    console.log(`[Gemini] Classifying: ${artist} - ${title}`);
+    instruction = getSystemInstruction(options.promptId);
+    console.log(`[Gemini] Classifying: ${artist} - ${title} (prompt ${instruction.promptId})`);
 
     // Build config matching working evaluation code
     const tools = [{ googleSearch: {} }];
@@ -61,7 +108,7 @@ async function classifySong(artist, title, metadata = {}) {
         thinkingBudget: 0,
       },
       tools,
-      systemInstruction: [{ text: SYSTEM_INSTRUCTION }],
+      systemInstruction: [{ text: instruction.text }],
       generationConfig: {
         temperature: 0.3,
         candidateCount: 1,
@@ -69,7 +116,7 @@ async function classifySong(artist, title, metadata = {}) {
       }
     };
 
-    const prompt = buildPrompt(artist, title, metadata);
+    const prompt = buildPrompt(artist, title, metadata, options.examples);
 
     // Build contents array matching evaluation code format
     const contents = [
@@ -81,7 +128,7 @@ async function classifySong(artist, title, metadata = {}) {
 
     // Make API call with retry logic using the working API format
     const result = await callGeminiWithRetry(() =>
-      genAI.models.generateContent({
+      getGenAI().models.generateContent({
         model: GEMINI_MODEL,
         config,
         contents
@@ -89,7 +136,49 @@ async function classifySong(artist, title, metadata = {}) {
     );
 
     const responseText = result.text || '';
-    const classification = parseGeminiResponse(responseText);
+    rawResponse = responseText;
+    let usage = extractUsage(result);
+    let grounding = extractGrounding(result);
+    let { classification, repairs, invalidFields } = validateClassification(parseGeminiResponse(responseText));
+
+    // Re-prompt once for values that fuzzy matching couldn't repair
+    if (invalidFields.length > 0) {
+      console.log(`[Gemini] Invalid fields for ${artist} - ${title}: ${invalidFields.join(', ')} - re-prompting`);
+
+      const repairContents = [
+        ...contents,
+        { role: 'model', parts: [{ text: responseText }] },
+        { role: 'user', parts: [{ text: buildRepairPrompt(classification, invalidFields) }] }
+      ];
+
+      const repairResult = await callGeminiWithRetry(() =>
+        getGenAI().models.generateContent({
+          model: GEMINI_MODEL,
+          config,
+          contents: repairContents
+        })
+      );
+      usage = addUsage(usage, extractUsage(repairResult));
+      grounding = mergeGrounding(grounding, extractGrounding(repairResult));
+      rawResponse = `${responseText}\n\n--- re-prompt ---\n\n${repairResult.text || ''}`;
+
+      const retried = validateClassification(parseGeminiResponse(repairResult.text || ''));
+      const repromptRepairs = invalidFields
+        .filter(field => retried.classification[field] && !retried.invalidFields.includes(field))
+        .map(field => ({ field, from: classification[field], to: retried.classification[field], method: 'reprompt' }));
+
+      classification = retried.classification;
+      repairs = [...repairs, ...repromptRepairs, ...retried.repairs];
+
+      const stillInvalid = dropInvalidOptionalFields(classification, retried.invalidFields, repairs);
+      if (stillInvalid.length > 0) {
+        throw new Error(`Invalid values after re-prompt: ${stillInvalid.map(f => `${f}="${classification[f]}"`).join(', ')}`);
+      }
+    }
+
+    if (repairs.length > 0) {
+      console.log(`[Gemini] Repaired ${repairs.length} field(s) for ${artist} - ${title}: ${repairs.map(r => r.field).join(', ')}`);
+    }
 
     console.log(`[Gemini] Success: ${artist} - ${title} → ${classification.energy} / ${classification.accessibility} / ${classification.subgenre1}`);
 
@@ -105,33 +194,31 @@ async function classifySong(artist, title, metadata = {}) {
         metadata: {
           status: 'SUCCESS',
           model: GEMINI_MODEL,
+          prompt_id: instruction.promptId,
+          example_count: options.examples?.length || 0,
           has_energy: !!classification.energy,
           has_accessibility: !!classification.accessibility,
-          subgenre_count: [classification.subgenre1, classification.subgenre2, classification.subgenre3].filter(Boolean).length
+          subgenre_count: [classification.subgenre1, classification.subgenre2, classification.subgenre3].filter(Boolean).length,
+          repairs,
+          usage
         }
       });
     }
 
     return {
-      ...classification,
-      status: 'SUCCESS'
+      classification,
+      usage,
+      repairs,
+      rawResponse,
+      grounding,
+      promptId: instruction.promptId,
+      promptHash: instruction.hash,
+      examples: options.examples || []
     };
 
   } catch (error) {
     console.error(`[Gemini] Error classifying ${artist} - ${title}:`, error.message);
 
-    const errorResult = {
-      energy: null,
-      accessibility: null,
-      subgenre1: null,
-      subgenre2: null,
-      subgenre3: null,
-      reasoning: null,
-      context: null,
-      status: 'ERROR',
-      error_message: error.message
-    };
-
     // Log error to BrainTrust if available
     if (braintrustLogger) {
       braintrustLogger.log({
@@ -140,24 +227,110 @@ async function classifySong(artist, title, metadata = {}) {
           title,
           metadata
         },
-        output: errorResult,
+        output: null,
         metadata: {
           status: 'ERROR',
           model: GEMINI_MODEL,
+          prompt_id: instruction?.promptId || options.promptId || null,
           error_message: error.message
         }
       });
     }
 
-    return errorResult;
+    error.rawResponse = rawResponse;
+    error.promptId = instruction?.promptId || options.promptId || null;
+    error.promptHash = instruction?.hash || null;
+    error.examples = options.examples || [];
+    throw error;
   }
 }
 
+/**
+ * Maps Gemini usage metadata to the provider-neutral usage shape
+ */
+function extractUsage(result) {
+  const usageMetadata = result.usageMetadata || {};
+  return {
+    inputTokens: usageMetadata.promptTokenCount || 0,
+    outputTokens: usageMetadata.candidatesTokenCount || 0,
+    totalTokens: usageMetadata.totalTokenCount || 0
+  };
+}
+
+/**
+ * Collects the Google Search grounding behind a response: the queries Gemini
+ * ran and the pages it used, each with the answer passages it supports
+ * @returns {import('./classifier-provider.cjs').Grounding|null} null when the model didn't search
+ */
+function extractGrounding(result) {
+  const metadata = result.candidates?.[0]?.groundingMetadata;
+  if (!metadata) {
+    return null;
+  }
+
+  const chunks = metadata.groundingChunks || [];
+  const sources = chunks.map(chunk => ({
+    url: chunk.web?.uri || null,
+    title: chunk.web?.title || null,
+    cited: []
+  }));
+
+  for (const support of metadata.groundingSupports || []) {
+    const text = support.segment?.text?.trim();
+    if (!text) continue;
+
+    for (const index of support.groundingChunkIndices || []) {
+      const source = sources[index];
+      if (source && source.cited.length < 2) {
+        source.cited.push(text.length > MAX_CITED_TEXT ? `${text.slice(0, MAX_CITED_TEXT - 1)}…` : text);
+      }
+    }
+  }
+
+  const grounding = {
+    queries: metadata.webSearchQueries || [],
+    sources: sources.filter(source => source.url).slice(0, MAX_GROUNDING_SOURCES)
+  };
+
+  return grounding.queries.length > 0 || grounding.sources.length > 0 ? grounding : null;
+}
+
+/**
+ * Combines the grounding of the initial call and the re-prompt
+ */
+function mergeGrounding(a, b) {
+  if (!a || !b) {
+    return a || b;
+  }
+
+  const urls = new Set(a.sources.map(source => source.url));
+  return {
+    queries: [...new Set([...a.queries, ...b.queries])],
+    sources: [...a.sources, ...b.sources.filter(source => !urls.has(source.url))].slice(0, MAX_GROUNDING_SOURCES)
+  };
+}
+
+/**
+ * Sums two usage records (initial call + re-prompt)
+ */
+function addUsage(a, b) {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens
+  };
+}
+
 /**
  * Builds the prompt for Gemini
- * Output format is defined in SYSTEM_INSTRUCTION, so just provide song details
+ * Output format is defined in the system instruction, so just provide song details,
+ * measured audio features and any curator-reviewed reference songs (few-shot examples)
+ * @param {string} artist
+ * @param {string} title
+ * @param {Object} metadata - Additional song metadata (bpm, energy, audio features, etc)
+ * @param {import('./few-shot-examples.cjs').FewShotExample[]} [examples]
  */
-function buildPrompt(artist, title, metadata) {
+function buildPrompt(artist, title, metadata, examples = []) {
   let prompt = `Please classify the following song:\n\n`;
   prompt += `Artist: ${artist}\n`;
   prompt += `Title: ${title}\n`;
@@ -170,6 +343,16 @@ function buildPrompt(artist, title, metadata) {
     prompt += `Pre-analyzed Energy: ${metadata.energy}\n`;
   }
 
+  const audioSection = formatAudioFeaturesForPrompt(metadata.audio);
+  if (audioSection) {
+    prompt += `\n${audioSection}`;
+  }
+
+  const exampleSection = formatExamplesForPrompt(examples);
+  if (exampleSection) {
+    prompt += `\n${exampleSection}`;
+  }
+
   return prompt;
 }
 
@@ -209,6 +392,10 @@ function parseGeminiResponse(responseText) {
       throw new Error('Missing required fields in response');
     }
 
+    // Per-field confidence (0-1); missing values stay null rather than guessing
+    const confidence = parsed.confidence || {};
+    const subgenreConfidence = Array.isArray(confidence.subgenres) ? confidence.subgenres : [];
+
     return {
       energy: parsed.energy,
       accessibility: parsed.accessibility,
@@ -216,7 +403,14 @@ function parseGeminiResponse(responseText) {
       subgenre2: subgenre2,
       subgenre3: subgenre3,
       reasoning: parsed.reasoning || '',
-      context: parsed.context_used || ''
+      context: parsed.context_used || '',
+      confidence: {
+        energy: parseConfidence(confidence.energy),
+        accessibility: parseConfidence(confidence.accessibility),
+        subgenre1: subgenre1 ? parseConfidence(subgenreConfidence[0]) : null,
+        subgenre2: subgenre2 ? parseConfidence(subgenreConfidence[1]) : null,
+        subgenre3: subgenre3 ? parseConfidence(subgenreConfidence[2]) : null
+      }
     };
 
   } catch (error) {
@@ -226,12 +420,28 @@ function parseGeminiResponse(responseText) {
 }
 
 /**
- * Calls Gemini with exponential backoff retry
+ * Parses a confidence value into the 0-1 range
+ * Accepts percentages (e.g. 85) as well as fractions
+ */
+function parseConfidence(value) {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || Number.isNaN(num)) {
+    return null;
+  }
+  const fraction = num > 1 ? num / 100 : num;
+  return Math.min(1, Math.max(0, fraction));
+}
+
+/**
+ * Calls Gemini through the shared rate limiter with retry
+ * 429s are paced by the limiter (it pauses and slows down); other errors back off 1s, 2s, 4s
  */
 async function callGeminiWithRetry(fn, maxRetries = 3) {
+  const limiter = getRateLimiter('gemini');
+
   for (let i = 0; i < maxRetries; i++) {
     try {
-      return await fn();
+      return await limiter.schedule(fn);
     } catch (error) {
       // Don't retry on certain errors
       if (error.message && error.message.includes('API key')) {
@@ -242,6 +452,11 @@ async function callGeminiWithRetry(fn, maxRetries = 3) {
         throw error;
       }
 
+      if (isRateLimitError(error)) {
+        console.log(`[Gemini] Rate limited, retry ${i + 1}/${maxRetries} once the limiter resumes...`);
+        continue;
+      }
+
       const delay = Math.pow(2, i) * 1000; // 1s, 2s, 4s
       console.log(`[Gemini] Retry ${i + 1}/${maxRetries} after ${delay}ms...`);
       await sleep(delay);
@@ -262,5 +477,8 @@ process.on('beforeExit', async () => {
 });
 
 module.exports = {
-  classifySong
+  geminiProvider,
+  classifySong,
+  buildPrompt,
+  parseGeminiResponse
 };
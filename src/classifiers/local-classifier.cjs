@@ -0,0 +1,172 @@
+/**
+ * Local Deterministic Classifier
+ *
+ * Offline ClassifierProvider for CI and local development. Never touches the
+ * network, so the upload → process-batch → review flow runs without a Gemini key.
+ *
+ * Resolution order for each song:
+ * 1. Fixture lookup by normalized artist + title (test-data/classifier-fixtures.json
+ *    or CLASSIFIER_FIXTURES_PATH)
+ * 2. Rule-based fallback: energy from BPM / pre-analyzed energy, subgenres picked
+ *    deterministically from the taxonomy by hashing the song key
+ *
+ * The same input always yields the same output.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { smartNormalize } = require('../utils/fuzzy-matcher.cjs');
+const { getAllSubgenres } = require('../utils/subgenre-loader.cjs');
+const { VALID_ENERGY, VALID_ACCESSIBILITY } = require('./classification-validator.cjs');
+
+const DEFAULT_FIXTURES_PATH = path.join(__dirname, '../../test-data/classifier-fixtures.json');
+const LOCAL_MODEL = 'local-rules-v1';
+
+// Fixtures are curated answers; rule-based picks are placeholders and should
+// surface as low confidence in the review UI
+const FIXTURE_CONFIDENCE = 0.95;
+const RULES_CONFIDENCE = 0.3;
+
+// Cache for loaded fixtures (keyed by normalized artist + title)
+let cachedFixtures = null;
+
+/**
+ * Builds the fixture lookup key for a song
+ * Uses smart normalization so "The Beatles - Let It Be (Remastered)" matches "Beatles - Let It Be"
+ */
+function fixtureKey(artist, title) {
+  const normalized = smartNormalize(artist, title);
+  return `${normalized.artistStripped}|${normalized.titleStripped}`;
+}
+
+/**
+ * Loads classifier fixtures from disk
+ * A missing fixtures file is not an error - every song falls back to rules
+ * @returns {Map<string, Object>}
+ */
+function loadFixtures() {
+  if (cachedFixtures) {
+    return cachedFixtures;
+  }
+
+  const fixturesPath = process.env.CLASSIFIER_FIXTURES_PATH || DEFAULT_FIXTURES_PATH;
+  cachedFixtures = new Map();
+
+  if (!fs.existsSync(fixturesPath)) {
+    console.warn(`[Local] No fixtures found at ${fixturesPath}, using rules only`);
+    return cachedFixtures;
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+    for (const fixture of data.songs || []) {
+      cachedFixtures.set(fixtureKey(fixture.artist, fixture.title), fixture);
+    }
+  } catch (error) {
+    throw new Error(`Failed to load classifier fixtures from ${fixturesPath}: ${error.message}`);
+  }
+
+  return cachedFixtures;
+}
+
+/**
+ * 32-bit FNV-1a hash, used to make rule-based picks stable across runs
+ */
+function hashString(str) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Maps BPM (already normalized to 50-170) to an energy level
+ */
+function energyFromBpm(bpm) {
+  if (bpm < 70) return 'Very Low';
+  if (bpm < 95) return 'Low';
+  if (bpm < 115) return 'Medium';
+  if (bpm < 130) return 'High';
+  return 'Very High';
+}
+
+/**
+ * Rule-based classification used when no fixture matches
+ */
+function classifyByRules(artist, title, metadata) {
+  const key = fixtureKey(artist, title);
+  const hash = hashString(key);
+  const subgenres = getAllSubgenres();
+
+  let energy = 'Medium';
+  if (metadata.energy && VALID_ENERGY.includes(metadata.energy)) {
+    energy = metadata.energy;
+  } else if (metadata.bpm) {
+    energy = energyFromBpm(metadata.bpm);
+  }
+
+  const primaryIndex = hash % subgenres.length;
+  const secondaryIndex = (primaryIndex + 1 + (hash >>> 8) % (subgenres.length - 1)) % subgenres.length;
+
+  return {
+    energy,
+    accessibility: VALID_ACCESSIBILITY[(hash >>> 4) % VALID_ACCESSIBILITY.length],
+    subgenre1: subgenres[primaryIndex],
+    subgenre2: subgenres[secondaryIndex],
+    subgenre3: null,
+    reasoning: 'Deterministic local classification (rule-based, no network).',
+    context: metadata.bpm ? `BPM: ${metadata.bpm}` : '',
+    confidence: {
+      energy: metadata.bpm || metadata.energy ? 0.6 : RULES_CONFIDENCE,
+      accessibility: RULES_CONFIDENCE,
+      subgenre1: RULES_CONFIDENCE,
+      subgenre2: RULES_CONFIDENCE,
+      subgenre3: null
+    }
+  };
+}
+
+/**
+ * Local implementation of the ClassifierProvider interface
+ * @type {import('./classifier-provider.cjs').ClassifierProvider}
+ */
+const localProvider = {
+  name: 'local',
+  model: LOCAL_MODEL,
+
+  async classify(artist, title, metadata = {}) {
+    console.log(`[Local] Classifying: ${artist} - ${title}`);
+
+    const fixture = loadFixtures().get(fixtureKey(artist, title));
+
+    const classification = fixture
+      ? {
+          energy: fixture.energy,
+          accessibility: fixture.accessibility,
+          subgenre1: fixture.subgenres[0],
+          subgenre2: fixture.subgenres[1] || null,
+          subgenre3: fixture.subgenres[2] || null,
+          reasoning: fixture.reasoning || 'Fixture classification.',
+          context: fixture.context || '',
+          confidence: {
+            energy: FIXTURE_CONFIDENCE,
+            accessibility: FIXTURE_CONFIDENCE,
+            subgenre1: FIXTURE_CONFIDENCE,
+            subgenre2: fixture.subgenres[1] ? FIXTURE_CONFIDENCE : null,
+            subgenre3: fixture.subgenres[2] ? FIXTURE_CONFIDENCE : null
+          }
+        }
+      : classifyByRules(artist, title, metadata);
+
+    return {
+      classification,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+    };
+  }
+};
+
+module.exports = {
+  localProvider
+};
@@ -0,0 +1,276 @@
+/**
+ * Lyric-based Explicit Content Classifier
+ *
+ * Offline alternative to the Parallel AI explicit classifier for songs whose
+ * lyrics we have (upload CSV `lyrics` column, stored on songs.lyrics). Lyrics
+ * are matched line by line against a weighted term lexicon:
+ * - Explicit: any profanity term weighing `explicitWeight` or more
+ * - Suggestive: otherwise, matches adding up to `suggestiveScore` (each term
+ *   counted at most `maxCountPerTerm` times, so a repeated chorus doesn't dominate;
+ *   `suggestiveScore` must exceed `maxCountPerTerm`, so one mild word repeated
+ *   is never enough on its own)
+ * - Family Friendly: everything else
+ *
+ * The matched lines are returned as evidence. A lexicon only sees words, not
+ * implied themes, so Family Friendly verdicts get a modest confidence.
+ *
+ * Lexicon: EXPLICIT_LEXICON_PATH env var, then `explicitLexiconPath` in
+ * config/default.json, then config/explicit-lexicon.json (paths relative to
+ * the repo root).
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const REPO_ROOT = path.join(__dirname, '../..');
+const DEFAULT_LEXICON_PATH = 'config/explicit-lexicon.json';
+const CATEGORIES = ['profanity', 'suggestive'];
+const MAX_EVIDENCE_LINES = 10;
+const MAX_LINE_LENGTH = 200;
+// Below this many lyric lines a clean verdict is likely based on partial lyrics
+const SHORT_LYRICS_LINES = 12;
+
+/**
+ * @typedef {Object} LexiconTerm
+ * @property {string} term - Word or phrase; a trailing * matches any word ending
+ * @property {'profanity'|'suggestive'} category
+ * @property {number} weight - 1 (mild) to 3 (strong)
+ */
+
+/**
+ * @typedef {Object} Lexicon
+ * @property {string} version
+ * @property {{explicitWeight: number, suggestiveScore: number, maxCountPerTerm: number}} thresholds
+ * @property {Array<LexiconTerm & {pattern: RegExp}>} terms
+ */
+
+/**
+ * @typedef {Object} EvidenceLine
+ * @property {number} lineNumber - 1-based line in the supplied lyrics
+ * @property {string} line - The lyric line (trimmed, truncated to 200 chars)
+ * @property {Array<{term: string, category: string, weight: number}>} terms - Lexicon terms found on the line
+ * @property {number} weight - Sum of the term weights on the line
+ */
+
+/**
+ * @typedef {Object} LyricsExplicitResult
+ * @property {'Explicit'|'Suggestive'|'Family Friendly'} classification
+ * @property {string} first_example - Strongest profane line (Explicit only, like Parallel AI)
+ * @property {number} confidence - 0 to 1
+ * @property {number} score - Weighted match total (per-term counts capped)
+ * @property {EvidenceLine[]} matches - Up to 10 matched lines, strongest first
+ * @property {number} lineCount - Lyric lines examined
+ * @property {string} lexiconVersion
+ */
+
+const lexiconCache = new Map();
+
+/**
+ * Resolves the configured lexicon file
+ * @returns {string} Absolute path
+ */
+function getLexiconPath() {
+  if (process.env.EXPLICIT_LEXICON_PATH) {
+    return path.resolve(REPO_ROOT, process.env.EXPLICIT_LEXICON_PATH.trim());
+  }
+
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  return path.resolve(REPO_ROOT, config.explicitLexiconPath || DEFAULT_LEXICON_PATH);
+}
+
+/**
+ * Builds a case-insensitive whole-word pattern for a lexicon term
+ * ("get high" also matches "get  high"; "fuck*" matches "fucking")
+ */
+function termPattern(term) {
+  const wildcard = term.endsWith('*');
+  const words = (wildcard ? term.slice(0, -1) : term)
+    .trim()
+    .split(/\s+/)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])${words.join('\\s+')}${wildcard ? "[\\p{L}']*" : ''}(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+}
+
+/**
+ * Loads and validates a lexicon file (cached per path)
+ * @param {string} [lexiconPath] - Defaults to the configured lexicon
+ * @returns {Lexicon}
+ * @throws {Error} If the file is missing or malformed
+ */
+function loadLexicon(lexiconPath = getLexiconPath()) {
+  if (lexiconCache.has(lexiconPath)) {
+    return lexiconCache.get(lexiconPath);
+  }
+
+  let raw;
+  try {
+    raw = JSON.parse(fs.readFileSync(lexiconPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read explicit lexicon ${lexiconPath}: ${error.message}`);
+  }
+
+  const thresholds = raw.thresholds || {};
+  for (const key of ['explicitWeight', 'suggestiveScore', 'maxCountPerTerm']) {
+    if (typeof thresholds[key] !== 'number' || thresholds[key] <= 0) {
+      throw new Error(`Explicit lexicon ${lexiconPath}: thresholds.${key} must be a positive number`);
+    }
+  }
+
+  if (thresholds.suggestiveScore <= thresholds.maxCountPerTerm) {
+    throw new Error(`Explicit lexicon ${lexiconPath}: thresholds.suggestiveScore must be greater than maxCountPerTerm`);
+  }
+
+  if (!Array.isArray(raw.terms) || raw.terms.length === 0) {
+    throw new Error(`Explicit lexicon ${lexiconPath}: terms must be a non-empty array`);
+  }
+
+  const terms = raw.terms.map((entry, index) => {
+    if (!entry || typeof entry.term !== 'string' || !entry.term.replace('*', '').trim()) {
+      throw new Error(`Explicit lexicon ${lexiconPath}: terms[${index}].term must be a non-empty string`);
+    }
+    if (!CATEGORIES.includes(entry.category)) {
+      throw new Error(`Explicit lexicon ${lexiconPath}: terms[${index}] ("${entry.term}") category must be one of ${CATEGORIES.join(', ')}`);
+    }
+    if (typeof entry.weight !== 'number' || entry.weight <= 0) {
+      throw new Error(`Explicit lexicon ${lexiconPath}: terms[${index}] ("${entry.term}") weight must be a positive number`);
+    }
+    return {
+      term: entry.term,
+      category: entry.category,
+      weight: entry.weight,
+      pattern: termPattern(entry.term.toLowerCase())
+    };
+  });
+
+  const lexicon = {
+    version: String(raw.version || 'unversioned'),
+    thresholds: {
+      explicitWeight: thresholds.explicitWeight,
+      suggestiveScore: thresholds.suggestiveScore,
+      maxCountPerTerm: thresholds.maxCountPerTerm
+    },
+    terms
+  };
+
+  lexiconCache.set(lexiconPath, lexicon);
+  return lexicon;
+}
+
+/**
+ * Splits lyrics into lines, dropping LRC timestamps and section headers
+ * ("[Chorus]") but keeping the original line numbers
+ * @returns {Array<{lineNumber: number, text: string}>}
+ */
+function lyricLines(lyrics) {
+  return String(lyrics)
+    .split(/\r?\n/)
+    .map((line, index) => ({
+      lineNumber: index + 1,
+      text: line.replace(/\[[^\]]*\]/g, '').replace(/[‘’]/g, "'").trim()
+    }))
+    .filter(line => line.text.length > 0);
+}
+
+/**
+ * Whether the value holds any lyric text worth classifying
+ * @param {string|null|undefined} lyrics
+ * @returns {boolean}
+ */
+function hasLyrics(lyrics) {
+  return typeof lyrics === 'string' && lyricLines(lyrics).length > 0;
+}
+
+/**
+ * Classifies lyrics for explicit content
+ * @param {string} lyrics - Full lyrics, one line per lyric line
+ * @param {{lexicon?: Lexicon}} [options] - Lexicon override (defaults to the configured one)
+ * @returns {LyricsExplicitResult}
+ * @throws {Error} If the lyrics are empty or the lexicon can't be loaded
+ */
+function classifyLyricsExplicit(lyrics, options = {}) {
+  const lines = hasLyrics(lyrics) ? lyricLines(lyrics) : [];
+  if (lines.length === 0) {
+    throw new Error('No lyrics to classify');
+  }
+
+  const lexicon = options.lexicon || loadLexicon();
+  const { explicitWeight, suggestiveScore, maxCountPerTerm } = lexicon.thresholds;
+
+  const evidence = [];
+  const termCounts = new Map();
+
+  for (const { lineNumber, text } of lines) {
+    const found = [];
+
+    for (const entry of lexicon.terms) {
+      entry.pattern.lastIndex = 0;
+      const count = (text.match(entry.pattern) || []).length;
+      if (count === 0) continue;
+
+      found.push({ term: entry.term, category: entry.category, weight: entry.weight });
+      termCounts.set(entry, (termCounts.get(entry) || 0) + count);
+    }
+
+    if (found.length > 0) {
+      evidence.push({
+        lineNumber,
+        line: text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH - 1)}…` : text,
+        terms: found,
+        weight: found.reduce((sum, term) => sum + term.weight, 0)
+      });
+    }
+  }
+
+  let score = 0;
+  let strongProfanity = 0;
+  for (const [entry, count] of termCounts) {
+    score += entry.weight * Math.min(count, maxCountPerTerm);
+    if (entry.category === 'profanity' && entry.weight >= explicitWeight) {
+      strongProfanity++;
+    }
+  }
+
+  const strongest = [...evidence].sort((a, b) => b.weight - a.weight || a.lineNumber - b.lineNumber);
+
+  let classification;
+  let confidence;
+  let firstExample = '';
+
+  if (strongProfanity > 0) {
+    classification = 'Explicit';
+    // Direct lexical evidence; more distinct strong terms leave less room for a false match
+    confidence = strongProfanity > 1 ? 0.95 : 0.9;
+    const example = strongest.find(line =>
+      line.terms.some(term => term.category === 'profanity' && term.weight >= explicitWeight)
+    );
+    firstExample = example ? example.line : '';
+  } else if (score >= suggestiveScore) {
+    classification = 'Suggestive';
+    confidence = Math.min(0.8, 0.6 + 0.05 * (score - suggestiveScore));
+  } else {
+    classification = 'Family Friendly';
+    // Implied themes are invisible to a lexicon, and short lyrics may be partial
+    confidence = lines.length < SHORT_LYRICS_LINES ? 0.5 : 0.7;
+  }
+
+  return {
+    classification,
+    first_example: firstExample,
+    confidence: Math.round(confidence * 100) / 100,
+    score,
+    matches: strongest.slice(0, MAX_EVIDENCE_LINES),
+    lineCount: lines.length,
+    lexiconVersion: lexicon.version
+  };
+}
+
+module.exports = {
+  classifyLyricsExplicit,
+  hasLyrics,
+  loadLexicon,
+  getLexiconPath
+};
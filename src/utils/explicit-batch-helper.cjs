@@ -1,30 +1,51 @@
 /**
  * Shared helpers for batch explicit content processing
  * Used by both enrich-playlist.cjs and enrich-spotify-playlist.cjs
+ *
+ * Submissions are stored as ExplicitJob rows (explicit-jobs.cjs), so results
+ * that arrive after the script exits are still saved by the upload worker.
  */
 
-const { submitExplicitTaskAsync, pollExplicitResult } = require('../classifiers/explicit-classifier.cjs');
+const { createExplicitJob, checkExplicitJobs, saveExplicitResult, OPEN_STATUSES } = require('../classifiers/explicit-jobs.cjs');
+
+// How long Phase 3 waits for results before leaving them to the upload worker
+const EXPLICIT_WAIT_MS = 2 * 60 * 1000;
+const POLL_INTERVAL_MS = 3000;
 
 /**
  * Submit all explicit content analysis tasks in parallel batches (Phase 1)
  *
- * Submits songs to Parallel AI for explicit content analysis without waiting
+ * Creates an ExplicitJob per song and submits it to Parallel AI without waiting
  * for results. This non-blocking submission allows Gemini classification to
  * proceed in parallel while the API processes results asynchronously.
  *
  * @param {Array<{artist: string, title: string, isrc: string}>} songs - Songs to analyze
  * @param {number} concurrency - Number of concurrent submissions per batch
- * @returns {Promise<Array<{runId?: string, artist: string, title: string, isrc: string, status: 'submitted'|'error', error?: string}>>}
+ * @param {import('@prisma/client').PrismaClient} prisma - Prisma client instance
+ * @returns {Promise<Array<{jobId: string, runId: string|null, artist: string, title: string, isrc: string, status: 'submitted'|'error', error?: string}>>}
  */
-async function submitAllExplicitTasks(songs, concurrency) {
+async function submitAllExplicitTasks(songs, concurrency, prisma) {
   const submissions = [];
 
   for (let i = 0; i < songs.length; i += concurrency) {
     const batch = songs.slice(i, i + concurrency);
     const batchSubmissions = await Promise.all(
       batch.map(async (song) => {
-        const sub = await submitExplicitTaskAsync(song.artist, song.title);
-        return { ...sub, isrc: song.isrc };
+        const job = await createExplicitJob(prisma, {
+          isrc: song.isrc,
+          artist: song.artist,
+          title: song.title,
+          source: 'script'
+        });
+        return {
+          jobId: job.id,
+          runId: job.runId,
+          artist: song.artist,
+          title: song.title,
+          isrc: song.isrc,
+          status: job.status === 'SUBMITTED' ? 'submitted' : 'error',
+          ...(job.error && { error: job.error })
+        };
       })
     );
     submissions.push(...batchSubmissions);
@@ -47,60 +68,73 @@ async function submitAllExplicitTasks(songs, concurrency) {
 }
 
 /**
- * Poll all explicit results and update DB records + results array (Phase 3)
+ * Wait for explicit jobs and update DB records + results array (Phase 3)
  *
- * Polls Parallel AI for completed results and updates both the database
- * and the results array. Only updates results array if DB update succeeds
- * to ensure CSV export matches database state.
+ * Advances the jobs from Phase 1 until they finish or EXPLICIT_WAIT_MS passes,
+ * updating both the database and the results array as results arrive. Only
+ * updates results array if DB update succeeds to ensure CSV export matches
+ * database state. Jobs still running at the end stay in the explicit_jobs
+ * table; the upload worker cron stores their results later.
  *
- * @param {Array<{runId?: string, artist: string, title: string, isrc: string, status: string}>} submissions - Submission results from Phase 1
+ * @param {Array<{jobId?: string, artist: string, title: string, isrc: string, status: string}>} submissions - Submission results from Phase 1
  * @param {Array<{isrc: string, aiExplicit?: string}>} results - Results array to update for CSV export
  * @param {import('@prisma/client').PrismaClient} prisma - Prisma client instance
- * @returns {Promise<{updated: number, failed: number}>}
+ * @returns {Promise<{updated: number, failed: number, pending: number}>}
  */
 async function pollAndUpdateExplicitResults(submissions, results, prisma) {
-  const validSubmissions = submissions.filter(s => s.status === 'submitted');
-  if (validSubmissions.length === 0) {
-    return { updated: 0, failed: 0 };
+  let openIds = submissions.map(s => s.jobId).filter(Boolean);
+  if (openIds.length === 0) {
+    return { updated: 0, failed: 0, pending: 0 };
   }
 
-  // Poll all in parallel
-  const explicitResults = await Promise.all(
-    validSubmissions.map(sub => pollExplicitResult(sub.runId, sub.artist, sub.title))
-  );
-
   let updated = 0;
   let failed = 0;
 
-  for (let i = 0; i < validSubmissions.length; i++) {
-    const sub = validSubmissions[i];
-    const explicitResult = explicitResults[i];
-
-    try {
-      await prisma.song.update({
-        where: { isrc: sub.isrc },
-        data: { aiExplicit: explicitResult.classification }
-      });
-      updated++;
-
-      // Only update results array if DB update succeeded
-      const resultEntry = results.find(r => r.isrc === sub.isrc);
-      if (resultEntry) {
-        resultEntry.aiExplicit = explicitResult.classification;
-      } else {
-        console.error(`    Warning: Could not find result entry for ISRC ${sub.isrc} (${sub.artist} - ${sub.title})`);
-      }
-    } catch (error) {
-      console.error(`    Failed to update ${sub.artist} - ${sub.title}: ${error.message}`);
+  const saveResult = async (isrc, explicitResult) => {
+    // Same write as the API: a curator-locked explicit value gets a proposal instead
+    const song = await saveExplicitResult(prisma, isrc, explicitResult);
+    if (!song) {
+      return;
+    }
+    updated++;
+
+    // Only update results array if DB update succeeded (with the value the song now holds)
+    const resultEntry = results.find(r => r.isrc === isrc);
+    if (resultEntry) {
+      resultEntry.aiExplicit = song.aiExplicit;
+    } else {
+      console.error(`    Warning: Could not find result entry for ISRC ${isrc}`);
+    }
+  };
+
+  const deadline = Date.now() + EXPLICIT_WAIT_MS;
+
+  while (openIds.length > 0) {
+    const jobs = await checkExplicitJobs(prisma, openIds, { saveResult });
+
+    for (const job of jobs.filter(job => job.status === 'FAILED')) {
+      console.error(`    Failed: ${job.artist} - ${job.title}: ${job.error}`);
       failed++;
     }
+
+    openIds = jobs.filter(job => OPEN_STATUSES.includes(job.status)).map(job => job.id);
+    if (openIds.length === 0 || Date.now() >= deadline) break;
+
+    await sleep(POLL_INTERVAL_MS);
   }
 
   if (failed > 0) {
-    console.warn(`  \u26A0 ${failed} DB updates failed - CSV may not match database for those songs`);
+    console.warn(`  \u26A0 ${failed} explicit jobs failed - resubmit them from POST /api/admin/explicit-jobs/resubmit`);
   }
+  if (openIds.length > 0) {
+    console.warn(`  \u26A0 ${openIds.length} explicit jobs still running - the upload worker will store their results`);
+  }
+
+  return { updated, failed, pending: openIds.length };
+}
 
-  return { updated, failed };
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 module.exports = {
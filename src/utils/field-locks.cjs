@@ -0,0 +1,117 @@
+/**
+ * Field Locks
+ *
+ * A tag field a curator changes is locked (songs.locked_fields), and
+ * classification writes never overwrite it: a differing AI value is stored in
+ * songs.ai_proposed instead, where a curator can accept or dismiss it. Shared by
+ * the API (api/lib/field-locks.ts wraps this module with types) and the scripts.
+ */
+
+const { Prisma } = require('@prisma/client');
+
+// Lock names are the API field names; each maps to its song column and confidence column
+const LOCKABLE_FIELDS = {
+  ai_energy: { column: 'aiEnergy', confidence: 'aiEnergyConfidence' },
+  ai_accessibility: { column: 'aiAccessibility', confidence: 'aiAccessibilityConfidence' },
+  ai_explicit: { column: 'aiExplicit', confidence: 'aiExplicitConfidence' },
+  ai_subgenre_1: { column: 'aiSubgenre1', confidence: 'aiSubgenre1Confidence' },
+  ai_subgenre_2: { column: 'aiSubgenre2', confidence: 'aiSubgenre2Confidence' },
+  ai_subgenre_3: { column: 'aiSubgenre3', confidence: 'aiSubgenre3Confidence' }
+};
+
+function isLockableField(field) {
+  return Object.prototype.hasOwnProperty.call(LOCKABLE_FIELDS, field);
+}
+
+/**
+ * Reads a song's stored proposals
+ * @param {{aiProposed?: Object|null}} song
+ */
+function getProposals(song) {
+  return song.aiProposed && typeof song.aiProposed === 'object' ? song.aiProposed : {};
+}
+
+/**
+ * Value for the ai_proposed column (DbNull once nothing is left to review)
+ */
+function proposalsValue(proposals) {
+  return Object.keys(proposals).length > 0 ? proposals : Prisma.DbNull;
+}
+
+/**
+ * A song's overall confidence (songs.ai_confidence): the lowest non-null field
+ * confidence, or null if none are set
+ * @param {Array<number|null|undefined>} values
+ * @returns {number|null}
+ */
+function overallConfidence(values) {
+  const present = values.filter(v => typeof v === 'number' && !Number.isNaN(v));
+  return present.length > 0 ? Math.min(...present) : null;
+}
+
+/**
+ * Filters a classification write (song columns) through the song's locks.
+ * Locked fields are removed from the write; where the AI now disagrees with the
+ * curator the AI value becomes a proposal, and where it agrees any older
+ * proposal for that field is dropped. aiConfidence is recomputed from the
+ * confidences the song will actually hold.
+ *
+ * @param {Object|null} song - Existing song, or null for a new one (nothing is locked)
+ * @param {Object} data - Song columns to write
+ * @param {{propose?: boolean}} [options] - propose: false for a failed
+ *   classification: locked fields are skipped without touching their proposals
+ * @returns {Object} The write to apply
+ */
+function applyFieldLocks(song, data, options = {}) {
+  const propose = options.propose !== false;
+  const write = { ...data };
+  const locked = ((song && song.lockedFields) || []).filter(isLockableField);
+
+  if (song && locked.length > 0) {
+    const proposals = { ...getProposals(song) };
+    let proposalsChanged = false;
+
+    for (const field of locked) {
+      const { column, confidence } = LOCKABLE_FIELDS[field];
+      if (!(column in write)) continue;
+
+      const value = write[column] ?? null;
+      if (propose && value !== (song[column] ?? null)) {
+        proposals[field] = {
+          value,
+          confidence: write[confidence] ?? null,
+          promptId: write.aiPromptId ?? null,
+          proposedAt: new Date().toISOString()
+        };
+        proposalsChanged = true;
+      } else if (propose && proposals[field]) {
+        delete proposals[field];
+        proposalsChanged = true;
+      }
+
+      delete write[column];
+      delete write[confidence];
+    }
+
+    if (proposalsChanged) {
+      write.aiProposed = proposalsValue(proposals);
+    }
+  }
+
+  write.aiConfidence = overallConfidence(
+    Object.values(LOCKABLE_FIELDS).map(({ confidence }) =>
+      confidence in write ? write[confidence] : (song ? song[confidence] ?? null : null)
+    )
+  );
+
+  return write;
+}
+
+module.exports = {
+  LOCKABLE_FIELDS,
+  isLockableField,
+  getProposals,
+  proposalsValue,
+  overallConfidence,
+  applyFieldLocks
+};
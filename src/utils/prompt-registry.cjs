@@ -0,0 +1,137 @@
+/**
+ * Prompt Registry
+ *
+ * Versioned classification prompts listed in prompts/registry.json.
+ *
+ * - Each version has a stable id (e.g. "classification-v1") and points at a
+ *   template file in prompts/ containing the {{SUBGENRES_LIST}} placeholder
+ * - Versions are immutable: the template's SHA-256 is recorded in the registry
+ *   and loading fails if the file no longer matches. Changing a prompt means
+ *   adding a new version
+ * - Which version is used at runtime (active + optional candidate share) is
+ *   stored in the database and managed through /api/admin/prompts
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { loadClassificationPrompt, getTaxonomy } = require('./subgenre-loader.cjs');
+
+const PROMPTS_DIR = path.join(__dirname, '../../prompts');
+const REGISTRY_PATH = path.join(PROMPTS_DIR, 'registry.json');
+
+// Cache for the registry file and built system instructions (keyed by prompt id + taxonomy version)
+let cachedRegistry = null;
+const cachedInstructions = new Map();
+
+/**
+ * @typedef {Object} PromptVersion
+ * @property {string} id - Stable version id
+ * @property {string} file - Template file, relative to prompts/
+ * @property {string} sha256 - Hash of the template file when it was registered
+ * @property {string} createdAt - Date the version was added (YYYY-MM-DD)
+ * @property {string} description - What changed in this version
+ */
+
+function sha256(text) {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Loads prompts/registry.json
+ * @returns {{defaultPromptId: string, versions: PromptVersion[]}}
+ * @throws {Error} If the registry cannot be read or parsed
+ */
+function loadRegistry() {
+  if (cachedRegistry) {
+    return cachedRegistry;
+  }
+
+  try {
+    cachedRegistry = JSON.parse(fs.readFileSync(REGISTRY_PATH, 'utf8'));
+    return cachedRegistry;
+  } catch (error) {
+    throw new Error(`Failed to load prompt registry from ${REGISTRY_PATH}: ${error.message}`);
+  }
+}
+
+/**
+ * Lists all registered prompt versions (oldest first)
+ * @returns {PromptVersion[]}
+ */
+function listPromptVersions() {
+  return loadRegistry().versions;
+}
+
+/**
+ * Gets the prompt id used when no rollout has been configured
+ * @returns {string}
+ */
+function getDefaultPromptId() {
+  return loadRegistry().defaultPromptId;
+}
+
+/**
+ * Gets a prompt version by id
+ * @param {string} promptId
+ * @returns {PromptVersion}
+ * @throws {Error} If the id is not registered
+ */
+function getPromptVersion(promptId) {
+  const version = listPromptVersions().find(v => v.id === promptId);
+  if (!version) {
+    throw new Error(`Unknown prompt version "${promptId}"`);
+  }
+  return version;
+}
+
+/**
+ * Builds the system instruction for a prompt version (subgenres injected)
+ * @param {string} [promptId] - Defaults to the registry's defaultPromptId
+ * @returns {{promptId: string, text: string, hash: string}}
+ *   hash is the SHA-256 of the final instruction, so it also changes when the
+ *   subgenre list does (load it first with subgenre-loader's loadTaxonomy)
+ * @throws {Error} If the version is unknown or its template was modified
+ */
+function getSystemInstruction(promptId = getDefaultPromptId()) {
+  const cacheKey = `${promptId}:${getTaxonomy().version}`;
+  if (cachedInstructions.has(cacheKey)) {
+    return cachedInstructions.get(cacheKey);
+  }
+
+  const version = getPromptVersion(promptId);
+  const templatePath = path.join(PROMPTS_DIR, version.file);
+  const template = fs.readFileSync(templatePath, 'utf8');
+
+  if (sha256(template) !== version.sha256) {
+    throw new Error(`Prompt version "${promptId}" (${version.file}) was modified after registration - add a new version instead`);
+  }
+
+  const text = loadClassificationPrompt(templatePath);
+  const instruction = { promptId, text, hash: sha256(text) };
+  cachedInstructions.set(cacheKey, instruction);
+  return instruction;
+}
+
+/**
+ * Picks the prompt version for one classification
+ * Sends `candidatePercent`% of calls to the candidate, the rest to the active version
+ * @param {{activePromptId: string, candidatePromptId?: string|null, candidatePercent?: number}} rollout
+ * @param {() => number} [random] - Injectable for deterministic callers
+ * @returns {string} Prompt id
+ */
+function selectPromptId(rollout, random = Math.random) {
+  const { activePromptId, candidatePromptId, candidatePercent = 0 } = rollout;
+  if (candidatePromptId && candidatePercent > 0 && random() * 100 < candidatePercent) {
+    return candidatePromptId;
+  }
+  return activePromptId;
+}
+
+module.exports = {
+  listPromptVersions,
+  getDefaultPromptId,
+  getPromptVersion,
+  getSystemInstruction,
+  selectPromptId
+};
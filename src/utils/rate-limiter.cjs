@@ -0,0 +1,191 @@
+/**
+ * Shared Rate Limiter
+ *
+ * Per-provider token bucket (requests per minute) plus a concurrency cap, so
+ * batch endpoints can hand every song to Promise.all without bursting past
+ * Gemini / Parallel AI quotas.
+ *
+ * - Limits come from `rateLimits.<provider>` in config/default.json, overridden by
+ *   RATE_LIMIT_<PROVIDER>_RPM and RATE_LIMIT_<PROVIDER>_CONCURRENCY env vars
+ * - A 429 (or RESOURCE_EXHAUSTED) response pauses the provider (Retry-After when
+ *   given) and halves its rate; each success recovers 5% back toward the limit
+ * - Limits are per process: one serverless invocation or one script run
+ */
+
+const path = require('path');
+
+const DEFAULT_LIMITS = { requestsPerMinute: 60, maxConcurrent: 5 };
+
+// Backoff tuning for 429 responses
+const RATE_LIMIT_COOLDOWN_MS = 5000;
+const MIN_RATE_FACTOR = 0.125;
+const RECOVERY_FACTOR = 1.05;
+
+// One limiter per provider name, shared by every caller in the process
+const limiters = new Map();
+
+/**
+ * Checks whether an error is a provider rate-limit response
+ * @param {Error & {status?: number, response?: {status?: number}}} error
+ * @returns {boolean}
+ */
+function isRateLimitError(error) {
+  if (!error) return false;
+  if (error.status === 429 || error.code === 429) return true;
+  if (error.response && error.response.status === 429) return true;
+  return /\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test(error.message || '');
+}
+
+/**
+ * Reads Retry-After (seconds) from an HTTP error, if present
+ * @returns {number|null} Delay in ms
+ */
+function getRetryAfterMs(error) {
+  const headers = (error.response && error.response.headers) || {};
+  const retryAfter = parseFloat(headers['retry-after']);
+  return Number.isNaN(retryAfter) ? null : retryAfter * 1000;
+}
+
+/**
+ * Reads limits for a provider from env / config
+ * @param {string} name - Provider name (e.g. 'gemini', 'parallel')
+ * @returns {{requestsPerMinute: number, maxConcurrent: number}}
+ */
+function getRateLimitConfig(name) {
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  const configured = { ...DEFAULT_LIMITS, ...((config.rateLimits || {})[name] || {}) };
+
+  const envPrefix = `RATE_LIMIT_${name.toUpperCase()}`;
+  const envRpm = parseInt(process.env[`${envPrefix}_RPM`], 10);
+  const envConcurrency = parseInt(process.env[`${envPrefix}_CONCURRENCY`], 10);
+
+  return {
+    requestsPerMinute: envRpm > 0 ? envRpm : configured.requestsPerMinute,
+    maxConcurrent: envConcurrency > 0 ? envConcurrency : configured.maxConcurrent
+  };
+}
+
+/**
+ * Creates a rate limiter
+ * @param {{name: string, requestsPerMinute: number, maxConcurrent: number}} options
+ * @returns {{schedule: <T>(fn: () => Promise<T>) => Promise<T>, getStats: () => Object}}
+ */
+function createRateLimiter({ name, requestsPerMinute, maxConcurrent }) {
+  // Bucket holds at most one concurrency-worth of tokens, so even an idle
+  // limiter never releases more than maxConcurrent requests at once
+  const capacity = Math.max(1, Math.min(maxConcurrent, requestsPerMinute));
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let rateFactor = 1;
+  let pausedUntil = 0;
+  let active = 0;
+  let timer = null;
+  const queue = [];
+
+  const tokensPerMs = () => (requestsPerMinute * rateFactor) / 60000;
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * tokensPerMs());
+    lastRefill = now;
+  }
+
+  function wakeAfter(delayMs) {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      drain();
+    }, Math.max(1, Math.ceil(delayMs)));
+  }
+
+  function drain() {
+    while (queue.length > 0 && active < maxConcurrent) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        wakeAfter(pausedUntil - now);
+        return;
+      }
+
+      refill();
+      if (tokens < 1) {
+        wakeAfter((1 - tokens) / tokensPerMs());
+        return;
+      }
+
+      tokens -= 1;
+      active++;
+      run(queue.shift());
+    }
+  }
+
+  function run(job) {
+    Promise.resolve()
+      .then(job.fn)
+      .then(
+        (result) => {
+          rateFactor = Math.min(1, rateFactor * RECOVERY_FACTOR);
+          job.resolve(result);
+        },
+        (error) => {
+          if (isRateLimitError(error)) {
+            onRateLimited(error);
+          }
+          job.reject(error);
+        }
+      )
+      .finally(() => {
+        active--;
+        drain();
+      });
+  }
+
+  function onRateLimited(error) {
+    const cooldown = getRetryAfterMs(error) || RATE_LIMIT_COOLDOWN_MS;
+    rateFactor = Math.max(MIN_RATE_FACTOR, rateFactor / 2);
+    pausedUntil = Math.max(pausedUntil, Date.now() + cooldown);
+    tokens = 0;
+    lastRefill = pausedUntil;
+    console.warn(`[RateLimit] ${name}: 429 received - pausing ${Math.round(cooldown / 1000)}s, rate now ${Math.round(requestsPerMinute * rateFactor)}/min`);
+  }
+
+  return {
+    /**
+     * Runs fn once a request slot is free; resolves/rejects with its result
+     */
+    schedule(fn) {
+      return new Promise((resolve, reject) => {
+        queue.push({ fn, resolve, reject });
+        drain();
+      });
+    },
+
+    getStats() {
+      return {
+        name,
+        active,
+        queued: queue.length,
+        requestsPerMinute: Math.round(requestsPerMinute * rateFactor),
+        maxConcurrent,
+        pausedForMs: Math.max(0, pausedUntil - Date.now())
+      };
+    }
+  };
+}
+
+/**
+ * Gets the shared limiter for a provider (created on first use)
+ * @param {string} name - Provider name (e.g. 'gemini', 'parallel')
+ */
+function getRateLimiter(name) {
+  if (!limiters.has(name)) {
+    limiters.set(name, createRateLimiter({ name, ...getRateLimitConfig(name) }));
+  }
+  return limiters.get(name);
+}
+
+module.exports = {
+  getRateLimiter,
+  getRateLimitConfig,
+  createRateLimiter,
+  isRateLimitError
+};
@@ -0,0 +1,56 @@
+/**
+ * Rejection Reasons
+ *
+ * Reason codes a curator picks when rejecting a song. The list comes from
+ * `rejectionReasons` in config/default.json (falling back to the defaults
+ * below), so labels can be reworded or reasons added without a migration.
+ *
+ * - Codes are stored on the song (rejection_reason); keep them stable
+ * - Removing a code from the list leaves old rejections as they are; reports
+ *   show the bare code for them
+ */
+
+const path = require('path');
+
+const DEFAULT_REASONS = [
+  { code: 'WRONG_VIBE', label: 'Wrong vibe' },
+  { code: 'POOR_AUDIO', label: 'Poor audio' },
+  { code: 'EXPLICIT', label: 'Explicit' },
+  { code: 'DUPLICATE', label: 'Duplicate' },
+  { code: 'OFF_BRAND', label: 'Off-brand' }
+];
+
+const MAX_CODE_LENGTH = 30;
+
+/**
+ * @typedef {Object} RejectionReason
+ * @property {string} code - Stored value, e.g. WRONG_VIBE
+ * @property {string} label - Shown to curators
+ */
+
+/**
+ * Reads the configured rejection reasons
+ * @returns {RejectionReason[]}
+ */
+function getRejectionReasons() {
+  const config = require(path.join(__dirname, '../../config/default.json'));
+  const configured = Array.isArray(config.rejectionReasons) ? config.rejectionReasons : DEFAULT_REASONS;
+
+  return configured.filter(reason =>
+    reason && typeof reason.code === 'string' && reason.code.length > 0 &&
+    reason.code.length <= MAX_CODE_LENGTH && typeof reason.label === 'string'
+  );
+}
+
+/**
+ * @param {string} code
+ * @returns {boolean} Whether the code is a configured rejection reason
+ */
+function isRejectionReason(code) {
+  return getRejectionReasons().some(reason => reason.code === code);
+}
+
+module.exports = {
+  getRejectionReasons,
+  isRejectionReason
+};
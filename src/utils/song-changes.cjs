@@ -0,0 +1,175 @@
+/**
+ * Song Changes
+ *
+ * Field-level audit log (song_changes). Every path that writes a song's tags
+ * or review state records what it changed here: curator edits, AI runs,
+ * imports, bulk actions and reverts. Shared by the API (TypeScript imports this
+ * module directly) and the scripts.
+ *
+ * - One row per changed field, grouped by a changeSetId per write
+ * - Values are stored as text: null stays null, booleans become 'true'/'false'
+ * - Fields whose value doesn't change are not recorded
+ */
+
+const crypto = require('crypto');
+
+// API field name -> song column, for every field the log tracks
+const TRACKED_FIELDS = {
+  ai_energy: 'aiEnergy',
+  ai_accessibility: 'aiAccessibility',
+  ai_explicit: 'aiExplicit',
+  ai_subgenre_1: 'aiSubgenre1',
+  ai_subgenre_2: 'aiSubgenre2',
+  ai_subgenre_3: 'aiSubgenre3',
+  approval_status: 'approvalStatus',
+  rejection_reason: 'rejectionReason',
+  rejection_note: 'rejectionNote',
+  reviewed: 'reviewed',
+  curator_notes: 'curatorNotes'
+};
+
+const CHANGE_SOURCES = ['CURATOR', 'AI', 'IMPORT', 'BULK', 'REVERT'];
+
+const MAX_CONTEXT_LENGTH = 255;
+
+/**
+ * @typedef {Object} ChangeMeta
+ * @property {'CURATOR'|'AI'|'IMPORT'|'BULK'|'REVERT'} source
+ * @property {{id: string, name: string}|null} [actor] - User behind the write (null for automated writes)
+ * @property {string} [context] - Where the write came from, e.g. "Upload: My Playlist"
+ * @property {string} [changeSetId] - Reuse to group several writes into one change set
+ */
+
+function toText(value) {
+  if (value === null || value === undefined) return null;
+  return String(value);
+}
+
+/**
+ * Lists the tracked fields a write changes
+ * @param {Object|null} before - The song before the write (null for a new song)
+ * @param {Object} data - Song columns being written
+ * @returns {Array<{field: string, oldValue: string|null, newValue: string|null}>}
+ */
+function diffSongFields(before, data) {
+  const changes = [];
+
+  for (const [field, column] of Object.entries(TRACKED_FIELDS)) {
+    if (!(column in data)) continue;
+
+    const oldValue = toText(before ? before[column] : null);
+    const newValue = toText(data[column]);
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Builds song_changes rows for a write (empty when nothing tracked changes)
+ * @param {string} isrc
+ * @param {Object|null} before - The song before the write (null for a new song)
+ * @param {Object} data - Song columns being written
+ * @param {ChangeMeta} meta
+ */
+function buildSongChanges(isrc, before, data, meta) {
+  if (!CHANGE_SOURCES.includes(meta.source)) {
+    throw new Error(`Unknown change source: ${meta.source}`);
+  }
+
+  const changeSetId = meta.changeSetId || crypto.randomUUID();
+  const createdAt = new Date();
+
+  return diffSongFields(before, data).map(change => ({
+    songIsrc: isrc,
+    changeSetId,
+    ...change,
+    source: meta.source,
+    context: meta.context ? meta.context.substring(0, MAX_CONTEXT_LENGTH) : null,
+    changedBy: meta.actor?.name ?? null,
+    changedById: meta.actor?.id ?? null,
+    createdAt
+  }));
+}
+
+/**
+ * Records the changes of a write that has already been made. Use inside an
+ * interactive transaction (pass the transaction client) or after an upsert.
+ * @param {import('@prisma/client').PrismaClient} db - Client or transaction client
+ * @returns {Promise<number>} Number of fields recorded
+ */
+async function recordSongChanges(db, isrc, before, data, meta) {
+  const rows = buildSongChanges(isrc, before, data, meta);
+  if (rows.length > 0) {
+    await db.songChange.createMany({ data: rows });
+  }
+  return rows.length;
+}
+
+/**
+ * Updates a song and records its changes in one transaction
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {Object} before - The song before the write (must include isrc)
+ * @param {Object} data - Song columns to write
+ * @param {ChangeMeta} meta
+ * @returns {Promise<Object>} The updated song
+ */
+async function updateSongWithHistory(prisma, before, data, meta) {
+  const rows = buildSongChanges(before.isrc, before, data, meta);
+  const update = prisma.song.update({ where: { isrc: before.isrc }, data });
+
+  if (rows.length === 0) {
+    return update;
+  }
+
+  const [song] = await prisma.$transaction([update, prisma.songChange.createMany({ data: rows })]);
+  return song;
+}
+
+/**
+ * Creates a song and records its initial values in one transaction
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {Object} data - Song columns (must include isrc)
+ * @param {ChangeMeta} meta
+ * @returns {Promise<Object>} The new song
+ */
+async function createSongWithHistory(prisma, data, meta) {
+  const rows = buildSongChanges(data.isrc, null, data, meta);
+  const create = prisma.song.create({ data });
+
+  if (rows.length === 0) {
+    return create;
+  }
+
+  const [song] = await prisma.$transaction([create, prisma.songChange.createMany({ data: rows })]);
+  return song;
+}
+
+/**
+ * Upserts a song by ISRC and records its changes (scripts that import or
+ * enrich songs)
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {string} isrc
+ * @param {{create: Object, update: Object}} write - Same shape as prisma.song.upsert()
+ * @param {ChangeMeta} meta
+ * @returns {Promise<Object>} The saved song
+ */
+async function upsertSongWithHistory(prisma, isrc, write, meta) {
+  const before = await prisma.song.findUnique({ where: { isrc } });
+  return before
+    ? updateSongWithHistory(prisma, before, write.update, meta)
+    : createSongWithHistory(prisma, write.create, meta);
+}
+
+module.exports = {
+  TRACKED_FIELDS,
+  CHANGE_SOURCES,
+  diffSongFields,
+  buildSongChanges,
+  recordSongChanges,
+  updateSongWithHistory,
+  createSongWithHistory,
+  upsertSongWithHistory
+};
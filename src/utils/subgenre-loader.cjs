@@ -2,44 +2,157 @@
  * Subgenre Data Loader
  * Provides utilities for loading and formatting subgenre data
  *
- * This module serves as the single source of truth for subgenre data,
- * loading from data/subgenres.json and providing multiple output formats.
+ * The subgenre taxonomy lives in the categories and subgenres tables (managed
+ * through /api/admin/subgenres). Call loadTaxonomy(prisma) before classifying
+ * or validating; the synchronous helpers below read what it loaded.
+ *
+ * - Deprecated subgenres stay in the taxonomy (songs may still carry them) but
+ *   are left out of the prompt and of the valid values for new tags
+ * - Loaded data is reused for TAXONOMY_TTL_MS, so admin edits reach running
+ *   instances within a minute
+ * - Without a database load (offline tools, the local classifier) the helpers
+ *   fall back to data/subgenres.json, the seed the tables were created from
  */
 
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
+
+const SEED_PATH = path.join(__dirname, '../../data/subgenres.json');
+const TAXONOMY_TTL_MS = 60 * 1000;
+
+/**
+ * @typedef {Object} TaxonomySubgenre
+ * @property {number|null} id - Database id (null in the seed file fallback)
+ * @property {string} name
+ * @property {string|null} description
+ * @property {boolean} deprecated
+ */
+
+/**
+ * @typedef {Object} TaxonomyCategory
+ * @property {number|null} id
+ * @property {string} name
+ * @property {string|null} description
+ * @property {TaxonomySubgenre[]} subgenres - In display order
+ */
+
+/**
+ * @typedef {Object} Taxonomy
+ * @property {TaxonomyCategory[]} categories - In display order
+ * @property {'database'|'file'} source
+ * @property {string} version - Hash of the content, changes with any edit
+ * @property {number} loadedAt - Epoch ms
+ */
 
 // Cache for loaded subgenre data
-let cachedSubgenres = null;
+let cachedTaxonomy = null;
+let cachedSeed = null;
+
+function taxonomyVersion(categories) {
+  return crypto.createHash('sha256').update(JSON.stringify(categories)).digest('hex').slice(0, 16);
+}
 
 /**
- * Loads subgenres from data/subgenres.json
- * @returns {Object} Subgenre data with categories
- * @throws {Error} If the file cannot be read or parsed
+ * Loads the taxonomy from the database (cached for a minute)
+ * @param {import('@prisma/client').PrismaClient} prisma
+ * @param {{refresh?: boolean}} [options] - refresh skips the cache (after admin edits)
+ * @returns {Promise<Taxonomy>}
  */
-function loadSubgenres() {
-  if (cachedSubgenres) {
-    return cachedSubgenres;
+async function loadTaxonomy(prisma, options = {}) {
+  if (!options.refresh && cachedTaxonomy?.source === 'database' &&
+      Date.now() - cachedTaxonomy.loadedAt < TAXONOMY_TTL_MS) {
+    return cachedTaxonomy;
   }
 
-  const dataPath = path.join(__dirname, '../../data/subgenres.json');
+  const rows = await prisma.category.findMany({
+    orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    include: {
+      subgenres: { orderBy: [{ position: 'asc' }, { name: 'asc' }] }
+    }
+  });
+
+  const categories = rows.map(category => ({
+    id: category.id,
+    name: category.name,
+    description: category.description,
+    subgenres: category.subgenres.map(subgenre => ({
+      id: subgenre.id,
+      name: subgenre.name,
+      description: subgenre.description,
+      deprecated: subgenre.deprecated
+    }))
+  }));
+
+  cachedTaxonomy = {
+    categories,
+    source: 'database',
+    version: taxonomyVersion(categories),
+    loadedAt: Date.now()
+  };
+  return cachedTaxonomy;
+}
+
+/**
+ * Reads the seed file (data/subgenres.json) in the taxonomy shape
+ * @returns {Taxonomy}
+ * @throws {Error} If the file cannot be read or parsed
+ */
+function loadSeedTaxonomy() {
+  if (cachedSeed) {
+    return cachedSeed;
+  }
 
+  let raw;
   try {
-    const rawData = fs.readFileSync(dataPath, 'utf8');
-    cachedSubgenres = JSON.parse(rawData);
-    return cachedSubgenres;
+    raw = JSON.parse(fs.readFileSync(SEED_PATH, 'utf8'));
   } catch (error) {
-    throw new Error(`Failed to load subgenres from ${dataPath}: ${error.message}`);
+    throw new Error(`Failed to load subgenres from ${SEED_PATH}: ${error.message}`);
   }
+
+  const categories = raw.categories.map(category => ({
+    id: null,
+    name: category.name,
+    description: null,
+    subgenres: category.subgenres.map(name => ({ id: null, name, description: null, deprecated: false }))
+  }));
+
+  cachedSeed = { categories, source: 'file', version: taxonomyVersion(categories), loadedAt: Date.now() };
+  return cachedSeed;
+}
+
+/**
+ * Gets the last taxonomy loaded from the database, or the seed file when
+ * loadTaxonomy() hasn't run in this process
+ * @returns {Taxonomy}
+ */
+function getTaxonomy() {
+  return cachedTaxonomy || loadSeedTaxonomy();
+}
+
+/**
+ * Gets subgenre data with categories (names only)
+ * @param {{includeDeprecated?: boolean}} [options]
+ * @returns {{categories: Array<{name: string, subgenres: string[]}>}}
+ */
+function loadSubgenres(options = {}) {
+  return {
+    categories: getTaxonomy().categories.map(category => ({
+      name: category.name,
+      subgenres: category.subgenres
+        .filter(subgenre => options.includeDeprecated || !subgenre.deprecated)
+        .map(subgenre => subgenre.name)
+    }))
+  };
 }
 
 /**
  * Gets a flat array of all subgenres across all categories
+ * @param {{includeDeprecated?: boolean}} [options] - Deprecated ones are left out by default
  * @returns {string[]} All subgenres in a single flat array
  */
-function getAllSubgenres() {
-  const data = loadSubgenres();
-  return data.categories.flatMap(cat => cat.subgenres);
+function getAllSubgenres(options = {}) {
+  return loadSubgenres(options).categories.flatMap(cat => cat.subgenres);
 }
 
 /**
@@ -47,30 +160,36 @@ function getAllSubgenres() {
  * @returns {Array<{name: string, subgenres: string[]}>} Array of category objects
  */
 function getSubgenresByCategory() {
-  const data = loadSubgenres();
-  return data.categories;
+  return loadSubgenres().categories;
 }
 
 /**
  * Formats subgenres as markdown for prompt injection
- * Preserves the category structure with headers
+ * Preserves the category structure with headers; descriptions follow the name
  * @returns {string} Markdown-formatted subgenre list
  */
 function formatSubgenresForPrompt() {
-  const data = loadSubgenres();
+  const categories = getTaxonomy().categories
+    .map(category => ({ ...category, subgenres: category.subgenres.filter(s => !s.deprecated) }))
+    .filter(category => category.subgenres.length > 0);
   let markdown = '';
 
-  data.categories.forEach((category, index) => {
+  categories.forEach((category, index) => {
     // Add category header
     markdown += `### ${category.name}\n\n`;
+    if (category.description) {
+      markdown += `${category.description}\n\n`;
+    }
 
     // Add subgenres as bullet list
     category.subgenres.forEach(subgenre => {
-      markdown += `- ${subgenre}\n`;
+      markdown += subgenre.description
+        ? `- ${subgenre.name}: ${subgenre.description}\n`
+        : `- ${subgenre.name}\n`;
     });
 
     // Add spacing between categories (but not after the last one)
-    if (index < data.categories.length - 1) {
+    if (index < categories.length - 1) {
       markdown += '\n';
     }
   });
@@ -81,12 +200,12 @@ function formatSubgenresForPrompt() {
 /**
  * Loads the classification prompt with subgenres injected
  * Replaces the {{SUBGENRES_LIST}} placeholder with formatted subgenres
+ * Versioned prompts should be loaded through prompt-registry.cjs instead
+ * @param {string} [promptPath] - Prompt template (defaults to prompts/classification-prompt.md)
  * @returns {string} Complete prompt ready for Gemini API
  * @throws {Error} If the prompt file cannot be read or placeholder not found
  */
-function loadClassificationPrompt() {
-  const promptPath = path.join(__dirname, '../../prompts/classification-prompt.md');
-
+function loadClassificationPrompt(promptPath = path.join(__dirname, '../../prompts/classification-prompt.md')) {
   try {
     let prompt = fs.readFileSync(promptPath, 'utf8');
 
@@ -107,26 +226,32 @@ function loadClassificationPrompt() {
 
 /**
  * Gets statistics about the subgenre data
- * @returns {Object} Statistics including total count and counts by category
+ * @returns {Object} Statistics including total count, deprecated count and counts by category
  */
 function getSubgenreStats() {
-  const data = loadSubgenres();
+  const taxonomy = getTaxonomy();
   const stats = {
-    totalCategories: data.categories.length,
+    source: taxonomy.source,
+    totalCategories: taxonomy.categories.length,
     totalSubgenres: 0,
+    deprecatedSubgenres: 0,
     byCategory: {}
   };
 
-  data.categories.forEach(category => {
+  taxonomy.categories.forEach(category => {
     const count = category.subgenres.length;
     stats.byCategory[category.name] = count;
     stats.totalSubgenres += count;
+    stats.deprecatedSubgenres += category.subgenres.filter(s => s.deprecated).length;
   });
 
   return stats;
 }
 
 module.exports = {
+  loadTaxonomy,
+  loadSeedTaxonomy,
+  getTaxonomy,
   loadSubgenres,
   getAllSubgenres,
   getSubgenresByCategory,
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cohensKappa } from '../api/lib/agreement.js';
+
+function repeat(pair: [string, string], times: number): Array<[string, string]> {
+  return Array.from({ length: times }, () => pair);
+}
+
+test('cohensKappa corrects observed agreement for chance', () => {
+  // Observed 0.7, expected 0.5
+  const pairs = [
+    ...repeat(['Yes', 'Yes'], 20),
+    ...repeat(['Yes', 'No'], 5),
+    ...repeat(['No', 'Yes'], 10),
+    ...repeat(['No', 'No'], 15),
+  ];
+  assert.ok(Math.abs(cohensKappa(pairs)! - 0.4) < 1e-9);
+});
+
+test('cohensKappa is 1 for perfect agreement and negative below chance', () => {
+  assert.equal(cohensKappa([['High', 'High'], ['Low', 'Low']]), 1);
+  assert.equal(cohensKappa([['High', 'Low'], ['Low', 'High']]), -1);
+});
+
+test('cohensKappa is undefined without songs or with a single shared value', () => {
+  assert.equal(cohensKappa([]), null);
+  assert.equal(cohensKappa([['Clean', 'Clean'], ['Clean', 'Clean']]), null);
+});
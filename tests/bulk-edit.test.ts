@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planBulkEdit } from '../api/lib/bulk-edit.js';
+
+const proposal = (value: string) => ({ value, confidence: 0.6, promptId: null, proposedAt: '2026-01-01T00:00:00.000Z' });
+
+function song(overrides: Record<string, any> = {}) {
+  return {
+    isrc: 'A1',
+    artist: 'Artist',
+    title: 'Title',
+    aiEnergy: 'Low',
+    aiAccessibility: 'Eclectic',
+    aiSubgenre1: 'House',
+    aiSubgenre2: null,
+    aiSubgenre3: null,
+    curatorNotes: null,
+    lockedFields: [],
+    aiProposed: null,
+    ...overrides,
+  };
+}
+
+test('planBulkEdit locks edited fields and drops their proposals', () => {
+  const plan = planBulkEdit(
+    song({ lockedFields: ['ai_accessibility'], aiProposed: { ai_energy: proposal('Medium'), ai_accessibility: proposal('Timeless') } }),
+    { ai_energy: 'High' }
+  );
+
+  assert.equal(plan.status, 'updated');
+  assert.deepEqual(plan.changes, [{ field: 'ai_energy', old_value: 'Low', new_value: 'High' }]);
+  assert.deepEqual(plan.data.lockedFields, ['ai_accessibility', 'ai_energy']);
+  assert.deepEqual(plan.data.aiProposed, { ai_accessibility: proposal('Timeless') });
+});
+
+test('planBulkEdit reports songs the update would not change', () => {
+  const plan = planBulkEdit(song(), { ai_energy: 'Low', subgenre: { action: 'add', value: 'House' } });
+
+  assert.equal(plan.status, 'unchanged');
+  assert.deepEqual(plan.data, {});
+});
+
+test('planBulkEdit adds a subgenre to the first free slot and skips full songs', () => {
+  assert.equal(planBulkEdit(song(), { subgenre: { action: 'add', value: 'Disco' } }).data.aiSubgenre2, 'Disco');
+
+  const full = planBulkEdit(song({ aiSubgenre2: 'Techno', aiSubgenre3: 'Garage' }), { subgenre: { action: 'add', value: 'Disco' } });
+  assert.equal(full.status, 'skipped');
+});
+
+test('planBulkEdit replaces a subgenre like a migration and appends notes', () => {
+  const plan = planBulkEdit(
+    song({ aiSubgenre2: 'Deep House', curatorNotes: 'First note' }),
+    { subgenre: { action: 'replace', from: 'Deep House', to: 'House' }, append_notes: 'Merged' }
+  );
+
+  assert.equal(plan.data.aiSubgenre1, 'House');
+  assert.equal(plan.data.aiSubgenre2, null);
+  assert.equal(plan.data.curatorNotes, 'First note\nMerged');
+  assert.deepEqual(plan.data.lockedFields, ['ai_subgenre_2']);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyLyricsExplicit } from '../src/classifiers/lyrics-explicit-classifier.cjs';
+
+test('classifyLyricsExplicit flags strong profanity with the offending line', () => {
+  const result = classifyLyricsExplicit('We dance all night\nWhat the fuck is this');
+
+  assert.equal(result.classification, 'Explicit');
+  assert.equal(result.first_example, 'What the fuck is this');
+  assert.equal(result.matches[0].lineNumber, 2);
+});
+
+test('classifyLyricsExplicit scores milder terms as suggestive', () => {
+  assert.equal(classifyLyricsExplicit('Another shot of tequila\nWe got drunk and wasted on cocaine').classification, 'Suggestive');
+});
+
+test('classifyLyricsExplicit keeps a repeated chorus with one mild word clean', () => {
+  for (const line of ['Killing me softly with his song', 'Moby Dick is a whale', 'Hell is other people']) {
+    const chorus = [line, line, line, line].join('\n');
+    assert.equal(classifyLyricsExplicit(chorus).classification, 'Family Friendly', line);
+  }
+});
+
+test('classifyLyricsExplicit does not flag ambiguous words on their own', () => {
+  assert.equal(classifyLyricsExplicit('Moby Dick is a whale').classification, 'Family Friendly');
+  assert.equal(classifyLyricsExplicit('The cock crows at dawn').classification, 'Family Friendly');
+});
+
+test('classifyLyricsExplicit rejects empty lyrics', () => {
+  assert.throws(() => classifyLyricsExplicit('   '), /No lyrics/);
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Song, SongChange } from '@prisma/client';
+import { buildRevert } from '../api/lib/song-history.js';
+
+let nextId = 0;
+function change(changeSetId: string, field: string, oldValue: string | null, newValue: string | null): SongChange {
+  return {
+    id: String(++nextId),
+    songIsrc: 'A1',
+    changeSetId,
+    field,
+    oldValue,
+    newValue,
+    source: 'CURATOR',
+    context: null,
+    changedBy: null,
+    changedById: null,
+    createdAt: new Date(),
+  } as SongChange;
+}
+
+// Oldest first: import, curator edit, AI run
+const changes = [
+  change('import', 'ai_energy', null, 'Low'),
+  change('import', 'reviewed', null, 'false'),
+  change('edit', 'ai_energy', 'Low', 'Medium'),
+  change('edit', 'reviewed', 'false', 'true'),
+  change('ai', 'ai_energy', 'Medium', 'High'),
+  change('ai', 'ai_subgenre_1', null, 'House'),
+];
+
+test('buildRevert restores the fields changed after the change set', () => {
+  const song = { isrc: 'A1', aiEnergy: 'High', aiSubgenre1: 'House', reviewed: true } as unknown as Song;
+
+  assert.deepEqual(buildRevert(song, changes, 'edit'), {
+    data: { aiEnergy: 'Medium', aiSubgenre1: null },
+    fields: ['ai_energy', 'ai_subgenre_1'],
+  });
+  assert.deepEqual(buildRevert(song, changes, 'import'), {
+    data: { aiEnergy: 'Low', aiSubgenre1: null, reviewed: false },
+    fields: ['ai_energy', 'ai_subgenre_1', 'reviewed'],
+  });
+});
+
+test('buildRevert skips fields that already match and unknown change sets', () => {
+  const song = { isrc: 'A1', aiEnergy: 'Medium', aiSubgenre1: null, reviewed: true } as unknown as Song;
+
+  assert.deepEqual(buildRevert(song, changes, 'edit'), { data: {}, fields: [] });
+  assert.equal(buildRevert(song, changes, 'missing'), null);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import { mapProposedSubgenres, rewriteSong, validateMappings } from '../api/lib/subgenre-migration.js';
+
+const proposal = (value: string) => ({ value, confidence: 0.6, promptId: null, proposedAt: '2026-01-01T00:00:00.000Z' });
+
+test('validateMappings rejects self-maps, inactive targets, repeats and chains', () => {
+  const active = new Set(['House', 'Techno', 'Disco']);
+
+  assert.deepEqual(validateMappings([{ from: ' Deep House ', to: 'House' }], active), {
+    mappings: [{ from: 'Deep House', to: 'House' }],
+  });
+  assert.ok('error' in validateMappings([], active));
+  assert.ok('error' in validateMappings([{ from: 'House', to: 'House' }], active));
+  assert.ok('error' in validateMappings([{ from: 'Deep House', to: 'Garage' }], active));
+  assert.ok('error' in validateMappings([{ from: 'Deep House', to: 'House' }, { from: 'Deep House', to: 'Techno' }], active));
+  assert.ok('error' in validateMappings([{ from: 'Deep House', to: 'House' }, { from: 'House', to: 'Disco' }], active));
+});
+
+test('rewriteSong leaves songs without mapped subgenres alone', () => {
+  const song = { isrc: 'A1', aiSubgenre1: 'House', lockedFields: [] };
+  assert.equal(rewriteSong(song, new Map([['Disco', 'House']])), null);
+});
+
+test('rewriteSong drops repeats, keeping the higher confidence, and compacts the slots', () => {
+  const song = {
+    isrc: 'A1',
+    aiSubgenre1: 'A', aiSubgenre1Confidence: 0.5,
+    aiSubgenre2: 'B', aiSubgenre2Confidence: 0.9,
+    aiSubgenre3: 'C', aiSubgenre3Confidence: 0.7,
+    lockedFields: [],
+  };
+  const rewrite = rewriteSong(song, new Map([['B', 'A']]))!;
+
+  assert.deepEqual(rewrite.after, ['A', 'C', null]);
+  assert.equal(rewrite.deduplicated, 1);
+  assert.equal(rewrite.data.aiSubgenre1Confidence, 0.9);
+  assert.equal(rewrite.data.aiSubgenre2Confidence, 0.7);
+  assert.equal(rewrite.data.aiSubgenre3Confidence, null);
+});
+
+test('rewriteSong moves locks and proposals with their value', () => {
+  const song = {
+    isrc: 'A1',
+    aiSubgenre1: 'A',
+    aiSubgenre2: 'B',
+    aiSubgenre3: 'C',
+    lockedFields: ['ai_energy', 'ai_subgenre_3'],
+    aiProposed: { ai_energy: proposal('High'), ai_subgenre_3: proposal('D') },
+  };
+  const rewrite = rewriteSong(song, new Map([['B', 'A']]))!;
+
+  assert.deepEqual(rewrite.data.lockedFields, ['ai_energy', 'ai_subgenre_2']);
+  assert.deepEqual(rewrite.data.aiProposed, { ai_energy: proposal('High'), ai_subgenre_2: proposal('D') });
+});
+
+test('rewriteSong maps proposed subgenres and drops proposals that now match', () => {
+  const song = {
+    isrc: 'A1',
+    aiSubgenre1: 'A',
+    aiSubgenre2: 'B',
+    lockedFields: ['ai_subgenre_1', 'ai_subgenre_2'],
+    aiProposed: { ai_subgenre_1: proposal('B'), ai_subgenre_2: proposal('E') },
+  };
+
+  const mapped = rewriteSong(song, new Map([['E', 'F'], ['B', 'C']]))!;
+  assert.deepEqual(mapped.data.aiProposed, { ai_subgenre_1: proposal('C'), ai_subgenre_2: proposal('F') });
+
+  const moot = rewriteSong({ ...song, aiProposed: { ai_subgenre_2: proposal('B') } }, new Map([['B', 'C']]))!;
+  assert.equal(moot.data.aiProposed, Prisma.DbNull);
+});
+
+test('mapProposedSubgenres renames proposals in place and drops ones that now match', () => {
+  const song = {
+    aiSubgenre1: 'A',
+    aiSubgenre2: 'C',
+    aiProposed: { ai_energy: proposal('High'), ai_subgenre_1: proposal('B'), ai_subgenre_2: proposal('B') },
+  };
+
+  assert.deepEqual(mapProposedSubgenres(song, new Map([['B', 'D']])), {
+    ai_energy: proposal('High'),
+    ai_subgenre_1: proposal('D'),
+    ai_subgenre_2: proposal('D'),
+  });
+  assert.deepEqual(mapProposedSubgenres(song, new Map([['B', 'C']])), {
+    ai_energy: proposal('High'),
+    ai_subgenre_1: proposal('C'),
+  });
+  assert.equal(mapProposedSubgenres(song, new Map([['E', 'F']])), undefined);
+});